@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import * as db from './utils/db';
+import { AppProvider, useAppContext } from './AppContext';
+import type { ActivityLog, Role, User } from './types';
+
+type Context = ReturnType<typeof useAppContext>;
+type Action = (...args: unknown[]) => unknown;
+
+const DENIED = { success: false, message: '⛔ شما دسترسی لازم برای این عملیات را ندارید.' };
+
+const CASHIER_ROLE: Role = { id: 'cashier', name: 'صندوقدار', permissions: ['page:pos', 'pos:create_invoice'] };
+const CASHIER: User = { id: 'u-cashier', username: 'cashier', roleId: CASHIER_ROLE.id };
+const PRODUCT = { id: 'p1', name: 'کتاب', salePrice: 100, batches: [{ id: 'b1', lotNumber: 'L1', stock: 5, purchasePrice: 60, purchaseDate: '2024-01-01T00:00:00.000Z' }] };
+
+let context: Context;
+let root: Root;
+
+const Probe = () => {
+    context = useAppContext();
+    return null;
+};
+
+const call = async (name: keyof Context, ...args: unknown[]) => {
+    let result: unknown;
+    await act(async () => { result = await (context[name] as Action)(...args); });
+    return result;
+};
+
+const count = async (storeName: string) => (await db.getAll(storeName)).length;
+
+// Signed in as a staff user on an activated shop, offline so nothing reaches the server
+beforeAll(async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    await db.putItem(db.STORES.ROLES, CASHIER_ROLE);
+    await db.putItem(db.STORES.USERS, CASHIER);
+    await db.putItem(db.STORES.PRODUCTS, PRODUCT);
+    localStorage.setItem('kasebyar_user_identity', JSON.stringify({ id: 'owner-1', email: 'owner@example.com' }));
+    localStorage.setItem('kasebyar_staff_user', JSON.stringify(CASHIER));
+
+    // The first load settles on its own; actions are wrapped in act once it has
+    root = createRoot(document.createElement('div'));
+    root.render(<AppProvider><Probe /></AppProvider>);
+    await vi.waitFor(() => expect(context?.currentUser?.id).toBe(CASHIER.id), { timeout: 10000 });
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+afterAll(() => act(() => root.unmount()));
+
+describe('guarded actions for a cashier', () => {
+    it('runs the actions the role has', async () => {
+        expect(await call('addToCart', PRODUCT, 'product')).toMatchObject({ success: true });
+        expect(context.cart).toHaveLength(1);
+    });
+
+    it.each<[keyof Context, unknown[]]>([
+        ['addUser', [{ username: 'x', password: 'secret', roleId: 'cashier' }]],
+        ['updateRole', [{ ...CASHIER_ROLE, permissions: ['settings:manage_users'] }]],
+        ['addRole', [{ name: 'مدیر', permissions: [] }]],
+        ['syncNow', []],
+        ['restoreLegacyCloudBackup', []],
+        ['repairBalancesFromHistory', []],
+        ['deleteProduct', [PRODUCT.id]],
+        ['addProduct', [{ name: 'جدید', salePrice: 1 }, { lotNumber: 'L', stock: 1, purchasePrice: 1, purchaseDate: '2024-01-01' }]],
+        ['updateCartItemFinalPrice', [PRODUCT.id, 'product', 10]],
+        ['beginEditSale', ['inv-1']],
+        ['voidSale', ['inv-1', 'اشتباه']],
+        ['addUnreferencedReturn', [[], 'latest_batch', 'cashier', { destination: 'cash', currency: 'AFN', exchangeRate: 1 }]],
+        ['createSalesOrder', []],
+        ['addSalesOrderPrepayment', ['so-1', 100]],
+        ['closeSalesOrder', ['so-1']],
+        ['openShift', [0]],
+        ['addPurchaseInvoice', [{ items: [] }]],
+        ['moveInTransitItems', ['it-1', {}]],
+        ['processDepositTransaction', ['h1', 'deposit', 100, 'AFN', '']],
+    ])('denies %s', async (name, args) => {
+        expect(await call(name, ...args)).toEqual(DENIED);
+    });
+
+    it.each<[keyof Context, unknown[]]>([
+        ['addCustomerPayment', ['c1', 100, '']],
+        ['addSupplierPayment', ['s1', 100, '']],
+        ['addInTransitPayment', ['it-1', 100, '']],
+    ])('denies %s without recording a payment', async (name, args) => {
+        expect(await call(name, ...args)).toBeNull();
+        expect(await count(db.STORES.CUSTOMER_TX) + await count(db.STORES.SUPPLIER_TX)).toBe(0);
+    });
+
+    it('leaves settings, services, parties and expenses untouched', async () => {
+        const storeName = context.storeSettings.storeName;
+        await call('updateSettings', { ...context.storeSettings, storeName: 'تغییر یافته' });
+        await call('addService', { name: 'صحافی', price: 10 });
+        await call('addCustomer', { name: 'مشتری', phone: '' });
+        await call('addExpense', { category: 'rent', amount: 10, date: new Date().toISOString(), description: '' });
+
+        expect(context.storeSettings.storeName).toBe(storeName);
+        expect(await count(db.STORES.SETTINGS)).toBe(0);
+        expect(await count(db.STORES.SERVICES)).toBe(0);
+        expect(await count(db.STORES.CUSTOMERS)).toBe(0);
+        expect(await count(db.STORES.EXPENSES)).toBe(0);
+    });
+
+    it('rejects reads the role may not see', async () => {
+        await act(async () => {
+            await expect(context.getAuditLog(new Date(0), new Date())).rejects.toBe(DENIED.message);
+            await expect(context.getShopDevices()).rejects.toBe(DENIED.message);
+        });
+    });
+
+    it('keeps the product and logs each attempt', async () => {
+        expect(await count(db.STORES.PRODUCTS)).toBe(1);
+        const attempts = (await db.getAll<ActivityLog>(db.STORES.ACTIVITY)).filter(a => a.type === 'permission');
+        expect(attempts.length).toBeGreaterThanOrEqual(19);
+        expect(attempts.some(a => a.description.includes('voidSale'))).toBe(true);
+    });
+});
@@ -4,34 +4,83 @@ import type {
     Product, ProductBatch, SaleInvoice, PurchaseInvoice, InTransitInvoice, PurchaseInvoiceItem, InvoiceItem,
     Customer, Supplier, Employee, Expense, Service, StoreSettings, CartItem,
     CustomerTransaction, SupplierTransaction, PayrollTransaction, ActivityLog,
-    User, Role, Permission, AppState, DepositHolder, DepositTransaction
+    User, Role, RoleLimits, Permission, AppState, SaleApproval, SupervisorCredentials, SalePayment, SalePaymentRequest, DepositHolder, DepositTransaction, JournalEntry, IntegrityReport, SyncStatus, AuditEntry, ParkedCart, Shift, CurrencyAmounts, PriceList, Promotion, Quotation, SalesOrder, BalanceSnapshot, SaleTender, TenderKind,
+    StoreCreditVoucher, ReturnRefundRequest, ReturnCostBasis, UnreferencedReturnLine, LedgerPartyType
 } from './types';
 import { api } from './services/supabaseService';
+import type { ShopDevice, DeviceStatus, ExpenseWrite, PurchaseWrite, DepositWrite, PartyTransactions, SaleVoidSource, SaleVoidWrite, StockChange, BalanceChange, VoucherSpend } from './services/supabaseService';
+import { syncOnce, startSyncWorker, resetSyncCursor, createSupabaseTransport, type SyncResult } from './services/syncService';
+import {
+    journalForSale, journalForSaleReturn, journalForSaleVoid, journalForPurchase, journalForPartyPayment, journalForOpeningBalance,
+    journalForEmployeeAdvance, journalForPayroll, journalForDeposit, journalForExpense,
+    journalForBalanceAdjustment, buildOpeningEntries, estimateCashFromHistory, derivePartyBalances, applyLedgerBalances,
+    saleSettlements, toBaseAmount, fromBaseAmount, balanceChange, type SaleSettlement
+} from './utils/ledger';
+import { runIntegrityCheck } from './utils/integrity';
+import { summarizeShift, type ShiftSummary } from './utils/shifts';
+import { priceListsFor, priceCartLine, isWithinValidity } from './utils/pricing';
+import { applyPromotions, lineTotalBase } from './utils/promotions';
+import { applyTax, cartTotals } from './utils/tax';
+import { setAuditActor, type AuditProblem } from './utils/audit';
+import { DB_VERSION, countOutbox, getSyncState, type PageCursor } from './utils/db';
+import { getDeviceId, getDeviceName, setDeviceName } from './utils/device';
+import { getLockoutRemaining, recordFailedAttempt, clearFailedAttempts } from './utils/passwords';
 import { supabase } from './utils/supabaseClient';
+import { formatCurrency } from './utils/formatters';
+import { permissionsFor, settingsFieldPermission, discountPercent, isWithinEditWindow, type GuardedAction } from './utils/permissions';
 
 interface AppContextType extends AppState {
     showToast: (message: string) => void;
     isLoading: boolean;
     isLoggingOut: boolean;
     isShopActive: boolean;
+
+    // Windowed data: older invoices, transactions and activity pages are read from IndexedDB on demand
+    hasOlderInvoices: boolean;
+    hasOlderActivities: boolean;
+    ensureInvoicesSince: (date: Date) => Promise<void>;
+    loadOlderActivities: () => Promise<void>;
+    getSaleInvoice: (id: string) => Promise<SaleInvoice | undefined>;
+    getPurchaseInvoice: (id: string) => Promise<PurchaseInvoice | undefined>;
+    getPartyTransactions: <P extends LedgerPartyType>(partyType: P, partyId: string) => Promise<PartyTransactions[P][]>;
     
     // Auth
-    login: (identifier: string, password: string, type: 'admin' | 'staff') => Promise<{ success: boolean; message: string; pending?: boolean; locked?: boolean }>;
+    login: (identifier: string, password: string, type: 'admin' | 'staff') => Promise<{ success: boolean; message: string; pending?: boolean; devicePending?: boolean; locked?: boolean }>;
     signup: (email: string, password: string) => Promise<{ success: boolean; message: string }>;
     logout: (type: 'full' | 'switch') => Promise<{ success: boolean; message: string }>;
+    switchUserWithPin: (userId: string, pin: string) => Promise<{ success: boolean; message: string }>;
     hasPermission: (permission: Permission) => boolean;
+    roleLimits: RoleLimits;
     
     // Backup & Restore
     exportData: () => void;
     importData: (file: File) => void;
-    cloudBackup: (isSilent?: boolean) => Promise<boolean>;
-    cloudRestore: () => Promise<boolean>;
-    autoBackupEnabled: boolean;
-    setAutoBackupEnabled: (enabled: boolean) => void;
+
+    // Cloud Sync
+    syncStatus: SyncStatus;
+    syncNow: () => Promise<{ success: boolean; message: string }>;
+    resyncFromCloud: () => Promise<{ success: boolean; message: string }>;
+    restoreLegacyCloudBackup: () => Promise<{ success: boolean; message: string }>;
+    autoSyncEnabled: boolean;
+    setAutoSyncEnabled: (enabled: boolean) => void;
+
+    // Shop Devices
+    currentDeviceId: string;
+    getShopDevices: () => Promise<ShopDevice[]>;
+    setDeviceStatus: (deviceId: string, status: DeviceStatus) => Promise<{ success: boolean; message: string }>;
+    renameDevice: (deviceId: string, name: string) => Promise<{ success: boolean; message: string }>;
+
+    // Audit Log
+    getAuditLog: (start: Date, end: Date) => Promise<AuditEntry[]>;
+    verifyAuditLog: () => Promise<{ checked: number; problems: AuditProblem[] }>;
+
+    // Data Integrity
+    checkDataIntegrity: () => Promise<IntegrityReport>;
+    repairBalancesFromHistory: (report: IntegrityReport) => Promise<{ success: boolean; message: string }>;
 
     // Users & Roles
-    addUser: (user: Omit<User, 'id'>) => Promise<{ success: boolean; message: string }>;
-    updateUser: (user: Partial<User> & { id: string }) => Promise<{ success: boolean; message: string }>;
+    addUser: (user: Omit<User, 'id' | 'passwordHash' | 'pinHash'> & { password: string; pin?: string }) => Promise<{ success: boolean; message: string }>;
+    updateUser: (user: Partial<Omit<User, 'passwordHash' | 'pinHash'>> & { id: string; password?: string; pin?: string | null }) => Promise<{ success: boolean; message: string }>;
     deleteUser: (userId: string) => Promise<void>;
     addRole: (role: Omit<Role, 'id'>) => Promise<{ success: boolean; message: string }>;
     updateRole: (role: Role) => Promise<{ success: boolean; message: string }>;
@@ -40,22 +89,48 @@ interface AppContextType extends AppState {
     // Inventory Actions
     addProduct: (product: Omit<Product, 'id' | 'batches'>, firstBatch: Omit<ProductBatch, 'id'>) => { success: boolean; message: string }; 
     updateProduct: (product: Product) => { success: boolean; message: string };
-    deleteProduct: (productId: string) => void;
+    deleteProduct: (productId: string) => Promise<{ success: boolean; message: string }>;
     
     // POS Actions
     addToCart: (itemToAdd: Product | Service, type: 'product' | 'service') => { success: boolean; message: string };
     updateCartItemQuantity: (itemId: string, itemType: 'product' | 'service', newQuantity: number) => { success: boolean; message: string };
-    updateCartItemFinalPrice: (itemId: string, itemType: 'product' | 'service', finalPrice: number) => void;
+    // Reprices the cart from the customer's price lists; call whenever the POS customer changes
+    setCartCustomer: (customerId?: string) => void;
+    updateCartItemFinalPrice: (itemId: string, itemType: 'product' | 'service', finalPrice: number) => { success: boolean; message: string };
     removeFromCart: (itemId: string, itemType: 'product' | 'service') => void;
-    completeSale: (cashier: string, customerId?: string, currency?: 'AFN'|'USD'|'IRT', exchangeRate?: number, supplierIntermediaryId?: string) => Promise<{ success: boolean; invoice?: SaleInvoice; message: string }>;
-    beginEditSale: (invoiceId: string) => { success: boolean; message: string; customerId?: string; supplierIntermediaryId?: string; };
+    // `approvalRequired` lists the breaches a supervisor must approve; pass the approval back to retry
+    completeSale: (cashier: string, customerId?: string, currency?: 'AFN'|'USD'|'IRT', exchangeRate?: number, supplierIntermediaryId?: string, approval?: SaleApproval, paymentRequest?: SalePaymentRequest) => Promise<{ success: boolean; invoice?: SaleInvoice; message: string; approvalRequired?: string[] }>;
+    beginEditSale: (invoiceId: string, approval?: SaleApproval) => { success: boolean; message: string; customerId?: string; supplierIntermediaryId?: string; approvalRequired?: string[] };
+    requestSupervisorApproval: (credentials: SupervisorCredentials, reason: string, violations: string[]) => Promise<{ success: boolean; message: string; approval?: SaleApproval }>;
     cancelEditSale: () => void;
-    addSaleReturn: (originalInvoiceId: string, returnItems: { id: string; type: 'product' | 'service'; quantity: number }[], cashier: string) => Promise<{ success: boolean, message: string }>;
+    parkCart: (name: string, details: Pick<ParkedCart, 'customerId' | 'supplierIntermediaryId' | 'currency' | 'exchangeRate'>) => Promise<{ success: boolean; message: string }>;
+    resumeParkedCart: (parkedCartId: string) => Promise<{ success: boolean; message: string; parkedCart?: ParkedCart }>;
+    discardParkedCart: (parkedCartId: string) => Promise<{ success: boolean; message: string }>;
+    // Quotations snapshot the cart without touching stock or balances; loading one puts it back in the cart for a normal sale
+    createQuotation: (details: Pick<Quotation, 'customerId' | 'customerName' | 'currency' | 'exchangeRate' | 'validUntil'>) => Promise<{ success: boolean; message: string; quotation?: Quotation }>;
+    loadQuotation: (quotationId: string) => Promise<{ success: boolean; message: string; quotation?: Quotation }>;
+    deleteQuotation: (quotationId: string) => Promise<{ success: boolean; message: string }>;
+    detachCartQuotation: () => void;
+    // Sales orders are taken from the cart; each delivery is invoiced on the customer's account against the prepayment
+    createSalesOrder: (details: Pick<SalesOrder, 'customerId' | 'currency' | 'exchangeRate' | 'notes'>) => Promise<{ success: boolean; message: string; order?: SalesOrder }>;
+    addSalesOrderPrepayment: (orderId: string, amount: number) => Promise<{ success: boolean; message: string }>;
+    deliverSalesOrder: (orderId: string, deliveries: { id: string; type: 'product' | 'service'; quantity: number }[]) => Promise<{ success: boolean; message: string; invoice?: SaleInvoice }>;
+    closeSalesOrder: (orderId: string) => Promise<{ success: boolean; message: string }>;
+    // The open shift on this device; sales, returns, payments and cash expenses are linked to it
+    currentShift: Shift | null;
+    openShift: (openingFloat: CurrencyAmounts) => Promise<{ success: boolean; message: string }>;
+    closeShift: (countedCash: CurrencyAmounts, notes?: string) => Promise<{ success: boolean; message: string; shift?: Shift }>;
+    getShiftSummary: (shift: Shift) => Promise<ShiftSummary>;
+    addSaleReturn: (originalInvoiceId: string, returnItems: { id: string; type: 'product' | 'service'; quantity: number }[], cashier: string, refund?: ReturnRefundRequest) => Promise<{ success: boolean, message: string }>;
+    addUnreferencedReturn: (lines: UnreferencedReturnLine[], costBasis: ReturnCostBasis, cashier: string, refund: ReturnRefundRequest, customerId?: string) => Promise<{ success: boolean, message: string }>;
+    voidSale: (invoiceId: string, reason: string) => Promise<{ success: boolean; message: string }>;
+    beginExchange: (originalInvoiceId: string, returnItems: { id: string; type: 'product' | 'service'; quantity: number }[]) => Promise<{ success: boolean; message: string }>;
+    cancelExchange: () => void;
     setInvoiceTransientCustomer: (invoiceId: string, customerName: string) => Promise<void>;
     
     // Purchase Actions
     addPurchaseInvoice: (invoiceData: Omit<PurchaseInvoice, 'id' | 'totalAmount' | 'items' | 'type' | 'originalInvoiceId'> & { items: Omit<PurchaseInvoiceItem, 'productName' | 'atFactoryQty' | 'inTransitQty' | 'receivedQty'>[], sourceInTransitId?: string, additionalCost?: number, costDescription?: string }) => Promise<{ success: boolean, message: string, invoice?: PurchaseInvoice }>;
-    beginEditPurchase: (invoiceId: string) => { success: boolean; message: string };
+    beginEditPurchase: (invoiceId: string, approval?: SaleApproval) => { success: boolean; message: string; approvalRequired?: string[] };
     cancelEditPurchase: () => void;
     updatePurchaseInvoice: (invoiceData: Omit<PurchaseInvoice, 'id' | 'totalAmount' | 'items' | 'type' | 'originalInvoiceId'> & { items: Omit<PurchaseInvoiceItem, 'productName' | 'atFactoryQty' | 'inTransitQty' | 'receivedQty'>[], additionalCost?: number, costDescription?: string }) => Promise<{ success: boolean, message: string }>;
     addPurchaseReturn: (originalInvoiceId: string, returnItems: { productId: string; lotNumber: string, quantity: number }[]) => Promise<{ success: boolean, message: string }>;
@@ -74,11 +149,19 @@ interface AppContextType extends AppState {
     // Services
     addService: (service: Omit<Service, 'id'>) => void;
     deleteService: (serviceId: string) => void;
+
+    // Price lists
+    savePriceList: (list: PriceList) => Promise<{ success: boolean; message: string }>;
+    deletePriceList: (listId: string) => Promise<{ success: boolean; message: string }>;
+
+    // Promotions
+    savePromotion: (promotion: Promotion) => Promise<{ success: boolean; message: string }>;
+    deletePromotion: (promotionId: string) => Promise<{ success: boolean; message: string }>;
     
     // Accounting
     addSupplier: (supplier: Omit<Supplier, 'id' | 'balance' | 'balanceAFN' | 'balanceUSD' | 'balanceIRT'>, initialBalance?: { amount: number, type: 'creditor' | 'debtor', currency: 'AFN' | 'USD' | 'IRT', exchangeRate?: number }) => void;
     deleteSupplier: (id: string) => void;
-    addSupplierPayment: (supplierId: string, amount: number, description: string, currency?: 'AFN' | 'USD' | 'IRT', exchangeRate?: number) => Promise<SupplierTransaction>;
+    addSupplierPayment: (supplierId: string, amount: number, description: string, currency?: 'AFN' | 'USD' | 'IRT', exchangeRate?: number) => Promise<SupplierTransaction | null>;
     
     addCustomer: (customer: Omit<Customer, 'id' | 'balance' | 'balanceAFN' | 'balanceUSD' | 'balanceIRT'>, initialBalance?: { amount: number, type: 'creditor' | 'debtor', currency: 'AFN' | 'USD' | 'IRT', exchangeRate?: number }) => void;
     deleteCustomer: (id: string) => void;
@@ -102,13 +185,43 @@ const AppContext = createContext<AppContextType | undefined>(undefined);
 
 const SYSTEM_SUPER_OWNER_ID = 'system-super-owner';
 
-const getDeviceId = () => {
-    let id = localStorage.getItem('kasebyar_device_id');
-    if (!id) {
-        id = crypto.randomUUID();
-        localStorage.setItem('kasebyar_device_id', id);
-    }
-    return id;
+const displayNameOf = (user: User) => user.roleId === SYSTEM_SUPER_OWNER_ID ? 'صاحب فروشگاه' : user.username;
+
+// Devices check in this often; a revoked device is locked out on its next check-in
+const DEVICE_HEARTBEAT_MS = 5 * 60 * 1000;
+
+const PIN_PATTERN = /^\d{4,6}$/;
+
+const lockoutMessage = (ms: number) => `⛔ به دلیل تلاش‌های ناموفق، ورود این کاربر تا ${Math.ceil(ms / 60000)} دقیقه دیگر ممکن نیست.`;
+
+const PERMISSION_DENIED_MESSAGE = '⛔ شما دسترسی لازم برای این عملیات را ندارید.';
+
+// What a guarded action returns when it is refused, matched to the action's own return type
+const denied = () => ({ success: false, message: PERMISSION_DENIED_MESSAGE });
+const deniedAsync = () => Promise.resolve(denied());
+const ignore = () => undefined;
+const ignoreAsync = () => Promise.resolve();
+const nullAsync = () => Promise.resolve(null);
+const rejectAsync = () => Promise.reject(PERMISSION_DENIED_MESSAGE);
+
+// The session copy of a user carries no credential hashes
+const toSessionUser = ({ passwordHash, pinHash, ...user }: User): User => user;
+
+// Backups hold no passwords; users this device did not know before the restore need a new one
+const restoredMessage = (message: string, withoutPassword: number) =>
+    withoutPassword > 0 ? `${message} رمز عبور ${withoutPassword} کاربر باید از بخش کاربران دوباره تعیین شود.` : message;
+
+const getOwnerId = (): string | null => {
+    try {
+        const owner = JSON.parse(localStorage.getItem('kasebyar_user_identity') || 'null');
+        return owner?.id || null;
+    } catch (e) { return null; }
+};
+
+// Changes are synced under the shop owner's account, whichever staff member made them
+const getSyncTransport = () => {
+    const ownerId = getOwnerId();
+    return ownerId ? createSupabaseTransport(supabase, ownerId) : null;
 };
 
 const getDefaultState = (): AppState => {
@@ -127,8 +240,8 @@ const getDefaultState = (): AppState => {
             },
             expenseCategories: ['rent', 'utilities', 'supplies', 'salary', 'other']
         },
-        cart: [], customerTransactions: [], supplierTransactions: [], payrollTransactions: [],
-        activities: [], saleInvoiceCounter: 0, editingSaleInvoiceId: null, editingPurchaseInvoiceId: null,
+        cart: [], parkedCarts: [], shifts: [], priceLists: [], promotions: [], cartPromotions: [], quotations: [], cartQuotationId: null, cartExchange: null, salesOrders: [], storeCreditVouchers: [], customerTransactions: [], supplierTransactions: [], payrollTransactions: [],
+        activities: [], journalEntries: [], saleInvoiceCounter: 0, editingSaleInvoiceId: null, editingPurchaseInvoiceId: null,
         isAuthenticated: false, currentUser: null,
         users: [],
         roles: [],
@@ -150,12 +263,78 @@ const generateNextId = (prefix: string, ids: string[]): string => {
     return `${prefix}${max + 1}`;
 };
 
+// Takes a product line's quantity from its batches oldest first, as the sale will, and costs it accordingly
+const allocateBatches = (cartItem: CartItem, products: Product[]): CartItem => {
+    if (cartItem.type !== 'product') return cartItem;
+    const product = products.find(p => p.id === cartItem.id);
+    if (!product) return cartItem;
+    let remaining = cartItem.quantity;
+    const deductions: { batchId: string, quantity: number }[] = [];
+    const sortedBatches = [...product.batches].sort((a,b) => new Date(a.purchaseDate).getTime() - new Date(b.purchaseDate).getTime());
+
+    for (const b of sortedBatches) {
+        if (remaining <= 0) break;
+        const deduct = Math.min(b.stock, remaining);
+        if (deduct > 0) {
+            deductions.push({ batchId: b.id, quantity: deduct });
+            remaining -= deduct;
+        }
+    }
+    const totalCost = deductions.reduce((s, d) => s + (d.quantity * (product.batches.find(bx => bx.id === d.batchId)?.purchasePrice || 0)), 0);
+    return { ...cartItem, batchDeductions: deductions, purchasePrice: deductions.length > 0 ? totalCost / cartItem.quantity : 0 };
+};
+
+// Sale and purchase invoices newer than this are kept in memory; older ones are paged in by the screens that need them
+const INVOICE_WINDOW_DAYS = 90;
+
+const daysBefore = (from: string | Date, days: number): string => {
+    const date = new Date(from);
+    date.setDate(date.getDate() - days);
+    return date.toISOString();
+};
+
+// Replaces records with the same id and puts new ones first
+const upsertById = <T extends { id: string }>(list: T[], items: T[] = []): T[] => {
+    if (items.length === 0) return list;
+    const ids = new Set(items.map(i => i.id));
+    return [...items, ...list.filter(i => !ids.has(i.id))];
+};
+
+const upsertInvoices = <T extends { id: string; timestamp: string }>(list: T[], items: T[] = []): T[] =>
+    items.length === 0 ? list : upsertById(list, items).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+// Stored settings may predate the multi-currency fields; missing ones keep their current values
+const mergeSettings = (current: StoreSettings, loaded: Partial<StoreSettings>): StoreSettings => {
+    if (!loaded.storeName) return current;
+    const merged = { ...current, ...loaded };
+    if (!merged.currencyConfigs) merged.currencyConfigs = current.currencyConfigs;
+    if (!merged.baseCurrency) merged.baseCurrency = current.baseCurrency;
+    if (!merged.expenseCategories || merged.expenseCategories.length === 0) merged.expenseCategories = current.expenseCategories;
+    return merged;
+};
+
+// After a write only the touched slices are re-read; records the caller already holds are merged in place
+type DataSlice = 'products' | 'entities' | 'transactions' | 'inTransit' | 'services' | 'settings' | 'users';
+
+interface StateWrite {
+    reload?: DataSlice[];
+    upsert?: Partial<Pick<AppState, 'saleInvoices' | 'purchaseInvoices' | 'inTransitInvoices' | 'expenses' | 'customerTransactions' | 'supplierTransactions' | 'payrollTransactions' | 'depositTransactions'>>;
+    journal?: JournalEntry[];
+    removeJournalRefs?: string[];
+}
+
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [state, setState] = useState<AppState>(getDefaultState());
     const [isLoading, setIsLoading] = useState(true);
     const [isLoggingOut, setIsLoggingOut] = useState(false);
     const [isShopActive, setIsShopActive] = useState(() => localStorage.getItem('kasebyar_shop_active') === 'true');
-    const [autoBackupEnabled, setAutoBackupEnabled] = useState(() => localStorage.getItem('kasebyar_auto_backup') === 'true');
+    const [autoSyncEnabled, setAutoSyncEnabledState] = useState(() => localStorage.getItem('kasebyar_auto_sync') === 'true');
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>({ isSyncing: false, pending: 0, lastSyncedAt: null, error: null });
+    const [hasOlderInvoices, setHasOlderInvoices] = useState(false);
+    const [hasOlderActivities, setHasOlderActivities] = useState(false);
+    const invoiceWindowStart = useRef('');
+    const journalWindowStart = useRef('');
+    const activityCursor = useRef<PageCursor | null>(null);
 
     const showToast = useCallback((message: string) => {
         console.log("Toast:", message);
@@ -164,18 +343,46 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const fetchData = useCallback(async (isSilent = false) => {
         if (!isSilent) setIsLoading(true);
         try {
-            const [settings, users, roles, products, services, entities, transactions, invoices, activity] = await Promise.all([
+            // A reload keeps any window the user has already widened
+            if (!invoiceWindowStart.current) invoiceWindowStart.current = daysBefore(new Date(), INVOICE_WINDOW_DAYS);
+            const since = invoiceWindowStart.current;
+            // Users synced from, or left behind by, versions before hashing still hold plaintext passwords
+            await api.upgradeLegacyPasswords().catch(() => 0);
+            const [settings, users, roles, products, services, entities, transactions, invoices, activity, journal, olderInvoices, parkedCarts, shifts, priceLists, promotions, quotations, salesOrders, storeCreditVouchers] = await Promise.all([
                 api.getSettings().catch(() => ({})),
                 api.getUsers().catch(() => []),
                 api.getRoles().catch(() => []),
                 api.getProducts().catch(() => []),
                 api.getServices().catch(() => []),
                 api.getEntities().catch(() => ({ customers: [], suppliers: [], employees: [], expenses: [], depositHolders: [] })),
-                api.getTransactions().catch(() => ({ customerTransactions: [], supplierTransactions: [], payrollTransactions: [], depositTransactions: [] })),
-                api.getInvoices().catch(() => ({ saleInvoices: [], purchaseInvoices: [], inTransitInvoices: [] })),
-                api.getActivities().catch(() => [])
+                api.getTransactions(since).catch(() => ({ customerTransactions: [], supplierTransactions: [], payrollTransactions: [], depositTransactions: [] })),
+                api.getInvoices(since).catch(() => ({ saleInvoices: [], purchaseInvoices: [], inTransitInvoices: [] })),
+                api.getActivities().catch(() => ({ items: [] as ActivityLog[], next: null })),
+                api.getJournal(since).catch(() => [] as JournalEntry[]),
+                api.hasInvoicesBefore(since).catch(() => false),
+                api.getParkedCarts().catch(() => [] as ParkedCart[]),
+                api.getShifts().catch(() => [] as Shift[]),
+                api.getPriceLists().catch(() => [] as PriceList[]),
+                api.getPromotions().catch(() => [] as Promotion[]),
+                api.getQuotations().catch(() => [] as Quotation[]),
+                api.getSalesOrders().catch(() => [] as SalesOrder[]),
+                api.getStoreCreditVouchers().catch(() => [] as StoreCreditVoucher[])
             ]);
 
+            // Balances are derived from the journal; shops upgrading from stored balances get an opening entry first
+            const ledgerSettings = { ...getDefaultState().storeSettings, ...(settings as Partial<StoreSettings>) };
+            const opening = await api.ensureOpeningJournal(async () => {
+                // The cash estimate needs every sale and payment ever made, not only the loaded window
+                const [{ saleInvoices }, history] = await Promise.all([api.getInvoices(), api.getTransactions()]);
+                return buildOpeningEntries({
+                    ...entities, products,
+                    cashInHand: estimateCashFromHistory({ ...history, saleInvoices, expenses: entities.expenses }, ledgerSettings)
+                }, ledgerSettings);
+            }).catch(() => [] as JournalEntry[]);
+            const journalEntries = [...opening, ...journal];
+            const partyBalances = derivePartyBalances(journalEntries);
+            journalWindowStart.current = since;
+
             const isSessionLocked = localStorage.getItem('kasebyar_session_locked') === 'true';
             const cachedOwner = localStorage.getItem('kasebyar_user_identity');
             let ownerIdentity = null;
@@ -196,7 +403,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                     try {
                         const parsedStaff = JSON.parse(localStaff) as User;
                         const dbUser = users.find(u => u.id === parsedStaff.id);
-                        if (dbUser) { isAuth = true; restoredUser = dbUser; }
+                        if (dbUser) { isAuth = true; restoredUser = toSessionUser(dbUser); }
                     } catch(e) {}
                 }
                 if (!restoredUser && ownerIdentity) {
@@ -207,7 +414,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                     const { data: { session } } = await supabase.auth.getSession();
                     if (session?.user) {
                         const profile = await api.getProfile(session.user.id);
-                        if (profile?.is_approved) {
+                        const deviceStatus = profile?.is_approved ? await api.checkInDevice(session.user.id, getDeviceId(), getDeviceName()) : null;
+                        if (profile?.is_approved && deviceStatus === 'approved') {
                             localStorage.setItem('kasebyar_user_identity', JSON.stringify(profile));
                             isAuth = true;
                             restoredUser = { id: session.user.id, username: session.user.email || 'Owner', roleId: SYSTEM_SUPER_OWNER_ID };
@@ -218,35 +426,31 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 }
             }
 
-            setState(prev => {
-                const mergedSettings = (settings as StoreSettings).storeName ? { ...prev.storeSettings, ...settings } : prev.storeSettings;
-                
-                // Ensure currencyConfigs exists for backward compatibility
-                if (!mergedSettings.currencyConfigs) {
-                    mergedSettings.currencyConfigs = prev.storeSettings.currencyConfigs;
-                }
-                if (!mergedSettings.baseCurrency) {
-                    mergedSettings.baseCurrency = prev.storeSettings.baseCurrency;
-                }
-                if (!mergedSettings.expenseCategories || mergedSettings.expenseCategories.length === 0) {
-                    mergedSettings.expenseCategories = prev.storeSettings.expenseCategories;
-                }
+            activityCursor.current = activity.next;
+            setHasOlderActivities(!!activity.next);
+            setHasOlderInvoices(olderInvoices);
 
+            setState(prev => {
                 return {
                     ...prev,
-                    storeSettings: mergedSettings,
+                    storeSettings: mergeSettings(prev.storeSettings, settings as Partial<StoreSettings>),
                     users,
                     roles: roles.length > 0 ? roles : [{ id: 'admin-role', name: 'Admin', permissions: ['page:dashboard', 'page:inventory', 'page:pos', 'page:purchases', 'page:accounting', 'page:reports', 'page:settings', 'page:in_transit', 'page:deposits'] }],
-                    products, services, customers: entities.customers, suppliers: entities.suppliers,
-                    employees: entities.employees, expenses: entities.expenses,
-                    depositHolders: entities.depositHolders, depositTransactions: transactions.depositTransactions,
+                    products, services, parkedCarts, shifts, priceLists, promotions, quotations, salesOrders, storeCreditVouchers,
+                    customers: applyLedgerBalances(entities.customers, 'customer', partyBalances),
+                    suppliers: applyLedgerBalances(entities.suppliers, 'supplier', partyBalances),
+                    employees: applyLedgerBalances(entities.employees, 'employee', partyBalances),
+                    expenses: entities.expenses,
+                    depositHolders: applyLedgerBalances(entities.depositHolders, 'depositHolder', partyBalances),
+                    depositTransactions: transactions.depositTransactions,
                     customerTransactions: transactions.customerTransactions,
                     supplierTransactions: transactions.supplierTransactions,
                     payrollTransactions: transactions.payrollTransactions,
                     saleInvoices: invoices.saleInvoices, 
                     purchaseInvoices: invoices.purchaseInvoices,
                     inTransitInvoices: invoices.inTransitInvoices,
-                    activities: activity,
+                    activities: activity.items,
+                    journalEntries,
                     isAuthenticated: isAuth,
                     currentUser: restoredUser
                 };
@@ -261,15 +465,116 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     useEffect(() => { fetchData(); }, [fetchData]);
 
+    const applyWrite = useCallback(async ({ reload = [], upsert = {}, journal = [], removeJournalRefs = [] }: StateWrite) => {
+        const has = (slice: DataSlice) => reload.includes(slice);
+        // Lines behind the loaded journal are part of the carried-forward totals; replacing them here would count them twice
+        const reloadJournal = removeJournalRefs.length > 0 || journal.some(e => e.date < journalWindowStart.current);
+        const [settings, users, roles, products, services, entities, transactions, inTransitInvoices, reloadedJournal] = await Promise.all([
+            has('settings') ? api.getSettings() : undefined,
+            has('users') ? api.getUsers() : undefined,
+            has('users') ? api.getRoles() : undefined,
+            has('products') ? api.getProducts() : undefined,
+            has('services') ? api.getServices() : undefined,
+            has('entities') ? api.getEntities() : undefined,
+            has('transactions') ? api.getTransactions(invoiceWindowStart.current) : undefined,
+            has('inTransit') ? api.getInTransitInvoices() : undefined,
+            reloadJournal ? api.getJournal(journalWindowStart.current) : undefined
+        ]);
+
+        setState(prev => {
+            // Journal lines are replaced per source document, mirroring what the service wrote
+            const replacedRefs = new Set([...removeJournalRefs, ...journal.map(e => e.refId)]);
+            const journalEntries = reloadedJournal || (replacedRefs.size > 0
+                ? [...prev.journalEntries.filter(e => !e.refId || !replacedRefs.has(e.refId)), ...journal]
+                : prev.journalEntries);
+            const partyBalances = derivePartyBalances(journalEntries);
+            const parties = entities || prev;
+            const txs = transactions || prev;
+
+            return {
+                ...prev,
+                storeSettings: settings ? mergeSettings(prev.storeSettings, settings) : prev.storeSettings,
+                users: users || prev.users,
+                roles: roles && roles.length > 0 ? roles : prev.roles,
+                products: products || prev.products,
+                services: services || prev.services,
+                customers: applyLedgerBalances(parties.customers, 'customer', partyBalances),
+                suppliers: applyLedgerBalances(parties.suppliers, 'supplier', partyBalances),
+                employees: applyLedgerBalances(parties.employees, 'employee', partyBalances),
+                depositHolders: applyLedgerBalances(parties.depositHolders, 'depositHolder', partyBalances),
+                expenses: upsertById(parties.expenses, upsert.expenses),
+                customerTransactions: upsertById(txs.customerTransactions, upsert.customerTransactions),
+                supplierTransactions: upsertById(txs.supplierTransactions, upsert.supplierTransactions),
+                payrollTransactions: upsertById(txs.payrollTransactions, upsert.payrollTransactions),
+                depositTransactions: upsertById(txs.depositTransactions, upsert.depositTransactions),
+                saleInvoices: upsertInvoices(prev.saleInvoices, upsert.saleInvoices),
+                purchaseInvoices: upsertInvoices(prev.purchaseInvoices, upsert.purchaseInvoices),
+                inTransitInvoices: upsertInvoices(inTransitInvoices || prev.inTransitInvoices, upsert.inTransitInvoices),
+                journalEntries
+            };
+        });
+    }, []);
+
+    // Widens the invoice window back to `date`; the ref moves first so overlapping calls never load a range twice
+    const ensureInvoicesSince = async (date: Date) => {
+        if (isNaN(date.getTime())) return;
+        const start = date.toISOString();
+        const end = invoiceWindowStart.current;
+        if (!end || start >= end) return;
+        invoiceWindowStart.current = start;
+        const [older, olderTransactions, stillOlder] = await Promise.all([api.getOlderInvoices(start, end), api.getTransactions(start, end), api.hasInvoicesBefore(start)]);
+        setState(prev => ({
+            ...prev,
+            saleInvoices: upsertInvoices(prev.saleInvoices, older.saleInvoices),
+            purchaseInvoices: upsertInvoices(prev.purchaseInvoices, older.purchaseInvoices),
+            customerTransactions: [...prev.customerTransactions, ...olderTransactions.customerTransactions],
+            supplierTransactions: [...prev.supplierTransactions, ...olderTransactions.supplierTransactions],
+            payrollTransactions: [...prev.payrollTransactions, ...olderTransactions.payrollTransactions],
+            depositTransactions: [...prev.depositTransactions, ...olderTransactions.depositTransactions]
+        }));
+        setHasOlderInvoices(stillOlder);
+    };
+
+
+    // Looks in the loaded window first and falls back to IndexedDB
+    const getSaleInvoice = async (id: string) => state.saleInvoices.find(i => i.id === id) || api.getSaleInvoice(id);
+    const getPurchaseInvoice = async (id: string) => state.purchaseInvoices.find(i => i.id === id) || api.getPurchaseInvoice(id);
+    const getPartyTransactions = <P extends LedgerPartyType>(partyType: P, partyId: string) => api.getPartyTransactions(partyType, partyId);
+
+    const loadOlderActivities = async () => {
+        const from = activityCursor.current;
+        if (!from) return;
+        activityCursor.current = null;
+        const page = await api.getActivities(from);
+        activityCursor.current = page.next;
+        setHasOlderActivities(!!page.next);
+        setState(prev => {
+            const loaded = new Set(prev.activities.map(a => a.id));
+            return { ...prev, activities: [...prev.activities, ...page.items.filter(a => !loaded.has(a.id))] };
+        });
+    };
+
+    // Audit entries are written by the local database, which takes the actor from here
+    useEffect(() => { setAuditActor(state.currentUser ? displayNameOf(state.currentUser) : ''); }, [state.currentUser]);
+
     const logActivity = useCallback(async (type: ActivityLog['type'], description: string, refId?: string, refType?: ActivityLog['refType']) => {
         if (!state.currentUser) return;
-        const displayName = state.currentUser.roleId === SYSTEM_SUPER_OWNER_ID ? 'صاحب فروشگاه' : state.currentUser.username;
-        const newActivity: ActivityLog = { id: crypto.randomUUID(), type, description, timestamp: new Date().toISOString(), user: displayName, refId, refType };
+        const newActivity: ActivityLog = { id: crypto.randomUUID(), type, description, timestamp: new Date().toISOString(), user: displayNameOf(state.currentUser), refId, refType, deviceId: getDeviceId() };
         setState(prev => ({ ...prev, activities: [newActivity, ...prev.activities] }));
         try { await api.addActivity(newActivity); } catch (e) {}
     }, [state.currentUser]);
 
-    const login = async (identifier: string, password: string, type: 'admin' | 'staff'): Promise<{ success: boolean; message: string; pending?: boolean; locked?: boolean }> => {
+    // Sign-ins happen before currentUser is set, so they are logged under the incoming user's name
+    const logSessionSwitch = async (username: string, method: string) => {
+        const newActivity: ActivityLog = {
+            id: crypto.randomUUID(), type: 'login', description: `ورود ${username} به صندوق (${method})`,
+            timestamp: new Date().toISOString(), user: username, deviceId: getDeviceId()
+        };
+        setState(prev => ({ ...prev, activities: [newActivity, ...prev.activities] }));
+        try { await api.addActivity(newActivity); } catch (e) {}
+    };
+
+    const login = async (identifier: string, password: string, type: 'admin' | 'staff'): Promise<{ success: boolean; message: string; pending?: boolean; devicePending?: boolean; locked?: boolean }> => {
         if (type === 'admin') {
             try {
                 const { data, error } = await supabase.auth.signInWithPassword({ email: identifier, password });
@@ -277,9 +582,11 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 const profile = await api.getProfile(data.user.id);
                 if (!profile) return { success: false, message: 'پروفایل یافت نشد.' };
                 if (!profile.is_approved) return { success: false, message: 'حساب در انتظار تایید است.', pending: true };
-                const deviceId = getDeviceId();
-                if (profile.current_device_id && profile.current_device_id !== deviceId) return { success: false, message: 'این حساب در دستگاه دیگری فعال است.', locked: true };
-                if (!profile.current_device_id) await api.updateProfile(data.user.id, { current_device_id: deviceId });
+                const deviceStatus = await api.checkInDevice(data.user.id, getDeviceId(), getDeviceName());
+                if (deviceStatus !== 'approved') await supabase.auth.signOut();
+                if (!deviceStatus) return { success: false, message: '❌ خطا در ثبت این دستگاه. اتصال را بررسی کنید.' };
+                if (deviceStatus === 'pending') return { success: false, message: 'این دستگاه در انتظار تایید مالک فروشگاه است.', devicePending: true };
+                if (deviceStatus === 'revoked') return { success: false, message: 'دسترسی این دستگاه توسط مالک فروشگاه لغو شده است.', locked: true };
                 localStorage.setItem('kasebyar_user_identity', JSON.stringify(profile));
                 localStorage.setItem('kasebyar_offline_auth', 'true');
                 localStorage.setItem('kasebyar_shop_active', 'true');
@@ -290,13 +597,20 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             } catch (e) { return { success: false, message: '❌ خطا در اتصال به سرور جهت تایید اولیه.' }; }
         } else {
             if (localStorage.getItem('kasebyar_shop_active') !== 'true') return { success: false, message: '❌ فروشگاه قفل است. مدیر باید ابتدا وارد شود.' };
+            const lockoutMs = getLockoutRemaining(identifier);
+            if (lockoutMs > 0) return { success: false, message: lockoutMessage(lockoutMs) };
             const user = await api.verifyStaffCredentials(identifier, password);
             if (user) {
-                localStorage.setItem('kasebyar_staff_user', JSON.stringify(user));
+                clearFailedAttempts(identifier);
+                localStorage.setItem('kasebyar_staff_user', JSON.stringify(toSessionUser(user)));
                 localStorage.setItem('kasebyar_session_locked', 'false');
                 await fetchData();
+                logSessionSwitch(user.username, 'رمز عبور');
                 return { success: true, message: `✅ خوش آمدید ${user.username}` };
-            } else return { success: false, message: 'نام کاربری یا رمز عبور اشتباه است.' };
+            }
+            const attemptsLeft = recordFailedAttempt(identifier);
+            if (attemptsLeft === 0) return { success: false, message: '⛔ تعداد تلاش‌های ناموفق زیاد بود. ورود این کاربر برای ۵ دقیقه قفل شد.' };
+            return { success: false, message: `نام کاربری یا رمز عبور اشتباه است. (${attemptsLeft} تلاش باقی‌مانده)` };
         }
     };
 
@@ -309,18 +623,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 return { success: false, message: '⚠️ خروج کامل نیاز به اینترنت دارد.' };
             }
             try {
-                const { data: { user } } = await supabase.auth.getUser();
-                if (user) {
-                    // Attempt to clear the session on the server first
-                    const success = await api.updateProfile(user.id, { current_device_id: null });
-                    if (!success) {
-                        setIsLoggingOut(false);
-                        return { success: false, message: '❌ خطا در آزادسازی نشست از سرور. مجدد تلاش کنید.' };
-                    }
-                }
+                // The device stays registered, so signing back in here needs no new approval
                 await supabase.auth.signOut();
                 
-                // Only clear local storage if server-side operations succeeded
+                // Only clear local storage if sign-out succeeded on the server
                 localStorage.removeItem('kasebyar_user_identity');
                 localStorage.removeItem('kasebyar_offline_auth');
                 localStorage.setItem('kasebyar_shop_active', 'false');
@@ -343,6 +649,50 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         return { success: true, message: type === 'full' ? '✅ خروج کامل و قفل فروشگاه انجام شد.' : '✅ نشست شما بسته شد. فروشگاه باز است.' };
     };
 
+    // Quick cashier handover: the shop is already open and its data loaded, so only the session changes
+    const switchUserWithPin = async (userId: string, pin: string) => {
+        if (localStorage.getItem('kasebyar_shop_active') !== 'true') return { success: false, message: '❌ فروشگاه قفل است. مدیر باید ابتدا وارد شود.' };
+        const target = state.users.find(u => u.id === userId);
+        if (!target) return { success: false, message: 'کاربر یافت نشد.' };
+        const lockoutMs = getLockoutRemaining(target.username);
+        if (lockoutMs > 0) return { success: false, message: lockoutMessage(lockoutMs) };
+        const user = await api.verifyStaffPin(userId, pin);
+        if (!user) {
+            const attemptsLeft = recordFailedAttempt(target.username);
+            if (attemptsLeft === 0) return { success: false, message: '⛔ تعداد تلاش‌های ناموفق زیاد بود. ورود این کاربر برای ۵ دقیقه قفل شد.' };
+            return { success: false, message: `رمز کوتاه اشتباه است. (${attemptsLeft} تلاش باقی‌مانده)` };
+        }
+        clearFailedAttempts(user.username);
+        const sessionUser = toSessionUser(user);
+        localStorage.setItem('kasebyar_staff_user', JSON.stringify(sessionUser));
+        localStorage.setItem('kasebyar_session_locked', 'false');
+        setState(prev => ({ ...prev, isAuthenticated: true, currentUser: sessionUser }));
+        logSessionSwitch(user.username, 'رمز کوتاه');
+        return { success: true, message: `✅ خوش آمدید ${user.username}` };
+    };
+
+    // Idle auto-lock: any input resets the timer; on expiry the session locks while the shop stays open
+    const idleLockMinutes = state.storeSettings.idleLockMinutes || 0;
+    useEffect(() => {
+        if (!state.isAuthenticated || idleLockMinutes <= 0) return;
+        let timer: ReturnType<typeof setTimeout>;
+        const lock = () => {
+            logActivity('login', `قفل خودکار صندوق پس از ${idleLockMinutes} دقیقه عدم فعالیت`);
+            logout('switch');
+        };
+        const reset = () => {
+            clearTimeout(timer);
+            timer = setTimeout(lock, idleLockMinutes * 60000);
+        };
+        const events = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'];
+        events.forEach(name => window.addEventListener(name, reset, { passive: true }));
+        reset();
+        return () => {
+            clearTimeout(timer);
+            events.forEach(name => window.removeEventListener(name, reset));
+        };
+    }, [state.isAuthenticated, idleLockMinutes, logActivity]);
+
     const hasPermission = useCallback((permission: Permission): boolean => {
         if (!state.currentUser) return false;
         if (state.currentUser.roleId === SYSTEM_SUPER_OWNER_ID) return true;
@@ -351,20 +701,87 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         return userRole.permissions.includes(permission);
     }, [state.currentUser, state.roles]);
 
-    const addUser = async (userData: Omit<User, 'id'>) => {
+    // The shop owner has no limits; any other role has only the limits set on it
+    const roleLimits: RoleLimits = !state.currentUser || state.currentUser.roleId === SYSTEM_SUPER_OWNER_ID
+        ? {}
+        : state.roles.find(r => r.id === state.currentUser!.roleId)?.limits || {};
+
+    // --- Supervisor approvals: only approvals issued here are honoured, and each is spent once ---
+    const issuedApprovals = useRef(new Map<string, SaleApproval>());
+    const editApprovals = useRef<SaleApproval[]>([]);
+    const purchaseEditApprovals = useRef<SaleApproval[]>([]);
+
+    const requestSupervisorApproval = async (credentials: SupervisorCredentials, reason: string, violations: string[]) => {
+        if (!reason.trim()) return { success: false, message: 'دلیل تأیید را وارد کنید.' };
+        const username = credentials.method === 'pin' ? state.users.find(u => u.id === credentials.userId)?.username : credentials.username;
+        if (!username) return { success: false, message: 'کاربر یافت نشد.' };
+        const lockoutMs = getLockoutRemaining(username);
+        if (lockoutMs > 0) return { success: false, message: lockoutMessage(lockoutMs) };
+        const supervisor = credentials.method === 'pin'
+            ? await api.verifyStaffPin(credentials.userId, credentials.pin)
+            : await api.verifyStaffCredentials(credentials.username, credentials.password);
+        if (!supervisor) {
+            recordFailedAttempt(username);
+            return { success: false, message: 'اطلاعات ورود مدیر نادرست است.' };
+        }
+        clearFailedAttempts(username);
+        if (supervisor.id === state.currentUser?.id) return { success: false, message: 'تأیید باید توسط شخص دیگری انجام شود.' };
+        const role = state.roles.find(r => r.id === supervisor.roleId);
+        if (!role?.permissions.includes('pos:approve_override')) return { success: false, message: `«${supervisor.username}» مجوز تأیید استثنا را ندارد.` };
+        const approval: SaleApproval = {
+            id: crypto.randomUUID(), approverId: supervisor.id, approverName: supervisor.username, method: credentials.method,
+            reason: reason.trim(), violations, approvedAt: new Date().toISOString()
+        };
+        issuedApprovals.current.set(approval.id, approval);
+        return { success: true, message: `✅ تأیید ${supervisor.username} ثبت شد.`, approval };
+    };
+
+    // An approval covers a retry only if it was shown every breach the retry still has
+    const redeemApproval = (approval: SaleApproval | undefined, violations: string[]) => {
+        const issued = approval && issuedApprovals.current.get(approval.id);
+        if (!issued || !violations.every(v => issued.violations.includes(v))) return null;
+        issuedApprovals.current.delete(issued.id);
+        return issued;
+    };
+
+    const editWindowMessage = () => `ویرایش فاکتورهای قدیمی‌تر از ${roleLimits.editWindowDays} روز برای نقش شما مجاز نیست.`;
+
+    // --- Guarded actions: every mutation exposed by the context checks ACTION_PERMISSIONS before it runs ---
+    const reportDenied = (action: string, permissions: readonly string[]) => {
+        logActivity('permission', `تلاش بدون دسترسی برای «${action}» (نیاز به ${permissions.join(' یا ')})`);
+    };
+
+    // For conditions inside an action, e.g. a discount within a sale
+    const lacksPermission = (permission: Permission, action: string) => {
+        if (hasPermission(permission)) return false;
+        reportDenied(action, [permission]);
+        return true;
+    };
+
+    const guard = <A extends unknown[], R>(action: GuardedAction, fn: (...args: A) => R, onDenied: () => R) => (...args: A): R => {
+        const required = permissionsFor(action);
+        if (required.some(hasPermission)) return fn(...args);
+        reportDenied(action, required);
+        return onDenied();
+    };
+
+    const addUser = async (userData: Omit<User, 'id' | 'passwordHash' | 'pinHash'> & { password: string; pin?: string }) => {
+        if (userData.pin && !PIN_PATTERN.test(userData.pin)) return { success: false, message: 'رمز کوتاه باید ۴ تا ۶ رقم باشد.' };
         const newUser = await api.addUser(userData);
         setState(prev => ({ ...prev, users: [...prev.users, newUser] }));
         logActivity('login', `کاربر جدید اضافه شد: ${userData.username}`);
         return { success: true, message: '✅ کاربر اضافه شد.' };
     };
 
-    const updateUser = async (userData: Partial<User> & { id: string }) => {
-        await api.updateUser(userData);
+    const updateUser = async (userData: Partial<Omit<User, 'passwordHash' | 'pinHash'>> & { id: string; password?: string; pin?: string | null }) => {
+        if (userData.pin && !PIN_PATTERN.test(userData.pin)) return { success: false, message: 'رمز کوتاه باید ۴ تا ۶ رقم باشد.' };
+        const updated = await api.updateUser(userData);
+        if (!updated) return { success: false, message: 'کاربر یافت نشد.' };
         setState(prev => {
-            const updatedUsers = prev.users.map(u => u.id === userData.id ? { ...u, ...userData } : u);
+            const updatedUsers = prev.users.map(u => u.id === updated.id ? updated : u);
             let updatedCurrentUser = prev.currentUser;
-            if (prev.currentUser?.id === userData.id) {
-                updatedCurrentUser = { ...prev.currentUser, ...userData };
+            if (prev.currentUser?.id === updated.id) {
+                updatedCurrentUser = { ...prev.currentUser, ...toSessionUser(updated) };
                 if (localStorage.getItem('kasebyar_staff_user')) localStorage.setItem('kasebyar_staff_user', JSON.stringify(updatedCurrentUser));
             }
             return { ...prev, users: updatedUsers, currentUser: updatedCurrentUser };
@@ -401,8 +818,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         } catch (e) { return { success: false, message: '❌ خطا در ثبت‌نام.' }; }
     };
 
-    const exportData = () => {
-        const dataStr = JSON.stringify({ ...state, isAuthenticated: false, currentUser: null, cart: [] }, null, 2);
+    const exportData = async () => {
+        const snapshot = await api.getBackupSnapshot();
+        const dataStr = JSON.stringify({ ...state, ...snapshot, isAuthenticated: false, currentUser: null, cart: [], cartPromotions: [], cartQuotationId: null, cartExchange: null, schemaVersion: DB_VERSION }, null, 2);
         const blob = new Blob([dataStr], { type: "application/json" });
         const url = URL.createObjectURL(blob);
         const link = document.createElement("a");
@@ -417,30 +835,152 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         reader.onload = async (e) => {
             try {
                 const data = JSON.parse(e.target?.result as string) as AppState;
-                await api.clearAndRestoreData(data);
+                const withoutPassword = await api.clearAndRestoreData(data);
                 await fetchData();
-                showToast("✅ بازیابی با موفقیت انجام شد.");
+                showToast(restoredMessage("✅ بازیابی با موفقیت انجام شد.", withoutPassword));
             } catch (err) { showToast("❌ خطا در ساختار فایل."); }
         };
         reader.readAsText(file);
     };
 
-    const cloudBackup = async (isSilent = false) => {
-        if (!navigator.onLine || !state.currentUser) return false;
+    // --- Cloud Sync: local writes queue in the outbox and are exchanged record by record ---
+    const refreshSyncStatus = useCallback(async (patch: Partial<SyncStatus> = {}) => {
+        const [pending, lastSyncedAt] = await Promise.all([countOutbox().catch(() => 0), getSyncState<string>('lastSyncedAt').catch(() => undefined)]);
+        setSyncStatus(prev => ({ ...prev, pending, lastSyncedAt: lastSyncedAt || null, ...patch }));
+    }, []);
+
+    const handleSynced = useCallback(async (result: SyncResult) => {
+        if (result.applied > 0) await fetchData(true);
+        await refreshSyncStatus({ isSyncing: false, error: null });
+    }, [fetchData, refreshSyncStatus]);
+
+    const handleSyncError = useCallback((error: unknown) => {
+        refreshSyncStatus({ isSyncing: false, error: String(error) });
+    }, [refreshSyncStatus]);
+
+    useEffect(() => { refreshSyncStatus(); }, [refreshSyncStatus]);
+
+    useEffect(() => {
+        if (!autoSyncEnabled || !isShopActive) return;
+        const transport = getSyncTransport();
+        if (!transport) return;
+        return startSyncWorker(transport, { onSynced: handleSynced, onError: handleSyncError });
+    }, [autoSyncEnabled, isShopActive, handleSynced, handleSyncError]);
+
+    const setAutoSyncEnabled = (enabled: boolean) => {
+        localStorage.setItem('kasebyar_auto_sync', String(enabled));
+        setAutoSyncEnabledState(enabled);
+    };
+
+    const syncNow = async () => {
+        const transport = getSyncTransport();
+        if (!navigator.onLine || !transport) return { success: false, message: '⚠️ همگام‌سازی نیاز به اینترنت و ورود مدیر فروشگاه دارد.' };
+        setSyncStatus(prev => ({ ...prev, isSyncing: true }));
         try {
-            const success = await api.saveCloudBackup(state.currentUser.id, { ...state, isAuthenticated: false, currentUser: null, cart: [] });
-            if (success) localStorage.setItem('kasebyar_last_backup', Date.now().toString());
-            return success;
-        } catch (error) { return false; }
+            const result = await syncOnce(transport);
+            await handleSynced(result);
+            return { success: true, message: `✅ همگام‌سازی انجام شد (${result.pushed} ارسال، ${result.applied} دریافت).` };
+        } catch (error) {
+            handleSyncError(error);
+            return { success: false, message: '❌ خطا در همگام‌سازی با سرور.' };
+        }
+    };
+
+    const resyncFromCloud = async () => {
+        await resetSyncCursor();
+        return syncNow();
+    };
+
+    // Restored records are written like local edits, so they reach the other devices on the next sync
+    const restoreLegacyCloudBackup = async () => {
+        const ownerId = getOwnerId();
+        if (!navigator.onLine || !ownerId) return { success: false, message: '⚠️ بازیابی نیاز به اینترنت و ورود مدیر فروشگاه دارد.' };
+        const backup = await api.getLegacyCloudBackup(ownerId);
+        if (!backup) return { success: false, message: 'پشتیبان ابری قدیمی برای این فروشگاه یافت نشد.' };
+        if (!window.confirm(`پشتیبان ابری تاریخ ${new Date(backup.updatedAt).toLocaleString('fa-IR')} جایگزین تمام اطلاعات فعلی می‌شود. ادامه می‌دهید؟`)) return { success: false, message: 'بازیابی لغو شد.' };
+        try {
+            const withoutPassword = await api.clearAndRestoreData(backup.data);
+            await fetchData();
+            return { success: true, message: restoredMessage('✅ پشتیبان ابری قدیمی بازیابی شد.', withoutPassword) };
+        } catch (error) {
+            return { success: false, message: '❌ خطا در بازیابی پشتیبان ابری.' };
+        }
     };
 
-    const cloudRestore = async () => {
-        if (!navigator.onLine || !state.currentUser) return false;
+    // --- Shop Devices: every counter and back-office browser is registered under the owner and approved by them ---
+    const lockOutDevice = useCallback(async () => {
+        localStorage.removeItem('kasebyar_user_identity');
+        localStorage.removeItem('kasebyar_offline_auth');
+        localStorage.removeItem('kasebyar_staff_user');
+        localStorage.setItem('kasebyar_shop_active', 'false');
+        localStorage.setItem('kasebyar_session_locked', 'true');
+        setIsShopActive(false);
+        setState(prev => ({ ...prev, isAuthenticated: false, currentUser: null }));
+        try { await supabase.auth.signOut(); } catch (e) {}
+    }, []);
+
+    useEffect(() => {
+        if (!isShopActive) return;
+        const ownerId = getOwnerId();
+        if (!ownerId) return;
+        const checkIn = async () => {
+            if (!navigator.onLine) return;
+            // null means the server could not be reached; only an explicit answer locks the device
+            const status = await api.checkInDevice(ownerId, getDeviceId(), getDeviceName());
+            if (status === 'revoked' || status === 'pending') lockOutDevice();
+        };
+        checkIn();
+        const timer = setInterval(checkIn, DEVICE_HEARTBEAT_MS);
+        return () => clearInterval(timer);
+    }, [isShopActive, lockOutDevice]);
+
+    const getShopDevices = async (): Promise<ShopDevice[]> => {
+        const ownerId = getOwnerId();
+        if (!ownerId) throw 'Shop owner is not signed in';
+        return api.getDevices(ownerId);
+    };
+
+    const setDeviceStatus = async (deviceId: string, status: DeviceStatus) => {
+        const ownerId = getOwnerId();
+        if (!navigator.onLine || !ownerId) return { success: false, message: '⚠️ مدیریت دستگاه‌ها نیاز به اینترنت دارد.' };
+        if (deviceId === getDeviceId() && status !== 'approved') return { success: false, message: 'نمی‌توانید دسترسی دستگاه فعلی را لغو کنید.' };
+        const success = await api.updateDevice(ownerId, deviceId, { status });
+        if (!success) return { success: false, message: '❌ خطا در به‌روزرسانی دستگاه.' };
+        return { success: true, message: status === 'approved' ? '✅ دستگاه تایید شد.' : '✅ دسترسی دستگاه لغو شد و در اتصال بعدی قفل می‌شود.' };
+    };
+
+    const renameDevice = async (deviceId: string, name: string) => {
+        const ownerId = getOwnerId();
+        if (!name.trim()) return { success: false, message: 'نام دستگاه نمی‌تواند خالی باشد.' };
+        if (!navigator.onLine || !ownerId) return { success: false, message: '⚠️ مدیریت دستگاه‌ها نیاز به اینترنت دارد.' };
+        const success = await api.updateDevice(ownerId, deviceId, { name: name.trim() });
+        if (!success) return { success: false, message: '❌ خطا در تغییر نام دستگاه.' };
+        if (deviceId === getDeviceId()) setDeviceName(name.trim());
+        return { success: true, message: '✅ نام دستگاه تغییر کرد.' };
+    };
+
+    // --- Data Integrity: reads the raw stores so stored balances are compared, not the journal-derived state ---
+    const checkDataIntegrity = async (): Promise<IntegrityReport> => {
+        const [products, entities, transactions, invoices, journalEntries] = await Promise.all([
+            api.getProducts(), api.getEntities(), api.getTransactions(), api.getInvoices(), api.getJournal()
+        ]);
+        return runIntegrityCheck({ products, ...entities, ...transactions, ...invoices, journalEntries }, state.storeSettings);
+    };
+
+    const repairBalancesFromHistory = async (report: IntegrityReport) => {
+        if (report.balanceMismatches.length === 0) return { success: true, message: 'تراز تمام حساب‌ها با تاریخچه معاملات مطابقت دارد.' };
+        const updates = report.balanceMismatches.map(m => ({ partyType: m.partyType, id: m.partyId, newBalances: m.replayed }));
+        const adjustments = report.balanceMismatches.map(m => ({
+            partyType: m.partyType,
+            partyId: m.partyId,
+            diff: { AFN: m.replayed.AFN - m.ledger.AFN, USD: m.replayed.USD - m.ledger.USD, IRT: m.replayed.IRT - m.ledger.IRT, Total: m.replayed.Total - m.ledger.Total }
+        }));
         try {
-            const data = await api.getCloudBackup(state.currentUser.id);
-            if (data) { await api.clearAndRestoreData(data); await fetchData(); return true; }
-            return false;
-        } catch (error) { return false; }
+            await api.repairBalances(updates, journalForBalanceAdjustment(adjustments, new Date().toISOString(), state.storeSettings));
+            await fetchData(true);
+            logActivity('integrity', `ترمیم تراز ${report.balanceMismatches.length} حساب از روی تاریخچه معاملات`);
+            return { success: true, message: `تراز ${report.balanceMismatches.length} حساب ترمیم شد.` };
+        } catch (e) { return { success: false, message: 'خطا در ترمیم تراز حساب‌ها.' }; }
     };
 
     const addProduct = (p: any, b: any) => { 
@@ -451,7 +991,38 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         api.updateProduct(p).then(() => { setState(prev => ({ ...prev, products: prev.products.map(x => x.id === p.id ? p : x) })); logActivity('inventory', `ویرایش: ${p.name}`, p.id, 'product'); }); 
         return { success: true, message: 'ویرایش شد.' }; 
     };
-    const deleteProduct = (id: string) => { api.deleteProduct(id).then(() => setState(prev => ({ ...prev, products: prev.products.filter(p => p.id !== id) }))); };
+    const deleteProduct = async (id: string) => {
+        // Invoices outside the loaded window can still reference the product
+        if (await api.isProductReferenced(id)) return { success: false, message: 'این کالا دارای سوابق تراکنش است و قابل حذف نیست.' };
+        await api.deleteProduct(id);
+        setState(prev => ({ ...prev, products: prev.products.filter(p => p.id !== id) }));
+        return { success: true, message: 'محصول حذف شد.' };
+    };
+
+    // Quantities in parked carts are spoken for until the cart is resumed or discarded
+    const reservedInParkedCarts = (productId: string) =>
+        state.parkedCarts.reduce((sum, parked) => sum + parked.items.reduce((s, i) => s + (i.type === 'product' && i.id === productId ? i.quantity : 0), 0), 0);
+
+    const stockShortageMessage = (totalStock: number, reserved: number) =>
+        reserved > 0 ? `موجودی کافی نیست! (موجودی کل: ${totalStock}، رزرو در سبدهای پارک‌شده: ${reserved})` : `موجودی کافی نیست! (موجودی کل: ${totalStock})`;
+
+    // Cart lines are priced for the customer picked at the till; the ref is kept in step by setCartCustomer
+    const cartCustomerId = useRef<string | undefined>(undefined);
+    const priceLine = (item: CartItem, prev: AppState) =>
+        priceCartLine(item, priceListsFor(prev.priceLists, cartCustomerId.current), prev.products, prev.services);
+
+    // Promotions are worked out again on every cart change; an invoice being edited is judged by its own date
+    const withPromotions = (prev: AppState, cart: CartItem[]) => {
+        const editing = prev.editingSaleInvoiceId ? prev.saleInvoices.find(inv => inv.id === prev.editingSaleInvoiceId) : undefined;
+        const { cart: promoted, applied } = applyPromotions(cart, prev.promotions, prev.products, cartCustomerId.current, editing ? new Date(editing.timestamp) : new Date());
+        return { cart: applyTax(promoted, prev.products, prev.services, prev.storeSettings), cartPromotions: applied };
+    };
+
+    const setCartCustomer = (customerId?: string) => {
+        if ((customerId || undefined) === cartCustomerId.current) return;
+        cartCustomerId.current = customerId || undefined;
+        setState(prev => ({ ...prev, ...withPromotions(prev, prev.cart.map(i => priceLine(i, prev))) }));
+    };
 
     const addToCart = (item: any, type: any) => {
         let success = true;
@@ -461,9 +1032,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             const product = state.products.find(p => p.id === item.id);
             const totalStock = product?.batches.reduce((sum, b) => sum + b.stock, 0) || 0;
             const inCart = state.cart.find(i => i.id === item.id && i.type === 'product')?.quantity || 0;
+            const reserved = reservedInParkedCarts(item.id);
             
-            if (inCart + 1 > totalStock) {
-                return { success: false, message: `موجودی کافی نیست! (موجودی کل: ${totalStock})` };
+            if (inCart + 1 > totalStock - reserved) {
+                return { success: false, message: stockShortageMessage(totalStock, reserved) };
             }
         }
 
@@ -477,31 +1049,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             }
 
             // Apply FIFO logic to all products in cart
-            const updatedCart = newCart.map(cartItem => {
-                if (cartItem.type === 'product') {
-                    const product = prev.products.find(p => p.id === cartItem.id);
-                    if (product) {
-                        // Simple FIFO for UI display
-                        let remaining = cartItem.quantity;
-                        const deductions: { batchId: string, quantity: number }[] = [];
-                        const sortedBatches = [...product.batches].sort((a,b) => new Date(a.purchaseDate).getTime() - new Date(b.purchaseDate).getTime());
-                        
-                        for (const b of sortedBatches) {
-                            if (remaining <= 0) break;
-                            const deduct = Math.min(b.stock, remaining);
-                            if (deduct > 0) {
-                                deductions.push({ batchId: b.id, quantity: deduct });
-                                remaining -= deduct;
-                            }
-                        }
-                        const totalCost = deductions.reduce((s, d) => s + (d.quantity * (product.batches.find(bx => bx.id === d.batchId)?.purchasePrice || 0)), 0);
-                        return { ...cartItem, batchDeductions: deductions, purchasePrice: deductions.length > 0 ? totalCost / cartItem.quantity : 0 };
-                    }
-                }
-                return cartItem;
-            });
+            const updatedCart = newCart.map(cartItem => allocateBatches(cartItem, prev.products));
 
-            return { ...prev, cart: updatedCart };
+            return { ...prev, ...withPromotions(prev, updatedCart.map(i => i.id === item.id && i.type === type ? priceLine(i, prev) : i)) };
         });
         return { success, message: '' };
     };
@@ -510,8 +1060,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         if (type === 'product') {
             const product = state.products.find(p => p.id === id);
             const totalStock = product?.batches.reduce((sum, b) => sum + b.stock, 0) || 0;
-            if (qty > totalStock) {
-                return { success: false, message: `تعداد انتخابی (${qty}) از موجودی انبار (${totalStock}) بیشتر است!` };
+            const reserved = reservedInParkedCarts(id);
+            if (qty > totalStock - reserved) {
+                return { success: false, message: reserved > 0 ? `تعداد انتخابی (${qty}) از موجودی آزاد انبار (${totalStock - reserved}) بیشتر است؛ ${reserved} عدد در سبدهای پارک‌شده رزرو است.` : `تعداد انتخابی (${qty}) از موجودی انبار (${totalStock}) بیشتر است!` };
             }
         }
 
@@ -519,51 +1070,368 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             const newCart = prev.cart.map(i => (i.id === id && i.type === type) ? { ...i, quantity: qty } : i).filter(i => i.quantity > 0);
             
             // Re-apply FIFO logic
-            const updatedCart = newCart.map(cartItem => {
-                if (cartItem.type === 'product') {
-                    const product = prev.products.find(p => p.id === cartItem.id);
-                    if (product) {
-                        let remaining = cartItem.quantity;
-                        const deductions: { batchId: string, quantity: number }[] = [];
-                        const sortedBatches = [...product.batches].sort((a,b) => new Date(a.purchaseDate).getTime() - new Date(b.purchaseDate).getTime());
-                        
-                        for (const b of sortedBatches) {
-                            if (remaining <= 0) break;
-                            const deduct = Math.min(b.stock, remaining);
-                            if (deduct > 0) {
-                                deductions.push({ batchId: b.id, quantity: deduct });
-                                remaining -= deduct;
-                            }
-                        }
-                        const totalCost = deductions.reduce((s, d) => s + (d.quantity * (product.batches.find(bx => bx.id === d.batchId)?.purchasePrice || 0)), 0);
-                        return { ...cartItem, batchDeductions: deductions, purchasePrice: deductions.length > 0 ? totalCost / cartItem.quantity : 0 };
-                    }
-                }
-                return cartItem;
-            });
+            const updatedCart = newCart.map(cartItem => allocateBatches(cartItem, prev.products));
 
-            return { ...prev, cart: updatedCart };
+            // Package prices depend on the quantity, so the line is repriced as well
+            return { ...prev, ...withPromotions(prev, updatedCart.map(i => i.id === id && i.type === type ? priceLine(i, prev) : i)) };
         });
         return { success: true, message: '' };
     };
 
     const updateCartItemFinalPrice = (id: string, type: any, price: number) => {
-        setState(prev => ({ ...prev, cart: prev.cart.map(i => (i.id === id && i.type === type && i.type === 'product') ? { ...i, finalPrice: price } : i) }));
+        const item = state.cart.find(i => i.id === id && i.type === type);
+        const maxLine = roleLimits.maxLineDiscountPercent;
+        if (item?.type === 'product' && maxLine !== undefined && discountPercent(item.salePrice, price) > maxLine) {
+            return { success: false, message: `تخفیف این ردیف بیش از سقف مجاز نقش شما (${maxLine}٪) است.` };
+        }
+        setState(prev => ({ ...prev, ...withPromotions(prev, prev.cart.map(i => (i.id === id && i.type === type && i.type === 'product') ? { ...i, finalPrice: price } : i)) }));
+        return { success: true, message: '' };
     };
 
     const removeFromCart = (id: string, type: any) => {
-        setState(prev => ({ ...prev, cart: prev.cart.filter(i => !(i.id === id && i.type === type)) }));
+        setState(prev => ({ ...prev, ...withPromotions(prev, prev.cart.filter(i => !(i.id === id && i.type === type))) }));
+    };
+
+    // --- Parked carts ---
+    const parkCart = async (name: string, details: Pick<ParkedCart, 'customerId' | 'supplierIntermediaryId' | 'currency' | 'exchangeRate'>) => {
+        if (state.cart.length === 0) return { success: false, message: 'سبد خرید خالی است.' };
+        if (state.editingSaleInvoiceId) return { success: false, message: 'فاکتور در حال ویرایش را نمی‌توان پارک کرد.' };
+        const parked: ParkedCart = {
+            id: crypto.randomUUID(), name: name.trim() || `سبد ${state.parkedCarts.length + 1}`, items: state.cart, ...details,
+            cashier: state.currentUser?.username || '', parkedAt: new Date().toISOString(),
+            ...(state.cartQuotationId ? { quotationId: state.cartQuotationId } : {})
+        };
+        try {
+            await api.saveParkedCart(parked);
+            setState(prev => ({ ...prev, cart: [], cartPromotions: [], cartQuotationId: null, parkedCarts: [...prev.parkedCarts, parked] }));
+            return { success: true, message: `✅ سبد «${parked.name}» پارک شد.` };
+        } catch (e) { return { success: false, message: '❌ خطا در پارک سبد.' }; }
+    };
+
+    const resumeParkedCart = async (id: string) => {
+        const parked = state.parkedCarts.find(c => c.id === id);
+        if (!parked) return { success: false, message: 'سبد پارک‌شده یافت نشد.' };
+        if (state.cart.length > 0 || state.editingSaleInvoiceId) return { success: false, message: 'ابتدا سبد فعلی را تکمیل یا پارک کنید.' };
+        try {
+            await api.deleteParkedCart(id);
+            cartCustomerId.current = parked.customerId;
+            setState(prev => ({ ...prev, ...withPromotions(prev, parked.items), cartQuotationId: parked.quotationId || null, parkedCarts: prev.parkedCarts.filter(c => c.id !== id) }));
+            return { success: true, message: `سبد «${parked.name}» بازگردانده شد.`, parkedCart: parked };
+        } catch (e) { return { success: false, message: '❌ خطا در بازگرداندن سبد.' }; }
+    };
+
+    const discardParkedCart = async (id: string) => {
+        const parked = state.parkedCarts.find(c => c.id === id);
+        if (!parked) return { success: false, message: 'سبد پارک‌شده یافت نشد.' };
+        try {
+            await api.deleteParkedCart(id);
+            setState(prev => ({ ...prev, parkedCarts: prev.parkedCarts.filter(c => c.id !== id) }));
+            logActivity('sale', `حذف سبد پارک‌شده «${parked.name}» (${parked.items.length} قلم)`);
+            return { success: true, message: 'سبد پارک‌شده حذف شد.' };
+        } catch (e) { return { success: false, message: '❌ خطا در حذف سبد.' }; }
+    };
+
+    // --- Quotations ---
+    const createQuotation = async (details: Pick<Quotation, 'customerId' | 'customerName' | 'currency' | 'exchangeRate' | 'validUntil'>) => {
+        const { cart, products, services, storeSettings } = state;
+        if (cart.length === 0) return { success: false, message: 'سبد خرید خالی است.' };
+        if (state.editingSaleInvoiceId) return { success: false, message: 'از فاکتور در حال ویرایش نمی‌توان پیش‌فاکتور صادر کرد.' };
+        if (!details.validUntil || !isWithinValidity({ validTo: details.validUntil })) return { success: false, message: 'تاریخ اعتبار پیش‌فاکتور نمی‌تواند گذشته باشد.' };
+        const rate = details.currency === storeSettings.baseCurrency ? 1 : details.exchangeRate;
+        if (!(rate > 0)) return { success: false, message: 'لطفاً نرخ تبدیل ارز را وارد کنید.' };
+
+        // Priced exactly as completeSale would price the cart today; no batches are taken
+        const promoted = applyPromotions(cart, state.promotions, products, details.customerId);
+        const items = applyTax(promoted.cart, products, services, storeSettings).map(i => i.type === 'product' ? { ...i, batchDeductions: undefined } : i);
+        const linesTotalBase = cart.reduce((t, i) => t + (i.type === 'product' ? (i.finalPrice ?? i.salePrice) : i.price) * i.quantity, 0);
+        const totals = cartTotals(items, storeSettings.pricesIncludeTax);
+        const toTransactional = (base: number) => fromBaseAmount(base, details.currency, rate, storeSettings);
+        const priceListIds = cart.reduce<string[]>((ids, i) => i.priceListId && !ids.includes(i.priceListId) ? [...ids, i.priceListId] : ids, []);
+
+        const quotation: Quotation = {
+            id: generateNextId('Q', state.quotations.map(q => q.id)),
+            items,
+            subtotal: toTransactional(linesTotalBase),
+            totalDiscount: toTransactional(linesTotalBase - totals.lines),
+            totalAmount: toTransactional(totals.total),
+            totalAmountAFN: totals.total,
+            timestamp: new Date().toISOString(),
+            cashier: state.currentUser?.username || '',
+            customerId: details.customerId,
+            ...(details.customerName?.trim() ? { customerName: details.customerName.trim() } : {}),
+            currency: details.currency,
+            exchangeRate: rate,
+            validUntil: details.validUntil,
+            priceListIds: priceListIds.length > 0 ? priceListIds : undefined,
+            promotions: promoted.applied.length > 0 ? promoted.applied : undefined,
+            ...(totals.tax > 0 ? { totalTax: toTransactional(totals.tax), pricesIncludeTax: !!storeSettings.pricesIncludeTax } : {}),
+        };
+        try {
+            await api.saveQuotation(quotation);
+            setState(prev => ({ ...prev, cart: [], cartPromotions: [], cartQuotationId: null, quotations: [...prev.quotations, quotation] }));
+            logActivity('sale', `صدور پیش‌فاکتور ${quotation.id} (${items.length} قلم)`);
+            return { success: true, message: `✅ پیش‌فاکتور ${quotation.id} صادر شد.`, quotation };
+        } catch (e) { return { success: false, message: '❌ خطا در ثبت پیش‌فاکتور.' }; }
+    };
+
+    // Quoted prices hold until the quotation expires; after that the lines are priced as of today.
+    // Promotions and tax are settled again by completeSale like on any other sale.
+    const loadQuotation = async (id: string) => {
+        const quotation = state.quotations.find(q => q.id === id);
+        if (!quotation) return { success: false, message: 'پیش‌فاکتور یافت نشد.' };
+        if (quotation.convertedInvoiceId) return { success: false, message: `این پیش‌فاکتور قبلاً به فاکتور ${quotation.convertedInvoiceId} تبدیل شده است.` };
+        if (state.cart.length > 0 || state.editingSaleInvoiceId) return { success: false, message: 'ابتدا سبد فعلی را تکمیل یا پارک کنید.' };
+        for (const item of quotation.items) {
+            if (item.type !== 'product') continue;
+            const product = state.products.find(p => p.id === item.id);
+            if (!product) return { success: false, message: `کالای «${item.name}» دیگر در انبار تعریف نشده است.` };
+            const totalStock = product.batches.reduce((sum, b) => sum + b.stock, 0);
+            const reserved = reservedInParkedCarts(item.id);
+            if (item.quantity > totalStock - reserved) return { success: false, message: `«${item.name}»: ${stockShortageMessage(totalStock, reserved)}` };
+        }
+        const expired = !isWithinValidity({ validTo: quotation.validUntil });
+        cartCustomerId.current = quotation.customerId;
+        setState(prev => {
+            const items = quotation.items.map(i => allocateBatches(i, prev.products));
+            const priced = expired ? items.map(i => priceLine(i.type === 'product' ? { ...i, finalPrice: undefined } : i, prev)) : items;
+            return { ...prev, ...withPromotions(prev, priced), cartQuotationId: quotation.id };
+        });
+        return {
+            success: true,
+            message: expired ? `پیش‌فاکتور ${id} منقضی شده است؛ اقلام با قیمت‌های امروز در سبد قرار گرفت.` : `پیش‌فاکتور ${id} در سبد قرار گرفت.`,
+            quotation
+        };
+    };
+
+    const deleteQuotation = async (id: string) => {
+        if (state.cartQuotationId === id) return { success: false, message: 'این پیش‌فاکتور در سبد فعلی باز است.' };
+        try {
+            await api.deleteQuotation(id);
+            setState(prev => ({ ...prev, quotations: prev.quotations.filter(q => q.id !== id) }));
+            logActivity('sale', `حذف پیش‌فاکتور ${id}`);
+            return { success: true, message: 'پیش‌فاکتور حذف شد.' };
+        } catch (e) { return { success: false, message: '❌ خطا در حذف پیش‌فاکتور.' }; }
+    };
+
+    // The cart is kept but the next sale is no longer recorded as the quotation's conversion
+    const detachCartQuotation = () => setState(prev => ({ ...prev, cartQuotationId: null }));
+
+    // --- Sales orders ---
+    const createSalesOrder = async (details: Pick<SalesOrder, 'customerId' | 'currency' | 'exchangeRate' | 'notes'>) => {
+        const { cart, storeSettings } = state;
+        if (cart.length === 0) return { success: false, message: 'سبد خرید خالی است.' };
+        if (state.editingSaleInvoiceId) return { success: false, message: 'از فاکتور در حال ویرایش نمی‌توان سفارش ثبت کرد.' };
+        if (!state.customers.some(c => c.id === details.customerId)) return { success: false, message: 'سفارش فروش باید به نام یک مشتری ثبت شود.' };
+        const rate = details.currency === storeSettings.baseCurrency ? 1 : details.exchangeRate;
+        if (!(rate > 0)) return { success: false, message: 'لطفاً نرخ تبدیل ارز را وارد کنید.' };
+
+        // The cart is already priced for this customer; promotions are folded into each line's agreed price
+        const order: SalesOrder = {
+            id: generateNextId('SO', state.salesOrders.map(o => o.id)),
+            customerId: details.customerId,
+            items: cart.map(i => ({
+                id: i.id, type: i.type, name: i.name, unitPrice: lineTotalBase(i) / i.quantity,
+                itemsPerPackage: i.type === 'product' ? i.itemsPerPackage : undefined, quantity: i.quantity, deliveredQty: 0
+            })),
+            currency: details.currency,
+            exchangeRate: rate,
+            totalAmount: fromBaseAmount(cartTotals(cart, storeSettings.pricesIncludeTax).total, details.currency, rate, storeSettings),
+            timestamp: new Date().toISOString(),
+            cashier: state.currentUser?.username || '',
+            ...(details.notes?.trim() ? { notes: details.notes.trim() } : {}),
+            prepaidAmount: 0,
+            appliedPrepayment: 0,
+            invoiceIds: [],
+            status: 'open',
+        };
+        try {
+            await api.saveSalesOrder(order);
+            setState(prev => ({ ...prev, cart: [], cartPromotions: [], cartQuotationId: null, salesOrders: [...prev.salesOrders, order] }));
+            logActivity('sale', `ثبت سفارش فروش ${order.id} (${order.items.length} قلم)`);
+            return { success: true, message: `✅ سفارش ${order.id} ثبت شد.`, order };
+        } catch (e) { return { success: false, message: '❌ خطا در ثبت سفارش.' }; }
+    };
+
+    // Taken in the order's currency and credited to the customer's account like any other payment,
+    // so it also needs the right to take customer payments
+    const addSalesOrderPrepayment = async (orderId: string, amount: number) => {
+        const order = state.salesOrders.find(o => o.id === orderId);
+        if (!order) return { success: false, message: 'سفارش یافت نشد.' };
+        if (order.status === 'closed') return { success: false, message: 'این سفارش بسته شده است.' };
+        if (!(amount > 0)) return { success: false, message: 'مبلغ پیش‌پرداخت باید بیشتر از صفر باشد.' };
+        if (lacksPermission('accounting:manage_customers', 'addSalesOrderPrepayment')) return denied();
+        const customer = state.customers.find(c => c.id === order.customerId);
+        if (!customer) return { success: false, message: 'مشتری سفارش یافت نشد.' };
+        const { tx, change, journal } = buildCustomerPayment(customer, amount, `پیش‌پرداخت سفارش ${order.id}`, order.currency, order.exchangeRate);
+        try {
+            const updated = await api.addSalesOrderPrepayment(order.id, amount, change, tx, journal);
+            setState(prev => ({ ...prev, salesOrders: prev.salesOrders.map(o => o.id === orderId ? updated : o) }));
+            await applyWrite({ upsert: { customerTransactions: [tx] }, journal });
+            return { success: true, message: '✅ پیش‌پرداخت ثبت شد.' };
+        } catch (e) { return { success: false, message: '❌ خطا در ثبت پیش‌پرداخت.' }; }
+    };
+
+    const deliverSalesOrder = async (orderId: string, deliveries: { id: string; type: 'product' | 'service'; quantity: number }[]) => {
+        const { products, services, customers, storeSettings } = state;
+        const order = state.salesOrders.find(o => o.id === orderId);
+        if (!order) return { success: false, message: 'سفارش یافت نشد.' };
+        if (order.status === 'closed') return { success: false, message: 'این سفارش بسته شده است.' };
+        const customer = customers.find(c => c.id === order.customerId);
+        if (!customer) return { success: false, message: 'مشتری سفارش یافت نشد.' };
+
+        const shipped = deliveries.filter(d => d.quantity > 0);
+        if (shipped.length === 0) return { success: false, message: 'تعدادی برای تحویل وارد نشده است.' };
+        const lines: CartItem[] = [];
+        for (const d of shipped) {
+            const line = order.items.find(i => i.id === d.id && i.type === d.type);
+            if (!line) return { success: false, message: 'قلم تحویلی در سفارش نیست.' };
+            if (d.quantity > line.quantity - line.deliveredQty) return { success: false, message: `تعداد تحویل «${line.name}» از مانده سفارش بیشتر است.` };
+            if (line.type === 'service') {
+                const service = services.find(s => s.id === line.id);
+                lines.push({ ...(service || { id: line.id, name: line.name }), price: line.unitPrice, quantity: d.quantity, type: 'service' });
+                continue;
+            }
+            const product = products.find(p => p.id === line.id);
+            if (!product) return { success: false, message: `کالای «${line.name}» دیگر در انبار تعریف نشده است.` };
+            const totalStock = product.batches.reduce((sum, b) => sum + b.stock, 0);
+            const reserved = reservedInParkedCarts(line.id);
+            if (d.quantity > totalStock - reserved) return { success: false, message: `«${line.name}»: ${stockShortageMessage(totalStock, reserved)}` };
+            lines.push(allocateBatches({ ...product, salePrice: line.unitPrice, purchasePrice: 0, quantity: d.quantity, type: 'product' }, products));
+        }
+
+        const pricesIncludeTax = !!storeSettings.pricesIncludeTax;
+        const items = applyTax(lines, products, services, storeSettings);
+        const totals = cartTotals(items, pricesIncludeTax);
+        const toTransactional = (base: number) => fromBaseAmount(base, order.currency, order.exchangeRate, storeSettings);
+        const totalTransactional = toTransactional(totals.total);
+        const prepayment = Math.min(Math.max(order.prepaidAmount - order.appliedPrepayment, 0), totalTransactional);
+        // Whatever the prepayment does not cover stays on the customer's account
+        if (totalTransactional - prepayment > 0.01 && lacksPermission('pos:create_credit_sale', 'deliverSalesOrder')) return denied();
+
+        const stockChanges: StockChange[] = items.flatMap(item => item.type === 'product' ? (item.batchDeductions || []).map(d => ({ batchId: d.batchId, quantity: -d.quantity })) : []);
+
+        const invId = generateNextId('F', await api.getInvoiceIds('sale'));
+        const finalInv: SaleInvoice = {
+            id: invId,
+            type: 'sale',
+            items,
+            subtotal: toTransactional(totals.lines),
+            totalAmount: totalTransactional,
+            totalAmountAFN: totals.total,
+            totalDiscount: 0,
+            timestamp: new Date().toISOString(),
+            cashier: state.currentUser?.username || '',
+            customerId: order.customerId,
+            shiftId: currentShift?.id,
+            ...(totals.tax > 0 ? { totalTax: toTransactional(totals.tax), pricesIncludeTax } : {}),
+            salesOrderId: order.id,
+            ...(prepayment > 0 ? { prepaymentApplied: prepayment } : {}),
+            currency: order.currency,
+            exchangeRate: order.exchangeRate,
+        };
+        const change = balanceChange(order.currency, totalTransactional, totals.total);
+        const customerTx: CustomerTransaction = { id: crypto.randomUUID(), customerId: order.customerId, type: 'credit_sale', amount: totalTransactional, date: finalInv.timestamp, description: `فاکتور #${invId} (تحویل سفارش ${order.id})`, invoiceId: invId, currency: order.currency, exchangeRate: order.exchangeRate, isCash: false };
+        const deliveredItems = order.items.map(i => ({ ...i, deliveredQty: i.deliveredQty + (shipped.find(d => d.id === i.id && d.type === i.type)?.quantity || 0) }));
+        const updatedOrder: SalesOrder = {
+            ...order,
+            items: deliveredItems,
+            appliedPrepayment: order.appliedPrepayment + prepayment,
+            invoiceIds: [...order.invoiceIds, invId],
+            status: deliveredItems.every(i => i.deliveredQty >= i.quantity) ? 'closed' : 'open',
+        };
+        const journal = journalForSale(finalInv, storeSettings);
+
+        try {
+            await api.createSale(finalInv, stockChanges, { id: customer.id, change, transaction: customerTx }, undefined, journal, updatedOrder);
+            await applyWrite({ reload: ['products'], upsert: { saleInvoices: [finalInv], customerTransactions: [customerTx] }, journal });
+            setState(prev => ({ ...prev, salesOrders: prev.salesOrders.map(o => o.id === orderId ? updatedOrder : o) }));
+            logActivity('sale', `تحویل سفارش ${order.id} با فاکتور ${invId}`, invId, 'saleInvoice');
+            return { success: true, message: updatedOrder.status === 'closed' ? `✅ فاکتور ${invId} ثبت شد و سفارش کامل تحویل شد.` : `✅ فاکتور ${invId} برای بخش تحویلی ثبت شد.`, invoice: finalInv };
+        } catch (e) { return { success: false, message: '❌ خطا در ثبت تحویل سفارش.' }; }
+    };
+
+    // Anything prepaid but not delivered stays as credit on the customer's account
+    const closeSalesOrder = async (orderId: string) => {
+        const order = state.salesOrders.find(o => o.id === orderId);
+        if (!order) return { success: false, message: 'سفارش یافت نشد.' };
+        if (order.status === 'closed') return { success: false, message: 'این سفارش قبلاً بسته شده است.' };
+        const closed: SalesOrder = { ...order, status: 'closed' };
+        try {
+            await api.saveSalesOrder(closed);
+            setState(prev => ({ ...prev, salesOrders: prev.salesOrders.map(o => o.id === orderId ? closed : o) }));
+            logActivity('sale', `بستن سفارش فروش ${order.id}`);
+            return { success: true, message: 'سفارش بسته شد.' };
+        } catch (e) { return { success: false, message: '❌ خطا در بستن سفارش.' }; }
+    };
+
+    // --- Cashier shifts ---
+    const currentShift = state.shifts.find(s => !s.closedAt && s.deviceId === getDeviceId()) || null;
+
+    const openShift = async (openingFloat: CurrencyAmounts) => {
+        if (currentShift) return { success: false, message: 'یک شیفت روی این دستگاه باز است.' };
+        const shift: Shift = {
+            id: crypto.randomUUID(), deviceId: getDeviceId(), deviceName: getDeviceName(),
+            openedBy: state.currentUser?.username || '', openedAt: new Date().toISOString(), openingFloat
+        };
+        try {
+            await api.saveShift(shift);
+            setState(prev => ({ ...prev, shifts: [shift, ...prev.shifts] }));
+            logActivity('sale', `باز کردن شیفت صندوق روی ${shift.deviceName}`, shift.id);
+            return { success: true, message: '✅ شیفت باز شد.' };
+        } catch (e) { return { success: false, message: '❌ خطا در باز کردن شیفت.' }; }
+    };
+
+    const getShiftSummary = async (shift: Shift): Promise<ShiftSummary> =>
+        summarizeShift(shift, await api.getShiftMovements(shift.id), state.storeSettings);
+
+    // The count is blind: the cashier never sees the expected amounts before submitting it
+    const closeShift = async (countedCash: CurrencyAmounts, notes?: string) => {
+        if (!currentShift) return { success: false, message: 'شیفت بازی روی این دستگاه وجود ندارد.' };
+        if (state.cart.length > 0 || state.editingSaleInvoiceId) return { success: false, message: 'ابتدا سبد فعلی را تکمیل یا پارک کنید.' };
+        try {
+            const summary = await getShiftSummary(currentShift);
+            const closed: Shift = {
+                ...currentShift, closedBy: state.currentUser?.username || '', closedAt: new Date().toISOString(),
+                expectedCash: summary.expected, countedCash, notes: notes?.trim() || undefined
+            };
+            await api.saveShift(closed);
+            setState(prev => ({ ...prev, shifts: prev.shifts.map(s => s.id === closed.id ? closed : s) }));
+            logActivity('sale', `بستن شیفت صندوق روی ${closed.deviceName} (${summary.salesCount} فاکتور فروش)`, closed.id);
+            return { success: true, message: '✅ شیفت بسته شد.', shift: closed };
+        } catch (e) { return { success: false, message: '❌ خطا در بستن شیفت.' }; }
     };
 
     // --- Standardized POS Logic: Sales with FIFO Stock Updates and Atomic Replacement ---
-    const completeSale = async (cashier: string, customerId?: string, currency: 'AFN'|'USD'|'IRT' = 'AFN', exchangeRate: number = 1, supplierIntermediaryId?: string): Promise<{ success: boolean; invoice?: SaleInvoice; message: string }> => {
-        const { cart, products, editingSaleInvoiceId, saleInvoices, customers, suppliers } = state;
+    const completeSale = async (cashier: string, customerId?: string, currency: 'AFN'|'USD'|'IRT' = 'AFN', exchangeRate: number = 1, supplierIntermediaryId?: string, approval?: SaleApproval, paymentRequest?: SalePaymentRequest): Promise<{ success: boolean; invoice?: SaleInvoice; message: string; approvalRequired?: string[] }> => {
+        const { cart, products, editingSaleInvoiceId, saleInvoices, customers, suppliers, cartQuotationId, cartExchange } = state;
         if (cart.length === 0) return { success: false, message: "سبد خالی است!" };
+        if (lacksPermission(editingSaleInvoiceId ? 'pos:edit_invoice' : 'pos:create_invoice', 'completeSale')) return denied();
+        const onCredit = !!customerId && (!paymentRequest || paymentRequest.tenders.some(t => t.kind === 'credit' && t.amount > 0));
+        if (onCredit && lacksPermission('pos:create_credit_sale', 'completeSale')) return denied();
+        const hasDiscount = cart.some(i => i.type === 'product' && i.finalPrice !== undefined && i.finalPrice < i.salePrice);
+        if (hasDiscount && lacksPermission('pos:apply_discount', 'completeSale')) return denied();
 
         const oldInv = editingSaleInvoiceId ? saleInvoices.find(inv => inv.id === editingSaleInvoiceId) : null;
+
+        // An exchange saves the return of the goods handed back with the sale
+        let exchange: ReturnType<typeof buildSaleReturn> | null = null;
+        if (cartExchange && !editingSaleInvoiceId) {
+            const exchangedInv = await getSaleInvoice(cartExchange.originalInvoiceId);
+            if (!exchangedInv || exchangedInv.voided) return { success: false, message: 'فاکتور کالای مرجوعی یافت نشد یا باطل شده است.' };
+            try {
+                exchange = buildSaleReturn(exchangedInv, cartExchange.items, generateNextId('R', await api.getInvoiceIds('sale')), cashier);
+            } catch (e) {
+                return { success: false, message: e instanceof Error ? e.message : 'خطا در ثبت اقلام مرجوعی.' };
+            }
+        }
         
         // 1. Virtual Inventory Restoration for FIFO Calculation
         const virtualProducts = JSON.parse(JSON.stringify(products)) as Product[];
+        // Goods handed back are on the shelf again before the new lines are taken from it
+        exchange?.stockRestores.forEach(r => {
+            const vb = virtualProducts.flatMap(p => p.batches).find(b => b.id === r.batchId);
+            if (vb) vb.stock += r.quantity;
+        });
         if (oldInv) {
             oldInv.items.forEach(item => {
                 if (item.type === 'product' && item.batchDeductions) {
@@ -576,8 +1444,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             });
         }
 
-        // 2. Finalize Deductions and Stock Updates
-        const stockUpdates: {batchId: string, newStock: number}[] = [];
+        // 2. Finalize Deductions and Stock Changes
+        const stockChanges: StockChange[] = [];
         const itemsWithBatches = cart.map(item => {
             if (item.type === 'product') {
                 const p = virtualProducts.find(x => x.id === item.id);
@@ -593,11 +1461,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                         if (deduct > 0) {
                             finalDeductions.push({ batchId: b.id, quantity: deduct });
                             b.stock -= deduct;
-                            
-                            const existingUpdate = stockUpdates.find(u => u.batchId === b.id);
-                            if (existingUpdate) existingUpdate.newStock = b.stock;
-                            else stockUpdates.push({ batchId: b.id, newStock: b.stock });
-                            
+                            stockChanges.push({ batchId: b.id, quantity: -deduct });
                             remainingToDeduct -= deduct;
                         }
                     }
@@ -607,119 +1471,198 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             }
             return item;
         });
+        exchange?.stockRestores.forEach(r => stockChanges.push(r));
 
-        // 3. Financial Totals (Dynamic Logic)
-        const totalBaseAmount = cart.reduce((t, i) => {
+        // 3. Financial Totals (Dynamic Logic). Promotions are settled again for the customer the sale is made to, then taxed.
+        const promoted = applyPromotions(itemsWithBatches, state.promotions, products, customerId, oldInv ? new Date(oldInv.timestamp) : new Date());
+        const pricesIncludeTax = !!state.storeSettings.pricesIncludeTax;
+        const saleItems = applyTax(promoted.cart, products, state.services, state.storeSettings);
+        const linesTotalBase = cart.reduce((t, i) => {
             const price = (i.type === 'product' && i.finalPrice !== undefined) ? i.finalPrice : (i.type === 'product' ? i.salePrice : i.price);
             return (price * i.quantity) + t;
         }, 0);
+        const totals = cartTotals(saleItems, pricesIncludeTax);
+        const totalBaseAmount = totals.total;
+
+        // 3b. Split tenders. Without them the invoice settles whole, on credit, through the intermediary or in cash.
+        const fmt = (amount: number) => formatCurrency(amount, state.storeSettings);
+        // Goods handed back in an exchange pay for as much of the sale as they are worth; the tenders settle the rest
+        const exchangeBase = exchange ? Math.min(exchange.returnInv.totalAmountAFN, totalBaseAmount) : 0;
+        const dueBase = totalBaseAmount - exchangeBase;
+        let payment: SalePayment | undefined;
+        if (paymentRequest) {
+            const settings = state.storeSettings;
+            const tenders = paymentRequest.tenders.filter(t => t.amount > 0).map(t => {
+                const rate = t.currency === settings.baseCurrency ? 1 : t.exchangeRate;
+                return { ...t, exchangeRate: rate, amountBase: toBaseAmount(t.amount, t.currency, rate, settings) };
+            });
+            if (tenders.length === 0 && dueBase > 0.01) return { success: false, message: 'مبلغی برای پرداخت وارد نشده است.' };
+            if (tenders.some(t => !(t.exchangeRate > 0))) return { success: false, message: 'لطفاً نرخ تبدیل ارزهای پرداخت را وارد کنید.' };
+            const ofKind = (kind: SaleSettlement['kind']) => tenders.filter(t => t.kind === kind);
+            if (ofKind('exchange').length > 0) return { success: false, message: 'کالای مرجوعی فقط از راه تعویض پذیرفته می‌شود.' };
+            if (ofKind('credit').length > 1 || ofKind('intermediary').length > 1) return { success: false, message: 'هر فاکتور فقط یک بخش نسیه و یک بخش واسطه می‌پذیرد.' };
+            if (ofKind('credit').length > 0 && !customerId) return { success: false, message: 'برای پرداخت نسیه، مشتری را انتخاب کنید.' };
+            if (ofKind('intermediary').length > 0 && !supplierIntermediaryId) return { success: false, message: 'برای تسویه از طریق واسطه، تأمین‌کننده را انتخاب کنید.' };
+            // A voucher spent on an invoice that is edited later could not be given back cleanly, so only new sales take them
+            if (ofKind('voucher').length > 0 && editingSaleInvoiceId) return { success: false, message: 'ووچر فقط در فاکتور جدید پذیرفته می‌شود.' };
+            for (const t of ofKind('voucher')) {
+                const voucher = state.storeCreditVouchers.find(v => v.id === t.voucherId);
+                if (!voucher) return { success: false, message: `ووچر ${t.voucherId || ''} یافت نشد.` };
+                const spent = ofKind('voucher').filter(o => o.voucherId === voucher.id).reduce((sum, o) => sum + o.amountBase, 0);
+                if (spent > voucher.balance + 0.01) return { success: false, message: `مانده ووچر ${voucher.id} ${fmt(voucher.balance)} است.` };
+            }
+
+            const onAccountBase = tenders.filter(t => t.kind !== 'cash').reduce((sum, t) => sum + t.amountBase, 0);
+            if (onAccountBase > dueBase + 0.01) return { success: false, message: 'مبلغ نسیه، واسطه و ووچر از مبلغ فاکتور بیشتر است.' };
+            // Only cash can be overpaid; whatever is over comes back as change
+            const changeBase = tenders.reduce((sum, t) => sum + t.amountBase, 0) - dueBase;
+            if (changeBase < -0.01) return { success: false, message: `مبلغ پرداختی ${fmt(-changeBase)} کمتر از مبلغ فاکتور است.` };
+            const { changeCurrency, changeExchangeRate } = paymentRequest;
+            const changeRate = changeCurrency === settings.baseCurrency ? 1 : changeExchangeRate;
+            if (changeBase > 0.01 && !(changeRate > 0)) return { success: false, message: 'لطفاً نرخ تبدیل ارز باقی‌مانده را وارد کنید.' };
+            payment = {
+                tenders,
+                ...(changeBase > 0.01 ? { change: { currency: changeCurrency, exchangeRate: changeRate, amount: fromBaseAmount(changeBase, changeCurrency, changeRate, settings), amountBase: changeBase } } : {})
+            };
+        }
+        if (exchange) {
+            const settings = state.storeSettings;
+            const rate = currency === settings.baseCurrency ? 1 : exchangeRate;
+            const tenderOf = (kind: TenderKind, base: number): SaleTender => ({ kind, currency, exchangeRate: rate, amount: fromBaseAmount(base, currency, rate, settings), amountBase: base });
+            // Without split tenders the difference settles the way a whole invoice would
+            const rest = payment ? payment.tenders : dueBase > 0.01 ? [tenderOf(customerId ? 'credit' : (supplierIntermediaryId ? 'intermediary' : 'cash'), dueBase)] : [];
+            payment = { ...payment, tenders: [tenderOf('exchange', exchangeBase), ...rest] };
+        }
+        const creditBase = payment
+            ? payment.tenders.filter(t => t.kind === 'credit').reduce((sum, t) => sum + t.amountBase, 0)
+            : (customerId ? totalBaseAmount : 0);
+
+        // Breaches of role limits and shop rules pause the sale until a supervisor approves them.
+        // Limits are checked here, not only in the cart: an edited invoice can bring discounts from before they were set.
+        const pct = (value: number) => Math.round(value * 10) / 10;
+        const { maxLineDiscountPercent: maxLine, maxInvoiceDiscountPercent: maxInvoice, maxCreditSaleAmount: maxCredit } = roleLimits;
+        const violations: string[] = [];
+        itemsWithBatches.forEach(i => {
+            if (i.type !== 'product' || i.finalPrice === undefined) return;
+            const lineDiscount = discountPercent(i.salePrice, i.finalPrice);
+            if (maxLine !== undefined && lineDiscount > maxLine) violations.push(`تخفیف ${pct(lineDiscount)}٪ روی «${i.name}» (سقف نقش: ${maxLine}٪)`);
+            if (i.finalPrice < ((i as InvoiceItem).purchasePrice || 0)) violations.push(`فروش «${i.name}» زیر قیمت خرید`);
+        });
+        const listTotal = cart.reduce((t, i) => t + (i.type === 'product' ? i.salePrice : i.price) * i.quantity, 0);
+        // Promotions are the shop's own offers, so they do not count against the role's discount limit
+        const invoiceDiscount = discountPercent(listTotal, linesTotalBase);
+        if (maxInvoice !== undefined && invoiceDiscount > maxInvoice) violations.push(`تخفیف کل فاکتور ${pct(invoiceDiscount)}٪ (سقف نقش: ${maxInvoice}٪)`);
+        if (creditBase > 0 && maxCredit !== undefined && creditBase > maxCredit) violations.push(`فروش نسیه ${fmt(creditBase)} (سقف نقش: ${fmt(maxCredit)})`);
+        const creditCustomer = creditBase > 0 ? customers.find(c => c.id === customerId) : undefined;
+        if (creditCustomer?.creditLimit && creditCustomer.creditLimit > 0) {
+            const projected = creditCustomer.balance - (oldInv?.customerId === customerId ? saleSettlements(oldInv).filter(st => st.kind === 'credit').reduce((sum, st) => sum + st.base, 0) : 0) + creditBase;
+            if (projected > creditCustomer.creditLimit) violations.push(`بدهی «${creditCustomer.name}» به ${fmt(projected)} می‌رسد (سقف اعتبار: ${fmt(creditCustomer.creditLimit)})`);
+        }
+        const redeemed = violations.length > 0 ? redeemApproval(approval, violations) : null;
+        if (violations.length > 0 && !redeemed) return { success: false, message: 'این فروش نیاز به تأیید مدیر دارد.', approvalRequired: violations };
+        const newApprovals = [...editApprovals.current, ...(redeemed ? [redeemed] : [])];
+        const approvals = [...(oldInv?.approvals || []), ...newApprovals];
 
         // Transactional amount calculation based on the user's dynamic rules:
         const config = state.storeSettings.currencyConfigs[currency];
-        const totalTransactional = currency === state.storeSettings.baseCurrency 
-            ? totalBaseAmount 
-            : (config.method === 'multiply' ? totalBaseAmount * exchangeRate : totalBaseAmount / exchangeRate);
-
-        const invId = editingSaleInvoiceId || generateNextId('F', saleInvoices.map(i => i.id));
+        const toTransactional = (base: number) => currency === state.storeSettings.baseCurrency 
+            ? base 
+            : (config.method === 'multiply' ? base * exchangeRate : base / exchangeRate);
+        const totalTransactional = toTransactional(totalBaseAmount);
+        const subtotalTransactional = toTransactional(linesTotalBase);
+        const taxTransactional = toTransactional(totals.tax);
+
+        const priceListIds = cart.reduce<string[]>((ids, i) => i.priceListId && !ids.includes(i.priceListId) ? [...ids, i.priceListId] : ids, []);
+        const invId = editingSaleInvoiceId || generateNextId('F', await api.getInvoiceIds('sale'));
         
         const finalInv: SaleInvoice = { 
             id: invId, 
             type: 'sale', 
-            items: itemsWithBatches, 
-            subtotal: totalTransactional, 
+            items: saleItems, 
+            subtotal: subtotalTransactional, 
             totalAmount: totalTransactional, 
             totalAmountAFN: totalBaseAmount, // This field name is legacy, it stores the base amount
-            totalDiscount: 0, 
+            totalDiscount: subtotalTransactional - toTransactional(totals.lines), 
             timestamp: new Date().toISOString(), 
             cashier, 
             customerId, 
             supplierIntermediaryId,
+            shiftId: oldInv ? oldInv.shiftId : currentShift?.id,
+            priceListIds: priceListIds.length > 0 ? priceListIds : undefined,
+            promotions: promoted.applied.length > 0 ? promoted.applied : undefined,
+            ...(totals.tax > 0 ? { totalTax: taxTransactional, pricesIncludeTax } : {}),
+            ...(cartQuotationId ? { quotationId: cartQuotationId } : {}),
+            ...(exchange ? { exchangeInvoiceId: exchange.returnInv.id } : {}),
             currency, 
-            exchangeRate 
+            exchangeRate,
+            ...(approvals.length > 0 ? { approvals } : {}),
+            ...(payment ? { payment } : {})
         };
 
-        // 4. Atomic Balance Update
-        const customerUpdates: {id: string, newBalances: {AFN: number, USD: number, IRT: number, Total: number}}[] = [];
-        const supplierUpdates: {id: string, newBalances: {AFN: number, USD: number, IRT: number, Total: number}}[] = [];
-        
-        // Revert Old Customer
-        if (oldInv && oldInv.customerId) {
-            const oc = customers.find(c => c.id === oldInv.customerId);
-            if (oc) {
-                let balAFN = oc.balanceAFN, balUSD = oc.balanceUSD, balIRT = oc.balanceIRT, balTotal = oc.balance;
-                if (oldInv.currency === 'USD') balUSD -= oldInv.totalAmount;
-                else if (oldInv.currency === 'IRT') balIRT -= oldInv.totalAmount;
-                else balAFN -= oldInv.totalAmount;
-                balTotal -= oldInv.totalAmountAFN;
-                customerUpdates.push({ id: oc.id, newBalances: { AFN: balAFN, USD: balUSD, IRT: balIRT, Total: balTotal } });
-            }
-        }
-
-        // Revert Old Supplier Intermediary
-        if (oldInv && oldInv.supplierIntermediaryId) {
-            const os = suppliers.find(s => s.id === oldInv.supplierIntermediaryId);
-            if (os) {
-                let balAFN = os.balanceAFN, balUSD = os.balanceUSD, balIRT = os.balanceIRT, balTotal = os.balance;
-                // Debit was added (negative impact on supplier credit), so we add it back (credit)
-                if (oldInv.currency === 'USD') balUSD += oldInv.totalAmount;
-                else if (oldInv.currency === 'IRT') balIRT += oldInv.totalAmount;
-                else balAFN += oldInv.totalAmount;
-                balTotal += oldInv.totalAmountAFN;
-                supplierUpdates.push({ id: os.id, newBalances: { AFN: balAFN, USD: balUSD, IRT: balIRT, Total: balTotal } });
-            }
-        }
-
-        // Apply New Customer
-        if (customerId) {
-            const nc = customers.find(c => c.id === customerId);
-            if (nc) {
-                const prevUpdate = customerUpdates.find(u => u.id === customerId);
-                let balAFN = prevUpdate ? prevUpdate.newBalances.AFN : nc.balanceAFN;
-                let balUSD = prevUpdate ? prevUpdate.newBalances.USD : nc.balanceUSD;
-                let balIRT = prevUpdate ? prevUpdate.newBalances.IRT : nc.balanceIRT;
-                let balTotal = prevUpdate ? prevUpdate.newBalances.Total : nc.balance;
-
-                if (currency === 'USD') balUSD += totalTransactional;
-                else if (currency === 'IRT') balIRT += totalTransactional;
-                else balAFN += totalTransactional;
-                
-                balTotal += totalBaseAmount;
-
-                const finalBal = { AFN: balAFN, USD: balUSD, IRT: balIRT, Total: balTotal };
-                if (prevUpdate) prevUpdate.newBalances = finalBal;
-                else customerUpdates.push({ id: nc.id, newBalances: finalBal });
-            }
-        }
-
-        // Apply New Supplier Intermediary
-        if (supplierIntermediaryId) {
-            const ns = suppliers.find(s => s.id === supplierIntermediaryId);
-            if (ns) {
-                const prevUpdate = supplierUpdates.find(u => u.id === supplierIntermediaryId);
-                let balAFN = prevUpdate ? prevUpdate.newBalances.AFN : ns.balanceAFN;
-                let balUSD = prevUpdate ? prevUpdate.newBalances.USD : ns.balanceUSD;
-                let balIRT = prevUpdate ? prevUpdate.newBalances.IRT : ns.balanceIRT;
-                let balTotal = prevUpdate ? prevUpdate.newBalances.Total : ns.balance;
-
-                // Supplier account is debited (they owe us more or we owe them less)
-                if (currency === 'USD') balUSD -= totalTransactional;
-                else if (currency === 'IRT') balIRT -= totalTransactional;
-                else balAFN -= totalTransactional;
-                
-                balTotal -= totalBaseAmount;
-
-                const finalBal = { AFN: balAFN, USD: balUSD, IRT: balIRT, Total: balTotal };
-                if (prevUpdate) prevUpdate.newBalances = finalBal;
-                else supplierUpdates.push({ id: ns.id, newBalances: finalBal });
+        // What is paid from each voucher; its balance is taken down as stored when the sale is written
+        const voucherSpends = (payment?.tenders || []).reduce<VoucherSpend[]>((spends, t) => {
+            if (t.kind !== 'voucher' || !t.voucherId) return spends;
+            const spend = spends.find(sp => sp.voucherId === t.voucherId);
+            if (spend) spend.amount += t.amountBase;
+            else spends.push({ voucherId: t.voucherId, amount: t.amountBase });
+            return spends;
+        }, []);
+
+        // 4. Atomic Balance Update: what the sale moves each party's balances by
+        const customerUpdates: BalanceChange[] = [];
+        const supplierUpdates: BalanceChange[] = [];
+
+        const moveBalance = (updates: BalanceChange[], partyId: string, settlement: SaleSettlement, factor: number) => {
+            let update = updates.find(u => u.id === partyId);
+            if (!update) {
+                update = { id: partyId, change: balanceChange(settlement.currency, 0, 0) };
+                updates.push(update);
             }
+            update.change[settlement.currency] += factor * settlement.amount;
+            update.change.Total += factor * settlement.base;
+        };
+        // Credit tenders raise the customer's debt; intermediary tenders are debited to the supplier (we owe them less).
+        // The old invoice is posted with factor -1 to revert it.
+        const postSettlements = (inv: SaleInvoice, factor: 1 | -1) => saleSettlements(inv).forEach(st => {
+            if (st.kind === 'credit' && inv.customerId) moveBalance(customerUpdates, inv.customerId, st, factor);
+            else if (st.kind === 'intermediary' && inv.supplierIntermediaryId) moveBalance(supplierUpdates, inv.supplierIntermediaryId, st, -factor);
+        });
+        if (oldInv) postSettlements(oldInv, -1);
+        postSettlements(finalInv, 1);
+
+        const creditSettlement = saleSettlements(finalInv).find(st => st.kind === 'credit');
+        const intermediarySettlement = saleSettlements(finalInv).find(st => st.kind === 'intermediary');
+        const rateOf = (settlement?: SaleSettlement) => payment?.tenders.find(t => t.kind === settlement?.kind)?.exchangeRate ?? exchangeRate;
+        const customerTx: CustomerTransaction = { id: crypto.randomUUID(), customerId: creditSettlement ? customerId || '' : '', type: 'credit_sale', amount: creditSettlement?.amount ?? totalTransactional, date: finalInv.timestamp, description: `فاکتور #${invId}`, invoiceId: invId, currency: creditSettlement?.currency ?? currency, exchangeRate: rateOf(creditSettlement), isCash: !creditSettlement };
+        const supplierTx: SupplierTransaction = { id: crypto.randomUUID(), supplierId: supplierIntermediaryId || '', type: 'payment', amount: intermediarySettlement?.amount ?? totalTransactional, date: finalInv.timestamp, description: `فروش کالا (واسطه) - فاکتور #${invId}`, invoiceId: invId, currency: intermediarySettlement?.currency ?? currency, exchangeRate: rateOf(intermediarySettlement), isCash: false };
+        const journal = journalForSale(finalInv, state.storeSettings);
+
+        // The return half of an exchange sets its goods off against the sale. Whatever they are worth beyond it is
+        // refunded in the sale's currency: onto the account of the original sale's customer, or else from the drawer.
+        let exchangeReturn: SaleInvoice | null = null;
+        let refundTx: CustomerTransaction | null = null;
+        if (exchange) {
+            const settings = state.storeSettings;
+            const { returnInv } = exchange;
+            const refundBase = returnInv.totalAmountAFN - exchangeBase;
+            const rate = currency === settings.baseCurrency ? 1 : exchangeRate;
+            const tenders: SaleTender[] = [{ kind: 'exchange', currency: returnInv.currency, exchangeRate: returnInv.exchangeRate, amount: fromBaseAmount(exchangeBase, returnInv.currency, returnInv.exchangeRate, settings), amountBase: exchangeBase }];
+            if (refundBase > 0.01) tenders.push({ kind: returnInv.customerId ? 'credit' : 'cash', currency, exchangeRate: rate, amount: fromBaseAmount(refundBase, currency, rate, settings), amountBase: refundBase });
+            exchangeReturn = { ...returnInv, timestamp: finalInv.timestamp, exchangeInvoiceId: invId, payment: { tenders } };
+            postSettlements(exchangeReturn, -1);
+            const refund = saleSettlements(exchangeReturn).find(st => st.kind === 'credit');
+            if (refund && returnInv.customerId) refundTx = { id: crypto.randomUUID(), customerId: returnInv.customerId, type: 'sale_return', amount: refund.amount, date: finalInv.timestamp, description: `مرجوعی فاکتور #${returnInv.originalInvoiceId} (تعویض با فاکتور #${invId})`, invoiceId: returnInv.id, currency: refund.currency, exchangeRate: rate, isCash: false };
         }
 
-        const customerTx: CustomerTransaction = { id: crypto.randomUUID(), customerId: customerId || '', type: 'credit_sale', amount: totalTransactional, date: finalInv.timestamp, description: `فاکتور #${invId}`, invoiceId: invId, currency, isCash: !customerId };
-        const supplierTx: SupplierTransaction = { id: crypto.randomUUID(), supplierId: supplierIntermediaryId || '', type: 'payment', amount: totalTransactional, date: finalInv.timestamp, description: `فروش کالا (واسطه) - فاکتور #${invId}`, invoiceId: invId, currency, isCash: false };
-
         try {
+            // Both halves of an exchange are new, so their transactions are added like a new sale's
+            const exchangeJournal = exchangeReturn ? journalForSaleReturn(exchangeReturn, state.storeSettings) : [];
+            const customerTxs = [...(creditSettlement && customerId ? [customerTx] : []), ...(refundTx ? [refundTx] : [])];
+            const supplierTxs = intermediarySettlement && supplierIntermediaryId ? [supplierTx] : [];
+            let spentVouchers: StoreCreditVoucher[] = [];
             if (editingSaleInvoiceId) {
-                const stockRestores: {batchId: string, quantity: number}[] = [];
+                // The old invoice's goods go back on the shelf before the edited lines come off it
+                const stockRestores: StockChange[] = [];
                 oldInv?.items.forEach(it => {
                     if (it.type === 'product' && it.batchDeductions) {
                         it.batchDeductions.forEach(d => stockRestores.push(d));
@@ -728,45 +1671,76 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 await api.updateSale(
                     editingSaleInvoiceId, 
                     finalInv, 
-                    stockRestores, 
-                    stockUpdates, 
+                    [...stockRestores, ...stockChanges], 
                     customerUpdates, 
                     customerTx,
                     supplierUpdates,
-                    supplierIntermediaryId ? supplierTx : undefined
+                    intermediarySettlement ? supplierTx : undefined,
+                    journal
                 );
+            } else if (exchangeReturn) {
+                spentVouchers = await api.createExchange(finalInv, exchangeReturn, stockChanges, customerUpdates, supplierUpdates, customerTxs, supplierTxs, [...journal, ...exchangeJournal], voucherSpends);
             } else {
-                await api.createSale(
+                spentVouchers = await api.createSale(
                     finalInv, 
-                    stockUpdates, 
+                    stockChanges, 
                     customerUpdates[0] ? { ...customerUpdates[0], transaction: customerTx } : undefined,
-                    supplierUpdates[0] ? { ...supplierUpdates[0], transaction: supplierTx } : undefined
+                    supplierUpdates[0] ? { ...supplierUpdates[0], transaction: supplierTx } : undefined,
+                    journal,
+                    undefined,
+                    voucherSpends
                 );
             }
             
-            await fetchData(true);
-            setState(prev => ({ ...prev, cart: [], editingSaleInvoiceId: null }));
-            logActivity('sale', `${editingSaleInvoiceId ? 'ویرایش' : 'ثبت'} فاکتور فروش: ${invId}`, invId, 'saleInvoice');
-            return { success: true, invoice: finalInv, message: 'فاکتور با موفقیت ثبت شد.' };
-        } catch (e) { return { success: false, message: 'خطا در ثبت نهایی فاکتور.' }; }
+            // An edit rewrites the invoice's existing transactions in place, so those are re-read
+            await applyWrite(editingSaleInvoiceId
+                ? { reload: ['products', 'transactions'], upsert: { saleInvoices: [finalInv] }, journal }
+                : exchangeReturn
+                ? {
+                    reload: ['products'],
+                    upsert: { saleInvoices: [finalInv, exchangeReturn], customerTransactions: customerTxs, supplierTransactions: supplierTxs },
+                    journal: [...journal, ...exchangeJournal]
+                }
+                : {
+                    reload: ['products'],
+                    upsert: { saleInvoices: [finalInv], customerTransactions: customerUpdates[0] ? [customerTx] : [], supplierTransactions: supplierUpdates[0] ? [supplierTx] : [] },
+                    journal
+                });
+            // The sale is already saved; a quotation that fails to update only stays open for conversion
+            const quotation = cartQuotationId ? state.quotations.find(q => q.id === cartQuotationId) : undefined;
+            const converted = quotation ? { ...quotation, convertedInvoiceId: invId } : undefined;
+            if (converted) await api.saveQuotation(converted).catch(() => undefined);
+            setState(prev => ({
+                ...prev, cart: [], cartPromotions: [], cartQuotationId: null, editingSaleInvoiceId: null, cartExchange: exchangeReturn ? null : prev.cartExchange,
+                quotations: converted ? prev.quotations.map(q => q.id === converted.id ? converted : q) : prev.quotations,
+                storeCreditVouchers: prev.storeCreditVouchers.map(v => spentVouchers.find(sv => sv.id === v.id) || v)
+            }));
+            editApprovals.current = [];
+            logActivity('sale', exchangeReturn
+                ? `ثبت تعویض: فاکتور ${invId} و مرجوعی ${exchangeReturn.id} (مرجع: ${exchangeReturn.originalInvoiceId})`
+                : `${editingSaleInvoiceId ? 'ویرایش' : 'ثبت'} فاکتور فروش: ${invId}`, invId, 'saleInvoice');
+            newApprovals.forEach(a => logActivity('sale', `تأیید ${a.approverName} برای فاکتور ${invId}: ${a.violations.join('، ')} — دلیل: ${a.reason}`, invId, 'saleInvoice'));
+            return { success: true, invoice: finalInv, message: exchangeReturn ? 'تعویض با موفقیت ثبت شد.' : 'فاکتور با موفقیت ثبت شد.' };
+        } catch (e) { return { success: false, message: e instanceof Error ? e.message : 'خطا در ثبت نهایی فاکتور.' }; }
     };
 
     // --- Standardized POS Logic: Sale Returns with Inventory Referencing ---
-    const addSaleReturn = async (originalInvoiceId: string, returnItems: { id: string; type: 'product' | 'service'; quantity: number }[], cashier: string): Promise<{ success: boolean, message: string }> => {
-        const { saleInvoices, products, customers } = state;
-        const originalInv = saleInvoices.find(inv => inv.id === originalInvoiceId);
-        if (!originalInv) return { success: false, message: "فاکتور اصلی یافت نشد." };
-
+    // Prices a return of some of an invoice's lines at what they were sold for, and finds the batches they go back to
+    const buildSaleReturn = (originalInv: SaleInvoice, returnItems: { id: string; type: 'product' | 'service'; quantity: number }[], returnId: string, cashier: string) => {
         const stockRestores: { batchId: string, quantity: number }[] = [];
         let returnTotalAFN = 0;
         let returnTotalTransactional = 0;
+        let returnTaxAFN = 0;
 
         const returnItemsDetails: CartItem[] = returnItems.map(ret => {
             const originalItem = originalInv.items.find(it => it.id === ret.id && it.type === ret.type);
             if (!originalItem) throw new Error("کالا در فاکتور اصلی یافت نشد.");
             if (ret.quantity > originalItem.quantity) throw new Error("تعداد مرجوعی بیش از تعداد فروخته شده است.");
 
-            const itemPriceBase = (originalItem.type === 'product' && originalItem.finalPrice !== undefined) ? originalItem.finalPrice : (originalItem.type === 'product' ? originalItem.salePrice : originalItem.price);
+            // Each returned unit gives back its share of the line's promotion discount and of its tax
+            const share = ret.quantity / originalItem.quantity;
+            const itemPriceBase = (lineTotalBase(originalItem) + (originalInv.pricesIncludeTax ? 0 : originalItem.taxAmount || 0)) / originalItem.quantity;
+            returnTaxAFN += (originalItem.taxAmount || 0) * share;
             const rate = originalInv.exchangeRate || 1;
             
             // Re-calculate the transactional price for returning
@@ -794,73 +1768,275 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 });
             }
 
-            return { ...originalItem, quantity: ret.quantity } as CartItem;
+            const returned = { ...originalItem, quantity: ret.quantity, ...(originalItem.taxAmount ? { taxAmount: originalItem.taxAmount * share } : {}) } as CartItem;
+            return returned.type === 'product' && returned.promotionDiscount
+                ? { ...returned, promotionDiscount: returned.promotionDiscount * share }
+                : returned;
         });
 
-        const returnId = generateNextId('R', saleInvoices.map(i => i.id));
         const returnInv: SaleInvoice = {
             id: returnId,
             type: 'return',
-            originalInvoiceId,
+            originalInvoiceId: originalInv.id,
             items: returnItemsDetails,
             subtotal: returnTotalTransactional,
             totalAmount: returnTotalTransactional,
             totalAmountAFN: returnTotalAFN,
             totalDiscount: 0,
+            ...(returnTaxAFN > 0 ? { totalTax: returnTotalTransactional * returnTaxAFN / returnTotalAFN, pricesIncludeTax: originalInv.pricesIncludeTax } : {}),
             timestamp: new Date().toISOString(),
             cashier,
             customerId: originalInv.customerId,
+            shiftId: currentShift?.id,
             currency: originalInv.currency,
             exchangeRate: originalInv.exchangeRate
         };
 
-        let customerRefund = undefined;
-        if (originalInv.customerId) {
-            const customer = customers.find(c => c.id === originalInv.customerId);
-            if (customer) {
-                const newBalances = { ...customer };
-                if (originalInv.currency === 'USD') newBalances.balanceUSD -= returnTotalTransactional;
-                else if (originalInv.currency === 'IRT') newBalances.balanceIRT -= returnTotalTransactional;
-                else newBalances.balanceAFN -= returnTotalTransactional;
-                newBalances.balance -= returnTotalAFN;
-
-                customerRefund = {
-                    id: originalInv.customerId,
-                    amount: returnTotalTransactional,
-                    currency: originalInv.currency,
-                    newBalances: { AFN: newBalances.balanceAFN, USD: newBalances.balanceUSD, IRT: newBalances.balanceIRT, Total: newBalances.balance }
-                };
-            }
+        return { returnInv, stockRestores };
+    };
+
+    // Saves a return and pays its value out where the cashier chose. Without a choice it goes where returns always
+    // went: onto the customer's account, or else out of the drawer in the invoice's currency.
+    const saveSaleReturn = async (
+        returnInv: SaleInvoice,
+        stockRestores: StockChange[],
+        refund?: ReturnRefundRequest,
+        newBatches: { productId: string, batch: ProductBatch }[] = []
+    ): Promise<{ success: boolean; message: string; voucher?: StoreCreditVoucher }> => {
+        const settings = state.storeSettings;
+        const base = returnInv.totalAmountAFN;
+        let voucher: StoreCreditVoucher | undefined;
+        let tender: SaleTender | undefined;
+        if (refund?.destination === 'credit') {
+            if (!returnInv.customerId) return { success: false, message: "برای برگشت مبلغ به حساب، مشتری را انتخاب کنید." };
+            tender = { kind: 'credit', currency: returnInv.currency, exchangeRate: returnInv.exchangeRate, amount: returnInv.totalAmount, amountBase: base };
+        } else if (refund?.destination === 'voucher') {
+            voucher = { id: generateNextId('V', state.storeCreditVouchers.map(v => v.id)), returnInvoiceId: returnInv.id, customerId: returnInv.customerId, amount: base, balance: base, issuedAt: returnInv.timestamp, redemptions: [] };
+            tender = { kind: 'voucher', currency: settings.baseCurrency, exchangeRate: 1, amount: base, amountBase: base, voucherId: voucher.id };
+        } else if (refund) {
+            const rate = refund.currency === settings.baseCurrency ? 1 : refund.exchangeRate;
+            if (!(rate > 0)) return { success: false, message: "لطفاً نرخ تبدیل ارز پرداخت را وارد کنید." };
+            tender = { kind: 'cash', currency: refund.currency, exchangeRate: rate, amount: fromBaseAmount(base, refund.currency, rate, settings), amountBase: base };
         }
+        const saved: SaleInvoice = tender ? { ...returnInv, payment: { tenders: [tender] } } : returnInv;
+
+        // A refund to the account takes the customer's debt down
+        const credit = saleSettlements(saved).find(st => st.kind === 'credit');
+        const customerRefund = credit && saved.customerId
+            ? { id: saved.customerId, amount: credit.amount, currency: credit.currency, change: balanceChange(credit.currency, -credit.amount, -credit.base) }
+            : undefined;
 
         try {
-            await api.createSaleReturn(returnInv, stockRestores, customerRefund);
-            await fetchData(true);
-            logActivity('sale', `ثبت مرجوعی فروش: فاکتور ${returnId} (مرجع: ${originalInvoiceId})`, returnId, 'saleInvoice');
-            return { success: true, message: "مرجوعی با موفقیت ثبت و انبار بروزرسانی شد." };
+            const journal = journalForSaleReturn(saved, settings);
+            await api.createSaleReturn(saved, stockRestores, customerRefund, journal, voucher, newBatches);
+            await applyWrite({ reload: ['products', 'transactions'], upsert: { saleInvoices: [saved] }, journal });
+            if (voucher) setState(prev => ({ ...prev, storeCreditVouchers: [...prev.storeCreditVouchers, voucher!] }));
+            const voucherNote = voucher ? ` ووچر ${voucher.id} به مبلغ ${formatCurrency(voucher.amount, settings)} صادر شد.` : '';
+            return { success: true, message: `مرجوعی با موفقیت ثبت و انبار بروزرسانی شد.${voucherNote}`, voucher };
         } catch (e) {
             return { success: false, message: "خطا در ثبت مرجوعی." };
         }
     };
 
-    const beginEditSale = (id: string) => {
+    const addSaleReturn = async (originalInvoiceId: string, returnItems: { id: string; type: 'product' | 'service'; quantity: number }[], cashier: string, refund?: ReturnRefundRequest): Promise<{ success: boolean, message: string }> => {
+        // The original may be older than the loaded window
+        const originalInv = await getSaleInvoice(originalInvoiceId);
+        if (!originalInv) return { success: false, message: "فاکتور اصلی یافت نشد." };
+        if (originalInv.voided) return { success: false, message: "این فاکتور باطل شده است." };
+
+        const returnId = generateNextId('R', await api.getInvoiceIds('sale'));
+        const { returnInv, stockRestores } = buildSaleReturn(originalInv, returnItems, returnId, cashier);
+        const result = await saveSaleReturn(returnInv, stockRestores, refund);
+        if (result.success) logActivity('sale', `ثبت مرجوعی فروش: فاکتور ${returnId} (مرجع: ${originalInvoiceId})`, returnId, 'saleInvoice');
+        return result;
+    };
+
+    // Goods brought back without a receipt, priced at the till. They go back on the shelf at the cost basis chosen:
+    // into the product's newest batch at its cost, or into a batch of their own at a cost entered by hand.
+    const addUnreferencedReturn = async (lines: UnreferencedReturnLine[], costBasis: ReturnCostBasis, cashier: string, refund: ReturnRefundRequest, customerId?: string): Promise<{ success: boolean, message: string }> => {
+        const { products, services, storeSettings } = state;
+        const items = lines.filter(l => l.quantity > 0);
+        if (items.length === 0) return { success: false, message: "کالایی برای مرجوعی انتخاب نشده است." };
+        if (items.some(l => !(l.unitPrice >= 0))) return { success: false, message: "مبلغ برگشتی هر کالا را وارد کنید." };
+        if (costBasis === 'manual' && items.some(l => l.unitCost === undefined || !(l.unitCost >= 0))) return { success: false, message: "بهای تمام شده هر کالا را وارد کنید." };
+
+        const returnId = generateNextId('R', await api.getInvoiceIds('sale'));
+        const timestamp = new Date().toISOString();
+        const stockRestores: { batchId: string, quantity: number }[] = [];
+        const newBatches: { productId: string, batch: ProductBatch }[] = [];
+        const returnLines: CartItem[] = [];
+        for (const line of items) {
+            const product = products.find(p => p.id === line.productId);
+            if (!product) return { success: false, message: "کالا یافت نشد." };
+            let batch: ProductBatch | undefined;
+            if (costBasis === 'manual') {
+                batch = { id: crypto.randomUUID(), lotNumber: `مرجوعی ${returnId}`, stock: line.quantity, purchasePrice: line.unitCost!, purchaseDate: timestamp };
+                newBatches.push({ productId: product.id, batch });
+            } else {
+                batch = [...product.batches].sort((a, b) => new Date(b.purchaseDate).getTime() - new Date(a.purchaseDate).getTime())[0];
+                if (!batch) return { success: false, message: `«${product.name}» بچ خریدی ندارد؛ بهای تمام شده را دستی وارد کنید.` };
+                stockRestores.push({ batchId: batch.id, quantity: line.quantity });
+            }
+            returnLines.push({ ...product, type: 'product', quantity: line.quantity, salePrice: line.unitPrice, purchasePrice: batch.purchasePrice, batchDeductions: [{ batchId: batch.id, quantity: line.quantity }] });
+        }
+
+        // In the base currency. The entered amount is what goes back to the customer, so its tax is taken out of it
+        // rather than added on top, whether or not shelf prices include tax.
+        const pricesIncludeTax = true;
+        const taxedLines = applyTax(returnLines, products, services, { ...storeSettings, pricesIncludeTax });
+        const totals = cartTotals(taxedLines, pricesIncludeTax);
+        const returnInv: SaleInvoice = {
+            id: returnId,
+            type: 'return',
+            items: taxedLines,
+            subtotal: totals.total,
+            totalAmount: totals.total,
+            totalAmountAFN: totals.total,
+            totalDiscount: 0,
+            ...(totals.tax > 0 ? { totalTax: totals.tax, pricesIncludeTax } : {}),
+            timestamp,
+            cashier,
+            customerId,
+            shiftId: currentShift?.id,
+            currency: storeSettings.baseCurrency,
+            exchangeRate: 1,
+            costBasis
+        };
+
+        const result = await saveSaleReturn(returnInv, stockRestores, refund, newBatches);
+        if (result.success) logActivity('sale', `ثبت مرجوعی بدون فاکتور: ${returnId}`, returnId, 'saleInvoice');
+        return result;
+    };
+
+    // Holds the lines being handed back until the cart they are swapped for is sold; completeSale saves both together
+    const beginExchange = async (originalInvoiceId: string, returnItems: { id: string; type: 'product' | 'service'; quantity: number }[]) => {
+        if (state.editingSaleInvoiceId) return { success: false, message: "در حالت ویرایش فاکتور امکان تعویض نیست." };
+        const originalInv = await getSaleInvoice(originalInvoiceId);
+        if (!originalInv) return { success: false, message: "فاکتور اصلی یافت نشد." };
+        if (originalInv.voided) return { success: false, message: "این فاکتور باطل شده است." };
+        const items = returnItems.filter(i => i.quantity > 0);
+        if (items.length === 0) return { success: false, message: "کالایی برای تعویض انتخاب نشده است." };
+        try {
+            const { returnInv } = buildSaleReturn(originalInv, items, '', '');
+            setState(prev => ({ ...prev, cartExchange: { originalInvoiceId, items, creditBase: returnInv.totalAmountAFN } }));
+            return { success: true, message: `اقلام مرجوعی ثبت شد؛ کالای جایگزین را به سبد اضافه کنید. ارزش مرجوعی: ${formatCurrency(returnInv.totalAmountAFN, state.storeSettings)}` };
+        } catch (e) {
+            return { success: false, message: e instanceof Error ? e.message : "خطا در ثبت اقلام مرجوعی." };
+        }
+    };
+
+    const cancelExchange = () => setState(prev => ({ ...prev, cartExchange: null }));
+
+    // Cancels a sale entered by mistake. The invoice stays on file marked void; its stock goes back to the batches it
+    // came from and every journal line and party balance it moved is posted back the other way.
+    const voidSale = async (invoiceId: string, reason: string) => {
+        const { storeSettings } = state;
+        if (state.editingSaleInvoiceId === invoiceId) return { success: false, message: "این فاکتور در حال ویرایش است." };
+        if (!reason.trim()) return { success: false, message: "دلیل ابطال را وارد کنید." };
+        const at = new Date().toISOString();
+
+        // Worked out from the stored invoice, its returns and its posted journal, read in the same transaction that writes the void
+        const buildVoid = ({ invoice: inv, returns, posted, customer, supplier, vouchers: spentVouchers }: SaleVoidSource): SaleVoidWrite => {
+            if (!inv) throw new Error("فاکتور یافت نشد.");
+            if (inv.voided) throw new Error("این فاکتور قبلاً باطل شده است.");
+            if (inv.type !== 'sale') throw new Error("مرجوعی قابل ابطال نیست.");
+            if (inv.salesOrderId) throw new Error(`این فاکتور تحویل سفارش ${inv.salesOrderId} است و قابل ابطال نیست.`);
+            if (inv.exchangeInvoiceId) throw new Error(`این فاکتور با مرجوعی ${inv.exchangeInvoiceId} تهاتر شده و قابل ابطال نیست.`);
+            if (returns.length > 0) throw new Error("برای این فاکتور مرجوعی ثبت شده و قابل ابطال نیست.");
+
+            const voidedInv: SaleInvoice = { ...inv, voided: { at, by: state.currentUser ? displayNameOf(state.currentUser) : '', reason: reason.trim() } };
+
+            const stockRestores: { batchId: string, quantity: number }[] = [];
+            inv.items.forEach(it => { if (it.type === 'product' && it.batchDeductions) it.batchDeductions.forEach(d => stockRestores.push(d)); });
+
+            const rateOf = (st: SaleSettlement) => inv.payment?.tenders.find(t => t.kind === st.kind)?.exchangeRate ?? inv.exchangeRate;
+            const balancesAfter = (party: Customer | Supplier, st: SaleSettlement, factor: 1 | -1): BalanceSnapshot => {
+                const newBalances = { AFN: party.balanceAFN, USD: party.balanceUSD, IRT: party.balanceIRT, Total: party.balance };
+                newBalances[st.currency] += factor * st.amount;
+                newBalances.Total += factor * st.base;
+                return newBalances;
+            };
+            const creditSettlement = saleSettlements(inv).find(st => st.kind === 'credit');
+            const intermediarySettlement = saleSettlements(inv).find(st => st.kind === 'intermediary');
+
+            // The customer's debt is taken back off; the intermediary supplier is owed again what the sale had settled
+            let customerUpdate: SaleVoidWrite['customerUpdate'];
+            let supplierUpdate: SaleVoidWrite['supplierUpdate'];
+            if (customer && creditSettlement) {
+                const transaction: CustomerTransaction = { id: crypto.randomUUID(), customerId: customer.id, type: 'sale_return', amount: creditSettlement.amount, date: at, description: `ابطال فاکتور #${inv.id}`, invoiceId: inv.id, currency: creditSettlement.currency, exchangeRate: rateOf(creditSettlement), isCash: false };
+                customerUpdate = { id: customer.id, newBalances: balancesAfter(customer, creditSettlement, -1), transaction };
+            }
+            if (supplier && intermediarySettlement) {
+                const transaction: SupplierTransaction = { id: crypto.randomUUID(), supplierId: supplier.id, type: 'purchase', amount: intermediarySettlement.amount, date: at, description: `ابطال فروش کالا (واسطه) - فاکتور #${inv.id}`, invoiceId: inv.id, currency: intermediarySettlement.currency, exchangeRate: rateOf(intermediarySettlement), isCash: false };
+                supplierUpdate = { id: supplier.id, newBalances: balancesAfter(supplier, intermediarySettlement, 1), transaction };
+            }
+
+            // Invoices from before the journal existed have nothing posted; their reversal is worked out from the invoice
+            const journal = [...posted, ...journalForSaleVoid(inv, posted.length > 0 ? posted : journalForSale(inv, storeSettings), at)];
+            // Vouchers the sale spent get that amount back
+            const vouchers = spentVouchers.flatMap(v => {
+                const redemption = v.redemptions.find(r => r.invoiceId === inv.id);
+                return redemption ? [{ ...v, balance: v.balance + redemption.amount, redemptions: v.redemptions.filter(r => r !== redemption) }] : [];
+            });
+            return { invoice: voidedInv, stockRestores, customerUpdate, supplierUpdate, journal, vouchers };
+        };
+
+        try {
+            const { invoice: inv, customerUpdate, supplierUpdate, journal, vouchers: refundedVouchers } = await api.voidSale(invoiceId, buildVoid);
+            await applyWrite({
+                reload: ['products'],
+                upsert: { saleInvoices: [inv], customerTransactions: customerUpdate ? [customerUpdate.transaction] : [], supplierTransactions: supplierUpdate ? [supplierUpdate.transaction] : [] },
+                journal
+            });
+            if (refundedVouchers.length > 0) setState(prev => ({ ...prev, storeCreditVouchers: prev.storeCreditVouchers.map(v => refundedVouchers.find(rv => rv.id === v.id) || v) }));
+            // The quotation it was sold from can be sold again
+            const quotation = inv.quotationId ? state.quotations.find(q => q.id === inv.quotationId && q.convertedInvoiceId === inv.id) : undefined;
+            if (quotation) {
+                const { convertedInvoiceId, ...reopened } = quotation;
+                await api.saveQuotation(reopened).catch(() => undefined);
+                setState(prev => ({ ...prev, quotations: prev.quotations.map(q => q.id === reopened.id ? reopened : q) }));
+            }
+            logActivity('sale', `ابطال فاکتور فروش: ${inv.id} — دلیل: ${reason.trim()}`, inv.id, 'saleInvoice');
+            return { success: true, message: `فاکتور ${inv.id} باطل شد.` };
+        } catch (e) {
+            return { success: false, message: e instanceof Error ? e.message : "خطا در ابطال فاکتور." };
+        }
+    };
+
+    const beginEditSale = (id: string, approval?: SaleApproval) => {
         const inv = state.saleInvoices.find(i => i.id === id);
         if (!inv) return { success: false, message: "فاکتور یافت نشد." };
-        setState(prev => ({ ...prev, editingSaleInvoiceId: id, cart: [...inv.items] }));
+        if (inv.voided) return { success: false, message: "فاکتور باطل‌شده قابل ویرایش نیست." };
+        if (inv.exchangeInvoiceId) return { success: false, message: `این فاکتور با مرجوعی ${inv.exchangeInvoiceId} تهاتر شده و قابل ویرایش نیست.` };
+        if (state.cartExchange) return { success: false, message: "ابتدا تعویض در جریان را لغو کنید." };
+        if (inv.payment?.tenders.some(t => t.kind === 'voucher')) return { success: false, message: "این فاکتور با ووچر پرداخت شده و قابل ویرایش نیست." };
+        // Its quantities are already counted as delivered on the order
+        if (inv.salesOrderId) return { success: false, message: `این فاکتور تحویل سفارش ${inv.salesOrderId} است و قابل ویرایش نیست.` };
+        editApprovals.current = [];
+        if (!isWithinEditWindow(inv.timestamp, roleLimits)) {
+            const violation = `ویرایش فاکتور ${id} خارج از بازه ${roleLimits.editWindowDays} روزه نقش`;
+            const redeemed = redeemApproval(approval, [violation]);
+            if (!redeemed) return { success: false, message: editWindowMessage(), approvalRequired: [violation] };
+            editApprovals.current = [redeemed];
+        }
+        // The invoice keeps the prices it was sold at
+        cartCustomerId.current = inv.customerId;
+        setState(prev => ({ ...prev, editingSaleInvoiceId: id, cartQuotationId: null, ...withPromotions({ ...prev, editingSaleInvoiceId: id }, [...inv.items]) }));
         return { success: true, message: "آماده ویرایش.", customerId: inv.customerId, supplierIntermediaryId: inv.supplierIntermediaryId };
     };
 
-    const cancelEditSale = () => setState(prev => ({ ...prev, editingSaleInvoiceId: null, cart: [] }));
+    const cancelEditSale = () => {
+        editApprovals.current = [];
+        setState(prev => ({ ...prev, editingSaleInvoiceId: null, cart: [], cartPromotions: [], cartQuotationId: null }));
+    };
     
     // --- Purchase Logic: Standardized Logic with Restoration Pattern ---
-    const addPurchaseInvoice = async (data: any) => {
-        const { suppliers, products, purchaseInvoices } = state;
-        const supplier = suppliers.find(s => s.id === data.supplierId);
-        if (!supplier) return { success: false, message: "تأمین کننده یافت نشد." };
-
-        const id = data.id || generateNextId('P', purchaseInvoices.map(i => i.id));
+    // The invoice, the supplier's new balance and payable, the received batches and the additional cost, ready to be written
+    const buildPurchase = (data: any, id: string, supplier: Supplier): PurchaseWrite => {
+        const { products } = state;
         const rate = data.exchangeRate || 1;
-        const totalCurrencyAmount = data.items.reduce((s: number, i: any) => s + (i.quantity * i.purchasePrice), 0);
+        // Input tax is owed to the supplier but kept out of the stock's cost
+        const totalCurrencyAmount = data.items.reduce((s: number, i: any) => s + (i.quantity * i.purchasePrice), 0) + (data.taxAmount || 0);
         
         const config = state.storeSettings.currencyConfigs[data.currency || state.storeSettings.baseCurrency];
         const totalAmountBase = data.currency === state.storeSettings.baseCurrency 
@@ -886,15 +2062,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
         const invoice: PurchaseInvoice = { ...data, id, items: purchaseItems, totalAmount: totalCurrencyAmount, type: 'purchase' };
         
-        const newBalances = { ...supplier };
-        if (data.currency === 'USD') newBalances.balanceUSD += totalCurrencyAmount;
-        else if (data.currency === 'IRT') newBalances.balanceIRT += totalCurrencyAmount;
-        else newBalances.balanceAFN += totalCurrencyAmount;
-        newBalances.balance += totalAmountBase;
-
         const supplierUpdate = {
             id: data.supplierId,
-            newBalances: { AFN: newBalances.balanceAFN, USD: newBalances.balanceUSD, IRT: newBalances.balanceIRT, Total: newBalances.balance },
+            change: balanceChange(invoice.currency, totalCurrencyAmount, totalAmountBase),
             transaction: { id: crypto.randomUUID(), supplierId: data.supplierId, type: 'purchase', amount: totalCurrencyAmount, date: data.timestamp, description: `خرید فاکتور #${data.invoiceNumber || id}`, invoiceId: id, currency: data.currency } as SupplierTransaction
         };
 
@@ -915,37 +2085,60 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             };
         });
 
-        try {
-            await api.createPurchase(invoice, supplierUpdate, newBatches);
-            
-            // Automatically record as expense if there's additional cost
-            if (data.additionalCost > 0) {
-                const expense: Omit<Expense, 'id'> = {
-                    category: 'logistics',
-                    description: `هزینه جانبی فاکتور خرید #${data.invoiceNumber || id}: ${data.costDescription || 'بدون توضیح'}`,
-                    amount: data.additionalCost,
-                    currency: data.currency || state.storeSettings.baseCurrency,
-                    exchangeRate: rate,
-                    date: data.timestamp,
-                    relatedId: id
-                };
-                await addExpense(expense);
-            }
+        // An additional cost is also recorded as an expense
+        const additionalCost = data.additionalCost > 0 ? buildExpense({
+            id: crypto.randomUUID(),
+            category: 'logistics',
+            description: `هزینه جانبی فاکتور خرید #${data.invoiceNumber || id}: ${data.costDescription || 'بدون توضیح'}`,
+            amount: data.additionalCost,
+            currency: data.currency || state.storeSettings.baseCurrency,
+            exchangeRate: rate,
+            date: data.timestamp,
+            relatedId: id,
+            shiftId: currentShift?.id
+        }) : undefined;
 
-            await fetchData(true);
+        return { invoice, supplierUpdate, newBatches, journal: journalForPurchase(invoice, totalAmountBase, state.storeSettings), additionalCost };
+    };
+
+    const purchaseStateWrite = ({ invoice, supplierUpdate, journal, additionalCost }: PurchaseWrite): StateWrite => ({
+        reload: ['products'],
+        upsert: { purchaseInvoices: [invoice], supplierTransactions: [supplierUpdate.transaction], expenses: additionalCost ? [additionalCost.expense] : [] },
+        journal: [...journal, ...(additionalCost?.journal || [])]
+    });
+
+    const addPurchaseInvoice = async (data: any) => {
+        const supplier = state.suppliers.find(s => s.id === data.supplierId);
+        if (!supplier) return { success: false, message: "تأمین کننده یافت نشد." };
+
+        const id = data.id || generateNextId('P', await api.getInvoiceIds('purchase'));
+        try {
+            const purchase = buildPurchase(data, id, supplier);
+            await api.createPurchase(purchase);
+            await applyWrite(purchaseStateWrite(purchase));
             logActivity('purchase', `خرید جدید ثبت شد: ${id}`, id, 'purchaseInvoice');
             return { success: true, message: 'خرید با موفقیت ثبت و به انبار اضافه شد.' };
         } catch (e) { return { success: false, message: 'خطا در ثبت خرید.' }; }
     };
 
-    const beginEditPurchase = (id: string) => {
+    const beginEditPurchase = (id: string, approval?: SaleApproval) => {
         const inv = state.purchaseInvoices.find(i => i.id === id);
         if (!inv) return { success: false, message: "فاکتور یافت نشد." };
+        purchaseEditApprovals.current = [];
+        if (!isWithinEditWindow(inv.timestamp, roleLimits)) {
+            const violation = `ویرایش فاکتور خرید ${id} خارج از بازه ${roleLimits.editWindowDays} روزه نقش`;
+            const redeemed = redeemApproval(approval, [violation]);
+            if (!redeemed) return { success: false, message: editWindowMessage(), approvalRequired: [violation] };
+            purchaseEditApprovals.current = [redeemed];
+        }
         setState(prev => ({ ...prev, editingPurchaseInvoiceId: id }));
         return { success: true, message: "آماده ویرایش." };
     };
 
-    const cancelEditPurchase = () => setState(prev => ({ ...prev, editingPurchaseInvoiceId: null }));
+    const cancelEditPurchase = () => {
+        purchaseEditApprovals.current = [];
+        setState(prev => ({ ...prev, editingPurchaseInvoiceId: null }));
+    };
 
     const updatePurchaseInvoice = async (invoiceData: any) => {
         const { purchaseInvoices, suppliers, products, editingPurchaseInvoiceId } = state;
@@ -958,7 +2151,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         if (!supplier) return { success: false, message: "تأمین کننده یافت نشد." };
 
         const rate = invoiceData.exchangeRate || 1;
-        const totalCurrencyAmount = invoiceData.items.reduce((s: number, i: any) => s + (i.quantity * i.purchasePrice), 0);
+        const totalCurrencyAmount = invoiceData.items.reduce((s: number, i: any) => s + (i.quantity * i.purchasePrice), 0) + (invoiceData.taxAmount || 0);
         
         const config = state.storeSettings.currencyConfigs[invoiceData.currency || state.storeSettings.baseCurrency];
         const totalAmountBase = invoiceData.currency === state.storeSettings.baseCurrency 
@@ -971,25 +2164,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             ? oldInv.totalAmount 
             : (oldConfig.method === 'multiply' ? oldInv.totalAmount / oldRate : oldInv.totalAmount * oldRate);
 
-        let balAFN = supplier.balanceAFN, balUSD = supplier.balanceUSD, balIRT = supplier.balanceIRT, balTotal = supplier.balance;
-        if (oldInv.currency === 'USD') balUSD -= oldInv.totalAmount;
-        else if (oldInv.currency === 'IRT') balIRT -= oldInv.totalAmount;
-        else balAFN -= oldInv.totalAmount;
-        balTotal -= oldTotalBase;
-
-        if (invoiceData.currency === 'USD') balUSD += totalCurrencyAmount;
-        else if (invoiceData.currency === 'IRT') balIRT += totalCurrencyAmount;
-        else balAFN += totalCurrencyAmount;
-        balTotal += totalAmountBase;
-
-        const supplierUpdate = {
-            id: invoiceData.supplierId,
-            newBalances: { AFN: balAFN, USD: balUSD, IRT: balIRT, Total: balTotal }
-        };
+        // The old invoice comes off the supplier's balance and the edited one goes on
+        const change = balanceChange(invoiceData.currency, totalCurrencyAmount, totalAmountBase);
+        change[oldInv.currency] -= oldInv.totalAmount;
+        change.Total -= oldTotalBase;
+        const supplierUpdate: BalanceChange = { id: invoiceData.supplierId, change };
 
+        const approvals = [...(oldInv.approvals || []), ...purchaseEditApprovals.current];
         const newInvoice: PurchaseInvoice = {
             ...oldInv,
             ...invoiceData,
+            ...(approvals.length > 0 ? { approvals } : {}),
             totalAmount: totalCurrencyAmount,
             items: invoiceData.items.map((it: any) => ({
                 ...it,
@@ -999,30 +2184,29 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         };
 
         try {
-            await api.updatePurchase(editingPurchaseInvoiceId, newInvoice, supplierUpdate);
-            
-            // Sync automated expense
-            const existingExpense = state.expenses.find(ex => ex.relatedId === editingPurchaseInvoiceId);
-            if (invoiceData.additionalCost > 0) {
-                const expenseData = {
-                    category: 'logistics',
-                    description: `هزینه جانبی فاکتور خرید #${invoiceData.invoiceNumber || editingPurchaseInvoiceId}: ${invoiceData.costDescription || 'بدون توضیح'}`,
-                    amount: invoiceData.additionalCost,
-                    currency: invoiceData.currency || state.storeSettings.baseCurrency,
-                    exchangeRate: rate,
-                    date: invoiceData.timestamp || new Date().toISOString(),
-                    relatedId: editingPurchaseInvoiceId
-                };
-                if (existingExpense) {
-                    updateExpense({ ...existingExpense, ...expenseData });
-                } else {
-                    addExpense(expenseData);
-                }
-            } else if (existingExpense) {
-                deleteExpense(existingExpense.id);
-            }
-
-            await fetchData(true);
+            const journal = journalForPurchase(newInvoice, totalAmountBase, state.storeSettings);
+            // The additional cost expense is kept in step with the invoice, in the same write
+            const relatedExpenses = await api.getRelatedExpenses(editingPurchaseInvoiceId);
+            const additionalCost = invoiceData.additionalCost > 0 ? buildExpense({
+                ...(relatedExpenses[0] || { id: crypto.randomUUID(), shiftId: currentShift?.id }),
+                category: 'logistics',
+                description: `هزینه جانبی فاکتور خرید #${invoiceData.invoiceNumber || editingPurchaseInvoiceId}: ${invoiceData.costDescription || 'بدون توضیح'}`,
+                amount: invoiceData.additionalCost,
+                currency: invoiceData.currency || state.storeSettings.baseCurrency,
+                exchangeRate: rate,
+                date: invoiceData.timestamp || new Date().toISOString(),
+                relatedId: editingPurchaseInvoiceId
+            }) : undefined;
+            await api.updatePurchase(editingPurchaseInvoiceId, newInvoice, supplierUpdate, journal, additionalCost);
+
+            const removedExpenses = relatedExpenses.filter(e => e.id !== additionalCost?.expense.id).map(e => e.id);
+            await applyWrite({
+                reload: ['products', 'transactions', ...(removedExpenses.length > 0 ? ['entities' as const] : [])],
+                upsert: { purchaseInvoices: [newInvoice], expenses: additionalCost ? [additionalCost.expense] : [] },
+                journal: [...journal, ...(additionalCost?.journal || [])],
+                removeJournalRefs: removedExpenses
+            });
+            purchaseEditApprovals.current = [];
             setState(prev => ({ ...prev, editingPurchaseInvoiceId: null }));
             logActivity('purchase', `ویرایش فاکتور خرید: ${newInvoice.id}`, newInvoice.id, 'purchaseInvoice');
             return { success: true, message: 'فاکتور با موفقیت بروزرسانی شد.' };
@@ -1030,14 +2214,14 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
 
     const addPurchaseReturn = async (originalInvoiceId: string, returnItems: { productId: string; lotNumber: string, quantity: number }[]) => {
-        const { purchaseInvoices, suppliers, products } = state;
-        const originalInv = purchaseInvoices.find(inv => inv.id === originalInvoiceId);
+        const { suppliers } = state;
+        const originalInv = await getPurchaseInvoice(originalInvoiceId);
         if (!originalInv) return { success: false, message: "فاکتور اصلی یافت نشد." };
 
         const supplier = suppliers.find(s => s.id === originalInv.supplierId);
         if (!supplier) return { success: false, message: "تأمین کننده یافت نشد." };
 
-        const id = generateNextId('PR', purchaseInvoices.map(i => i.id));
+        const id = generateNextId('PR', await api.getInvoiceIds('purchase'));
         const rate = originalInv.exchangeRate || 1;
         
         let returnTotalCurrency = 0;
@@ -1047,6 +2231,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             returnTotalCurrency += (originalItem.purchasePrice * ret.quantity);
             return { ...originalItem, quantity: ret.quantity, receivedQty: ret.quantity };
         });
+        // The supplier credits back the input tax on the returned goods
+        const originalGoods = originalInv.items.reduce((s, it) => s + it.purchasePrice * it.quantity, 0);
+        const returnTax = originalInv.taxAmount && originalGoods > 0 ? originalInv.taxAmount * returnTotalCurrency / originalGoods : 0;
+        returnTotalCurrency += returnTax;
 
         const config = state.storeSettings.currencyConfigs[originalInv.currency || state.storeSettings.baseCurrency];
         const totalAmountBase = originalInv.currency === state.storeSettings.baseCurrency 
@@ -1057,25 +2245,21 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             id, type: 'return', originalInvoiceId, supplierId: originalInv.supplierId,
             invoiceNumber: `R-${originalInv.invoiceNumber || originalInv.id}`,
             items, totalAmount: returnTotalCurrency, timestamp: new Date().toISOString(),
-            currency: originalInv.currency, exchangeRate: originalInv.exchangeRate
+            currency: originalInv.currency, exchangeRate: originalInv.exchangeRate,
+            ...(returnTax > 0 ? { taxAmount: returnTax } : {})
         };
 
-        const newBalances = { ...supplier };
-        if (originalInv.currency === 'USD') newBalances.balanceUSD -= returnTotalCurrency;
-        else if (originalInv.currency === 'IRT') newBalances.balanceIRT -= returnTotalCurrency;
-        else newBalances.balanceAFN -= returnTotalCurrency;
-        newBalances.balance -= totalAmountBase;
-
         const supplierRefund = {
             id: supplier.id,
             amount: returnTotalCurrency,
             currency: originalInv.currency,
-            newBalances: { AFN: newBalances.balanceAFN, USD: newBalances.balanceUSD, IRT: newBalances.balanceIRT, Total: newBalances.balance }
+            change: balanceChange(originalInv.currency, -returnTotalCurrency, -totalAmountBase)
         };
 
         try {
-            await api.createPurchaseReturn(returnInv, returnItems, supplierRefund);
-            await fetchData(true);
+            const journal = journalForPurchase(returnInv, totalAmountBase, state.storeSettings);
+            await api.createPurchaseReturn(returnInv, returnItems, supplierRefund, journal);
+            await applyWrite({ reload: ['products', 'transactions'], upsert: { purchaseInvoices: [returnInv] }, journal });
             logActivity('purchase', `ثبت مرجوعی خرید: ${id}`, id, 'purchaseInvoice');
             return { success: true, message: 'مرجوعی با موفقیت ثبت شد.' };
         } catch (e) { return { success: false, message: 'خطا در ثبت مرجوعی.' }; }
@@ -1086,7 +2270,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         const id = crypto.randomUUID();
         const total = d.items.reduce((s:number, i:any) => s + (i.quantity*i.purchasePrice), 0);
         const inv = { ...d, id, type: 'in_transit', status: 'active', totalAmount: total, items: d.items.map((it:any)=>({ ...it, productName: state.products.find(p=>p.id===it.productId)?.name || '?', atFactoryQty: it.quantity, inTransitQty: 0, receivedQty: 0 })) };
-        api.createInTransit(inv).then(() => fetchData(true)); 
+        api.createInTransit(inv).then(() => applyWrite({ upsert: { inTransitInvoices: [inv] } })); 
         return { success: true, message: 'سفارش در لیست انتظار ثبت شد.' }; 
     };
 
@@ -1120,8 +2304,12 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             };
         });
 
+        const supplier = state.suppliers.find(s => s.id === inv.supplierId);
+        if (receivedItemsForInvoice.length > 0 && !supplier) return { success: false, message: "تأمین کننده یافت نشد." };
+
+        let purchase: PurchaseWrite | undefined;
         if (receivedItemsForInvoice.length > 0) {
-            const subInvoiceId = generateNextId('P', state.purchaseInvoices.map(i => i.id));
+            const subInvoiceId = generateNextId('P', await api.getInvoiceIds('purchase'));
             const subInvoiceData = {
                 id: subInvoiceId,
                 supplierId: inv.supplierId,
@@ -1134,17 +2322,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 additionalCost,
                 costDescription
             };
-            await addPurchaseInvoice(subInvoiceData);
+            purchase = buildPurchase(subInvoiceData, subInvoiceId, supplier!);
         }
 
         const isFullyReceived = updatedItems.every(i => i.atFactoryQty === 0 && i.inTransitQty === 0);
-        if (isFullyReceived) {
-            await api.updateInTransit({ ...inv, items: updatedItems, status: 'closed' });
-        } else {
-            await api.updateInTransit({ ...inv, items: updatedItems });
-        }
-        
-        await fetchData(true);
+        const updatedInv: InTransitInvoice = isFullyReceived ? { ...inv, items: updatedItems, status: 'closed' } : { ...inv, items: updatedItems };
+        try {
+            await api.receiveInTransit(updatedInv, purchase);
+        } catch (e) { return { success: false, message: 'خطا در ثبت وصول محموله.' }; }
+        const received = purchase ? purchaseStateWrite(purchase) : {};
+        await applyWrite({ ...received, upsert: { ...received.upsert, inTransitInvoices: [updatedInv] } });
+        if (purchase) logActivity('purchase', `خرید جدید ثبت شد: ${purchase.invoice.id}`, purchase.invoice.id, 'purchaseInvoice');
         logActivity('inventory', `وصول محموله: ${inv.invoiceNumber || inv.id.slice(0,8)}`, inv.id, 'purchaseInvoice');
         return { success: true, message: 'جابجایی کالا و اسناد مالی با موفقیت بروزرسانی شد.' };
     };
@@ -1152,8 +2340,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const archiveInTransitInvoice = async (id: string) => {
         const inv = state.inTransitInvoices.find(i => i.id === id);
         if (inv) {
-            await api.updateInTransit({ ...inv, status: 'closed' });
-            await fetchData(true);
+            const archived: InTransitInvoice = { ...inv, status: 'closed' };
+            await api.updateInTransit(archived);
+            await applyWrite({ upsert: { inTransitInvoices: [archived] } });
             logActivity('inventory', `بایگانی دستی محموله: ${inv.invoiceNumber || inv.id.slice(0,8)}`, inv.id, 'purchaseInvoice');
         }
     };
@@ -1186,21 +2375,86 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             paidAmount: (inv.paidAmount || 0) + amountInInvoiceCurrency 
         };
 
-        // 3. Persist the logistics update to the database first
-        await api.updateInTransit(updatedInv);
-        
-        // 4. Record the financial transaction in the supplier's account
-        // Note: addSupplierPayment internally calls fetchData(true) which refreshes the state
-        const tx = await addSupplierPayment(inv.supplierId, amount, description, currency, exchangeRate);
-        
+        // 3. The logistics update and the payment in the supplier's account are written together
+        const supplier = state.suppliers.find(s => s.id === inv.supplierId);
+        if (!supplier) return null;
+        const { tx, change, journal } = buildSupplierPayment(supplier, amount, description, currency, exchangeRate);
+        await api.addInTransitPayment(updatedInv, change, tx, journal);
+        await applyWrite({ upsert: { inTransitInvoices: [updatedInv], supplierTransactions: [tx] }, journal });
         return tx;
     };
 
     // --- Basic Actions & Placeholders ---
-    const deleteUser = async (id: string) => { await api.deleteUser(id); await fetchData(true); };
-    const updateSettings = (n: any) => { api.updateSettings(n).then(() => fetchData(true)); };
-    const addService = (s: any) => { api.addService(s).then(() => fetchData(true)); };
-    const deleteService = (id: string) => { api.deleteService(id).then(() => fetchData(true)); };
+    const deleteUser = async (id: string) => { await api.deleteUser(id); await applyWrite({ reload: ['users'] }); };
+    const updateSettings = (n: StoreSettings) => {
+        const fields = [...new Set([...Object.keys(n), ...Object.keys(state.storeSettings)])] as (keyof StoreSettings)[];
+        const changed = fields.filter(field => JSON.stringify(n[field]) !== JSON.stringify(state.storeSettings[field]));
+        const required = [...new Set(changed.map(settingsFieldPermission))];
+        if (required.some(permission => lacksPermission(permission, 'updateSettings'))) return;
+        api.updateSettings(n).then(() => applyWrite({ reload: ['settings'] }));
+    };
+    const addService = (s: any) => { api.addService(s).then(() => applyWrite({ reload: ['services'] })); };
+    const deleteService = (id: string) => { api.deleteService(id).then(() => applyWrite({ reload: ['services'] })); };
+
+    const savePriceList = async (list: PriceList) => {
+        if (!list.name.trim()) return { success: false, message: 'نام لیست قیمت را وارد کنید.' };
+        if (list.validFrom && list.validTo && list.validFrom > list.validTo) return { success: false, message: 'تاریخ پایان اعتبار پیش از تاریخ شروع است.' };
+        if (list.kind !== 'retail' && list.customerIds.length === 0) return { success: false, message: 'حداقل یک مشتری برای این لیست انتخاب کنید.' };
+        if (list.entries.some(e => !(e.unitPrice > 0) || (e.packagePrice !== undefined && !(e.packagePrice > 0)))) return { success: false, message: 'قیمت همه اقلام لیست باید بیشتر از صفر باشد.' };
+        const saved: PriceList = { ...list, name: list.name.trim(), customerIds: list.kind === 'retail' ? [] : list.customerIds };
+        try {
+            await api.savePriceList(saved);
+            const isNew = !state.priceLists.some(l => l.id === saved.id);
+            setState(prev => ({ ...prev, priceLists: isNew ? [...prev.priceLists, saved] : prev.priceLists.map(l => l.id === saved.id ? saved : l) }));
+            logActivity('inventory', `${isNew ? 'ایجاد' : 'ویرایش'} لیست قیمت «${saved.name}» (${saved.entries.length} قلم)`, saved.id);
+            return { success: true, message: '✅ لیست قیمت ذخیره شد.' };
+        } catch (e) { return { success: false, message: '❌ خطا در ذخیره لیست قیمت.' }; }
+    };
+
+    const deletePriceList = async (id: string) => {
+        const list = state.priceLists.find(l => l.id === id);
+        if (!list) return { success: false, message: 'لیست قیمت یافت نشد.' };
+        try {
+            await api.deletePriceList(id);
+            setState(prev => ({ ...prev, priceLists: prev.priceLists.filter(l => l.id !== id) }));
+            logActivity('inventory', `حذف لیست قیمت «${list.name}»`, id);
+            return { success: true, message: 'لیست قیمت حذف شد.' };
+        } catch (e) { return { success: false, message: '❌ خطا در حذف لیست قیمت.' }; }
+    };
+
+    const savePromotion = async (promotion: Promotion) => {
+        if (!promotion.name.trim()) return { success: false, message: 'نام طرح تخفیف را وارد کنید.' };
+        if (promotion.validFrom && promotion.validTo && promotion.validFrom > promotion.validTo) return { success: false, message: 'تاریخ پایان طرح پیش از تاریخ شروع است.' };
+        if (promotion.kind === 'percent_off' && !((promotion.percentOff || 0) > 0 && (promotion.percentOff || 0) <= 100)) return { success: false, message: 'درصد تخفیف باید بین ۰ و ۱۰۰ باشد.' };
+        if (promotion.kind === 'buy_x_get_y' && !((promotion.buyQuantity || 0) > 0 && (promotion.freeQuantity || 0) > 0)) return { success: false, message: 'تعداد خرید و تعداد هدیه را وارد کنید.' };
+        if (promotion.kind === 'bundle' && (!promotion.bundleItems || promotion.bundleItems.length < 2 || !((promotion.bundlePrice || 0) > 0))) return { success: false, message: 'بسته ترکیبی حداقل دو کالا و یک قیمت بسته لازم دارد.' };
+        const saved: Promotion = { ...promotion, name: promotion.name.trim() };
+        try {
+            await api.savePromotion(saved);
+            const isNew = !state.promotions.some(p => p.id === saved.id);
+            setState(prev => {
+                const promotions = isNew ? [...prev.promotions, saved] : prev.promotions.map(p => p.id === saved.id ? saved : p);
+                return { ...prev, promotions, ...withPromotions({ ...prev, promotions }, prev.cart) };
+            });
+            logActivity('inventory', `${isNew ? 'ایجاد' : 'ویرایش'} طرح تخفیف «${saved.name}»`, saved.id);
+            return { success: true, message: '✅ طرح تخفیف ذخیره شد.' };
+        } catch (e) { return { success: false, message: '❌ خطا در ذخیره طرح تخفیف.' }; }
+    };
+
+    // Past invoices keep the promotions they were sold with
+    const deletePromotion = async (id: string) => {
+        const promotion = state.promotions.find(p => p.id === id);
+        if (!promotion) return { success: false, message: 'طرح تخفیف یافت نشد.' };
+        try {
+            await api.deletePromotion(id);
+            setState(prev => {
+                const promotions = prev.promotions.filter(p => p.id !== id);
+                return { ...prev, promotions, ...withPromotions({ ...prev, promotions }, prev.cart) };
+            });
+            logActivity('inventory', `حذف طرح تخفیف «${promotion.name}»`, id);
+            return { success: true, message: 'طرح تخفیف حذف شد.' };
+        } catch (e) { return { success: false, message: '❌ خطا در حذف طرح تخفیف.' }; }
+    };
     
     const addSupplier = (s: any, initial?: any) => { 
         api.addSupplier(s).then(ns => {
@@ -1212,14 +2466,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                     : (config.method === 'multiply' ? initial.amount / rate : initial.amount * rate);
                 
                 const tx: SupplierTransaction = { id: crypto.randomUUID(), supplierId: ns.id, type: initial.type === 'creditor' ? 'purchase' : 'payment', amount: initial.amount, date: new Date().toISOString(), description: 'تراز اول دوره', currency: initial.currency };
-                const newB = { AFN: initial.currency === 'AFN' ? (initial.type==='creditor'?initial.amount:-initial.amount) : 0, USD: initial.currency === 'USD' ? (initial.type==='creditor'?initial.amount:-initial.amount) : 0, IRT: initial.currency === 'IRT' ? (initial.type==='creditor'?initial.amount:-initial.amount) : 0, Total: initial.type === 'creditor' ? baseAmount : -baseAmount };
-                api.processPayment('supplier', ns.id, newB, tx).then(() => fetchData(true));
-            } else fetchData(true);
+                const sign = initial.type === 'creditor' ? 1 : -1;
+                const change = balanceChange(initial.currency, sign * initial.amount, sign * baseAmount);
+                const journal = journalForOpeningBalance('supplier', ns.id, initial.type === 'debtor', { id: tx.id, amount: initial.amount, currency: initial.currency, baseAmount, date: tx.date, description: `${tx.description}: ${ns.name}` });
+                api.processPayment('supplier', ns.id, change, tx, undefined, journal).then(() => applyWrite({ reload: ['entities'], upsert: { supplierTransactions: [tx] }, journal }));
+            } else applyWrite({ reload: ['entities'] });
         });
     };
-    const deleteSupplier = (id: string) => { api.deleteSupplier(id).then(() => fetchData(true)); };
-    const addSupplierPayment = async (sid: string, a: number, d: string, cur: any = 'AFN', rate: number = 1) => {
-        const s = state.suppliers.find(x => x.id === sid);
+    const deleteSupplier = (id: string) => { api.deleteSupplier(id).then(() => applyWrite({ reload: ['entities'] })); };
+    // The payment record, the change to the supplier's balances and its journal lines, ready to be written
+    const buildSupplierPayment = (s: Supplier, a: number, d: string, cur: any, rate: number) => {
+        const sid = s.id;
         const config = state.storeSettings.currencyConfigs[cur as 'AFN'|'USD'|'IRT'];
         const baseAmount = cur === state.storeSettings.baseCurrency ? a : (config.method === 'multiply' ? a / rate : a * rate);
         const tx: SupplierTransaction = { 
@@ -1233,9 +2490,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             exchangeRate: rate,
             isCash: true
         };
-        const newB = { AFN: s!.balanceAFN - (cur==='AFN'?a:0), USD: s!.balanceUSD - (cur==='USD'?a:0), IRT: s!.balanceIRT - (cur==='IRT'?a:0), Total: s!.balance - baseAmount };
-        await api.processPayment('supplier', sid, newB, tx);
-        await fetchData(true);
+        const change = balanceChange(cur, -a, -baseAmount);
+        const journal = journalForPartyPayment('supplier', sid, { id: tx.id, amount: a, currency: cur, baseAmount, date: tx.date, description: d, isCash: true });
+        return { tx, change, journal };
+    };
+
+    const addSupplierPayment = async (sid: string, a: number, d: string, cur: any = 'AFN', rate: number = 1) => {
+        const s = state.suppliers.find(x => x.id === sid);
+        if (!s) return null;
+        const { tx, change, journal } = buildSupplierPayment(s, a, d, cur, rate);
+        await api.processPayment('supplier', sid, change, tx, undefined, journal);
+        await applyWrite({ upsert: { supplierTransactions: [tx] }, journal });
         return tx;
     };
 
@@ -1249,16 +2514,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                     : (config.method === 'multiply' ? initial.amount / rate : initial.amount * rate);
                 
                 const tx: CustomerTransaction = { id: crypto.randomUUID(), customerId: nc.id, type: initial.type === 'debtor' ? 'credit_sale' : 'payment', amount: initial.amount, date: new Date().toISOString(), description: 'تراز اول دوره', currency: initial.currency };
-                const newB = { AFN: initial.currency === 'AFN' ? (initial.type==='debtor'?initial.amount:-initial.amount) : 0, USD: initial.currency === 'USD' ? (initial.type==='debtor'?initial.amount:-initial.amount) : 0, IRT: initial.currency === 'IRT' ? (initial.type==='debtor'?initial.amount:-initial.amount) : 0, Total: initial.type === 'debtor' ? baseAmount : -baseAmount };
-                api.processPayment('customer', nc.id, newB, tx).then(() => fetchData(true));
-            } else fetchData(true);
+                const sign = initial.type === 'debtor' ? 1 : -1;
+                const change = balanceChange(initial.currency, sign * initial.amount, sign * baseAmount);
+                const journal = journalForOpeningBalance('customer', nc.id, initial.type === 'debtor', { id: tx.id, amount: initial.amount, currency: initial.currency, baseAmount, date: tx.date, description: `${tx.description}: ${nc.name}` });
+                api.processPayment('customer', nc.id, change, tx, undefined, journal).then(() => applyWrite({ reload: ['entities'], upsert: { customerTransactions: [tx] }, journal }));
+            } else applyWrite({ reload: ['entities'] });
         });
     };
-    const deleteCustomer = (id: string) => { api.deleteCustomer(id).then(() => fetchData(true)); };
-    const addCustomerPayment = async (cid: string, a: number, d: string, cur: any = 'AFN', rate: number = 1, trusteeId?: string) => {
-        const c = state.customers.find(x => x.id === cid);
-        if (!c) return null;
-        
+    const deleteCustomer = (id: string) => { api.deleteCustomer(id).then(() => applyWrite({ reload: ['entities'] })); };
+    // The payment record, the change to the customer's balances and its journal lines, ready to be written
+    const buildCustomerPayment = (c: Customer, a: number, d: string, cur: any, rate: number, trusteeId?: string) => {
+        const cid = c.id;
         const config = state.storeSettings.currencyConfigs[cur as 'AFN'|'USD'|'IRT'];
         const baseAmount = cur === state.storeSettings.baseCurrency ? a : (config.method === 'multiply' ? a / rate : a * rate);
         const tx: CustomerTransaction = { 
@@ -1270,35 +2536,36 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             description: d + (trusteeId ? ' (تحویل به واسطه)' : ''), 
             currency: cur,
             exchangeRate: rate,
-            isCash: !trusteeId // If trustee is involved, it's not physical cash for us
+            isCash: !trusteeId, // If trustee is involved, it's not physical cash for us
+            shiftId: currentShift?.id
         };
         
-        const newB = { 
-            AFN: c.balanceAFN - (cur === 'AFN' ? a : 0), 
-            USD: c.balanceUSD - (cur === 'USD' ? a : 0), 
-            IRT: c.balanceIRT - (cur === 'IRT' ? a : 0), 
-            Total: c.balance - baseAmount 
-        };
+        const change = balanceChange(cur, -a, -baseAmount);
 
-        await api.processPayment('customer', cid, newB, tx);
-        
-        if (trusteeId) {
-            await processDepositTransaction(
-                trusteeId, 
-                'withdrawal', 
-                a, 
-                cur, 
-                `دریافتی از مشتری: ${c.name} - بابت: ${d}`,
-                rate,
-                false // isCash = false
-            );
+        const journal = journalForPartyPayment('customer', cid, { id: tx.id, amount: a, currency: cur, baseAmount, date: tx.date, description: tx.description, isCash: tx.isCash });
+        return { tx, change, journal };
+    };
+
+    const addCustomerPayment = async (cid: string, a: number, d: string, cur: any = 'AFN', rate: number = 1, trusteeId?: string) => {
+        const c = state.customers.find(x => x.id === cid);
+        if (!c) return null;
+        const { tx, change, journal } = buildCustomerPayment(c, a, d, cur, rate, trusteeId);
+        if (!trusteeId) {
+            await api.processPayment('customer', cid, change, tx, undefined, journal);
+            await applyWrite({ upsert: { customerTransactions: [tx] }, journal });
+            return tx;
         }
 
-        await fetchData(true);
+        // The trustee holds the money for us, so the payment and the trustee's withdrawal commit together
+        const trustee = state.depositHolders.find(h => h.id === trusteeId);
+        if (!trustee) return null;
+        const deposit = buildDepositTransaction(trustee, 'withdrawal', a, cur, `دریافتی از مشتری: ${c.name} - بابت: ${d}`, rate, false);
+        await api.processTrusteePayment(cid, change, tx, journal, deposit);
+        await applyWrite({ upsert: { customerTransactions: [tx], depositTransactions: [deposit.transaction] }, journal: [...journal, ...deposit.journal] });
         return tx;
     };
 
-    const addEmployee = (e: any) => { api.addEmployee(e).then(() => fetchData(true)); };
+    const addEmployee = (e: any) => { api.addEmployee(e).then(() => applyWrite({ reload: ['entities'] })); };
 
     // FIX: Optimized and connected to Expenses for Reports/Capital integration
     const addEmployeeAdvance = async (eid: string, a: number, d: string, cur: 'AFN' | 'USD' | 'IRT' = 'AFN', rate: number = 1) => {
@@ -1319,26 +2586,20 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             exchangeRate: rate,
             amountBase: baseAmount,
             description: `مساعده/تسویه میان‌دوره به ${emp.name}: ${d}`, 
-            date: now 
-        };
-
-        const newBalances = {
-            AFN: emp.balanceAFN + (cur === 'AFN' ? a : 0),
-            USD: emp.balanceUSD + (cur === 'USD' ? a : 0),
-            IRT: emp.balanceIRT + (cur === 'IRT' ? a : 0),
-            Total: emp.balance + baseAmount
+            date: now,
+            shiftId: currentShift?.id
         };
 
-        await api.processPayment('employee', eid, newBalances, tx);
-        await api.addExpense(expense);
-        await fetchData(true);
+        const journal = journalForEmployeeAdvance(eid, { id: tx.id, amount: a, currency: cur, baseAmount, date: now, description: expense.description });
+        await api.processPayment('employee', eid, balanceChange(cur, a, baseAmount), tx, expense, journal);
+        await applyWrite({ upsert: { payrollTransactions: [tx], expenses: [expense] }, journal });
         const currencyName = state.storeSettings.currencyConfigs[cur]?.name || cur;
         logActivity('payroll', `ثبت مساعده/تسویه برای ${emp.name}: ${a.toLocaleString()} ${currencyName}`);
     };
 
     const processAndPaySalaries = () => {
         const txs: PayrollTransaction[] = [];
-        const updates: {id: string, newBalances: any}[] = [];
+        const updates: BalanceChange[] = [];
         
         state.employees.forEach(e => {
             // Salary is usually in base currency
@@ -1355,9 +2616,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                     description: 'تسویه حقوق ماهانه' 
                 });
             }
+            // Settles what the employee had on the books when the run was worked out; anything recorded since stays
             updates.push({ 
                 id: e.id, 
-                newBalances: { AFN: 0, USD: 0, IRT: 0, Total: 0 } 
+                change: { AFN: -e.balanceAFN, USD: -e.balanceUSD, IRT: -e.balanceIRT, Total: -e.balance } 
             });
         });
 
@@ -1370,40 +2632,45 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             exchangeRate: 1,
             amountBase: totalPaidBase,
             description: 'پرداخت حقوق کارکنان (تسویه نهایی)', 
-            date: new Date().toISOString() 
+            date: new Date().toISOString(),
+            shiftId: currentShift?.id
         };
 
-        api.processPayroll(updates, txs, expense).then(() => fetchData(true));
+        const journal = journalForPayroll(state.employees, txs.map(t => ({ employeeId: t.employeeId, amount: t.amount })), expense.date, expense.id, state.storeSettings);
+        api.processPayroll(updates, txs, expense, journal).then(() => applyWrite({ upsert: { payrollTransactions: txs, expenses: [expense] }, journal }));
         return { success: true, message: 'حقوق تمام کارکنان تسویه و در مصارف ثبت شد.' };
     };
 
-    const addExpense = (e: any) => { 
+    // The expense with its base amount and journal lines, ready to be written
+    const buildExpense = (e: Expense): ExpenseWrite => {
         const rate = e.exchangeRate || 1;
         const cur = e.currency || state.storeSettings.baseCurrency;
         const config = state.storeSettings.currencyConfigs[cur as 'AFN'|'IRT'|'USD'];
         const baseAmount = cur === state.storeSettings.baseCurrency ? e.amount : (config.method === 'multiply' ? e.amount / rate : e.amount * rate);
         
-        const finalExpense = { ...e, amountBase: baseAmount };
-        api.addExpense(finalExpense).then(() => fetchData(true)); 
+        const expense = { ...e, amountBase: baseAmount };
+        return { expense, journal: journalForExpense(expense, state.storeSettings) };
+    };
+
+    const addExpense = async (e: any) => { 
+        const { expense, journal } = buildExpense({ id: crypto.randomUUID(), ...e, shiftId: currentShift?.id });
+        await api.addExpense(expense, journal);
+        await applyWrite({ upsert: { expenses: [expense] }, journal });
     };
 
     const updateExpense = (e: Expense) => {
-        const rate = e.exchangeRate || 1;
-        const cur = e.currency || state.storeSettings.baseCurrency;
-        const config = state.storeSettings.currencyConfigs[cur as 'AFN'|'IRT'|'USD'];
-        const baseAmount = cur === state.storeSettings.baseCurrency ? e.amount : (config.method === 'multiply' ? e.amount / rate : e.amount * rate);
-        
-        const finalExpense = { ...e, amountBase: baseAmount };
-        api.updateExpense(finalExpense).then(() => fetchData(true));
+        const { expense, journal } = buildExpense(e);
+        api.updateExpense(expense, journal).then(() => applyWrite({ upsert: { expenses: [expense] }, journal }));
     };
 
     const deleteExpense = (id: string) => {
-        api.deleteExpense(id).then(() => fetchData(true));
+        api.deleteExpense(id).then(() => applyWrite({ reload: ['entities'], removeJournalRefs: [id] }));
     };
-    const addDepositHolder = async (h: any) => { await api.addDepositHolder(h); await fetchData(true); };
-    const deleteDepositHolder = async (id: string) => { await api.deleteDepositHolder(id); await fetchData(true); };
-    const processDepositTransaction = async (hid: string, t: any, a: number, c: any, d: string, rate: number = 1, isCash: boolean = true) => {
-        const holder = state.depositHolders.find(x => x.id === hid);
+    const addDepositHolder = async (h: any) => { await api.addDepositHolder(h); await applyWrite({ reload: ['entities'] }); };
+    const deleteDepositHolder = async (id: string) => { await api.deleteDepositHolder(id); await applyWrite({ reload: ['entities'] }); };
+    // The deposit record, the change to the holder's balances and its journal lines, ready to be written
+    const buildDepositTransaction = (holder: DepositHolder, t: any, a: number, c: any, d: string, rate: number, isCash: boolean): DepositWrite => {
+        const hid = holder.id;
         const tx: DepositTransaction = { 
             id: crypto.randomUUID(), 
             holderId: hid, 
@@ -1419,40 +2686,122 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         const config = state.storeSettings.currencyConfigs[c as 'AFN'|'USD'|'IRT'];
         const baseAmount = c === state.storeSettings.baseCurrency ? a : (config.method === 'multiply' ? a / rate : a * rate);
         
-        const newH = { ...holder! };
         const factor = t === 'deposit' ? 1 : -1;
-        if (c === 'USD') newH.balanceUSD += factor * a; 
-        else if (c === 'IRT') newH.balanceIRT += factor * a; 
-        else newH.balanceAFN += factor * a;
-        
-        newH.balance = (newH.balance || 0) + (factor * baseAmount);
+        const journal = journalForDeposit(hid, t, { id: tx.id, amount: a, currency: c, baseAmount, date: tx.date, description: d, isCash });
+        return { change: balanceChange(c, factor * a, factor * baseAmount), transaction: tx, journal };
+    };
 
-        await api.updateDepositHolder(newH);
-        await api.addDepositTransaction(tx);
-        await fetchData(true);
+    const processDepositTransaction = async (hid: string, t: any, a: number, c: any, d: string, rate: number = 1, isCash: boolean = true) => {
+        const holder = state.depositHolders.find(x => x.id === hid);
+        if (!holder) return { success: false, message: 'امانت‌دار یافت نشد.' };
+        const deposit = buildDepositTransaction(holder, t, a, c, d, rate, isCash);
+        await api.processDepositTransaction(deposit);
+        await applyWrite({ upsert: { depositTransactions: [deposit.transaction] }, journal: deposit.journal });
         return { success: true, message: 'تراکنش با موفقیت ثبت شد.' };
     };
 
     const setInvoiceTransientCustomer = async (id: string, n: string) => {};
     const updateInTransitInvoice = (d: any) => { 
         const total = d.items.reduce((s:number, i:any) => s + (i.quantity*i.purchasePrice), 0);
-        api.updateInTransit({ ...d, totalAmount: total, type: 'in_transit' } as any).then(() => fetchData(true)); 
+        const updated = { ...d, totalAmount: total, type: 'in_transit' } as InTransitInvoice;
+        api.updateInTransit(updated).then(() => applyWrite({ upsert: { inTransitInvoices: [updated] } })); 
         return { success: true, message: 'بروزرسانی شد' }; 
     };
-    const deleteInTransitInvoice = (id: string) => { api.deleteInTransit(id).then(() => fetchData(true)); };
+    const deleteInTransitInvoice = (id: string) => { api.deleteInTransit(id).then(() => applyWrite({ reload: ['inTransit'] })); };
     const addEmployeeAdvanceToEmployee = (eid: string, a: number, d: string, cur?: any, rate?: number) => { addEmployeeAdvance(eid, a, d, cur, rate); };
 
     if (isLoading) return <div className="flex items-center justify-center h-screen text-xl font-bold text-blue-600">در حال دریافت اطلاعات...</div>;
 
+    const guardedActions = {
+        addUser: guard('addUser', addUser, deniedAsync),
+        updateUser: guard('updateUser', updateUser, deniedAsync),
+        deleteUser: guard('deleteUser', deleteUser, ignoreAsync),
+        addRole: guard('addRole', addRole, deniedAsync),
+        updateRole: guard('updateRole', updateRole, deniedAsync),
+        deleteRole: guard('deleteRole', deleteRole, ignoreAsync),
+        exportData: guard('exportData', exportData, ignoreAsync),
+        importData: guard('importData', importData, ignore),
+        syncNow: guard('syncNow', syncNow, deniedAsync),
+        resyncFromCloud: guard('resyncFromCloud', resyncFromCloud, deniedAsync),
+        restoreLegacyCloudBackup: guard('restoreLegacyCloudBackup', restoreLegacyCloudBackup, deniedAsync),
+        setAutoSyncEnabled: guard('setAutoSyncEnabled', setAutoSyncEnabled, ignore),
+        getAuditLog: guard('getAuditLog', api.getAuditLog, rejectAsync),
+        verifyAuditLog: guard('verifyAuditLog', api.verifyAuditLog, rejectAsync),
+        checkDataIntegrity: guard('checkDataIntegrity', checkDataIntegrity, rejectAsync),
+        repairBalancesFromHistory: guard('repairBalancesFromHistory', repairBalancesFromHistory, deniedAsync),
+        getShopDevices: guard('getShopDevices', getShopDevices, rejectAsync),
+        setDeviceStatus: guard('setDeviceStatus', setDeviceStatus, deniedAsync),
+        renameDevice: guard('renameDevice', renameDevice, deniedAsync),
+        updateSettings: guard('updateSettings', updateSettings, ignore),
+        addService: guard('addService', addService, ignore),
+        deleteService: guard('deleteService', deleteService, ignore),
+        savePriceList: guard('savePriceList', savePriceList, deniedAsync),
+        deletePriceList: guard('deletePriceList', deletePriceList, deniedAsync),
+        savePromotion: guard('savePromotion', savePromotion, deniedAsync),
+        deletePromotion: guard('deletePromotion', deletePromotion, deniedAsync),
+        addProduct: guard('addProduct', addProduct, denied),
+        updateProduct: guard('updateProduct', updateProduct, denied),
+        deleteProduct: guard('deleteProduct', deleteProduct, deniedAsync),
+        addToCart: guard('addToCart', addToCart, denied),
+        updateCartItemQuantity: guard('updateCartItemQuantity', updateCartItemQuantity, denied),
+        setCartCustomer: guard('setCartCustomer', setCartCustomer, ignore),
+        updateCartItemFinalPrice: guard('updateCartItemFinalPrice', updateCartItemFinalPrice, denied),
+        removeFromCart: guard('removeFromCart', removeFromCart, ignore),
+        completeSale: guard('completeSale', completeSale, deniedAsync),
+        beginEditSale: guard('beginEditSale', beginEditSale, denied),
+        requestSupervisorApproval: guard('requestSupervisorApproval', requestSupervisorApproval, deniedAsync),
+        parkCart: guard('parkCart', parkCart, deniedAsync),
+        resumeParkedCart: guard('resumeParkedCart', resumeParkedCart, deniedAsync),
+        discardParkedCart: guard('discardParkedCart', discardParkedCart, deniedAsync),
+        createQuotation: guard('createQuotation', createQuotation, deniedAsync),
+        loadQuotation: guard('loadQuotation', loadQuotation, deniedAsync),
+        deleteQuotation: guard('deleteQuotation', deleteQuotation, deniedAsync),
+        detachCartQuotation: guard('detachCartQuotation', detachCartQuotation, ignore),
+        createSalesOrder: guard('createSalesOrder', createSalesOrder, deniedAsync),
+        addSalesOrderPrepayment: guard('addSalesOrderPrepayment', addSalesOrderPrepayment, deniedAsync),
+        deliverSalesOrder: guard('deliverSalesOrder', deliverSalesOrder, deniedAsync),
+        closeSalesOrder: guard('closeSalesOrder', closeSalesOrder, deniedAsync),
+        openShift: guard('openShift', openShift, deniedAsync),
+        closeShift: guard('closeShift', closeShift, deniedAsync),
+        getShiftSummary: guard('getShiftSummary', getShiftSummary, rejectAsync),
+        addSaleReturn: guard('addSaleReturn', addSaleReturn, deniedAsync),
+        addUnreferencedReturn: guard('addUnreferencedReturn', addUnreferencedReturn, deniedAsync),
+        voidSale: guard('voidSale', voidSale, deniedAsync),
+        beginExchange: guard('beginExchange', beginExchange, deniedAsync),
+        cancelExchange: guard('cancelExchange', cancelExchange, ignore),
+        setInvoiceTransientCustomer: guard('setInvoiceTransientCustomer', setInvoiceTransientCustomer, ignoreAsync),
+        addPurchaseInvoice: guard('addPurchaseInvoice', addPurchaseInvoice, deniedAsync),
+        beginEditPurchase: guard('beginEditPurchase', beginEditPurchase, denied),
+        updatePurchaseInvoice: guard('updatePurchaseInvoice', updatePurchaseInvoice, deniedAsync),
+        addPurchaseReturn: guard('addPurchaseReturn', addPurchaseReturn, deniedAsync),
+        addInTransitInvoice: guard('addInTransitInvoice', addInTransitInvoice, denied),
+        updateInTransitInvoice: guard('updateInTransitInvoice', updateInTransitInvoice, denied),
+        deleteInTransitInvoice: guard('deleteInTransitInvoice', deleteInTransitInvoice, ignore),
+        archiveInTransitInvoice: guard('archiveInTransitInvoice', archiveInTransitInvoice, ignoreAsync),
+        moveInTransitItems: guard('moveInTransitItems', moveInTransitItems, deniedAsync),
+        addInTransitPayment: guard('addInTransitPayment', addInTransitPayment, nullAsync),
+        addSupplier: guard('addSupplier', addSupplier, ignore),
+        deleteSupplier: guard('deleteSupplier', deleteSupplier, ignore),
+        addSupplierPayment: guard('addSupplierPayment', addSupplierPayment, nullAsync),
+        addCustomer: guard('addCustomer', addCustomer, ignore),
+        deleteCustomer: guard('deleteCustomer', deleteCustomer, ignore),
+        addCustomerPayment: guard('addCustomerPayment', addCustomerPayment, nullAsync),
+        addEmployee: guard('addEmployee', addEmployee, ignore),
+        addEmployeeAdvance: guard('addEmployeeAdvance', addEmployeeAdvance, ignore),
+        addEmployeeAdvanceToEmployee: guard('addEmployeeAdvanceToEmployee', addEmployeeAdvanceToEmployee, ignore),
+        processAndPaySalaries: guard('processAndPaySalaries', processAndPaySalaries, denied),
+        addExpense: guard('addExpense', addExpense, ignore),
+        updateExpense: guard('updateExpense', updateExpense, ignore),
+        deleteExpense: guard('deleteExpense', deleteExpense, ignore),
+        addDepositHolder: guard('addDepositHolder', addDepositHolder, ignoreAsync),
+        deleteDepositHolder: guard('deleteDepositHolder', deleteDepositHolder, ignoreAsync),
+        processDepositTransaction: guard('processDepositTransaction', processDepositTransaction, deniedAsync),
+    };
+
     return <AppContext.Provider value={{
-        ...state, showToast, isLoading, isLoggingOut, isShopActive, login, signup, logout, hasPermission, addUser, updateUser, deleteUser, addRole, updateRole, deleteRole, exportData, importData,
-        cloudBackup, cloudRestore, autoBackupEnabled, setAutoBackupEnabled,
-        addProduct, updateProduct, deleteProduct, addToCart, updateCartItemQuantity, updateCartItemFinalPrice, removeFromCart, completeSale,
-        beginEditSale, cancelEditSale, addSaleReturn, addPurchaseInvoice, beginEditPurchase, cancelEditPurchase, updatePurchaseInvoice, addPurchaseReturn,
-        addInTransitInvoice, updateInTransitInvoice, deleteInTransitInvoice, archiveInTransitInvoice, moveInTransitItems, addInTransitPayment,
-        updateSettings, addService, deleteService, addSupplier, deleteSupplier, addSupplierPayment, addCustomer, deleteCustomer, addCustomerPayment,
-        addEmployee, addEmployeeAdvance, addEmployeeAdvanceToEmployee, processAndPaySalaries, addExpense, updateExpense, deleteExpense, setInvoiceTransientCustomer,
-        addDepositHolder, deleteDepositHolder, processDepositTransaction
+        ...state, showToast, isLoading, isLoggingOut, isShopActive, hasOlderInvoices, hasOlderActivities, ensureInvoicesSince, loadOlderActivities, getSaleInvoice, getPurchaseInvoice, getPartyTransactions,
+        login, signup, logout, switchUserWithPin, hasPermission, roleLimits, syncStatus, autoSyncEnabled, currentDeviceId: getDeviceId(), currentShift, cancelEditSale, cancelEditPurchase,
+        ...guardedActions
     }}>{children}</AppContext.Provider>;
 };
 
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import type { ActivityLog, SaleInvoice, PurchaseInvoice, Product } from '../types';
 import { useAppContext } from '../AppContext';
 import { XIcon, POSIcon, PurchaseIcon, InventoryIcon } from './icons';
@@ -23,6 +23,9 @@ const SaleInvoiceDetails: React.FC<{ invoice: SaleInvoice }> = ({ invoice }) =>
             <DetailRow label="شماره فاکتور" value={<span className="font-mono">{invoice.id}</span>} />
             <DetailRow label="تاریخ" value={new Date(invoice.timestamp).toLocaleString('fa-IR')} />
             <DetailRow label="صندوق‌دار" value={invoice.cashier} />
+            {invoice.approvals?.map(a => (
+                <DetailRow key={a.id} label="تأیید مدیر" value={<span title={a.violations.join('\n')}>{a.approverName} — {a.reason}</span>} className="text-amber-700" />
+            ))}
             
             <div className="pt-2">
                 <h4 className="font-bold text-lg mb-2">اقلام فاکتور</h4>
@@ -88,23 +91,29 @@ const ProductDetails: React.FC<{ product: Product }> = ({ product }) => {
 
 
 const ActivityDetailModal: React.FC<ActivityDetailModalProps> = ({ activity, onClose }) => {
-    const { products, saleInvoices, purchaseInvoices } = useAppContext();
+    const { products, getSaleInvoice, getPurchaseInvoice } = useAppContext();
+    // Invoices can be older than the window kept in memory, so they are looked up on open
+    const [invoice, setInvoice] = useState<SaleInvoice | PurchaseInvoice | undefined>();
+
+    useEffect(() => {
+        if (!activity.refId) return;
+        if (activity.refType === 'saleInvoice') getSaleInvoice(activity.refId).then(setInvoice);
+        else if (activity.refType === 'purchaseInvoice') getPurchaseInvoice(activity.refId).then(setInvoice);
+    }, [activity.id]);
     
     let content: React.ReactNode = null;
     let title = "جزئیات فعالیت";
     let icon: React.ReactNode = null;
 
     if (activity.refType === 'saleInvoice' && activity.refId) {
-        const invoice = saleInvoices.find(i => i.id === activity.refId);
         if(invoice) {
-            content = <SaleInvoiceDetails invoice={invoice} />;
+            content = <SaleInvoiceDetails invoice={invoice as SaleInvoice} />;
             title = "جزئیات فاکتور فروش";
             icon = <POSIcon className="w-6 h-6 text-green-600" />;
         }
     } else if (activity.refType === 'purchaseInvoice' && activity.refId) {
-        const invoice = purchaseInvoices.find(i => i.id === activity.refId);
         if (invoice) {
-            content = <PurchaseInvoiceDetails invoice={invoice} />;
+            content = <PurchaseInvoiceDetails invoice={invoice as PurchaseInvoice} />;
             title = "جزئیات فاکتور خرید";
             icon = <PurchaseIcon className="w-6 h-6 text-blue-600" />;
         }
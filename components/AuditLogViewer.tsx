@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { AuditEntry, AuditAction } from '../types';
+import type { AuditProblem } from '../utils/audit';
+import { useAppContext } from '../AppContext';
+import { STORES } from '../utils/stores';
+import { SearchIcon, DownloadIcon, CheckIcon, WarningIcon, ChevronDownIcon } from './icons';
+
+const ENTITY_LABELS: Record<string, string> = {
+    [STORES.PRODUCTS]: 'کالا',
+    [STORES.SALE_INVOICES]: 'فاکتور فروش',
+    [STORES.PURCHASE_INVOICES]: 'فاکتور خرید',
+    [STORES.IN_TRANSIT_INVOICES]: 'اجناس در راه',
+    [STORES.CUSTOMERS]: 'مشتری',
+    [STORES.SUPPLIERS]: 'تأمین‌کننده',
+    [STORES.EMPLOYEES]: 'کارمند',
+    [STORES.EXPENSES]: 'مصرف',
+    [STORES.SERVICES]: 'خدمت',
+    [STORES.CUSTOMER_TX]: 'تراکنش مشتری',
+    [STORES.SUPPLIER_TX]: 'تراکنش تأمین‌کننده',
+    [STORES.PAYROLL_TX]: 'تراکنش حقوق',
+    [STORES.DEPOSIT_HOLDERS]: 'امانت‌گذار',
+    [STORES.DEPOSIT_TRANSACTIONS]: 'تراکنش امانت',
+    [STORES.SETTINGS]: 'تنظیمات',
+    [STORES.USERS]: 'کاربر',
+    [STORES.ROLES]: 'نقش',
+    [STORES.SHIFTS]: 'شیفت صندوق',
+    [STORES.PRICE_LISTS]: 'لیست قیمت',
+    [STORES.PROMOTIONS]: 'طرح تخفیف',
+    [STORES.QUOTATIONS]: 'پیش‌فاکتور',
+    [STORES.SALES_ORDERS]: 'سفارش فروش',
+    [STORES.STORE_CREDIT_VOUCHERS]: 'ووچر اعتبار خرید',
+    backup: 'پشتیبان',
+};
+
+const ACTION_LABELS: Record<AuditAction, { label: string; className: string }> = {
+    create: { label: 'ایجاد', className: 'bg-emerald-100 text-emerald-700' },
+    update: { label: 'ویرایش', className: 'bg-blue-100 text-blue-700' },
+    delete: { label: 'حذف', className: 'bg-red-100 text-red-700' },
+    restore: { label: 'بازیابی پشتیبان', className: 'bg-amber-100 text-amber-700' },
+};
+
+const PROBLEM_LABELS: Record<AuditProblem['kind'], string> = {
+    altered: 'محتوای رکورد تغییر کرده است',
+    missing: 'رکورد(های) پیش از این حذف شده است',
+    relinked: 'ترتیب زنجیره به هم خورده است',
+    truncated: 'رکوردهای آخر این دستگاه حذف شده است',
+};
+
+const PAGE_SIZE = 200;
+
+const entityLabel = (entityType: string) => ENTITY_LABELS[entityType] || entityType;
+
+const formatValue = (value: unknown) => value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const download = (content: string, fileName: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const csvCell = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+const toCsv = (entries: AuditEntry[]) => {
+    const header = ['زمان', 'کاربر', 'دستگاه', 'نوع', 'شناسه', 'عملیات', 'تغییرات', 'ترتیب', 'هش'];
+    const rows = entries.map(e => [e.timestamp, e.actor, e.deviceId, entityLabel(e.entityType), e.entityId, ACTION_LABELS[e.action]?.label || e.action, JSON.stringify(e.changes), e.seq, e.hash]);
+    // The BOM lets Excel open Persian text as UTF-8
+    return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+const AuditLogViewer: React.FC<{ dateRange: { start: Date; end: Date } }> = ({ dateRange }) => {
+    const { getAuditLog, verifyAuditLog, showToast } = useAppContext();
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [search, setSearch] = useState('');
+    const [entityFilter, setEntityFilter] = useState('');
+    const [actionFilter, setActionFilter] = useState('');
+    const [actorFilter, setActorFilter] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+    const [verification, setVerification] = useState<{ checked: number; problems: AuditProblem[] } | null>(null);
+    const [isVerifying, setIsVerifying] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        getAuditLog(dateRange.start, dateRange.end)
+            .then(result => { if (!cancelled) setEntries(result); })
+            .catch(() => { if (!cancelled) setEntries([]); })
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [dateRange.start.getTime(), dateRange.end.getTime()]);
+
+    useEffect(() => setVisibleCount(PAGE_SIZE), [search, entityFilter, actionFilter, actorFilter, entries]);
+
+    const actors = useMemo(() => [...new Set(entries.map(e => e.actor))].sort(), [entries]);
+    const entityTypes = useMemo(() => [...new Set(entries.map(e => e.entityType))], [entries]);
+
+    const filtered = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return entries.filter(e =>
+            (!entityFilter || e.entityType === entityFilter) &&
+            (!actionFilter || e.action === actionFilter) &&
+            (!actorFilter || e.actor === actorFilter) &&
+            (!term || [e.entityId, e.actor, e.deviceId, JSON.stringify(e.changes)].some(text => text.toLowerCase().includes(term)))
+        );
+    }, [entries, search, entityFilter, actionFilter, actorFilter]);
+
+    const handleVerify = async () => {
+        setIsVerifying(true);
+        try {
+            setVerification(await verifyAuditLog());
+        } catch (e) {
+            showToast('❌ خطا در بررسی زنجیره گزارش ممیزی.');
+        } finally {
+            setIsVerifying(false);
+        }
+    };
+
+    const exportName = `Audit_${dateRange.start.toISOString().split('T')[0]}_${dateRange.end.toISOString().split('T')[0]}`;
+    const selectClass = "p-2.5 border border-slate-200 rounded-xl bg-white text-sm font-bold text-slate-600 outline-none focus:ring-2 focus:ring-blue-500/20";
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col lg:flex-row gap-3 lg:items-center justify-between">
+                <div className="relative flex-grow max-w-md">
+                    <SearchIcon className="w-5 h-5 absolute right-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                    <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="جستجو در شناسه، کاربر و تغییرات..." className="w-full pr-10 pl-3 py-2.5 border border-slate-200 rounded-xl bg-white text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500/20" />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <select value={entityFilter} onChange={e => setEntityFilter(e.target.value)} className={selectClass}>
+                        <option value="">همه انواع</option>
+                        {entityTypes.map(type => <option key={type} value={type}>{entityLabel(type)}</option>)}
+                    </select>
+                    <select value={actionFilter} onChange={e => setActionFilter(e.target.value)} className={selectClass}>
+                        <option value="">همه عملیات</option>
+                        {(Object.keys(ACTION_LABELS) as AuditAction[]).map(action => <option key={action} value={action}>{ACTION_LABELS[action].label}</option>)}
+                    </select>
+                    <select value={actorFilter} onChange={e => setActorFilter(e.target.value)} className={selectClass}>
+                        <option value="">همه کاربران</option>
+                        {actors.map(actor => <option key={actor} value={actor}>{actor}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 justify-between items-center">
+                <span className="text-sm font-bold text-slate-500">{isLoading ? 'در حال بارگذاری...' : `${filtered.length.toLocaleString('fa-IR')} رکورد`}</span>
+                <div className="flex gap-2">
+                    <button onClick={handleVerify} disabled={isVerifying} className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-slate-800 text-white text-sm font-bold hover:bg-slate-900 disabled:opacity-60 transition-all active:scale-95">
+                        <CheckIcon className="w-4 h-4" /> {isVerifying ? 'در حال بررسی...' : 'بررسی زنجیره'}
+                    </button>
+                    <button onClick={() => download(toCsv(filtered), `${exportName}.csv`, 'text/csv;charset=utf-8')} disabled={filtered.length === 0} className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-white border border-slate-200 text-slate-600 text-sm font-bold hover:bg-slate-50 disabled:opacity-50 transition-all active:scale-95">
+                        <DownloadIcon className="w-4 h-4" /> CSV
+                    </button>
+                    <button onClick={() => download(JSON.stringify(filtered, null, 2), `${exportName}.json`, 'application/json')} disabled={filtered.length === 0} className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-white border border-slate-200 text-slate-600 text-sm font-bold hover:bg-slate-50 disabled:opacity-50 transition-all active:scale-95">
+                        <DownloadIcon className="w-4 h-4" /> JSON
+                    </button>
+                </div>
+            </div>
+
+            {verification && (
+                verification.problems.length === 0 ? (
+                    <div className="p-4 rounded-2xl bg-emerald-50 border border-emerald-200 text-emerald-800 font-bold text-sm flex items-center gap-2">
+                        <CheckIcon className="w-5 h-5" /> زنجیره گزارش ممیزی سالم است ({verification.checked.toLocaleString('fa-IR')} رکورد بررسی شد).
+                    </div>
+                ) : (
+                    <div className="p-4 rounded-2xl bg-red-50 border border-red-200 text-red-800 text-sm space-y-1">
+                        <p className="font-black flex items-center gap-2"><WarningIcon className="w-5 h-5" /> گزارش ممیزی دستکاری شده است:</p>
+                        {verification.problems.map(p => (
+                            <p key={`${p.deviceId}-${p.seq}-${p.kind}`} className="font-medium">دستگاه <span className="font-mono">{p.deviceId.slice(0, 8)}</span>، رکورد {p.seq.toLocaleString('fa-IR')}: {PROBLEM_LABELS[p.kind]}</p>
+                        ))}
+                    </div>
+                )
+            )}
+
+            <div className="bg-white rounded-2xl border border-slate-100 shadow-sm divide-y divide-slate-100">
+                {filtered.slice(0, visibleCount).map(entry => {
+                    const action = ACTION_LABELS[entry.action];
+                    const isExpanded = expandedId === entry.id;
+                    const fields = Object.keys(entry.changes);
+                    return (
+                        <div key={entry.id}>
+                            <button onClick={() => setExpandedId(isExpanded ? null : entry.id)} className="w-full flex items-center gap-3 p-3 text-right hover:bg-slate-50 transition-colors">
+                                <span className={`px-2.5 py-1 rounded-lg text-xs font-black whitespace-nowrap ${action?.className || 'bg-slate-100 text-slate-600'}`}>{action?.label || entry.action}</span>
+                                <div className="flex-grow min-w-0">
+                                    <p className="font-bold text-slate-800 text-sm truncate">{entityLabel(entry.entityType)} <span className="font-mono text-slate-500">{entry.entityId}</span></p>
+                                    <p className="text-xs text-slate-400 truncate">{fields.join('، ')}</p>
+                                </div>
+                                <div className="text-left flex-shrink-0">
+                                    <p className="font-black text-blue-800 text-xs">{entry.actor}</p>
+                                    <p className="text-[10px] text-slate-400 font-bold">{new Date(entry.timestamp).toLocaleString('fa-IR')}</p>
+                                </div>
+                                <ChevronDownIcon className={`w-4 h-4 text-slate-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                            </button>
+                            {isExpanded && (
+                                <div className="px-3 pb-3">
+                                    <table className="w-full text-xs border border-slate-100 rounded-xl overflow-hidden">
+                                        <thead className="bg-slate-50 text-slate-500">
+                                            <tr><th className="p-2 text-right">فیلد</th><th className="p-2 text-right">قبل</th><th className="p-2 text-right">بعد</th></tr>
+                                        </thead>
+                                        <tbody>
+                                            {fields.map(field => (
+                                                <tr key={field} className="border-t border-slate-100 align-top">
+                                                    <td className="p-2 font-mono font-bold text-slate-600">{field}</td>
+                                                    <td className="p-2 font-mono text-red-600 break-all max-w-xs" dir="ltr">{formatValue(entry.changes[field].before)}</td>
+                                                    <td className="p-2 font-mono text-emerald-700 break-all max-w-xs" dir="ltr">{formatValue(entry.changes[field].after)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    <p className="mt-2 text-[10px] text-slate-400 font-mono" dir="ltr">device {entry.deviceId} · seq {entry.seq} · {entry.hash.slice(0, 16)}…</p>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+                {!isLoading && filtered.length === 0 && <p className="p-8 text-center text-slate-400 font-bold">رکوردی در این بازه یافت نشد.</p>}
+            </div>
+
+            {filtered.length > visibleCount && (
+                <button onClick={() => setVisibleCount(count => count + PAGE_SIZE)} className="w-full py-3 rounded-2xl border border-slate-200 bg-white text-slate-600 font-bold text-sm hover:bg-slate-50 transition-all">نمایش موارد بیشتر</button>
+            )}
+        </div>
+    );
+};
+
+export default AuditLogViewer;
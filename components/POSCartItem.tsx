@@ -3,6 +3,8 @@ import type { InvoiceItem, CartItem, StoreSettings, SaleInvoice } from '../types
 import { EditIcon, TrashIcon, CheckIcon, XIcon, HistoryIcon } from './icons';
 import PackageUnitInput from './PackageUnitInput';
 import { toEnglishDigits } from '../utils/formatters';
+import { useAppContext } from '../AppContext';
+import { canViewCosts } from '../utils/permissions';
 
 interface PriceEditorProps {
     item: InvoiceItem;
@@ -77,6 +79,8 @@ const POSCartItem: React.FC<POSCartItemProps> = ({
     item, isEditingPrice, storeSettings, hasPermission, onQuantityChange, onRemove, onStartPriceEdit, onSavePrice, onCancelPriceEdit,
     currency, exchangeRate, saleInvoices, selectedCustomerId
 }) => {
+    const { roleLimits, priceLists } = useAppContext();
+    const showCost = canViewCosts(roleLimits);
     
     const config = storeSettings.currencyConfigs[currency];
     const rate = Number(exchangeRate) || 1;
@@ -84,13 +88,13 @@ const POSCartItem: React.FC<POSCartItemProps> = ({
     const originalPriceAFN = item.type === 'product' ? item.salePrice : item.price;
 
     // Convert prices for display
-    const displayPrice = currency === storeSettings.baseCurrency ? priceAFN : 
-                        (config?.method === 'multiply' ? priceAFN * rate : priceAFN / rate);
-    
-    const displayOriginalPrice = currency === storeSettings.baseCurrency ? originalPriceAFN : 
-                                (config?.method === 'multiply' ? originalPriceAFN * rate : originalPriceAFN / rate);
+    const toDisplay = (amountAFN: number) => currency === storeSettings.baseCurrency ? amountAFN : 
+                        (config?.method === 'multiply' ? amountAFN * rate : amountAFN / rate);
+    const displayPrice = toDisplay(priceAFN);
+    const displayOriginalPrice = toDisplay(originalPriceAFN);
 
     const currencySuffix = config?.name || currency;
+    const priceListName = item.priceListId ? priceLists.find(l => l.id === item.priceListId)?.name : undefined;
 
     // Logic for finding the last sale price to this customer
     const lastSaleToCustomer = useMemo(() => {
@@ -98,7 +102,7 @@ const POSCartItem: React.FC<POSCartItemProps> = ({
         
         // Find the most recent sale invoice for this customer that contains this product
         const lastInvoice = saleInvoices
-            .filter(inv => inv.customerId === selectedCustomerId && inv.type === 'sale')
+            .filter(inv => inv.customerId === selectedCustomerId && inv.type === 'sale' && !inv.voided)
             .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
             .find(inv => inv.items.some(it => it.id === item.id));
 
@@ -135,11 +139,15 @@ const POSCartItem: React.FC<POSCartItemProps> = ({
                         ) : (
                             <span className="font-bold text-slate-600">{displayPrice.toLocaleString()} {currencySuffix}</span>
                         )}
+                        {priceListName && <span className="px-1.5 py-0.5 rounded-md text-[10px] font-bold bg-indigo-50 text-indigo-600">{priceListName}</span>}
+                        {item.type === 'product' && !!item.promotionDiscount && (
+                            <span className="px-1.5 py-0.5 rounded-md text-[10px] font-bold bg-emerald-50 text-emerald-600">تخفیف طرح: {toDisplay(item.promotionDiscount).toLocaleString(undefined, { maximumFractionDigits: 2 })} {currencySuffix}</span>
+                        )}
                         
                         {item.type === 'product' && (
                             <div className="flex flex-col w-full">
                                 <div className="flex flex-wrap items-center gap-2">
-                                    {(() => {
+                                    {showCost && (() => {
                                         const deductions = (item as InvoiceItem).batchDeductions || [];
                                         const batches = (item as InvoiceItem).batches || [];
                                         
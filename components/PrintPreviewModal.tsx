@@ -1,34 +1,44 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import type { SaleInvoice, StoreSettings, CartItem, InvoiceItem, Customer } from '../types';
+import type { SaleInvoice, Quotation, StoreSettings, CartItem, InvoiceItem, Customer, TenderKind } from '../types';
 import { XIcon, EditIcon, CheckIcon } from './icons';
 import { useAppContext } from '../AppContext';
+import { fromBaseAmount } from '../utils/ledger';
+
+const TENDER_LABELS: Record<TenderKind, string> = { cash: 'پرداخت نقدی', credit: 'نسیه (به حساب)', intermediary: 'تسویه از طریق واسطه', exchange: 'ارزش کالای مرجوعی', voucher: 'ووچر اعتبار خرید' };
 
 interface PrintPreviewModalProps {
-    invoice: SaleInvoice;
+    invoice: SaleInvoice | Quotation;
     onClose: () => void;
 }
 
+const isQuotation = (doc: SaleInvoice | Quotation): doc is Quotation => 'validUntil' in doc;
+
 const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose }) => {
-    const { storeSettings, customers, suppliers, setInvoiceTransientCustomer } = useAppContext();
+    const { storeSettings, customers, suppliers, priceLists, setInvoiceTransientCustomer } = useAppContext();
     const [customCustomerName, setCustomCustomerName] = useState('');
     const [isEditingName, setIsEditingName] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
+    // Quotations share the layout but carry no payment and keep their own customer name
+    const quotation = isQuotation(invoice) ? invoice : null;
+    const sale = isQuotation(invoice) ? null : invoice;
 
     const customer = useMemo(() => {
         if (invoice.customerId) return customers.find(c => c.id === invoice.customerId);
-        if (invoice.supplierIntermediaryId) return suppliers.find(s => s.id === invoice.supplierIntermediaryId);
+        if (sale?.supplierIntermediaryId) return suppliers.find(s => s.id === sale.supplierIntermediaryId);
         return null;
-    }, [invoice.customerId, invoice.supplierIntermediaryId, customers, suppliers]);
+    }, [invoice.customerId, sale?.supplierIntermediaryId, customers, suppliers]);
 
     useEffect(() => {
         if (customer) {
             setCustomCustomerName(customer.name);
-        } else if (invoice.supplierIntermediaryId) {
-            const s = suppliers.find(sup => sup.id === invoice.supplierIntermediaryId);
+        } else if (quotation) {
+            setCustomCustomerName(quotation.customerName || '');
+        } else if (sale?.supplierIntermediaryId) {
+            const s = suppliers.find(sup => sup.id === sale.supplierIntermediaryId);
             if (s) setCustomCustomerName(s.name);
-        } else if (invoice.type === 'sale') {
-            setCustomCustomerName(invoice.originalInvoiceId || '');
+        } else if (sale?.type === 'sale') {
+            setCustomCustomerName(sale.originalInvoiceId || '');
         }
     }, [customer, invoice, suppliers]);
 
@@ -39,15 +49,18 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
     }, [isEditingName]);
 
     const saveCustomerName = async () => {
-        if (!invoice.customerId && invoice.type === 'sale') {
+        if (sale && !sale.customerId && sale.type === 'sale') {
             const nameToSave = customCustomerName.trim();
-            const currentSavedName = invoice.originalInvoiceId || '';
+            const currentSavedName = sale.originalInvoiceId || '';
             if (nameToSave !== currentSavedName) {
-                await setInvoiceTransientCustomer(invoice.id, nameToSave);
+                await setInvoiceTransientCustomer(sale.id, nameToSave);
             }
         }
     };
 
+    const hasTax = (invoice.totalTax || 0) > 0;
+    const toInvoiceCurrency = (base: number) => fromBaseAmount(base, invoice.currency, invoice.exchangeRate || 1, storeSettings);
+
     const handlePrint = async () => {
         setIsEditingName(false);
         await saveCustomerName();
@@ -62,7 +75,8 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
         onClose();
     };
     
-    const currencySuffix = invoice.currency === 'USD' ? '$' : (invoice.currency === 'IRT' ? 'تومان' : storeSettings.currencyName);
+    const suffixOf = (currency: SaleInvoice['currency']) => currency === 'USD' ? '$' : (currency === 'IRT' ? 'تومان' : storeSettings.currencyName);
+    const currencySuffix = suffixOf(invoice.currency);
 
     const getItemDetails = (item: CartItem) => {
         const isService = item.type === 'service';
@@ -110,7 +124,13 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
                         <h1 className="text-xl print:text-3xl font-extrabold text-blue-600">{storeSettings.storeName}</h1>
                         <p className="text-xs print:text-sm text-slate-500">{storeSettings.address}</p>
                         <p className="text-xs print:text-sm text-slate-500">تلفن: {storeSettings.phone}</p>
-                        <p className="text-sm print:text-lg text-slate-800 mt-1 print:mt-2 font-bold bg-slate-100 inline-block px-4 py-1 rounded-full border">فاکتور فروش</p>
+                        {hasTax && storeSettings.taxNumber && <p className="text-xs print:text-sm text-slate-500">شماره مالیاتی: <span className="font-mono">{storeSettings.taxNumber}</span></p>}
+                        <p className="text-sm print:text-lg text-slate-800 mt-1 print:mt-2 font-bold bg-slate-100 inline-block px-4 py-1 rounded-full border">{quotation ? 'پیش‌فاکتور' : hasTax ? 'فاکتور مالیاتی' : 'فاکتور فروش'}</p>
+                        {sale?.voided && (
+                            <p className="mt-2 text-sm print:text-base font-black text-red-700 border-2 border-red-600 rounded-lg px-3 py-1 inline-block mx-2">
+                                باطل شده — {new Date(sale.voided.at).toLocaleDateString('fa-IR')} ({sale.voided.by}): {sale.voided.reason}
+                            </p>
+                        )}
                     </div>
                     
                     <div className="flex justify-between text-xs print:text-sm mb-2 print:mb-4 bg-slate-50 p-2 print:p-3 rounded-lg border">
@@ -119,11 +139,16 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
                                 <strong>نام مشتری:</strong> 
                                 <span className="font-bold text-base print:text-lg text-blue-800">{customCustomerName || 'مشتری گذری'}</span>
                             </div>
-                            <p><strong>شماره فاکتور:</strong> <span className="font-mono font-bold">{invoice.id}</span></p>
+                            <p><strong>{quotation ? 'شماره پیش‌فاکتور:' : 'شماره فاکتور:'}</strong> <span className="font-mono font-bold">{invoice.id}</span></p>
                         </div>
                         <div className="text-left space-y-0.5 print:space-y-1">
                             <p><strong>تاریخ:</strong> {new Date(invoice.timestamp).toLocaleDateString('fa-IR')}</p>
+                            {sale?.salesOrderId && <p><strong>سفارش:</strong> <span className="font-mono font-bold">{sale.salesOrderId}</span></p>}
+                            {quotation && <p><strong>معتبر تا:</strong> <span className="font-bold">{new Date(`${quotation.validUntil}T00:00:00`).toLocaleDateString('fa-IR')}</span></p>}
                             <p><strong>ارز معامله:</strong> <span className="font-bold">{invoice.currency}</span></p>
+                            {invoice.priceListIds && invoice.priceListIds.length > 0 && (
+                                <p><strong>لیست قیمت:</strong> <span className="font-bold">{invoice.priceListIds.map(id => priceLists.find(l => l.id === id)?.name || 'حذف‌شده').join('، ')}</span></p>
+                            )}
                         </div>
                     </div>
 
@@ -135,6 +160,7 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
                                     <th rowSpan={2} className="p-1 print:p-2 text-right font-bold border border-slate-400">شرح کالا</th>
                                     <th colSpan={2} className="p-1 print:p-2 text-center font-bold border border-slate-400 bg-blue-50 text-blue-900">تعداد</th>
                                     <th colSpan={2} className="p-1 print:p-2 text-center font-bold border border-slate-400">قیمت (فی - {invoice.currency})</th>
+                                    {hasTax && <th rowSpan={2} className="p-1 print:p-2 text-center font-bold border border-slate-400 w-16 print:w-20">مالیات</th>}
                                     <th rowSpan={2} className="p-1 print:p-2 text-center font-bold border border-slate-400 w-20 print:w-24">قیمت کل</th>
                                 </tr>
                                 <tr>
@@ -157,6 +183,11 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
                                             <td className="p-1 print:p-2 text-center border border-slate-300 font-bold bg-blue-50/30">{details.unitCount > 0 ? details.unitCount.toLocaleString('fa-IR') : '-'}</td>
                                             <td className="p-1 print:p-2 text-center border border-slate-300" dir="ltr">{details.pkgCount > 0 ? details.pkgPrice.toLocaleString('fa-IR', { maximumFractionDigits: 3 }) : '-'}</td>
                                             <td className="p-1 print:p-2 text-center border border-slate-300" dir="ltr">{details.unitCount > 0 ? details.unitPrice.toLocaleString('fa-IR', { maximumFractionDigits: 3 }) : '-'}</td>
+                                            {hasTax && (
+                                                <td className="p-1 print:p-2 text-center border border-slate-300" dir="ltr">
+                                                    {item.taxRate ? <>{toInvoiceCurrency(item.taxAmount || 0).toLocaleString('fa-IR', { maximumFractionDigits: 3 })} <span className="text-slate-500">({item.taxRate}٪)</span></> : '-'}
+                                                </td>
+                                            )}
                                             <td className="p-1 print:p-2 text-center border border-slate-300 font-bold text-slate-800" dir="ltr">{details.totalPrice.toLocaleString('fa-IR', { maximumFractionDigits: 3 })}</td>
                                         </tr>
                                     )
@@ -168,23 +199,47 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
                     <div className="mt-2 pt-2 print:mt-4 flex justify-between items-start">
                         <div className="w-1/2 space-y-1">
                             {/* بخش وضعیت کل حساب مشتری طبق دستور حذف گردید تا در فاکتور چاپ نشود */}
+                            {quotation && <p className="text-xs print:text-sm text-slate-500 px-2">این پیش‌فاکتور سند فروش نیست و قیمت‌ها تا تاریخ اعتبار ذکرشده معتبر است.</p>}
+                            {sale?.exchangeInvoiceId && <p className="text-xs print:text-sm text-teal-700 font-semibold px-2">{sale.type === 'return' ? 'تعویض با فاکتور فروش' : 'تعویض با مرجوعی'} <span className="font-mono">{sale.exchangeInvoiceId}</span></p>}
                         </div>
                         <div className="w-1/2 text-left space-y-1 text-sm">
                             {invoice.totalDiscount > 0 && (
                                 <>
                                     <div className="flex justify-between px-2"><span className="font-semibold text-slate-600">جمع کل:</span><span dir="ltr">{invoice.subtotal.toLocaleString('fa-IR', { maximumFractionDigits: 3 })} {currencySuffix}</span></div>
+                                    {invoice.promotions?.map(promo => (
+                                        <div key={promo.promotionId} className="flex justify-between px-2 text-slate-600"><span>{promo.name}:</span><span dir="ltr">-{fromBaseAmount(promo.discount, invoice.currency, invoice.exchangeRate || 1, storeSettings).toLocaleString('fa-IR', { maximumFractionDigits: 3 })} {currencySuffix}</span></div>
+                                    ))}
                                     <div className="flex justify-between px-2 text-green-600"><span className="font-semibold">مجموع تخفیف:</span><span dir="ltr">{invoice.totalDiscount.toLocaleString('fa-IR', { maximumFractionDigits: 3 })} {currencySuffix}</span></div>
                                 </>
                             )}
+                            {hasTax && (
+                                <div className="flex justify-between px-2 text-slate-600"><span className="font-semibold">{invoice.pricesIncludeTax ? 'مالیات (شامل قیمت):' : 'مالیات:'}</span><span dir="ltr">{(invoice.totalTax || 0).toLocaleString('fa-IR', { maximumFractionDigits: 3 })} {currencySuffix}</span></div>
+                            )}
                             <div className="flex justify-between text-xl font-bold border-t border-black pt-2 mt-2 px-2 bg-slate-100 rounded">
                                 <span>مبلغ نهایی ({invoice.currency}):</span>
                                 <span className="text-blue-700" dir="ltr">{invoice.totalAmount.toLocaleString('fa-IR', { maximumFractionDigits: 3 })} {currencySuffix}</span>
                             </div>
+                            {sale?.prepaymentApplied && (
+                                <>
+                                    <div className="flex justify-between px-2 text-emerald-700"><span className="font-semibold">کسر از پیش‌پرداخت:</span><span dir="ltr">-{sale.prepaymentApplied.toLocaleString('fa-IR', { maximumFractionDigits: 3 })} {currencySuffix}</span></div>
+                                    <div className="flex justify-between px-2 font-bold"><span>مانده به حساب مشتری:</span><span dir="ltr">{(sale.totalAmount - sale.prepaymentApplied).toLocaleString('fa-IR', { maximumFractionDigits: 3 })} {currencySuffix}</span></div>
+                                </>
+                            )}
+                            {sale?.payment && (
+                                <>
+                                    {sale.payment.tenders.map((t, idx) => (
+                                        <div key={idx} className="flex justify-between px-2 text-slate-600"><span className="font-semibold">{TENDER_LABELS[t.kind]}{t.voucherId && <span className="font-mono"> {t.voucherId}</span>}:</span><span dir="ltr">{t.amount.toLocaleString('fa-IR', { maximumFractionDigits: 3 })} {suffixOf(t.currency)}</span></div>
+                                    ))}
+                                    {sale.payment.change && (
+                                        <div className="flex justify-between px-2 text-emerald-700"><span className="font-semibold">باقی‌مانده پرداختی:</span><span dir="ltr">{sale.payment.change.amount.toLocaleString('fa-IR', { maximumFractionDigits: 3 })} {suffixOf(sale.payment.change.currency)}</span></div>
+                                    )}
+                                </>
+                            )}
                         </div>
                     </div>
                 </div>
                 <div className="flex justify-between items-center mt-4 print:hidden pt-2 border-t no-print">
-                    <button onClick={() => setIsEditingName(true)} className="flex items-center gap-2 px-4 py-3 rounded-lg bg-yellow-100 text-yellow-800 font-semibold"><EditIcon className="w-5 h-5" /><span className="hidden md:inline">ویرایش نام مشتری</span></button>
+                    {sale ? <button onClick={() => setIsEditingName(true)} className="flex items-center gap-2 px-4 py-3 rounded-lg bg-yellow-100 text-yellow-800 font-semibold"><EditIcon className="w-5 h-5" /><span className="hidden md:inline">ویرایش نام مشتری</span></button> : <span />}
                     <div className="flex space-x-3 space-x-reverse">
                         <button onClick={handleClose} className="px-6 py-3 rounded-lg bg-gray-200 font-semibold">بستن</button>
                         <button onClick={handlePrint} className="px-6 py-3 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold">چاپ نهایی</button>
@@ -15,6 +15,7 @@ type FormState = {
     itemsPerPackage: string;
     barcode: string;
     manufacturer: string;
+    taxClassId: string;
     purchasePrice: string;
     lotNumber: string;
     expiryDate: string;
@@ -101,6 +102,7 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onClose, onSave })
             itemsPerPackage: p?.itemsPerPackage?.toString() || '1',
             barcode: p?.barcode || '',
             manufacturer: p?.manufacturer || '',
+            taxClassId: p?.taxClassId || '',
             purchasePrice: firstBatch?.purchasePrice?.toString() || '',
             lotNumber: firstBatch?.lotNumber || '',
             expiryDate: firstBatch?.expiryDate || '',
@@ -111,7 +113,7 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onClose, onSave })
     const [formData, setFormData] = useState<FormState>(productToFormState(product));
     const [stockPackages, setStockPackages] = useState('');
     const [stockUnits, setStockUnits] = useState('');
-    const [isDetailsOpen, setIsDetailsOpen] = useState(!!(product?.barcode || product?.manufacturer || product?.batches[0]?.expiryDate));
+    const [isDetailsOpen, setIsDetailsOpen] = useState(!!(product?.barcode || product?.manufacturer || product?.taxClassId || product?.batches[0]?.expiryDate));
     const [errors, setErrors] = useState<{ [key: string]: string }>({});
     
     // Multi-currency purchase states
@@ -277,6 +279,7 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onClose, onSave })
                 itemsPerPackage: formData.itemsPerPackage ? Number(formData.itemsPerPackage) : 1,
                 barcode: formData.barcode?.trim() || undefined,
                 manufacturer: formData.manufacturer?.trim() || undefined,
+                taxClassId: formData.taxClassId || undefined,
             };
             const firstBatchData: FirstBatchData = {
                 purchasePrice: finalPurchasePriceBase,
@@ -448,13 +451,22 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onClose, onSave })
 
                     <div className="border-t border-slate-200 pt-4">
                         <button type="button" onClick={() => setIsDetailsOpen(!isDetailsOpen)} className="w-full flex justify-between items-center text-slate-700 font-semibold p-2 hover:bg-slate-100/50 rounded-lg transition-colors">
-                            <span>افزودن جزئیات بیشتر (انقضا، بارکد)</span>
+                            <span>افزودن جزئیات بیشتر (انقضا، بارکد، مالیات)</span>
                             <ChevronDownIcon className={`w-5 h-5 transition-transform duration-300 ${isDetailsOpen ? 'rotate-180' : ''}`} />
                         </button>
                         {isDetailsOpen && (
                             <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-5 animate-fade-in">
                                 <FormInput label=" کد محصول (بارکد)" id="barcode" name="barcode" type="text" value={formData.barcode} onChange={handleInputChange} placeholder="اسکن بارکد" onKeyDown={handleKeyDown} />
                                 <FormInput label="تاریخ انقضا" id="expiryDate" name="expiryDate" type="date" value={formData.expiryDate} onChange={handleInputChange} onKeyDown={handleKeyDown} error={errors.expiryDate} disabled={!!product}/>
+                                {(storeSettings.taxClasses || []).length > 0 && (
+                                    <div>
+                                        <label htmlFor="taxClassId" className="block text-md font-semibold text-slate-700 mb-2">نرخ مالیات</label>
+                                        <select id="taxClassId" value={formData.taxClassId} onChange={e => setFormData(prev => ({ ...prev, taxClassId: e.target.value }))} className="w-full p-3 bg-white/80 border border-slate-300/80 rounded-lg shadow-sm form-input">
+                                            <option value="">بدون مالیات</option>
+                                            {(storeSettings.taxClasses || []).map(c => <option key={c.id} value={c.id}>{c.name} ({c.rate}٪)</option>)}
+                                        </select>
+                                    </div>
+                                )}
                             </div>
                         )}
                     </div>
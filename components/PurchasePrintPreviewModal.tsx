@@ -63,6 +63,12 @@ const PurchasePrintPreviewModal: React.FC<PurchasePrintPreviewModalProps> = ({ i
                         </table>
                     </div>
                     <div className="mt-8 pt-6 border-t text-left">
+                        {!!invoice.taxAmount && (
+                            <p className="text-lg font-semibold text-slate-600 mb-2">
+                                <span>مالیات خرید: </span>
+                                <span dir="ltr">{formatCurrency(invoice.taxAmount, storeSettings, currencyName)}</span>
+                            </p>
+                        )}
                         <p className="text-2xl font-bold">
                             <span>مبلغ نهایی: </span>
                             <span className="text-blue-600" dir="ltr">{formatCurrency(invoice.totalAmount, storeSettings, currencyName)}</span>
@@ -0,0 +1,60 @@
+import React from 'react';
+import type { ReturnRefundRequest } from '../types';
+import { useAppContext } from '../AppContext';
+import { toEnglishDigits } from '../utils/formatters';
+
+type Currency = 'AFN' | 'USD' | 'IRT';
+
+// The rate is edited as text and parsed when the return is saved
+export interface RefundChoice {
+    destination: ReturnRefundRequest['destination'];
+    currency: Currency;
+    rate: string;
+}
+
+export const toRefundRequest = (choice: RefundChoice, baseCurrency: Currency): ReturnRefundRequest => ({
+    destination: choice.destination,
+    currency: choice.currency,
+    exchangeRate: choice.currency === baseCurrency ? 1 : Number(choice.rate) || 0,
+});
+
+const DESTINATION_LABELS: Record<RefundChoice['destination'], string> = { cash: 'نقد از صندوق', credit: 'به حساب مشتری', voucher: 'ووچر اعتبار خرید' };
+
+interface RefundDestinationPickerProps {
+    value: RefundChoice;
+    onChange: (choice: RefundChoice) => void;
+    customerName?: string; // Credit is offered only with a customer
+}
+
+const RefundDestinationPicker: React.FC<RefundDestinationPickerProps> = ({ value, onChange, customerName }) => {
+    const { storeSettings } = useAppContext();
+    const currencyName = (c: Currency) => storeSettings.currencyConfigs[c]?.name || c;
+    const destinations: RefundChoice['destination'][] = ['cash', ...(customerName ? ['credit' as const] : []), 'voucher'];
+
+    return (
+        <div className="space-y-2">
+            <p className="text-xs font-black text-slate-500">برگشت مبلغ</p>
+            <div className="flex gap-1 flex-wrap">
+                {destinations.map(d => (
+                    <button key={d} type="button" onClick={() => onChange({ ...value, destination: d })} className={`px-3 py-1.5 rounded-lg text-xs font-black ${value.destination === d ? 'bg-blue-600 text-white shadow-sm' : 'bg-white text-slate-500 border'}`}>
+                        {DESTINATION_LABELS[d]}{d === 'credit' ? ` (${customerName})` : ''}
+                    </button>
+                ))}
+            </div>
+            {value.destination === 'cash' && (
+                <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-xs font-bold text-slate-500">ارز پرداخت:</span>
+                    {(['AFN', 'USD', 'IRT'] as const).map(c => (
+                        <button key={c} type="button" onClick={() => onChange({ ...value, currency: c })} className={`px-2.5 py-1.5 rounded-lg text-[11px] font-black ${value.currency === c ? 'bg-emerald-600 text-white shadow-sm' : 'bg-white text-slate-500 border'}`}>{currencyName(c)}</button>
+                    ))}
+                    {value.currency !== storeSettings.baseCurrency && (
+                        <input type="text" inputMode="decimal" value={value.rate} onChange={e => onChange({ ...value, rate: toEnglishDigits(e.target.value).replace(/[^0-9.]/g, '') })} placeholder="نرخ" className="w-20 p-2 border border-slate-200 rounded-xl text-center font-mono text-sm" />
+                    )}
+                </div>
+            )}
+            {value.destination === 'voucher' && <p className="text-xs text-slate-500">ووچر به ارز پایه صادر می‌شود و شماره آن روی رسید مرجوعی چاپ می‌شود.</p>}
+        </div>
+    );
+};
+
+export default RefundDestinationPicker;
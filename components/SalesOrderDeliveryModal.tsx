@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import type { SalesOrder } from '../types';
+import { useAppContext } from '../AppContext';
+import { XIcon, TruckIcon } from './icons';
+import PackageUnitInput from './PackageUnitInput';
+import { fromBaseAmount } from '../utils/ledger';
+
+interface SalesOrderDeliveryModalProps {
+    order: SalesOrder;
+    isProcessing: boolean;
+    onConfirm: (deliveries: { id: string; type: 'product' | 'service'; quantity: number }[]) => void;
+    onClose: () => void;
+}
+
+const lineKey = (line: { id: string; type: string }) => `${line.type}:${line.id}`;
+
+// Quantities start at zero; "deliver the rest" fills in everything still outstanding
+const SalesOrderDeliveryModal: React.FC<SalesOrderDeliveryModalProps> = ({ order, isProcessing, onConfirm, onClose }) => {
+    const { storeSettings, customers } = useAppContext();
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const pending = order.items.filter(i => i.quantity > i.deliveredQty);
+    const remainingOf = (line: SalesOrder['items'][number]) => line.quantity - line.deliveredQty;
+
+    const hasQuantity = pending.some(line => (quantities[lineKey(line)] || 0) > 0);
+    const deliveryBase = pending.reduce((sum, line) => sum + line.unitPrice * (quantities[lineKey(line)] || 0), 0);
+    const deliveryTotal = fromBaseAmount(deliveryBase, order.currency, order.exchangeRate, storeSettings);
+    const prepaymentLeft = Math.max(order.prepaidAmount - order.appliedPrepayment, 0);
+    const fmt = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+    const handleConfirm = () => {
+        if (isProcessing) return;
+        onConfirm(pending.map(line => ({ id: line.id, type: line.type, quantity: quantities[lineKey(line)] || 0 })));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[200] p-4 modal-animate">
+            <div className="bg-white rounded-3xl shadow-2xl border border-gray-200 w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+                <div className="flex justify-between items-center p-5 border-b bg-blue-50">
+                    <h3 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                        <TruckIcon className="w-6 h-6 text-blue-600" /> تحویل سفارش <span className="font-mono">{order.id}</span>
+                    </h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-blue-100"><XIcon className="w-6 h-6 text-slate-500" /></button>
+                </div>
+
+                <div className="p-5 flex-grow overflow-y-auto space-y-3">
+                    <div className="flex justify-between items-center text-sm font-bold text-slate-500">
+                        <span>{customers.find(c => c.id === order.customerId)?.name}</span>
+                        <button
+                            type="button"
+                            onClick={() => setQuantities(Object.fromEntries(pending.map(line => [lineKey(line), remainingOf(line)])))}
+                            className="px-3 py-1.5 rounded-lg text-blue-700 bg-blue-50 hover:bg-blue-100"
+                        >
+                            تحویل کل مانده
+                        </button>
+                    </div>
+                    {pending.map(line => (
+                        <div key={lineKey(line)} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border">
+                            <div>
+                                <p className="font-semibold text-sm">{line.name}</p>
+                                <p className="text-xs text-slate-500">سفارش: {line.quantity} · تحویل‌شده: {line.deliveredQty} · مانده: {remainingOf(line)}</p>
+                            </div>
+                            <PackageUnitInput
+                                totalUnits={quantities[lineKey(line)] || 0}
+                                itemsPerPackage={line.itemsPerPackage || 1}
+                                maxUnits={remainingOf(line)}
+                                onChange={(total) => setQuantities(prev => ({ ...prev, [lineKey(line)]: Math.min(total, remainingOf(line)) }))}
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <div className="px-5 py-3 border-t bg-slate-50 space-y-1 text-sm font-bold">
+                    <div className="flex justify-between text-slate-700"><span>ارزش این تحویل{storeSettings.pricesIncludeTax ? '' : ' (بدون مالیات)'}:</span><span dir="ltr">{fmt(deliveryTotal)} {order.currency}</span></div>
+                    <div className="flex justify-between text-emerald-700"><span>پیش‌پرداخت باقی‌مانده:</span><span dir="ltr">{fmt(prepaymentLeft)} {order.currency}</span></div>
+                </div>
+
+                <div className="p-5 border-t flex gap-3">
+                    <button type="button" onClick={onClose} className="flex-1 py-3.5 rounded-xl bg-slate-100 text-slate-600 font-black hover:bg-slate-200 transition-all active:scale-95">لغو</button>
+                    <button type="button" onClick={handleConfirm} disabled={isProcessing || !hasQuantity} className="flex-1 py-3.5 rounded-xl text-white font-black shadow-lg transition-all active:scale-95 bg-blue-600 hover:bg-blue-700 shadow-blue-100 disabled:opacity-50">
+                        {isProcessing ? 'در حال ثبت...' : 'ثبت تحویل و صدور فاکتور'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SalesOrderDeliveryModal;
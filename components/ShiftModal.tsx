@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import type { CurrencyAmounts } from '../types';
+import { useAppContext } from '../AppContext';
+import { XIcon, SafeIcon } from './icons';
+import { toEnglishDigits } from '../utils/formatters';
+import { CURRENCIES } from '../utils/shifts';
+
+interface ShiftModalProps {
+    mode: 'open' | 'close';
+    isProcessing: boolean;
+    onConfirm: (amounts: CurrencyAmounts, notes: string) => void;
+    onClose: () => void;
+}
+
+// Closing is a blind count: the expected drawer amounts only appear on the Z-report afterwards
+const ShiftModal: React.FC<ShiftModalProps> = ({ mode, isProcessing, onConfirm, onClose }) => {
+    const { storeSettings } = useAppContext();
+    const [amounts, setAmounts] = useState<Record<keyof CurrencyAmounts, string>>({ AFN: '', USD: '', IRT: '' });
+    const [notes, setNotes] = useState('');
+
+    const handleConfirm = () => {
+        if (isProcessing) return;
+        onConfirm({ AFN: Number(amounts.AFN) || 0, USD: Number(amounts.USD) || 0, IRT: Number(amounts.IRT) || 0 }, notes);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[200] p-4 modal-animate">
+            <div className="bg-white rounded-3xl shadow-2xl border border-gray-200 w-full max-w-md overflow-hidden">
+                <div className="flex justify-between items-center p-5 border-b bg-blue-50">
+                    <h3 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                        <SafeIcon className="w-6 h-6 text-blue-600" /> {mode === 'open' ? 'باز کردن شیفت' : 'بستن شیفت'}
+                    </h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-blue-100"><XIcon className="w-6 h-6 text-slate-500" /></button>
+                </div>
+
+                <div className="p-5 space-y-3">
+                    <p className="text-sm font-bold text-slate-500">
+                        {mode === 'open' ? 'موجودی اولیه صندوق را به تفکیک ارز بشمارید و وارد کنید.' : 'پول نقد داخل صندوق را به تفکیک ارز بشمارید و وارد کنید.'}
+                    </p>
+                    {CURRENCIES.map(c => (
+                        <label key={c} className="flex items-center gap-3">
+                            <span className="w-20 text-sm font-black text-slate-600">{storeSettings.currencyConfigs[c]?.name || c}</span>
+                            <input
+                                type="text" inputMode="decimal" value={amounts[c]} placeholder="0"
+                                onChange={e => setAmounts(prev => ({ ...prev, [c]: toEnglishDigits(e.target.value).replace(/[^0-9.]/g, '') }))}
+                                className="flex-grow p-2.5 border border-slate-200 rounded-xl font-mono font-bold text-left"
+                            />
+                        </label>
+                    ))}
+                    {mode === 'close' && (
+                        <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} placeholder="توضیحات (اختیاری)" className="w-full p-2.5 border border-slate-200 rounded-xl text-sm" />
+                    )}
+                </div>
+
+                <div className="p-5 border-t bg-slate-50 flex gap-3">
+                    <button type="button" onClick={onClose} className="flex-1 py-3.5 rounded-xl bg-slate-100 text-slate-600 font-black hover:bg-slate-200 transition-all active:scale-95">لغو</button>
+                    <button type="button" onClick={handleConfirm} disabled={isProcessing} className="flex-1 py-3.5 rounded-xl text-white font-black shadow-lg transition-all active:scale-95 bg-blue-600 hover:bg-blue-700 shadow-blue-100 disabled:opacity-50">
+                        {isProcessing ? 'در حال ثبت...' : mode === 'open' ? 'باز کردن شیفت' : 'ثبت شمارش و بستن'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShiftModal;
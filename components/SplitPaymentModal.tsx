@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import type { SalePaymentRequest, TenderKind } from '../types';
+import { useAppContext } from '../AppContext';
+import { XIcon, PlusIcon, TrashIcon, SafeIcon } from './icons';
+import { toEnglishDigits, formatCurrency } from '../utils/formatters';
+import { toBaseAmount, fromBaseAmount } from '../utils/ledger';
+
+type Currency = 'AFN' | 'USD' | 'IRT';
+
+interface TenderRow {
+    key: string;
+    kind: TenderKind;
+    currency: Currency;
+    rate: string;
+    amount: string;
+    voucherId: string;
+}
+
+interface SplitPaymentModalProps {
+    totalBase: number;
+    customerName?: string;
+    supplierName?: string;
+    currency: Currency;
+    exchangeRate: string;
+    isProcessing: boolean;
+    onConfirm: (request: SalePaymentRequest) => void;
+    onClose: () => void;
+}
+
+const KIND_LABELS: Record<TenderKind, string> = { cash: 'نقد', credit: 'نسیه', intermediary: 'واسطه', exchange: 'کالای مرجوعی', voucher: 'ووچر' };
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const SplitPaymentModal: React.FC<SplitPaymentModalProps> = ({ totalBase, customerName, supplierName, currency, exchangeRate, isProcessing, onConfirm, onClose }) => {
+    const { storeSettings, storeCreditVouchers } = useAppContext();
+    const baseCurrency = storeSettings.baseCurrency;
+    const rateOf = (row: { currency: Currency; rate: string }) => row.currency === baseCurrency ? 1 : Number(row.rate) || 0;
+    const baseOf = (row: TenderRow) => rateOf(row) > 0 ? toBaseAmount(Number(row.amount) || 0, row.currency, rateOf(row), storeSettings) : 0;
+
+    const [rows, setRows] = useState<TenderRow[]>(() => [{
+        key: crypto.randomUUID(), kind: 'cash', currency, rate: exchangeRate, voucherId: '',
+        amount: String(round(fromBaseAmount(totalBase, currency, Number(exchangeRate) || 1, storeSettings)))
+    }]);
+    const [changeCurrency, setChangeCurrency] = useState<Currency>(baseCurrency);
+    const [changeRate, setChangeRate] = useState('');
+
+    const kinds: TenderKind[] = [
+        'cash', ...(customerName ? ['credit' as const] : []), ...(supplierName ? ['intermediary' as const] : []),
+        ...(storeCreditVouchers.some(v => v.balance > 0) ? ['voucher' as const] : [])
+    ];
+    const paidBase = rows.reduce((sum, row) => sum + baseOf(row), 0);
+    const remainingBase = totalBase - paidBase;
+    const changeBase = -remainingBase;
+    const changeRateNum = changeCurrency === baseCurrency ? 1 : Number(changeRate) || 0;
+
+    const updateRow = (key: string, patch: Partial<TenderRow>) => setRows(prev => prev.map(r => r.key === key ? { ...r, ...patch } : r));
+    // Vouchers hold base currency, so a voucher tender is always in it
+    const changeKind = (row: TenderRow, kind: TenderKind) => {
+        if (kind !== 'voucher') { updateRow(row.key, { kind }); return; }
+        const base = baseOf(row);
+        updateRow(row.key, { kind, currency: baseCurrency, amount: base > 0 ? String(round(base)) : row.amount });
+    };
+    const voucherOf = (row: TenderRow) => storeCreditVouchers.find(v => v.id === row.voucherId.trim().toUpperCase());
+    const voucherOverdrawn = (row: TenderRow) => {
+        const voucher = voucherOf(row);
+        if (!voucher) return true;
+        return rows.filter(r => r.kind === 'voucher' && voucherOf(r) === voucher).reduce((sum, r) => sum + baseOf(r), 0) > voucher.balance + 0.01;
+    };
+
+    // A new tender starts with whatever is still owed, in the sale's currency
+    const addRow = () => {
+        const kind = kinds.find(k => k !== 'cash' && !rows.some(r => r.kind === k)) || 'cash';
+        const amount = remainingBase > 0 ? round(fromBaseAmount(remainingBase, currency, Number(exchangeRate) || 1, storeSettings)) : 0;
+        setRows(prev => [...prev, { key: crypto.randomUUID(), kind, currency, rate: exchangeRate, voucherId: '', amount: amount ? String(amount) : '' }]);
+    };
+
+    const fillRemainder = (row: TenderRow) => {
+        const rest = remainingBase + baseOf(row);
+        if (rest <= 0 || rateOf(row) <= 0) return;
+        updateRow(row.key, { amount: String(round(fromBaseAmount(rest, row.currency, rateOf(row), storeSettings))) });
+    };
+
+    const missingRate = rows.some(r => Number(r.amount) > 0 && rateOf(r) <= 0) || (changeBase > 0.01 && changeRateNum <= 0);
+    const duplicateAccount = (['credit', 'intermediary'] as const).some(k => rows.filter(r => r.kind === k).length > 1);
+    const badVoucher = rows.some(r => r.kind === 'voucher' && voucherOverdrawn(r));
+    const canConfirm = !isProcessing && remainingBase <= 0.01 && !missingRate && !duplicateAccount && !badVoucher;
+
+    const handleConfirm = () => {
+        if (!canConfirm) return;
+        onConfirm({
+            tenders: rows.map(r => ({ kind: r.kind, currency: r.currency, exchangeRate: rateOf(r), amount: Number(r.amount) || 0, ...(r.kind === 'voucher' ? { voucherId: voucherOf(r)?.id } : {}) })),
+            changeCurrency,
+            changeExchangeRate: changeRateNum,
+        });
+    };
+
+    const currencyName = (c: Currency) => storeSettings.currencyConfigs[c]?.name || c;
+    const numericInput = (value: string) => toEnglishDigits(value).replace(/[^0-9.]/g, '');
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[200] p-4 modal-animate">
+            <div className="bg-white rounded-3xl shadow-2xl border border-gray-200 w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+                <div className="flex justify-between items-center p-5 border-b bg-blue-50">
+                    <h3 className="text-xl font-black text-slate-800 flex items-center gap-2"><SafeIcon className="w-6 h-6 text-blue-600" /> پرداخت ترکیبی</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-blue-100"><XIcon className="w-6 h-6 text-slate-500" /></button>
+                </div>
+
+                <div className="p-5 space-y-3 overflow-y-auto">
+                    {rows.map(row => (
+                        <div key={row.key} className="flex flex-wrap items-center gap-2 p-3 bg-slate-50 border border-slate-200 rounded-2xl">
+                            <select value={row.kind} onChange={e => changeKind(row, e.target.value as TenderKind)} className="p-2 border border-slate-200 rounded-xl bg-white font-bold text-sm">
+                                {kinds.map(k => <option key={k} value={k}>{KIND_LABELS[k]}{k === 'credit' ? ` (${customerName})` : k === 'intermediary' ? ` (${supplierName})` : ''}</option>)}
+                            </select>
+                            {row.kind === 'voucher' ? (
+                                <div className="flex items-center gap-1">
+                                    <input type="text" value={row.voucherId} onChange={e => updateRow(row.key, { voucherId: toEnglishDigits(e.target.value) })} placeholder="شماره ووچر" className="w-24 p-2 border border-slate-200 rounded-xl text-center font-mono text-sm" />
+                                    {row.voucherId.trim() && (
+                                        <span className={`text-[11px] font-bold ${voucherOverdrawn(row) ? 'text-red-600' : 'text-emerald-600'}`}>
+                                            {voucherOf(row) ? `مانده: ${formatCurrency(voucherOf(row)!.balance, storeSettings)}` : 'ووچر یافت نشد'}
+                                        </span>
+                                    )}
+                                </div>
+                            ) : (
+                            <div className="flex gap-1">
+                                {(['AFN', 'USD', 'IRT'] as const).map(c => (
+                                    <button key={c} type="button" onClick={() => updateRow(row.key, { currency: c })} className={`px-2.5 py-1.5 rounded-lg text-[11px] font-black ${row.currency === c ? 'bg-blue-600 text-white shadow-sm' : 'bg-white text-slate-500 border'}`}>{currencyName(c)}</button>
+                                ))}
+                            </div>
+                            )}
+                            {row.currency !== baseCurrency && (
+                                <input type="text" inputMode="decimal" value={row.rate} onChange={e => updateRow(row.key, { rate: numericInput(e.target.value) })} placeholder="نرخ" className="w-20 p-2 border border-slate-200 rounded-xl text-center font-mono text-sm" />
+                            )}
+                            <input type="text" inputMode="decimal" value={row.amount} onChange={e => updateRow(row.key, { amount: numericInput(e.target.value) })} placeholder="مبلغ" className="flex-grow min-w-[6rem] p-2 border border-slate-200 rounded-xl font-mono font-bold text-left" />
+                            <button type="button" onClick={() => fillRemainder(row)} className="px-2.5 py-1.5 rounded-lg text-[11px] font-bold text-blue-700 bg-blue-50 hover:bg-blue-100">باقی‌مانده</button>
+                            <button type="button" onClick={() => setRows(prev => prev.filter(r => r.key !== row.key))} disabled={rows.length === 1} className="p-1.5 rounded-full text-gray-500 hover:text-red-600 hover:bg-red-100 disabled:opacity-30"><TrashIcon className="w-5 h-5" /></button>
+                        </div>
+                    ))}
+                    <button type="button" onClick={addRow} className="w-full py-2.5 rounded-2xl border-2 border-dashed border-slate-300 text-slate-500 font-bold text-sm hover:border-blue-400 hover:text-blue-600 flex items-center justify-center gap-1">
+                        <PlusIcon className="w-5 h-5" /> افزودن روش پرداخت
+                    </button>
+                    {badVoucher && <p className="text-sm font-bold text-red-600 bg-red-50 rounded-xl p-2.5">شماره ووچر را بررسی کنید؛ مبلغ هر ووچر نباید از مانده آن بیشتر باشد.</p>}
+                    {duplicateAccount && <p className="text-sm font-bold text-red-600 bg-red-50 rounded-xl p-2.5">هر فاکتور فقط یک بخش نسیه و یک بخش واسطه می‌پذیرد.</p>}
+                </div>
+
+                <div className="p-5 border-t bg-slate-50 space-y-3">
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                        <div className="bg-white rounded-xl border p-2"><p className="text-[11px] font-bold text-slate-400">مبلغ فاکتور</p><p className="font-black text-slate-800">{formatCurrency(totalBase, storeSettings)}</p></div>
+                        <div className="bg-white rounded-xl border p-2"><p className="text-[11px] font-bold text-slate-400">پرداخت‌شده</p><p className="font-black text-blue-700">{formatCurrency(paidBase, storeSettings)}</p></div>
+                        {remainingBase > 0.01 ? (
+                            <div className="bg-red-50 rounded-xl border border-red-100 p-2"><p className="text-[11px] font-bold text-red-400">باقی‌مانده</p><p className="font-black text-red-600">{formatCurrency(remainingBase, storeSettings)}</p></div>
+                        ) : (
+                            <div className="bg-emerald-50 rounded-xl border border-emerald-100 p-2"><p className="text-[11px] font-bold text-emerald-500">باقی‌مانده به مشتری</p><p className="font-black text-emerald-700">{changeBase > 0.01 && changeRateNum > 0 ? `${round(fromBaseAmount(changeBase, changeCurrency, changeRateNum, storeSettings)).toLocaleString()} ${currencyName(changeCurrency)}` : '—'}</p></div>
+                        )}
+                    </div>
+                    {changeBase > 0.01 && (
+                        <div className="flex items-center gap-2 flex-wrap">
+                            <span className="text-xs font-bold text-slate-500">ارز باقی‌مانده:</span>
+                            {(['AFN', 'USD', 'IRT'] as const).map(c => (
+                                <button key={c} type="button" onClick={() => setChangeCurrency(c)} className={`px-2.5 py-1.5 rounded-lg text-[11px] font-black ${changeCurrency === c ? 'bg-emerald-600 text-white shadow-sm' : 'bg-white text-slate-500 border'}`}>{currencyName(c)}</button>
+                            ))}
+                            {changeCurrency !== baseCurrency && (
+                                <input type="text" inputMode="decimal" value={changeRate} onChange={e => setChangeRate(numericInput(e.target.value))} placeholder="نرخ" className="w-20 p-2 border border-slate-200 rounded-xl text-center font-mono text-sm" />
+                            )}
+                        </div>
+                    )}
+                    <div className="flex gap-3">
+                        <button type="button" onClick={onClose} className="flex-1 py-3.5 rounded-xl bg-slate-100 text-slate-600 font-black hover:bg-slate-200 transition-all active:scale-95">لغو</button>
+                        <button type="button" onClick={handleConfirm} disabled={!canConfirm} className="flex-1 py-3.5 rounded-xl text-white font-black shadow-lg transition-all active:scale-95 bg-blue-600 hover:bg-blue-700 shadow-blue-100 disabled:opacity-50">
+                            {isProcessing ? 'در حال ثبت...' : 'ثبت فاکتور'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SplitPaymentModal;
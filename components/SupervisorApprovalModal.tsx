@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import type { SaleApproval } from '../types';
+import { useAppContext } from '../AppContext';
+import { XIcon, KeyIcon, WarningIcon } from './icons';
+
+interface SupervisorApprovalModalProps {
+    violations: string[];
+    onApproved: (approval: SaleApproval) => void;
+    onClose: () => void;
+}
+
+const SupervisorApprovalModal: React.FC<SupervisorApprovalModalProps> = ({ violations, onApproved, onClose }) => {
+    const { users, roles, currentUser, requestSupervisorApproval } = useAppContext();
+    // Only people who could approve are offered for the PIN quick-approve
+    const supervisors = users.filter(u => u.id !== currentUser?.id && u.pinHash && roles.find(r => r.id === u.roleId)?.permissions.includes('pos:approve_override'));
+    const [method, setMethod] = useState<'pin' | 'password'>(supervisors.length > 0 ? 'pin' : 'password');
+    const [supervisorId, setSupervisorId] = useState(supervisors[0]?.id || '');
+    const [username, setUsername] = useState('');
+    const [secret, setSecret] = useState('');
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (isSubmitting) return;
+        setIsSubmitting(true);
+        const result = await requestSupervisorApproval(
+            method === 'pin' ? { method, userId: supervisorId, pin: secret } : { method, username, password: secret },
+            reason,
+            violations
+        );
+        setIsSubmitting(false);
+        if (result.success && result.approval) {
+            onApproved(result.approval);
+        } else {
+            setError(result.message);
+            setSecret('');
+        }
+    };
+
+    const inputClass = "w-full p-3 border border-slate-200 rounded-xl bg-slate-50 focus:bg-white focus:ring-2 focus:ring-blue-500/20 outline-none font-bold";
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[200] p-4 modal-animate">
+            <div className="bg-white rounded-3xl shadow-2xl border border-gray-200 w-full max-w-md overflow-hidden">
+                <div className="flex justify-between items-center p-5 border-b bg-amber-50">
+                    <h3 className="text-xl font-black text-slate-800 flex items-center gap-2"><KeyIcon className="w-6 h-6 text-amber-600" /> تأیید مدیر شیفت</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-amber-100"><XIcon className="w-6 h-6 text-slate-500" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <ul className="space-y-2">
+                        {violations.map(v => (
+                            <li key={v} className="flex items-start gap-2 text-sm font-bold text-amber-800 bg-amber-50 border border-amber-100 rounded-xl p-2.5">
+                                <WarningIcon className="w-5 h-5 flex-shrink-0 text-amber-500" /> {v}
+                            </li>
+                        ))}
+                    </ul>
+
+                    <div className="flex bg-slate-100 rounded-xl p-1">
+                        <button type="button" onClick={() => { setMethod('pin'); setError(''); }} disabled={supervisors.length === 0} className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all disabled:opacity-40 ${method === 'pin' ? 'bg-white shadow text-blue-600' : 'text-slate-500'}`}>رمز کوتاه</button>
+                        <button type="button" onClick={() => { setMethod('password'); setError(''); }} className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${method === 'password' ? 'bg-white shadow text-blue-600' : 'text-slate-500'}`}>نام کاربری و رمز</button>
+                    </div>
+
+                    {method === 'pin' ? (
+                        <select value={supervisorId} onChange={e => setSupervisorId(e.target.value)} className={inputClass}>
+                            {supervisors.map(u => <option key={u.id} value={u.id}>{u.username}</option>)}
+                        </select>
+                    ) : (
+                        <input type="text" value={username} onChange={e => setUsername(e.target.value)} placeholder="نام کاربری مدیر" className={inputClass} autoComplete="off" required />
+                    )}
+                    <input
+                        type="password"
+                        inputMode={method === 'pin' ? 'numeric' : undefined}
+                        value={secret}
+                        onChange={e => setSecret(e.target.value)}
+                        placeholder={method === 'pin' ? 'رمز کوتاه مدیر' : 'رمز عبور مدیر'}
+                        className={`${inputClass} ${method === 'pin' ? 'text-center tracking-[0.5em]' : ''}`}
+                        autoComplete="off"
+                        required
+                    />
+                    <textarea value={reason} onChange={e => setReason(e.target.value)} placeholder="دلیل تأیید (الزامی)" rows={2} className={inputClass} required />
+
+                    {error && <p className="text-sm font-bold text-red-600 bg-red-50 rounded-xl p-2.5">{error}</p>}
+
+                    <div className="flex gap-3 pt-2">
+                        <button type="button" onClick={onClose} className="flex-1 py-3.5 rounded-xl bg-slate-100 text-slate-600 font-black hover:bg-slate-200 transition-all active:scale-95">لغو</button>
+                        <button type="submit" disabled={isSubmitting} className="flex-1 py-3.5 rounded-xl text-white font-black shadow-lg transition-all active:scale-95 bg-amber-600 hover:bg-amber-700 shadow-amber-100 disabled:opacity-60">
+                            {isSubmitting ? 'در حال بررسی...' : 'تأیید و ادامه'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default SupervisorApprovalModal;
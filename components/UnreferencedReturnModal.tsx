@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import type { Product, ReturnCostBasis, ReturnRefundRequest, UnreferencedReturnLine } from '../types';
+import { useAppContext } from '../AppContext';
+import { XIcon, TrashIcon } from './icons';
+import PackageUnitInput from './PackageUnitInput';
+import RefundDestinationPicker, { toRefundRequest, type RefundChoice } from './RefundDestinationPicker';
+import { formatCurrency, toEnglishDigits } from '../utils/formatters';
+
+interface UnreferencedReturnModalProps {
+    isProcessing: boolean;
+    onConfirm: (lines: UnreferencedReturnLine[], costBasis: ReturnCostBasis, refund: ReturnRefundRequest, customerId?: string) => void;
+    onClose: () => void;
+}
+
+// Prices and costs are edited as text and parsed on confirm
+interface LineRow { productId: string; quantity: number; unitPrice: string; unitCost: string }
+
+const latestBatchCost = (product: Product) =>
+    [...product.batches].sort((a, b) => new Date(b.purchaseDate).getTime() - new Date(a.purchaseDate).getTime())[0]?.purchasePrice;
+
+// Goods brought back without a receipt are found by name or barcode and refunded at the price typed in
+const UnreferencedReturnModal: React.FC<UnreferencedReturnModalProps> = ({ isProcessing, onConfirm, onClose }) => {
+    const { products, customers, storeSettings } = useAppContext();
+    const [search, setSearch] = useState('');
+    const [rows, setRows] = useState<LineRow[]>([]);
+    const [costBasis, setCostBasis] = useState<ReturnCostBasis>('latest_batch');
+    const [customerId, setCustomerId] = useState('');
+    const [refund, setRefund] = useState<RefundChoice>({ destination: 'cash', currency: storeSettings.baseCurrency, rate: '' });
+
+    const term = search.trim();
+    const matches = term ? products.filter(p => p.name.includes(term) || p.barcode === term).slice(0, 8) : [];
+    const productOf = (id: string) => products.find(p => p.id === id);
+    const numericInput = (value: string) => toEnglishDigits(value).replace(/[^0-9.]/g, '');
+    const total = rows.reduce((sum, r) => sum + r.quantity * (Number(r.unitPrice) || 0), 0);
+
+    const addProduct = (product: Product) => {
+        setRows(prev => prev.some(r => r.productId === product.id)
+            ? prev.map(r => r.productId === product.id ? { ...r, quantity: r.quantity + 1 } : r)
+            : [...prev, { productId: product.id, quantity: 1, unitPrice: String(product.salePrice), unitCost: String(latestBatchCost(product) ?? '') }]);
+        setSearch('');
+    };
+
+    const updateRow = (productId: string, patch: Partial<LineRow>) => setRows(prev => prev.map(r => r.productId === productId ? { ...r, ...patch } : r));
+
+    // A scanner types the barcode and presses Enter
+    const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key !== 'Enter') return;
+        const scanned = products.find(p => p.barcode === term) || (matches.length === 1 ? matches[0] : undefined);
+        if (scanned) addProduct(scanned);
+    };
+
+    const handleConfirm = () => {
+        if (isProcessing) return;
+        onConfirm(
+            rows.map(r => ({ productId: r.productId, quantity: r.quantity, unitPrice: Number(r.unitPrice) || 0, ...(costBasis === 'manual' && r.unitCost !== '' ? { unitCost: Number(r.unitCost) } : {}) })),
+            costBasis,
+            toRefundRequest(refund, storeSettings.baseCurrency),
+            customerId || undefined
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[200] p-4 modal-animate">
+            <div className="bg-white rounded-3xl shadow-2xl border border-gray-200 w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+                <div className="flex justify-between items-center p-5 border-b bg-orange-50">
+                    <h3 className="text-xl font-black text-slate-800">مرجوعی بدون فاکتور</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-orange-100"><XIcon className="w-6 h-6 text-slate-500" /></button>
+                </div>
+
+                <div className="p-5 flex-grow overflow-y-auto space-y-4">
+                    <div className="relative">
+                        <input value={search} onChange={e => setSearch(e.target.value)} onKeyDown={handleSearchKeyDown} autoFocus placeholder="نام کالا یا بارکد..." className="w-full p-3 border border-slate-200 rounded-xl font-bold" />
+                        {matches.length > 0 && (
+                            <div className="absolute z-10 mt-1 w-full bg-white border border-slate-200 rounded-xl shadow-lg max-h-60 overflow-y-auto">
+                                {matches.map(p => (
+                                    <button key={p.id} type="button" onClick={() => addProduct(p)} className="w-full text-right px-3 py-2 hover:bg-blue-50 text-sm font-bold text-slate-700 flex justify-between">
+                                        <span>{p.name}</span><span className="font-mono text-slate-400">{p.barcode}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-xs font-black text-slate-500">بهای تمام شده:</span>
+                        <button type="button" onClick={() => setCostBasis('latest_batch')} className={`px-3 py-1.5 rounded-lg text-xs font-black ${costBasis === 'latest_batch' ? 'bg-blue-600 text-white shadow-sm' : 'bg-white text-slate-500 border'}`}>آخرین بچ خرید</button>
+                        <button type="button" onClick={() => setCostBasis('manual')} className={`px-3 py-1.5 rounded-lg text-xs font-black ${costBasis === 'manual' ? 'bg-blue-600 text-white shadow-sm' : 'bg-white text-slate-500 border'}`}>ورود دستی (بچ جدید)</button>
+                    </div>
+
+                    {rows.map(row => {
+                        const product = productOf(row.productId);
+                        if (!product) return null;
+                        return (
+                            <div key={row.productId} className="flex flex-wrap items-center justify-between gap-2 p-3 bg-slate-50 rounded-lg border">
+                                <p className="font-semibold text-sm flex-grow">{product.name}</p>
+                                <PackageUnitInput totalUnits={row.quantity} itemsPerPackage={product.itemsPerPackage || 1} onChange={total => updateRow(row.productId, { quantity: total })} />
+                                <input type="text" inputMode="decimal" value={row.unitPrice} onChange={e => updateRow(row.productId, { unitPrice: numericInput(e.target.value) })} placeholder="مبلغ برگشتی واحد" title="مبلغ برگشتی هر واحد" className="w-28 p-2 border border-slate-200 rounded-xl font-mono text-left" />
+                                {costBasis === 'manual' && (
+                                    <input type="text" inputMode="decimal" value={row.unitCost} onChange={e => updateRow(row.productId, { unitCost: numericInput(e.target.value) })} placeholder="بهای تمام شده" title="بهای تمام شده هر واحد" className="w-28 p-2 border border-amber-200 bg-amber-50 rounded-xl font-mono text-left" />
+                                )}
+                                <button type="button" onClick={() => setRows(prev => prev.filter(r => r.productId !== row.productId))} className="p-1.5 rounded-full text-gray-500 hover:text-red-600 hover:bg-red-100"><TrashIcon className="w-5 h-5" /></button>
+                            </div>
+                        );
+                    })}
+                    {rows.length === 0 && <p className="text-center text-slate-400 font-bold py-6">کالای مرجوعی را جستجو یا اسکن کنید.</p>}
+
+                    <select value={customerId} onChange={e => { setCustomerId(e.target.value); if (!e.target.value && refund.destination === 'credit') setRefund(prev => ({ ...prev, destination: 'cash' })); }} className="w-full p-3 border border-slate-200 rounded-xl bg-white font-bold">
+                        <option value="">مشتری گذری</option>
+                        {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                    <RefundDestinationPicker value={refund} onChange={setRefund} customerName={customers.find(c => c.id === customerId)?.name} />
+                </div>
+
+                <div className="px-5 py-3 border-t bg-slate-50 flex justify-between text-sm font-bold text-slate-700">
+                    <span>مبلغ مرجوعی (با مالیات):</span>
+                    <span>{formatCurrency(total, storeSettings)}</span>
+                </div>
+
+                <div className="p-5 border-t flex gap-3">
+                    <button type="button" onClick={onClose} className="flex-1 py-3.5 rounded-xl bg-slate-100 text-slate-600 font-black hover:bg-slate-200 transition-all active:scale-95">لغو</button>
+                    <button type="button" onClick={handleConfirm} disabled={isProcessing || rows.length === 0} className="flex-1 py-3.5 rounded-xl text-white font-black shadow-lg transition-all active:scale-95 bg-orange-600 hover:bg-orange-700 shadow-orange-100 disabled:opacity-50">
+                        {isProcessing ? 'در حال ثبت...' : 'ثبت مرجوعی'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UnreferencedReturnModal;
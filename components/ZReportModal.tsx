@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import type { Shift, CurrencyAmounts } from '../types';
+import { useAppContext } from '../AppContext';
+import { XIcon, PrintIcon } from './icons';
+import { formatCurrency } from '../utils/formatters';
+import { CURRENCIES, shiftVariance, type ShiftSummary } from '../utils/shifts';
+
+interface ZReportModalProps {
+    shift: Shift;
+    onClose: () => void;
+}
+
+const ZReportModal: React.FC<ZReportModalProps> = ({ shift, onClose }) => {
+    const { storeSettings, getShiftSummary } = useAppContext();
+    const [summary, setSummary] = useState<ShiftSummary | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        getShiftSummary(shift).then(setSummary).catch(() => setError('خطا در محاسبه گزارش شیفت.'));
+    }, [shift.id]);
+
+    const variance = shiftVariance(shift);
+    // A currency that never moved during the shift would only add a row of zeros
+    const currencies = CURRENCIES.filter(c => !summary || c === storeSettings.baseCurrency || [shift.openingFloat, summary.expected, shift.countedCash].some(a => a && a[c] !== 0));
+    const fmt = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+    const dateTime = (iso: string) => `${new Date(iso).toLocaleDateString('fa-IR')} ${new Date(iso).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}`;
+
+    const cashRows: { label: string; amounts?: CurrencyAmounts; sign?: string; strong?: boolean }[] = summary ? [
+        { label: 'موجودی اولیه', amounts: shift.openingFloat },
+        { label: 'فروش نقدی', amounts: summary.cashSales, sign: '+' },
+        { label: 'دریافت از مشتریان', amounts: summary.collections, sign: '+' },
+        { label: 'مرجوعی نقدی', amounts: summary.cashRefunds, sign: '−' },
+        { label: 'مصارف نقدی', amounts: summary.cashExpenses, sign: '−' },
+        { label: 'مورد انتظار', amounts: shift.expectedCash || summary.expected, strong: true },
+        { label: 'شمارش‌شده', amounts: shift.countedCash, strong: true },
+    ] : [];
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[200] p-4">
+            <div className="bg-white p-6 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+                <div className="flex justify-between items-center mb-4 no-print">
+                    <h2 className="text-lg font-bold text-slate-500">گزارش Z شیفت</h2>
+                    <button onClick={onClose} className="p-2 rounded-full bg-gray-100 hover:bg-red-100 hover:text-red-600 transition-colors"><XIcon className="w-5 h-5" /></button>
+                </div>
+
+                <div className="printable-area flex-grow overflow-y-auto bg-white p-2 text-gray-900">
+                    <div className="text-center mb-4 border-b pb-3">
+                        <h1 className="text-xl font-extrabold text-blue-800">{storeSettings.storeName}</h1>
+                        <p className="text-sm font-bold text-slate-700 bg-slate-100 inline-block px-4 py-1 rounded-full border mt-2">گزارش بستن شیفت (Z)</p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm mb-4 bg-slate-50 p-3 rounded-lg border">
+                        <p><span className="text-slate-500">دستگاه:</span> <span className="font-bold">{shift.deviceName}</span></p>
+                        <p><span className="text-slate-500">شماره:</span> <span className="font-mono text-xs">{shift.id.slice(0, 8)}</span></p>
+                        <p><span className="text-slate-500">باز شده:</span> <span className="font-bold">{dateTime(shift.openedAt)}</span> ({shift.openedBy})</p>
+                        <p><span className="text-slate-500">بسته شده:</span> <span className="font-bold">{shift.closedAt ? dateTime(shift.closedAt) : 'هنوز باز است'}</span>{shift.closedBy && ` (${shift.closedBy})`}</p>
+                    </div>
+
+                    {error && <p className="text-center text-red-600 font-bold py-6">{error}</p>}
+                    {!summary && !error && <p className="text-center text-slate-400 py-6">در حال محاسبه...</p>}
+                    {summary && (
+                        <>
+                            <table className="min-w-full text-sm border-collapse mb-4">
+                                <thead>
+                                    <tr className="bg-slate-100">
+                                        <th className="p-2 text-right border border-slate-300">صندوق نقدی</th>
+                                        {currencies.map(c => <th key={c} className="p-2 text-center border border-slate-300">{storeSettings.currencyConfigs[c]?.name || c}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {cashRows.map(row => (
+                                        <tr key={row.label} className={row.strong ? 'font-black bg-slate-50' : ''}>
+                                            <td className="p-2 border border-slate-300">{row.sign && <span className="text-slate-400 ml-1">{row.sign}</span>}{row.label}</td>
+                                            {currencies.map(c => <td key={c} className="p-2 text-center font-mono border border-slate-300">{row.amounts ? fmt(row.amounts[c]) : '—'}</td>)}
+                                        </tr>
+                                    ))}
+                                    <tr className="font-black">
+                                        <td className="p-2 border border-slate-300">اضافه / کسری</td>
+                                        {currencies.map(c => (
+                                            <td key={c} className={`p-2 text-center font-mono border border-slate-300 ${!variance ? '' : variance[c] < -0.01 ? 'text-red-600' : variance[c] > 0.01 ? 'text-emerald-600' : ''}`}>
+                                                {variance ? fmt(variance[c]) : '—'}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                </tbody>
+                            </table>
+
+                            <div className="grid grid-cols-2 gap-2 text-sm">
+                                <p className="p-2 bg-slate-50 rounded border">تعداد فاکتور فروش: <span className="font-bold">{summary.salesCount}</span></p>
+                                <p className="p-2 bg-slate-50 rounded border">تعداد مرجوعی: <span className="font-bold">{summary.returnsCount}</span></p>
+                                <p className="p-2 bg-slate-50 rounded border">فروش کل: <span className="font-bold">{formatCurrency(summary.grossSales, storeSettings)}</span></p>
+                                <p className="p-2 bg-slate-50 rounded border">مرجوعی کل: <span className="font-bold">{formatCurrency(summary.returns, storeSettings)}</span></p>
+                                <p className="p-2 bg-slate-50 rounded border">فروش نسیه: <span className="font-bold">{formatCurrency(summary.creditSales, storeSettings)}</span></p>
+                                <p className="p-2 bg-slate-50 rounded border">فروش واسطه: <span className="font-bold">{formatCurrency(summary.intermediarySales, storeSettings)}</span></p>
+                            </div>
+                            {shift.notes && <p className="mt-3 text-sm p-2 bg-amber-50 border border-amber-100 rounded">توضیحات: {shift.notes}</p>}
+                        </>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-3 mt-6 pt-4 border-t no-print">
+                    <button onClick={onClose} className="px-6 py-3 rounded-lg bg-gray-200 hover:bg-gray-300 transition-colors font-semibold">بستن</button>
+                    <button onClick={() => window.print()} disabled={!summary} className="flex items-center gap-2 px-6 py-3 rounded-lg bg-blue-600 text-white hover:bg-blue-700 shadow-lg btn-primary font-semibold disabled:opacity-50">
+                        <PrintIcon />
+                        چاپ گزارش
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ZReportModal;
@@ -24,7 +24,7 @@ const Modal: React.FC<{ title: string, onClose: () => void, children: React.Reac
 );
 
 const SuppliersTab = () => {
-    const { suppliers, addSupplier, deleteSupplier, addSupplierPayment, supplierTransactions, storeSettings, inTransitInvoices } = useAppContext();
+    const { suppliers, addSupplier, deleteSupplier, addSupplierPayment, getPartyTransactions, storeSettings, inTransitInvoices } = useAppContext();
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
     const [isPayModalOpen, setIsPayModalOpen] = useState(false);
     const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
@@ -92,7 +92,7 @@ const SuppliersTab = () => {
         }
     };
     
-    const handleViewHistory = (supplier: Supplier) => { const transactions = supplierTransactions.filter(t => t.supplierId === supplier.id); setHistoryModalData({ person: supplier, transactions }); };
+    const handleViewHistory = async (supplier: Supplier) => { const transactions = await getPartyTransactions('supplier', supplier.id); setHistoryModalData({ person: supplier, transactions }); };
 
     const convertedInitialBalance = useMemo(() => { 
         if (!addSupplierAmount || !addSupplierRate || Number(addSupplierRate) <= 0) return 0; 
@@ -236,14 +236,14 @@ const SuppliersTab = () => {
                     </form>
                 </Modal>
             )}
-            {historyModalData && <TransactionHistoryModal person={historyModalData.person} transactions={historyModalData.transactions} type="supplier" onClose={() => setHistoryModalData(null)} onReprint={(tid) => { const tx = supplierTransactions.find(t=>t.id===tid); if(tx) { setHistoryModalData(null); setReceiptModalData({person: historyModalData.person, transaction: tx}); } }} />}
+            {historyModalData && <TransactionHistoryModal person={historyModalData.person} transactions={historyModalData.transactions} type="supplier" onClose={() => setHistoryModalData(null)} onReprint={(tid) => { const tx = historyModalData.transactions.find(t=>t.id===tid); if(tx) { setHistoryModalData(null); setReceiptModalData({person: historyModalData.person, transaction: tx}); } }} />}
             {receiptModalData && <ReceiptPreviewModal person={receiptModalData.person} transaction={receiptModalData.transaction} type="supplier" onClose={() => setReceiptModalData(null)} />}
         </div>
     );
 };
 
 const PayrollTab = () => {
-    const { employees, addEmployee, addEmployeeAdvance, payrollTransactions, processAndPaySalaries, storeSettings } = useAppContext();
+    const { employees, addEmployee, addEmployeeAdvance, getPartyTransactions, processAndPaySalaries, storeSettings } = useAppContext();
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [toast, setToast] = useState('');
     const [historyModalData, setHistoryModalData] = useState<{ person: Employee, transactions: PayrollTransaction[] } | null>(null);
@@ -303,8 +303,8 @@ const PayrollTab = () => {
         }
     };
     
-    const handleViewHistory = (employee: Employee) => {
-        const transactions = payrollTransactions.filter(t => t.employeeId === employee.id);
+    const handleViewHistory = async (employee: Employee) => {
+        const transactions = await getPartyTransactions('employee', employee.id);
         setHistoryModalData({ person: employee, transactions });
     };
 
@@ -434,7 +434,7 @@ const PayrollTab = () => {
 };
 
 const CustomersTab = () => {
-    const { customers, depositHolders, addCustomer, deleteCustomer, addCustomerPayment, customerTransactions, storeSettings } = useAppContext();
+    const { customers, depositHolders, addCustomer, deleteCustomer, addCustomerPayment, getPartyTransactions, storeSettings } = useAppContext();
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
     const [isPayModalOpen, setIsPayModalOpen] = useState(false);
     const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
@@ -551,13 +551,13 @@ const CustomersTab = () => {
         }
     };
 
-    const handleViewHistory = (customer: Customer) => {
-        const transactions = customerTransactions.filter(t => t.customerId === customer.id);
+    const handleViewHistory = async (customer: Customer) => {
+        const transactions = await getPartyTransactions('customer', customer.id);
         setHistoryModalData({ person: customer, transactions });
     };
 
     const handleReprint = (transactionId: string) => {
-        const transaction = customerTransactions.find(t => t.id === transactionId);
+        const transaction = historyModalData?.transactions.find(t => t.id === transactionId);
         const customer = customers.find(c => c.id === transaction?.customerId);
         if (transaction && customer) {
             setHistoryModalData(null);
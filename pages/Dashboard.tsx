@@ -1,8 +1,9 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { Product, ActivityLog, InvoiceItem, StoreSettings } from '../types';
+import type { Product, ActivityLog, InvoiceItem, StoreSettings, SaleInvoice, TenderKind } from '../types';
 import { useAppContext } from '../AppContext';
 import { POSIcon, InventoryIcon, PurchaseIcon, WarningIcon, BellIcon, UserGroupIcon, EyeIcon, XIcon, ChevronDownIcon, CheckIcon } from '../components/icons';
 import { formatCurrency, formatStockToPackagesAndUnits } from '../utils/formatters';
+import { saleSettlements } from '../utils/ledger';
 import DateRangeFilter from '../components/DateRangeFilter';
 import ActivityDetailModal from '../components/ActivityDetailModal';
 
@@ -125,7 +126,7 @@ const AlertCard: React.FC<{ title: string, items: { id: string, name: string, st
 );
 
 const Dashboard: React.FC = () => {
-    const { saleInvoices, purchaseInvoices, activities, products, storeSettings, currentUser, customers } = useAppContext();
+    const { saleInvoices, purchaseInvoices, activities, products, storeSettings, currentUser, customers, hasOlderActivities, loadOlderActivities } = useAppContext();
     const [dateRange, setDateRange] = useState<{ start: Date, end: Date }>({ start: new Date(), end: new Date() });
     const [isAlertsOpen, setIsAlertsOpen] = useState(false);
     const [isMobileAlertsOpen, setIsMobileAlertsOpen] = useState(false);
@@ -153,19 +154,22 @@ const Dashboard: React.FC = () => {
 
         const todayInvoices = saleInvoices.filter(inv => {
             const invTime = new Date(inv.timestamp).getTime();
-            return invTime >= startOfDay && invTime <= endOfDay;
+            return !inv.voided && invTime >= startOfDay && invTime <= endOfDay;
         });
 
         const sales = todayInvoices.filter(inv => inv.type === 'sale').reduce((sum, inv) => sum + (inv.totalAmountAFN || inv.totalAmount), 0);
         const returns = todayInvoices.filter(inv => inv.type === 'return').reduce((sum, inv) => sum + (inv.totalAmountAFN || inv.totalAmount), 0);
 
-        const creditInvoices = todayInvoices.filter(inv => inv.customerId && inv.type === 'sale');
-        const creditSales = creditInvoices.reduce((sum, inv) => sum + (inv.totalAmountAFN || inv.totalAmount), 0);
-        const creditReturns = todayInvoices.filter(inv => inv.customerId && inv.type === 'return').reduce((sum, inv) => sum + (inv.totalAmountAFN || inv.totalAmount), 0);
+        // Split-tender invoices count each part where it was settled
+        const settledBase = (type: SaleInvoice['type'], kind: TenderKind) => todayInvoices.filter(inv => inv.type === type)
+            .reduce((sum, inv) => sum + saleSettlements(inv).filter(st => st.kind === kind).reduce((s, st) => s + st.base, 0), 0);
 
-        const supplierIntermediaryInvoices = todayInvoices.filter(inv => inv.supplierIntermediaryId && inv.type === 'sale');
-        const supplierIntermediarySales = supplierIntermediaryInvoices.reduce((sum, inv) => sum + (inv.totalAmountAFN || inv.totalAmount), 0);
-        const supplierIntermediaryReturns = todayInvoices.filter(inv => inv.supplierIntermediaryId && inv.type === 'return').reduce((sum, inv) => sum + (inv.totalAmountAFN || inv.totalAmount), 0);
+        const creditInvoices = todayInvoices.filter(inv => inv.type === 'sale' && saleSettlements(inv).some(st => st.kind === 'credit'));
+        const creditSales = settledBase('sale', 'credit');
+        const creditReturns = settledBase('return', 'credit');
+
+        const supplierIntermediarySales = settledBase('sale', 'intermediary');
+        const supplierIntermediaryReturns = settledBase('return', 'intermediary');
 
         const netSales = sales - returns;
         const netCreditSales = creditSales - creditReturns;
@@ -456,6 +460,9 @@ const Dashboard: React.FC = () => {
                   </div>
               )}
           </div>
+          {hasOlderActivities && (
+              <button onClick={loadOlderActivities} className="w-full mt-4 py-3 rounded-2xl border border-slate-200 bg-white text-slate-600 font-bold text-sm hover:bg-slate-50 transition-all">نمایش فعالیت‌های قدیمی‌تر</button>
+          )}
       </div>
     </div>
   );
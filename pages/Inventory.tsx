@@ -37,9 +37,10 @@ const Inventory: React.FC = () => {
         setIsProductModalOpen(true);
     };
 
-    const handleDeleteProduct = (productId: string) => {
+    const handleDeleteProduct = async (productId: string) => {
         if (window.confirm('آیا از حذف این محصول اطمینان دارید؟')) {
-            deleteProduct(productId);
+            const result = await deleteProduct(productId);
+            if (!result.success) showToast(result.message);
         }
     };
 
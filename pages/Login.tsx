@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useAppContext } from '../AppContext';
 import { KeyIcon, UserGroupIcon, WarningIcon, CheckIcon } from '../components/icons';
+import { toEnglishDigits } from '../utils/formatters';
 
 const Login: React.FC = () => {
-    const { login, signup, isShopActive } = useAppContext();
-    const [loginType, setLoginType] = useState<'admin' | 'staff'>('admin');
+    const { login, signup, switchUserWithPin, isShopActive, users } = useAppContext();
+    // An open shop is usually a cashier handover, so staff sign-in comes first
+    const [loginType, setLoginType] = useState<'admin' | 'staff'>(() => isShopActive ? 'staff' : 'admin');
     const [isLoginMode, setIsLoginMode] = useState(true);
     const [identifier, setIdentifier] = useState('');
     const [password, setPassword] = useState('');
@@ -12,7 +14,14 @@ const Login: React.FC = () => {
     const [message, setMessage] = useState('');
     const [isPending, setIsPending] = useState(false);
     const [isLocked, setIsLocked] = useState(false);
+    const [isDevicePending, setIsDevicePending] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [usePassword, setUsePassword] = useState(false);
+    const [pinUserId, setPinUserId] = useState<string | null>(null);
+    const [pin, setPin] = useState('');
+
+    const pinUsers = users.filter(u => u.pinHash);
+    const showPinSwitch = loginType === 'staff' && isShopActive && pinUsers.length > 0 && !usePassword;
 
     // If shop becomes active while in staff tab, clear errors
     useEffect(() => {
@@ -46,6 +55,7 @@ const Login: React.FC = () => {
                 const result = await login(identifier, password, loginType);
                 if (!result.success) {
                     if (result.pending) setIsPending(true);
+                    else if (result.devicePending) setIsDevicePending(true);
                     else if (result.locked) setIsLocked(true);
                     setError(result.message);
                 }
@@ -64,6 +74,20 @@ const Login: React.FC = () => {
         }
     };
 
+    const handlePinSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (isSubmitting || !pinUserId) return;
+        setError('');
+        setIsSubmitting(true);
+        try {
+            const result = await switchUserWithPin(pinUserId, pin);
+            if (!result.success) setError(result.message);
+        } finally {
+            setPin('');
+            setIsSubmitting(false);
+        }
+    };
+
     if (isPending) {
         return (
             <div className="flex items-center justify-center h-screen bg-slate-50 p-4 text-center">
@@ -79,6 +103,21 @@ const Login: React.FC = () => {
         );
     }
 
+    if (isDevicePending) {
+        return (
+            <div className="flex items-center justify-center h-screen bg-slate-50 p-4 text-center">
+                <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-2xl shadow-2xl border border-gray-200">
+                    <div className="text-amber-600 bg-amber-50 p-4 rounded-full w-20 h-20 flex items-center justify-center mx-auto mb-4">
+                        <KeyIcon className="w-12 h-12" />
+                    </div>
+                    <h2 className="text-2xl font-bold text-slate-800">دستگاه در انتظار تایید</h2>
+                    <p className="text-slate-600 leading-relaxed font-medium">این دستگاه برای فروشگاه ثبت شد. مالک فروشگاه باید از یک دستگاه تاییدشده در «تنظیمات ← دستگاه‌ها» آن را تایید کند.</p>
+                    <button onClick={() => setIsDevicePending(false)} className="text-blue-600 font-bold hover:underline mt-4">بازگشت به صفحه ورود</button>
+                </div>
+            </div>
+        );
+    }
+
     if (isLocked) {
         return (
             <div className="flex items-center justify-center h-screen bg-slate-50 p-4 text-center">
@@ -86,8 +125,8 @@ const Login: React.FC = () => {
                     <div className="text-red-600 bg-red-50 p-4 rounded-full w-20 h-20 flex items-center justify-center mx-auto mb-4">
                         <WarningIcon className="w-12 h-12" />
                     </div>
-                    <h2 className="text-2xl font-bold text-slate-800">حساب در دستگاه دیگری فعال است</h2>
-                    <p className="text-slate-600 leading-relaxed">شما نمی‌توانید به طور همزمان در دو دستگاه وارد شوید. لطفاً ابتدا در دستگاه دیگر دکمه «خروج کامل» را بزنید.</p>
+                    <h2 className="text-2xl font-bold text-slate-800">دسترسی این دستگاه لغو شده است</h2>
+                    <p className="text-slate-600 leading-relaxed">مالک فروشگاه این دستگاه را مسدود کرده است. برای استفاده دوباره باید دسترسی آن را در «تنظیمات ← دستگاه‌ها» بازگرداند.</p>
                     <button onClick={() => setIsLocked(false)} className="text-blue-600 font-bold hover:underline mt-4">متوجه شدم</button>
                 </div>
             </div>
@@ -144,6 +183,52 @@ const Login: React.FC = () => {
                                 بازگشت به ورود مدیریت
                             </button>
                         </div>
+                    ) : showPinSwitch ? (
+                        <form className="space-y-5" onSubmit={handlePinSubmit}>
+                            <label className="block text-sm font-bold text-slate-700 mr-1">تعویض سریع کاربر</label>
+                            <div className="grid grid-cols-2 gap-2">
+                                {pinUsers.map(u => (
+                                    <button
+                                        key={u.id}
+                                        type="button"
+                                        onClick={() => { setPinUserId(u.id); setPin(''); setError(''); }}
+                                        className={`py-3 px-2 rounded-2xl font-bold text-sm transition-all ${pinUserId === u.id ? 'bg-blue-600 text-white shadow-lg shadow-blue-200' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                                    >
+                                        {u.username}
+                                    </button>
+                                ))}
+                            </div>
+                            {pinUserId && (
+                                <input
+                                    type="password"
+                                    inputMode="numeric"
+                                    autoFocus
+                                    required
+                                    value={pin}
+                                    onChange={(e) => setPin(toEnglishDigits(e.target.value).replace(/[^0-9]/g, '').slice(0, 6))}
+                                    className="w-full px-4 py-3.5 bg-slate-100 border-transparent rounded-2xl focus:bg-white focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all outline-none text-slate-800 font-black text-center text-2xl tracking-[0.5em]"
+                                    placeholder="••••"
+                                    disabled={isSubmitting}
+                                />
+                            )}
+
+                            {error && (
+                                <div className="bg-red-50 border-r-4 border-red-500 p-4 rounded-xl">
+                                    <p className="text-xs text-red-700 font-bold leading-relaxed">{error}</p>
+                                </div>
+                            )}
+
+                            <button
+                                type="submit"
+                                disabled={isSubmitting || !pinUserId || pin.length < 4}
+                                className="w-full py-4 px-6 rounded-2xl text-white font-black text-lg shadow-xl shadow-blue-200 transition-all active:scale-95 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300"
+                            >
+                                {isSubmitting ? 'درحال بررسی...' : 'ورود'}
+                            </button>
+                            <button type="button" onClick={() => { setUsePassword(true); setError(''); }} className="w-full text-blue-600 text-sm font-bold hover:underline">
+                                ورود با نام کاربری و رمز عبور
+                            </button>
+                        </form>
                     ) : (
                         <form className="space-y-5" onSubmit={handleSubmit}>
                             <div className="space-y-4">
@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import type { InvoiceItem, Product, SaleInvoice, SpeechRecognition, SpeechRecognitionEvent, SpeechRecognitionErrorEvent, Customer, Supplier, SalesMemoImage, Service, CartItem } from '../types';
+import type { InvoiceItem, Product, SaleInvoice, SpeechRecognition, SpeechRecognitionEvent, SpeechRecognitionErrorEvent, Customer, Supplier, SalesMemoImage, Service, CartItem, SaleApproval, ParkedCart, SalePaymentRequest, Shift, CurrencyAmounts, AppliedPromotion, Quotation, SalesOrder, ReturnRefundRequest, ReturnCostBasis, UnreferencedReturnLine } from '../types';
 import { useAppContext } from '../AppContext';
-import { MicIcon, EditIcon, PrintIcon, TrashIcon, CameraIcon, GalleryIcon, XIcon, CheckIcon, BarcodeIcon, PlusIcon, UserGroupIcon, ChevronDownIcon, WarningIcon } from '../components/icons';
+import { MicIcon, EditIcon, PrintIcon, TrashIcon, CameraIcon, GalleryIcon, XIcon, CheckIcon, BarcodeIcon, PlusIcon, UserGroupIcon, ChevronDownIcon, WarningIcon, PauseIcon, SafeIcon, DocumentIcon, TruckIcon } from '../components/icons';
 import Toast from '../components/Toast';
 import PrintPreviewModal from '../components/PrintPreviewModal';
 import FloatingGallery from '../components/FloatingGallery';
@@ -10,6 +10,15 @@ import { formatCurrency, toEnglishDigits, formatBalance, parseToPackageAndUnits
 import DateRangeFilter from '../components/DateRangeFilter';
 import POSCartItem from '../components/POSCartItem';
 import PackageUnitInput from '../components/PackageUnitInput';
+import SupervisorApprovalModal from '../components/SupervisorApprovalModal';
+import SplitPaymentModal from '../components/SplitPaymentModal';
+import { cartTotals } from '../utils/tax';
+import { isWithinValidity, localDay } from '../utils/pricing';
+import ShiftModal from '../components/ShiftModal';
+import ZReportModal from '../components/ZReportModal';
+import SalesOrderDeliveryModal from '../components/SalesOrderDeliveryModal';
+import UnreferencedReturnModal from '../components/UnreferencedReturnModal';
+import RefundDestinationPicker, { toRefundRequest, type RefundChoice } from '../components/RefundDestinationPicker';
 
 
 // Extracted ProductSide Component
@@ -59,10 +68,7 @@ const ProductSide: React.FC<{
     const baseCurrency = storeSettings.baseCurrency || 'AFN';
     const baseCurrencyName = storeSettings.currencyConfigs?.[baseCurrency]?.name || 'AFN';
 
-    const cartTotalBase = cart.reduce((total, item) => {
-        const price = (item.type === 'product' && item.finalPrice !== undefined) ? item.finalPrice : (item.type === 'product' ? item.salePrice : item.price);
-        return total + (price * item.quantity);
-    }, 0);
+    const cartTotalBase = cartTotals(cart, storeSettings.pricesIncludeTax).total;
 
     const rateNum = Number(exchangeRate) || 1;
     const config = storeSettings.currencyConfigs[currency];
@@ -213,9 +219,15 @@ const CartSide: React.FC<any> = ({
     setEditingPriceItemId, updateCartItemFinalPrice, hasPermission, selectedCustomerId,
     setSelectedCustomerId, customers, selectedSupplierId, setSelectedSupplierId, suppliers,
     isSupplierMenuOpen, setIsSupplierMenuOpen, totalAmount, completeSale, setInvoiceDateRange,
-    handlePrintInvoice, handleEditInvoice, storeSettings, setMobileView, addToCart, handleOpenReturnModal,
-    isProcessing, currency, setCurrency, exchangeRate, setExchangeRate, saleInvoices
+    handlePrintInvoice, handleEditInvoice, storeSettings, setMobileView, addToCart, handleOpenReturnModal, openUnreferencedReturn,
+    isProcessing, currency, setCurrency, exchangeRate, setExchangeRate, saleInvoices,
+    parkedCarts, handleParkCart, handleResumeParkedCart, handleDiscardParkedCart, openSplitPayment,
+    currentShift, setShiftModalMode, cartPromotions, cartTax,
+    quotations, cartQuotationId, handleCreateQuotation, handleLoadQuotation, handleDeleteQuotation, handlePrintQuotation, detachCartQuotation,
+    salesOrders, handleCreateSalesOrder, handleSalesOrderPrepayment, setDeliveringOrder, handleCloseSalesOrder, handleVoidInvoice,
+    cartExchange, cancelExchange
 }) => {
+    const openOrders = salesOrders.filter((o: SalesOrder) => o.status === 'open').length;
     
     const rateNum = Number(exchangeRate) || 1;
     const baseCurrency = storeSettings.baseCurrency || 'AFN';
@@ -244,7 +256,27 @@ const CartSide: React.FC<any> = ({
                     خدمات
                     {activeTab === 'services' && <div className="absolute bottom-0 left-0 w-full h-1 bg-blue-600 rounded-t-full"></div>}
                 </button>
+                 <button onClick={() => setActiveTab('parked')} className={`py-2 px-3 md:px-6 font-bold text-sm md:text-lg whitespace-nowrap transition-colors relative flex items-center gap-1.5 ${activeTab === 'parked' ? 'text-blue-600' : 'text-slate-500 hover:text-blue-600'}`}>
+                    پارک‌شده
+                    {parkedCarts.length > 0 && <span className="bg-amber-500 text-white text-[10px] font-bold rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center">{parkedCarts.length}</span>}
+                    {activeTab === 'parked' && <div className="absolute bottom-0 left-0 w-full h-1 bg-blue-600 rounded-t-full"></div>}
+                </button>
+                 <button onClick={() => setActiveTab('quotations')} className={`py-2 px-3 md:px-6 font-bold text-sm md:text-lg whitespace-nowrap transition-colors relative ${activeTab === 'quotations' ? 'text-blue-600' : 'text-slate-500 hover:text-blue-600'}`}>
+                    پیش‌فاکتور
+                    {activeTab === 'quotations' && <div className="absolute bottom-0 left-0 w-full h-1 bg-blue-600 rounded-t-full"></div>}
+                </button>
+                 <button onClick={() => setActiveTab('orders')} className={`py-2 px-3 md:px-6 font-bold text-sm md:text-lg whitespace-nowrap transition-colors relative flex items-center gap-1.5 ${activeTab === 'orders' ? 'text-blue-600' : 'text-slate-500 hover:text-blue-600'}`}>
+                    سفارش‌ها
+                    {openOrders > 0 && <span className="bg-blue-500 text-white text-[10px] font-bold rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center">{openOrders}</span>}
+                    {activeTab === 'orders' && <div className="absolute bottom-0 left-0 w-full h-1 bg-blue-600 rounded-t-full"></div>}
+                </button>
             </div>
+            {hasPermission('pos:manage_shift') && (
+                <button onClick={() => setShiftModalMode(currentShift ? 'close' : 'open')} className={`flex-shrink-0 ml-1 px-2.5 py-1.5 rounded-full text-xs font-bold whitespace-nowrap flex items-center gap-1.5 transition-colors ${currentShift ? 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`} title={currentShift ? 'بستن شیفت' : 'باز کردن شیفت'}>
+                    <span className={`h-2 w-2 rounded-full ${currentShift ? 'bg-emerald-500' : 'bg-gray-400'}`}></span>
+                    {currentShift ? 'شیفت باز' : 'شیفت بسته'}
+                </button>
+            )}
              <button onClick={() => setIsGalleryOpen(true)} className="flex-shrink-0 ml-1 p-2 rounded-full text-gray-500 hover:text-blue-600 hover:bg-gray-100 transition-colors" title="گالری">
                 <GalleryIcon className="w-6 h-6" />
                 {memoImages.length > 0 && (
@@ -305,6 +337,24 @@ const CartSide: React.FC<any> = ({
                    </button>
                 </div>
             )}
+            {cartQuotationId && (
+                <div className="p-2 mb-2 text-xs md:text-sm bg-violet-100/80 border-r-4 border-violet-500 text-violet-900 rounded-l-md flex justify-between items-center">
+                   <p className="font-bold">تبدیل پیش‌فاکتور: <span className="font-mono">{cartQuotationId}</span></p>
+                   <button onClick={detachCartQuotation} className="flex items-center font-semibold text-violet-800 hover:text-red-700" title="فروش بدون ثبت تبدیل پیش‌فاکتور">
+                        <XIcon className="w-4 h-4 ml-1" />
+                        جدا کردن
+                   </button>
+                </div>
+            )}
+            {cartExchange && (
+                <div className="p-2 mb-2 text-xs md:text-sm bg-teal-100/80 border-r-4 border-teal-500 text-teal-900 rounded-l-md flex justify-between items-center">
+                   <p className="font-bold">تعویض با فاکتور <span className="font-mono">{cartExchange.originalInvoiceId}</span> · {cartExchange.items.length} قلم مرجوعی</p>
+                   <button onClick={cancelExchange} className="flex items-center font-semibold text-teal-800 hover:text-red-700">
+                        <XIcon className="w-4 h-4 ml-1" />
+                        لغو تعویض
+                   </button>
+                </div>
+            )}
             
             {/* Cart Items List */}
             <div className="flex-grow overflow-y-auto -mx-4 px-4 pb-40 md:pb-4">
@@ -385,6 +435,35 @@ const CartSide: React.FC<any> = ({
                         ))}
                     </select>
                 </div>
+
+                {cartPromotions.length > 0 && (
+                    <div className="space-y-1 bg-emerald-50 border border-emerald-100 rounded-lg p-2">
+                        {cartPromotions.map((promo: AppliedPromotion) => (
+                            <div key={promo.promotionId} className="flex justify-between text-sm font-bold text-emerald-700">
+                                <span>{promo.name}</span>
+                                <span dir="ltr">-{formatCurrency(promo.discount, storeSettings)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {cartTax > 0 && (
+                    <div className="flex justify-between text-sm font-bold text-amber-700 px-2">
+                        <span>{storeSettings.pricesIncludeTax ? 'مالیات (شامل قیمت)' : 'مالیات'}</span>
+                        <span dir="ltr">{storeSettings.pricesIncludeTax ? '' : '+'}{formatCurrency(cartTax, storeSettings)}</span>
+                    </div>
+                )}
+                {cartExchange && (
+                    <div className="space-y-1 bg-teal-50 border border-teal-100 rounded-lg p-2 text-sm font-bold">
+                        <div className="flex justify-between text-teal-700">
+                            <span>ارزش کالای مرجوعی</span>
+                            <span dir="ltr">-{formatCurrency(cartExchange.creditBase, storeSettings, undefined, currency, rateNum)}</span>
+                        </div>
+                        <div className="flex justify-between text-slate-800">
+                            <span>{totalAmount >= cartExchange.creditBase ? 'مابه‌التفاوت قابل پرداخت' : 'مابه‌التفاوت قابل استرداد'}</span>
+                            <span dir="ltr">{formatCurrency(Math.abs(totalAmount - cartExchange.creditBase), storeSettings, undefined, currency, rateNum)}</span>
+                        </div>
+                    </div>
+                )}
                 
                 <div className="flex items-center justify-between gap-3">
                      <div className="flex items-center gap-2">
@@ -400,8 +479,40 @@ const CartSide: React.FC<any> = ({
                             )}
                         </div>
                     </div>
+                    <button
+                        onClick={handleParkCart}
+                        className="flex-shrink-0 p-4 bg-amber-50 text-amber-700 border border-amber-200 rounded-xl hover:bg-amber-100 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                        disabled={cart.length === 0 || !!editingSaleInvoiceId || !hasPermission('pos:create_invoice') || isProcessing}
+                        title="پارک سبد"
+                    >
+                        <PauseIcon className="w-6 h-6" />
+                    </button>
+                    <button
+                        onClick={handleCreateQuotation}
+                        className="flex-shrink-0 p-4 bg-violet-50 text-violet-700 border border-violet-200 rounded-xl hover:bg-violet-100 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                        disabled={cart.length === 0 || !!editingSaleInvoiceId || !hasPermission('pos:manage_quotations') || isProcessing}
+                        title="صدور پیش‌فاکتور"
+                    >
+                        <DocumentIcon className="w-6 h-6" />
+                    </button>
+                    <button
+                        onClick={handleCreateSalesOrder}
+                        className="flex-shrink-0 p-4 bg-sky-50 text-sky-700 border border-sky-200 rounded-xl hover:bg-sky-100 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                        disabled={cart.length === 0 || !!editingSaleInvoiceId || !hasPermission('pos:manage_sales_orders') || isProcessing}
+                        title="ثبت سفارش فروش"
+                    >
+                        <TruckIcon className="w-6 h-6" />
+                    </button>
+                    <button
+                        onClick={openSplitPayment}
+                        className="flex-shrink-0 p-4 bg-blue-50 text-blue-700 border border-blue-200 rounded-xl hover:bg-blue-100 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                        disabled={cart.length === 0 || !hasPermission('pos:create_invoice') || isProcessing}
+                        title="پرداخت ترکیبی"
+                    >
+                        <SafeIcon className="w-6 h-6" />
+                    </button>
                     <button 
-                        onClick={completeSale} 
+                        onClick={() => completeSale()} 
                         className="w-full p-4 bg-blue-600 text-white font-bold text-lg rounded-xl shadow-lg hover:shadow-xl hover:bg-blue-700 transition-all duration-300 transform btn-primary disabled:bg-gray-400 disabled:shadow-none disabled:cursor-wait" 
                         disabled={cart.length === 0 || !hasPermission('pos:create_invoice') || isProcessing}
                     >
@@ -414,8 +525,11 @@ const CartSide: React.FC<any> = ({
 
         {activeTab === 'invoices' && (
             <div className="flex flex-col h-full pb-28 md:pb-4">
-                 <div className="mb-2 p-2 bg-slate-100/50 rounded-lg overflow-x-auto">
+                 <div className="mb-2 p-2 bg-slate-100/50 rounded-lg overflow-x-auto flex items-center gap-2">
                     <DateRangeFilter onFilterChange={(start: Date, end: Date) => setInvoiceDateRange({ start, end })} />
+                    {hasPermission('pos:return_without_invoice') && (
+                        <button onClick={openUnreferencedReturn} className="flex-shrink-0 px-3 py-2 rounded-lg bg-orange-100 text-orange-700 font-bold text-xs hover:bg-orange-200">مرجوعی بدون فاکتور</button>
+                    )}
                 </div>
                 <div className="flex-grow overflow-y-auto -mx-2 md:-mx-6 px-2 md:px-6">
                      {filteredInvoices.length === 0 ? (
@@ -429,17 +543,20 @@ const CartSide: React.FC<any> = ({
                                     <div className="flex items-center gap-2">
                                         <p className="font-mono font-bold text-slate-800 text-sm md:text-lg">{invoice.id.slice(0,8)}..</p>
                                         {invoice.type === 'return' && <span className="text-[10px] font-bold bg-orange-200 text-orange-800 px-1.5 py-0.5 rounded-full">مرجوعی</span>}
+                                        {invoice.voided && <span className="text-[10px] font-bold bg-red-100 text-red-700 px-1.5 py-0.5 rounded-full" title={`${invoice.voided.by}: ${invoice.voided.reason}`}>باطل</span>}
+                                        {invoice.exchangeInvoiceId && <span className="text-[10px] font-bold bg-teal-100 text-teal-700 px-1.5 py-0.5 rounded-full" title={invoice.exchangeInvoiceId}>تعویض</span>}
                                         {invoice.currency !== 'AFN' && <span className="text-[10px] font-black bg-blue-100 text-blue-600 px-1.5 py-0.5 rounded-full uppercase">{invoice.currency}</span>}
                                     </div>
-                                    <div className="text-sm md:text-md text-blue-600 font-bold">
+                                    <div className={`text-sm md:text-md font-bold ${invoice.voided ? 'text-slate-400 line-through' : 'text-blue-600'}`}>
                                         {invoice.totalAmount.toLocaleString()} {invoice.currency === 'USD' ? '$' : (invoice.currency === 'IRT' ? 'ت' : 'افغانی')}
                                     </div>
                                     <p className="text-xs text-slate-400">{new Date(invoice.timestamp).toLocaleTimeString('fa-IR', {hour: '2-digit', minute:'2-digit'})}</p>
                                 </div>
                                 <div className="flex items-center gap-1">
                                     <button onClick={() => handlePrintInvoice(invoice.id)} className="p-1.5 rounded-full text-gray-500 hover:text-green-600 bg-gray-50 hover:bg-green-100"><PrintIcon className="w-5 h-5"/></button>
-                                    {hasPermission('pos:edit_invoice') && invoice.type === 'sale' && <button onClick={() => handleEditInvoice(invoice.id)} className="p-1.5 rounded-full text-gray-500 hover:text-blue-600 bg-gray-50 hover:bg-blue-100"><EditIcon className="w-5 h-5"/></button>}
-                                    {invoice.type === 'sale' && <button onClick={() => handleOpenReturnModal(invoice)} className="p-1.5 rounded-full text-gray-500 hover:text-orange-600 bg-gray-50 hover:bg-orange-100"><PlusIcon className="w-5 h-5 transform rotate-45" /></button>}
+                                    {hasPermission('pos:edit_invoice') && invoice.type === 'sale' && !invoice.voided && <button onClick={() => handleEditInvoice(invoice.id)} className="p-1.5 rounded-full text-gray-500 hover:text-blue-600 bg-gray-50 hover:bg-blue-100"><EditIcon className="w-5 h-5"/></button>}
+                                    {invoice.type === 'sale' && !invoice.voided && <button onClick={() => handleOpenReturnModal(invoice)} className="p-1.5 rounded-full text-gray-500 hover:text-orange-600 bg-gray-50 hover:bg-orange-100"><PlusIcon className="w-5 h-5 transform rotate-45" /></button>}
+                                    {hasPermission('pos:void_invoice') && invoice.type === 'sale' && !invoice.voided && <button onClick={() => handleVoidInvoice(invoice.id)} disabled={isProcessing} className="p-1.5 rounded-full text-gray-500 hover:text-red-600 bg-gray-50 hover:bg-red-100 disabled:opacity-40" title="ابطال فاکتور"><TrashIcon className="w-5 h-5"/></button>}
                                 </div>
                             </div>
                         ))
@@ -447,6 +564,115 @@ const CartSide: React.FC<any> = ({
                 </div>
             </div>
         )}
+        {activeTab === 'parked' && (
+             <div className="flex-grow overflow-y-auto -mx-2 md:-mx-6 px-2 md:px-6 pb-28 md:pb-4">
+                 {parkedCarts.length === 0 ? (
+                    <div className="flex items-center justify-center h-40 text-slate-500">
+                        <p>سبد پارک‌شده‌ای وجود ندارد.</p>
+                    </div>
+                 ) : (
+                    parkedCarts.map((parked: ParkedCart) => {
+                        const parkedTotal = cartTotals(parked.items, storeSettings.pricesIncludeTax).total;
+                        return (
+                            <div key={parked.id} className="flex items-center justify-between mb-3 p-3 bg-white/80 rounded-xl shadow-sm border border-amber-200/60">
+                                <div className="min-w-0">
+                                    <p className="font-bold text-slate-800 text-sm md:text-lg truncate">{parked.name}</p>
+                                    <div className="text-sm text-blue-600 font-bold">{formatCurrency(parkedTotal, storeSettings)} · {parked.items.length} قلم</div>
+                                    <p className="text-xs text-slate-400">{parked.cashier} · {new Date(parked.parkedAt).toLocaleTimeString('fa-IR', {hour: '2-digit', minute:'2-digit'})}</p>
+                                </div>
+                                <div className="flex items-center gap-1 flex-shrink-0">
+                                    <button onClick={() => handleResumeParkedCart(parked.id)} className="px-3 py-1.5 rounded-lg text-sm font-bold text-blue-700 bg-blue-50 hover:bg-blue-100">ادامه</button>
+                                    <button onClick={() => handleDiscardParkedCart(parked.id)} className="p-1.5 rounded-full text-gray-500 hover:text-red-600 bg-gray-50 hover:bg-red-100"><TrashIcon className="w-5 h-5"/></button>
+                                </div>
+                            </div>
+                        );
+                    })
+                 )}
+            </div>
+        )}
+        {activeTab === 'quotations' && (
+             <div className="flex-grow overflow-y-auto -mx-2 md:-mx-6 px-2 md:px-6 pb-28 md:pb-4">
+                 {quotations.length === 0 ? (
+                    <div className="flex items-center justify-center h-40 text-slate-500">
+                        <p>پیش‌فاکتوری صادر نشده است.</p>
+                    </div>
+                 ) : (
+                    [...quotations].sort((a: Quotation, b: Quotation) => b.timestamp.localeCompare(a.timestamp)).map((quotation: Quotation) => {
+                        const customerName = customers.find((c: Customer) => c.id === quotation.customerId)?.name || quotation.customerName || 'مشتری گذری';
+                        const expired = !isWithinValidity({ validTo: quotation.validUntil });
+                        return (
+                            <div key={quotation.id} className={`flex items-center justify-between mb-3 p-3 bg-white/80 rounded-xl shadow-sm border ${quotation.convertedInvoiceId ? 'border-gray-200/50 opacity-70' : 'border-violet-200/60'}`}>
+                                <div className="min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <p className="font-mono font-bold text-slate-800 text-sm md:text-lg">{quotation.id}</p>
+                                        {quotation.convertedInvoiceId
+                                            ? <span className="text-[10px] font-bold bg-emerald-100 text-emerald-700 px-1.5 py-0.5 rounded-full">فاکتور {quotation.convertedInvoiceId}</span>
+                                            : expired && <span className="text-[10px] font-bold bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded-full">منقضی</span>}
+                                    </div>
+                                    <p className="text-sm font-bold text-slate-600 truncate">{customerName}</p>
+                                    <div className="text-sm text-blue-600 font-bold">{quotation.totalAmount.toLocaleString(undefined, { maximumFractionDigits: 3 })} {quotation.currency} · {quotation.items.length} قلم</div>
+                                    <p className="text-xs text-slate-400">معتبر تا {new Date(`${quotation.validUntil}T00:00:00`).toLocaleDateString('fa-IR')}</p>
+                                </div>
+                                <div className="flex items-center gap-1 flex-shrink-0">
+                                    <button onClick={() => handlePrintQuotation(quotation)} className="p-1.5 rounded-full text-gray-500 hover:text-green-600 bg-gray-50 hover:bg-green-100"><PrintIcon className="w-5 h-5"/></button>
+                                    {!quotation.convertedInvoiceId && hasPermission('pos:create_invoice') && (
+                                        <button onClick={() => handleLoadQuotation(quotation.id)} className="px-3 py-1.5 rounded-lg text-sm font-bold text-blue-700 bg-blue-50 hover:bg-blue-100">تبدیل به فروش</button>
+                                    )}
+                                    {hasPermission('pos:manage_quotations') && (
+                                        <button onClick={() => handleDeleteQuotation(quotation.id)} className="p-1.5 rounded-full text-gray-500 hover:text-red-600 bg-gray-50 hover:bg-red-100"><TrashIcon className="w-5 h-5"/></button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })
+                 )}
+            </div>
+        )}
+        {activeTab === 'orders' && (
+             <div className="flex-grow overflow-y-auto -mx-2 md:-mx-6 px-2 md:px-6 pb-28 md:pb-4">
+                 {salesOrders.length === 0 ? (
+                    <div className="flex items-center justify-center h-40 text-slate-500">
+                        <p>سفارش فروشی ثبت نشده است.</p>
+                    </div>
+                 ) : (
+                    [...salesOrders].sort((a: SalesOrder, b: SalesOrder) => (a.status === b.status ? 0 : a.status === 'open' ? -1 : 1) || b.timestamp.localeCompare(a.timestamp)).map((order: SalesOrder) => {
+                        const ordered = order.items.reduce((sum, i) => sum + i.quantity, 0);
+                        const delivered = order.items.reduce((sum, i) => sum + i.deliveredQty, 0);
+                        const canManage = order.status === 'open' && hasPermission('pos:manage_sales_orders');
+                        return (
+                            <div key={order.id} className={`mb-3 p-3 bg-white/80 rounded-xl shadow-sm border ${order.status === 'open' ? 'border-sky-200/60' : 'border-gray-200/50 opacity-70'}`}>
+                                <div className="flex items-center justify-between">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2">
+                                            <p className="font-mono font-bold text-slate-800 text-sm md:text-lg">{order.id}</p>
+                                            {order.status === 'closed' && <span className="text-[10px] font-bold bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded-full">بسته</span>}
+                                        </div>
+                                        <p className="text-sm font-bold text-slate-600 truncate">{customers.find((c: Customer) => c.id === order.customerId)?.name}</p>
+                                        <div className="text-sm text-blue-600 font-bold">{order.totalAmount.toLocaleString(undefined, { maximumFractionDigits: 3 })} {order.currency} · تحویل {delivered} از {ordered}</div>
+                                        <p className="text-xs text-emerald-700 font-bold">پیش‌پرداخت: {order.prepaidAmount.toLocaleString(undefined, { maximumFractionDigits: 3 })} · مصرف‌شده: {order.appliedPrepayment.toLocaleString(undefined, { maximumFractionDigits: 3 })}</p>
+                                        {order.notes && <p className="text-xs text-slate-400 truncate">{order.notes}</p>}
+                                    </div>
+                                    {canManage && (
+                                        <div className="flex items-center gap-1 flex-shrink-0">
+                                            <button onClick={() => handleSalesOrderPrepayment(order.id)} className="px-3 py-1.5 rounded-lg text-sm font-bold text-emerald-700 bg-emerald-50 hover:bg-emerald-100">پیش‌پرداخت</button>
+                                            <button onClick={() => setDeliveringOrder(order)} className="px-3 py-1.5 rounded-lg text-sm font-bold text-blue-700 bg-blue-50 hover:bg-blue-100">تحویل</button>
+                                            <button onClick={() => handleCloseSalesOrder(order.id)} className="p-1.5 rounded-full text-gray-500 hover:text-red-600 bg-gray-50 hover:bg-red-100" title="بستن سفارش"><XIcon className="w-5 h-5"/></button>
+                                        </div>
+                                    )}
+                                </div>
+                                {order.invoiceIds.length > 0 && (
+                                    <div className="flex flex-wrap gap-1 mt-2">
+                                        {order.invoiceIds.map(id => (
+                                            <button key={id} onClick={() => handlePrintInvoice(id)} className="text-[11px] font-mono font-bold bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full hover:bg-blue-100">{id}</button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })
+                 )}
+            </div>
+        )}
         {activeTab === 'services' && (
              <div className="flex-grow overflow-y-auto -mx-6 px-6 pb-28 md:pb-4">
                  {services.length === 0 ? (
@@ -469,8 +695,14 @@ const CartSide: React.FC<any> = ({
     );
 };
 
-const ReturnModal: React.FC<{ invoice: SaleInvoice, onClose: () => void, onSubmit: (returnItems: { id: string, type: 'product' | 'service', quantity: number }[]) => void }> = ({ invoice, onClose, onSubmit }) => {
+type ReturnLine = { id: string, type: 'product' | 'service', quantity: number };
+
+// An exchange hands the chosen lines to the cart instead of refunding them; the goods taken in their place are sold from there
+const ReturnModal: React.FC<{ invoice: SaleInvoice, onClose: () => void, onSubmit: (returnItems: ReturnLine[], refund: ReturnRefundRequest) => void, onExchange?: (returnItems: ReturnLine[]) => void }> = ({ invoice, onClose, onSubmit, onExchange }) => {
+    const { customers, storeSettings } = useAppContext();
     const [returnQuantities, setReturnQuantities] = useState<{[key: string]: number}>({});
+    // The refund goes back the way the sale was made unless the cashier picks otherwise
+    const [refund, setRefund] = useState<RefundChoice>({ destination: invoice.customerId ? 'credit' : 'cash', currency: invoice.currency, rate: String(invoice.exchangeRate || '') });
 
     const handleQuantityChange = (item: CartItem, quantity: number) => {
         const key = `${item.id}-${item.type}`;
@@ -478,8 +710,8 @@ const ReturnModal: React.FC<{ invoice: SaleInvoice, onClose: () => void, onSubmi
         setReturnQuantities(prev => ({...prev, [key]: newQuantity}));
     };
     
-    const handleSubmit = () => {
-        const returnItems = Object.entries(returnQuantities)
+    const selectedLines = (): ReturnLine[] =>
+        Object.entries(returnQuantities)
             .filter(([, qty]) => Number(qty) > 0)
             .map(([key, qty]) => {
                 const lastDashIndex = key.lastIndexOf('-');
@@ -487,8 +719,6 @@ const ReturnModal: React.FC<{ invoice: SaleInvoice, onClose: () => void, onSubmi
                 const type = key.substring(lastDashIndex + 1);
                 return { id, type: type as 'product' | 'service', quantity: Number(qty) };
             });
-        onSubmit(returnItems);
-    };
 
     return (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
@@ -516,10 +746,14 @@ const ReturnModal: React.FC<{ invoice: SaleInvoice, onClose: () => void, onSubmi
                             )
                         })}
                     </div>
+                    <div className="mt-4 p-3 bg-slate-50 rounded-lg border">
+                        <RefundDestinationPicker value={refund} onChange={setRefund} customerName={customers.find(c => c.id === invoice.customerId)?.name} />
+                    </div>
                 </div>
                  <div className="flex-shrink-0 flex justify-end gap-3 mt-4 pt-3 border-t">
                     <button onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 font-semibold text-sm">لغو</button>
-                    <button onClick={handleSubmit} className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm">ثبت مرجوعی</button>
+                    {onExchange && <button onClick={() => onExchange(selectedLines())} className="px-6 py-2 rounded-lg bg-teal-600 text-white shadow-lg font-semibold text-sm hover:bg-teal-700">تعویض با کالای دیگر</button>}
+                    <button onClick={() => onSubmit(selectedLines(), toRefundRequest(refund, storeSettings.baseCurrency))} className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm">ثبت مرجوعی</button>
                 </div>
             </div>
         </div>
@@ -543,14 +777,15 @@ const POS: React.FC = () => {
         addSaleReturn,
         storeSettings,
         currentUser,
-        editingSaleInvoiceId
+        editingSaleInvoiceId,
+        ensureInvoicesSince
     } = context;
     
     const [searchTerm, setSearchTerm] = useState('');
     const [toast, setToast] = useState('');
-    const [activeTab, setActiveTab] = useState<'cart' | 'invoices' | 'services'>('cart');
+    const [activeTab, setActiveTab] = useState<'cart' | 'invoices' | 'services' | 'parked' | 'quotations' | 'orders'>('cart');
     const [mobileView, setMobileView] = useState<'products' | 'cart'>('products');
-    const [invoiceToPrint, setInvoiceToPrint] = useState<SaleInvoice | null>(null);
+    const [invoiceToPrint, setInvoiceToPrint] = useState<SaleInvoice | Quotation | null>(null);
     const [selectedCustomerId, setSelectedCustomerId] = useState<string>('');
     const [selectedSupplierId, setSelectedSupplierId] = useState<string>('');
     const [isSupplierMenuOpen, setIsSupplierMenuOpen] = useState(false);
@@ -565,13 +800,21 @@ const POS: React.FC = () => {
     const recognitionRef = useRef<SpeechRecognition | null>(null);
     const [editingPriceItemId, setEditingPriceItemId] = useState<string | null>(null);
     const [invoiceDateRange, setInvoiceDateRange] = useState<{ start: Date, end: Date }>({ start: new Date(), end: new Date() });
+    useEffect(() => { ensureInvoicesSince(invoiceDateRange.start); }, [invoiceDateRange.start.getTime()]);
     const [isBarcodeModeActive, setIsBarcodeModeActive] = useState(false);
     const barcodeBuffer = useRef('');
     const barcodeTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
     const [returnModalInvoice, setReturnModalInvoice] = useState<SaleInvoice | null>(null);
+    const [isUnreferencedReturnOpen, setIsUnreferencedReturnOpen] = useState(false);
     const shouldRestartRecognition = useRef(false);
     const [isMobileCustomerMenuOpen, setIsMobileCustomerMenuOpen] = useState(false);
     const [isProcessing, setIsProcessing] = useState(false);
+    // Set while a sale or edit waits for a supervisor; `resume` retries it with the approval
+    const [approvalRequest, setApprovalRequest] = useState<{ violations: string[]; resume: (approval: SaleApproval) => void } | null>(null);
+    const [isSplitPaymentOpen, setIsSplitPaymentOpen] = useState(false);
+    const [shiftModalMode, setShiftModalMode] = useState<'open' | 'close' | null>(null);
+    const [zReportShift, setZReportShift] = useState<Shift | null>(null);
+    const [deliveringOrder, setDeliveringOrder] = useState<SalesOrder | null>(null);
 
     // Multi-currency POS State
     const [currency, setCurrency] = useState<'AFN' | 'USD' | 'IRT'>(storeSettings.baseCurrency || 'AFN');
@@ -584,6 +827,9 @@ const POS: React.FC = () => {
         }
     }, [storeSettings.baseCurrency, editingSaleInvoiceId]);
 
+    // Cart prices follow the customer picked here: their price lists replace the retail price
+    useEffect(() => { context.setCartCustomer(selectedCustomerId || undefined); }, [selectedCustomerId]);
+
     const baseCurrency = storeSettings.baseCurrency || 'AFN';
     const baseCurrencyName = storeSettings.currencyConfigs?.[baseCurrency]?.name || 'AFN';
 
@@ -599,6 +845,11 @@ const POS: React.FC = () => {
         setTimeout(() => setToast(''), 4000);
     };
 
+    const updateCartItemFinalPrice = (itemId: string, itemType: 'product' | 'service', finalPrice: number) => {
+        const result = contextUpdateCartItemFinalPrice(itemId, itemType, finalPrice);
+        if (!result.success) showToast(result.message);
+    };
+
     const processBarcode = useCallback((scannedCode: string) => {
         const englishCode = toEnglishDigits(scannedCode);
         const product = products.find(p => p.barcode === englishCode);
@@ -749,13 +1000,10 @@ const POS: React.FC = () => {
             .slice(0, 7);
     }, [products, searchTerm]);
 
-    // Total amount in base currency for the whole cart
-    const totalAmountBase = cart.reduce((total, item) => {
-        const price = (item.type === 'product' && item.finalPrice !== undefined) ? item.finalPrice : (item.type === 'product' ? item.salePrice : item.price);
-        return total + price * item.quantity;
-    }, 0);
+    // Total amount in base currency for the whole cart, promotions taken off and tax settled
+    const { total: totalAmountBase, tax: cartTaxBase } = cartTotals(cart, storeSettings.pricesIncludeTax);
 
-    const completeSale = async () => {
+    const completeSale = async (approval?: SaleApproval, paymentRequest?: SalePaymentRequest) => {
         if (isProcessing) return; 
         if (!currentUser) { showToast("خطا: کاربر فعلی مشخص نیست."); return; }
         
@@ -771,12 +1019,19 @@ const POS: React.FC = () => {
                 selectedCustomerId || undefined, 
                 currency, 
                 currency === baseCurrency ? 1 : Number(exchangeRate),
-                selectedSupplierId || undefined
+                selectedSupplierId || undefined,
+                approval,
+                paymentRequest
             );
             
+            if (result.approvalRequired) {
+                setApprovalRequest({ violations: result.approvalRequired, resume: (a) => completeSale(a, paymentRequest) });
+                return;
+            }
             showToast(result.message);
 
             if (result.success && result.invoice) {
+                setIsSplitPaymentOpen(false);
                 if (!context.editingSaleInvoiceId) { setInvoiceToPrint(result.invoice); }
                 setSelectedCustomerId('');
                 setSelectedSupplierId('');
@@ -793,9 +1048,13 @@ const POS: React.FC = () => {
         }
     };
 
-    const handleEditInvoice = (invoiceId: string) => {
+    const handleEditInvoice = (invoiceId: string, approval?: SaleApproval) => {
         const inv = saleInvoices.find(i => i.id === invoiceId);
-        const result = context.beginEditSale(invoiceId);
+        const result = context.beginEditSale(invoiceId, approval);
+        if (result.approvalRequired) {
+            setApprovalRequest({ violations: result.approvalRequired, resume: (a) => handleEditInvoice(invoiceId, a) });
+            return;
+        }
         showToast(result.message);
         if (result.success) {
             setSelectedCustomerId(result.customerId || '');
@@ -809,6 +1068,191 @@ const POS: React.FC = () => {
         }
     };
 
+    const openSplitPayment = () => {
+        if (currency !== baseCurrency && (!exchangeRate || Number(exchangeRate) <= 0)) {
+            showToast("لطفاً نرخ تبدیل ارز را وارد کنید.");
+            return;
+        }
+        setIsSplitPaymentOpen(true);
+    };
+
+    const resetSaleDetails = () => {
+        setSelectedCustomerId('');
+        setSelectedSupplierId('');
+        setCurrency(baseCurrency);
+        setExchangeRate('');
+    };
+
+    const handleParkCart = async () => {
+        const customerName = customers.find(c => c.id === selectedCustomerId)?.name;
+        const name = window.prompt('نام سبد برای پارک:', customerName || `سبد ${context.parkedCarts.length + 1}`);
+        if (name === null) return;
+        const result = await context.parkCart(name, {
+            customerId: selectedCustomerId || undefined,
+            supplierIntermediaryId: selectedSupplierId || undefined,
+            currency,
+            exchangeRate: currency === baseCurrency ? 1 : Number(exchangeRate) || 1
+        });
+        showToast(result.message);
+        if (result.success) {
+            resetSaleDetails();
+            setMobileView('products');
+        }
+    };
+
+    const handleResumeParkedCart = async (parkedCartId: string) => {
+        const result = await context.resumeParkedCart(parkedCartId);
+        showToast(result.message);
+        if (result.success && result.parkedCart) {
+            const parked = result.parkedCart;
+            setSelectedCustomerId(parked.customerId || '');
+            setSelectedSupplierId(parked.supplierIntermediaryId || '');
+            setCurrency(parked.currency);
+            setExchangeRate(parked.exchangeRate === 1 ? '' : String(parked.exchangeRate));
+            setActiveTab('cart');
+            setMobileView('cart');
+        }
+    };
+
+    const handleDiscardParkedCart = async (parkedCartId: string) => {
+        const parked = context.parkedCarts.find(c => c.id === parkedCartId);
+        if (!parked || !window.confirm(`سبد «${parked.name}» حذف شود؟ اقلام رزروشده آزاد می‌شوند.`)) return;
+        const result = await context.discardParkedCart(parkedCartId);
+        showToast(result.message);
+    };
+
+    const handleCreateQuotation = async () => {
+        if (currency !== baseCurrency && (!exchangeRate || Number(exchangeRate) <= 0)) {
+            showToast("لطفاً نرخ تبدیل ارز را وارد کنید.");
+            return;
+        }
+        const days = window.prompt('مدت اعتبار پیش‌فاکتور (روز):', '7');
+        if (days === null) return;
+        const validDays = Number(toEnglishDigits(days));
+        if (!Number.isInteger(validDays) || validDays < 0) {
+            showToast('مدت اعتبار نامعتبر است.');
+            return;
+        }
+        const validUntil = new Date();
+        validUntil.setDate(validUntil.getDate() + validDays);
+        let customerName: string | undefined;
+        if (!selectedCustomerId) {
+            const name = window.prompt('نام مشتری (اختیاری):', '');
+            if (name === null) return;
+            customerName = name;
+        }
+        const result = await context.createQuotation({
+            customerId: selectedCustomerId || undefined,
+            customerName,
+            currency,
+            exchangeRate: currency === baseCurrency ? 1 : Number(exchangeRate),
+            validUntil: localDay(validUntil)
+        });
+        showToast(result.message);
+        if (result.success && result.quotation) {
+            resetSaleDetails();
+            setInvoiceToPrint(result.quotation);
+        }
+    };
+
+    const handleLoadQuotation = async (quotationId: string) => {
+        const result = await context.loadQuotation(quotationId);
+        showToast(result.message);
+        if (result.success && result.quotation) {
+            const quotation = result.quotation;
+            setSelectedCustomerId(quotation.customerId || '');
+            setSelectedSupplierId('');
+            setCurrency(quotation.currency);
+            setExchangeRate(quotation.exchangeRate === 1 ? '' : String(quotation.exchangeRate));
+            setActiveTab('cart');
+            setMobileView('cart');
+        }
+    };
+
+    const handleDeleteQuotation = async (quotationId: string) => {
+        if (!window.confirm(`پیش‌فاکتور ${quotationId} حذف شود؟`)) return;
+        const result = await context.deleteQuotation(quotationId);
+        showToast(result.message);
+    };
+
+    const handleCreateSalesOrder = async () => {
+        if (!selectedCustomerId) {
+            showToast('برای ثبت سفارش فروش، مشتری را انتخاب کنید.');
+            return;
+        }
+        if (currency !== baseCurrency && (!exchangeRate || Number(exchangeRate) <= 0)) {
+            showToast("لطفاً نرخ تبدیل ارز را وارد کنید.");
+            return;
+        }
+        const notes = window.prompt('توضیحات سفارش (اختیاری):', '');
+        if (notes === null) return;
+        const result = await context.createSalesOrder({
+            customerId: selectedCustomerId,
+            currency,
+            exchangeRate: currency === baseCurrency ? 1 : Number(exchangeRate),
+            notes
+        });
+        showToast(result.message);
+        if (!result.success || !result.order) return;
+        resetSaleDetails();
+        setActiveTab('orders');
+        const prepayment = window.prompt(`مبلغ پیش‌پرداخت (${result.order.currency}):`, '');
+        if (prepayment && Number(toEnglishDigits(prepayment)) > 0) {
+            const paid = await context.addSalesOrderPrepayment(result.order.id, Number(toEnglishDigits(prepayment)));
+            showToast(paid.message);
+        }
+    };
+
+    const handleSalesOrderPrepayment = async (orderId: string) => {
+        const order = context.salesOrders.find(o => o.id === orderId);
+        if (!order) return;
+        const amount = window.prompt(`مبلغ پیش‌پرداخت سفارش ${order.id} (${order.currency}):`, '');
+        if (amount === null) return;
+        const result = await context.addSalesOrderPrepayment(orderId, Number(toEnglishDigits(amount)));
+        showToast(result.message);
+    };
+
+    const handleDeliverSalesOrder = async (deliveries: { id: string; type: 'product' | 'service'; quantity: number }[]) => {
+        if (!deliveringOrder) return;
+        setIsProcessing(true);
+        const result = await context.deliverSalesOrder(deliveringOrder.id, deliveries);
+        setIsProcessing(false);
+        showToast(result.message);
+        if (result.success && result.invoice) {
+            setDeliveringOrder(null);
+            setInvoiceToPrint(result.invoice);
+        }
+    };
+
+    const handleCloseSalesOrder = async (orderId: string) => {
+        const order = context.salesOrders.find(o => o.id === orderId);
+        if (!order) return;
+        const unused = order.prepaidAmount - order.appliedPrepayment;
+        const warning = unused > 0.01 ? `\n${unused.toLocaleString(undefined, { maximumFractionDigits: 3 })} ${order.currency} پیش‌پرداخت مصرف‌نشده به عنوان طلب مشتری در حسابش می‌ماند.` : '';
+        if (!window.confirm(`سفارش ${order.id} بسته شود؟ اقلام تحویل‌نشده دیگر تحویل نمی‌شوند.${warning}`)) return;
+        const result = await context.closeSalesOrder(orderId);
+        showToast(result.message);
+    };
+
+    const handleVoidInvoice = async (invoiceId: string) => {
+        const reason = window.prompt(`دلیل ابطال فاکتور ${invoiceId}:\nکالاها به انبار برمی‌گردند و اثر فاکتور روی حساب‌ها برگشت می‌خورد.`);
+        if (reason === null) return;
+        setIsProcessing(true);
+        const result = await context.voidSale(invoiceId, reason);
+        setIsProcessing(false);
+        showToast(result.message);
+    };
+
+    const handleShiftSubmit = async (amounts: CurrencyAmounts, notes: string) => {
+        setIsProcessing(true);
+        const result = shiftModalMode === 'open' ? await context.openShift(amounts) : await context.closeShift(amounts, notes);
+        setIsProcessing(false);
+        showToast(result.message);
+        if (!result.success) return;
+        setShiftModalMode(null);
+        if ('shift' in result && result.shift) setZReportShift(result.shift);
+    };
+
     const handlePrintInvoice = (invoiceId: string) => {
         const invoice = saleInvoices.find(inv => inv.id === invoiceId);
         if (invoice) {
@@ -863,9 +1307,9 @@ const POS: React.FC = () => {
     };
 
     // FIX: addSaleReturn returns a Promise, so this handler must be async and await the result.
-    const handleReturnSubmit = async (returnItems: { id: string; type: 'product' | 'service'; quantity: number }[]) => {
+    const handleReturnSubmit = async (returnItems: { id: string; type: 'product' | 'service'; quantity: number }[], refund: ReturnRefundRequest) => {
         if (returnModalInvoice && currentUser) {
-            const result = await addSaleReturn(returnModalInvoice.id, returnItems, currentUser.username);
+            const result = await addSaleReturn(returnModalInvoice.id, returnItems, currentUser.username, refund);
             showToast(result.message);
             if (result.success) {
                 setReturnModalInvoice(null);
@@ -873,10 +1317,57 @@ const POS: React.FC = () => {
         }
     };
 
+    const handleUnreferencedReturn = async (lines: UnreferencedReturnLine[], costBasis: ReturnCostBasis, refund: ReturnRefundRequest, customerId?: string) => {
+        if (!currentUser) return;
+        setIsProcessing(true);
+        const result = await context.addUnreferencedReturn(lines, costBasis, currentUser.username, refund, customerId);
+        setIsProcessing(false);
+        showToast(result.message);
+        if (result.success) setIsUnreferencedReturnOpen(false);
+    };
+
+    const handleExchangeSubmit = async (returnItems: { id: string; type: 'product' | 'service'; quantity: number }[]) => {
+        if (!returnModalInvoice) return;
+        const result = await context.beginExchange(returnModalInvoice.id, returnItems);
+        showToast(result.message);
+        if (result.success) {
+            // A refund beyond the new goods goes back onto the account the original sale was made on
+            setSelectedCustomerId(returnModalInvoice.customerId || '');
+            setReturnModalInvoice(null);
+            setActiveTab('cart');
+            setMobileView('cart');
+        }
+    };
+
     return (
         <div className="h-full">
             {toast && <Toast message={toast} onClose={() => setToast('')} />}
+            {isSplitPaymentOpen && (
+                <SplitPaymentModal
+                    totalBase={Math.max(totalAmountBase - (context.cartExchange?.creditBase || 0), 0)}
+                    customerName={customers.find(c => c.id === selectedCustomerId)?.name}
+                    supplierName={suppliers.find(s => s.id === selectedSupplierId)?.name}
+                    currency={currency}
+                    exchangeRate={exchangeRate}
+                    isProcessing={isProcessing}
+                    onConfirm={(request) => completeSale(undefined, request)}
+                    onClose={() => setIsSplitPaymentOpen(false)}
+                />
+            )}
+            {shiftModalMode && (
+                <ShiftModal mode={shiftModalMode} isProcessing={isProcessing} onConfirm={handleShiftSubmit} onClose={() => setShiftModalMode(null)} />
+            )}
+            {zReportShift && <ZReportModal shift={zReportShift} onClose={() => setZReportShift(null)} />}
+            {approvalRequest && (
+                <SupervisorApprovalModal
+                    violations={approvalRequest.violations}
+                    onClose={() => setApprovalRequest(null)}
+                    onApproved={(approval) => { const { resume } = approvalRequest; setApprovalRequest(null); resume(approval); }}
+                />
+            )}
             {invoiceToPrint && <PrintPreviewModal invoice={invoiceToPrint} onClose={() => setInvoiceToPrint(null)} />}
+            {isUnreferencedReturnOpen && <UnreferencedReturnModal isProcessing={isProcessing} onConfirm={handleUnreferencedReturn} onClose={() => setIsUnreferencedReturnOpen(false)} />}
+            {deliveringOrder && <SalesOrderDeliveryModal order={deliveringOrder} isProcessing={isProcessing} onConfirm={handleDeliverSalesOrder} onClose={() => setDeliveringOrder(null)} />}
             {isGalleryOpen && (
                 <FloatingGallery 
                     images={memoImages}
@@ -885,7 +1376,7 @@ const POS: React.FC = () => {
                 />
             )}
             {returnModalInvoice && (
-                <ReturnModal invoice={returnModalInvoice} onClose={() => setReturnModalInvoice(null)} onSubmit={handleReturnSubmit} />
+                <ReturnModal invoice={returnModalInvoice} onClose={() => setReturnModalInvoice(null)} onSubmit={handleReturnSubmit} onExchange={context.editingSaleInvoiceId ? undefined : handleExchangeSubmit} />
             )}
             
             <div className="md:flex h-full bg-transparent">
@@ -901,7 +1392,7 @@ const POS: React.FC = () => {
                         // MiniCart props
                         cart, editingPriceItemId, setEditingPriceItemId, 
                         updateCartItemQuantity: contextUpdateQuantity, removeFromCart: contextRemoveFromCart, 
-                        updateCartItemFinalPrice: contextUpdateCartItemFinalPrice, hasPermission: context.hasPermission,
+                        updateCartItemFinalPrice, hasPermission: context.hasPermission,
                         currency, exchangeRate,
                         onMobileCheckout: () => setMobileView('cart'),
                         saleInvoices, selectedCustomerId
@@ -916,14 +1407,20 @@ const POS: React.FC = () => {
                           activeTab, setActiveTab, cart, filteredInvoices, services, setIsGalleryOpen, memoImages,
                           editingSaleInvoiceId: context.editingSaleInvoiceId, handleCancelEdit: context.cancelEditSale, updateQuantity: contextUpdateQuantity, 
                           removeFromCart: contextRemoveFromCart, editingPriceItemId,
-                          setEditingPriceItemId, updateCartItemFinalPrice: contextUpdateCartItemFinalPrice, hasPermission: context.hasPermission, 
+                          setEditingPriceItemId, updateCartItemFinalPrice, hasPermission: context.hasPermission, 
                           selectedCustomerId, setSelectedCustomerId, customers, 
                           selectedSupplierId, setSelectedSupplierId, suppliers,
                           isSupplierMenuOpen, setIsSupplierMenuOpen,
                           totalAmount: totalAmountBase, completeSale, setInvoiceDateRange,
                           handlePrintInvoice, handleEditInvoice, storeSettings, setMobileView, addToCart, handleOpenReturnModal,
                           isProcessing, currency, setCurrency, exchangeRate, setExchangeRate,
-                          saleInvoices
+                          saleInvoices, parkedCarts: context.parkedCarts, handleParkCart, handleResumeParkedCart, handleDiscardParkedCart, openSplitPayment,
+                          currentShift: context.currentShift, setShiftModalMode, cartPromotions: context.cartPromotions, cartTax: cartTaxBase,
+                          quotations: context.quotations, cartQuotationId: context.cartQuotationId, handleCreateQuotation, handleLoadQuotation, handleDeleteQuotation,
+                          handlePrintQuotation: setInvoiceToPrint, detachCartQuotation: context.detachCartQuotation,
+                          salesOrders: context.salesOrders, handleCreateSalesOrder, handleSalesOrderPrepayment, setDeliveringOrder, handleCloseSalesOrder, handleVoidInvoice,
+                          cartExchange: context.cartExchange, cancelExchange: context.cancelExchange,
+                          openUnreferencedReturn: () => setIsUnreferencedReturnOpen(true)
                         }}
                      />
                 </div>
@@ -965,6 +1462,34 @@ const POS: React.FC = () => {
                             </span>
                         </div>
                         <div className="flex items-center gap-2 w-3/5 justify-end">
+                            <button
+                                onClick={handleParkCart}
+                                className="p-2 rounded-lg border border-amber-300 bg-amber-50 text-amber-700 disabled:opacity-40"
+                                disabled={cart.length === 0 || !!context.editingSaleInvoiceId || !context.hasPermission('pos:create_invoice') || isProcessing}
+                            >
+                                <PauseIcon className="w-6 h-6" />
+                            </button>
+                            <button
+                                onClick={handleCreateQuotation}
+                                className="p-2 rounded-lg border border-violet-300 bg-violet-50 text-violet-700 disabled:opacity-40"
+                                disabled={cart.length === 0 || !!context.editingSaleInvoiceId || !context.hasPermission('pos:manage_quotations') || isProcessing}
+                            >
+                                <DocumentIcon className="w-6 h-6" />
+                            </button>
+                            <button
+                                onClick={handleCreateSalesOrder}
+                                className="p-2 rounded-lg border border-sky-300 bg-sky-50 text-sky-700 disabled:opacity-40"
+                                disabled={cart.length === 0 || !!context.editingSaleInvoiceId || !context.hasPermission('pos:manage_sales_orders') || isProcessing}
+                            >
+                                <TruckIcon className="w-6 h-6" />
+                            </button>
+                            <button
+                                onClick={openSplitPayment}
+                                className="p-2 rounded-lg border border-blue-300 bg-blue-50 text-blue-700 disabled:opacity-40"
+                                disabled={cart.length === 0 || !context.hasPermission('pos:create_invoice') || isProcessing}
+                            >
+                                <SafeIcon className="w-6 h-6" />
+                            </button>
                             <div className="relative">
                                 <button 
                                     onClick={() => setIsMobileCustomerMenuOpen(true)} 
@@ -977,7 +1502,7 @@ const POS: React.FC = () => {
                                 </button>
                             </div>
                             <button 
-                                onClick={completeSale} 
+                                onClick={() => completeSale()} 
                                 className="flex-grow h-10 bg-blue-600 text-white rounded-lg shadow-md active:scale-95 transition-transform flex items-center justify-center gap-1 px-2 disabled:bg-gray-400 disabled:cursor-wait"
                                 disabled={cart.length === 0 || !context.hasPermission('pos:create_invoice') || isProcessing}
                             >
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import type { PurchaseInvoice, PurchaseInvoiceItem, Supplier, Product, SpeechRecognition, SpeechRecognitionEvent, SpeechRecognitionErrorEvent } from '../types';
+import type { PurchaseInvoice, PurchaseInvoiceItem, Supplier, Product, SaleApproval, SpeechRecognition, SpeechRecognitionEvent, SpeechRecognitionErrorEvent } from '../types';
 import { useAppContext } from '../AppContext';
 import { PlusIcon, EditIcon, TrashIcon, PrintIcon, WarningIcon, MicIcon, SearchIcon, XIcon, TruckIcon } from '../components/icons';
 import Toast from '../components/Toast';
@@ -7,6 +7,7 @@ import DateRangeFilter from '../components/DateRangeFilter';
 import PurchasePrintPreviewModal from '../components/PurchasePrintPreviewModal';
 import PackageUnitInput from '../components/PackageUnitInput';
 import ConfirmModal from '../components/ConfirmModal';
+import SupervisorApprovalModal from '../components/SupervisorApprovalModal';
 import { formatCurrency, parseSpokenNumber, toEnglishDigits } from '../utils/formatters';
 
 // Local Interface for Draft Items
@@ -82,14 +83,16 @@ const Purchases: React.FC = () => {
         purchaseInvoices, suppliers, products, 
         addPurchaseInvoice, updatePurchaseInvoice, 
         editingPurchaseInvoiceId, beginEditPurchase, cancelEditPurchase,
-        addPurchaseReturn, hasPermission, storeSettings
+        addPurchaseReturn, hasPermission, storeSettings, ensureInvoicesSince
     } = useAppContext();
 
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [toast, setToast] = useState('');
     const [invoiceToPrint, setInvoiceToPrint] = useState<PurchaseInvoice | null>(null);
     const [returnModalInvoice, setReturnModalInvoice] = useState<PurchaseInvoice | null>(null);
+    const [approvalRequest, setApprovalRequest] = useState<{ violations: string[]; resume: (approval: SaleApproval) => void } | null>(null);
     const [dateRange, setDateRange] = useState<{ start: Date, end: Date }>({ start: new Date(), end: new Date() });
+    useEffect(() => { ensureInvoicesSince(dateRange.start); }, [dateRange.start.getTime()]);
 
     // Confirm Modal State
     const [confirmConfig, setConfirmConfig] = useState<{
@@ -109,6 +112,7 @@ const Purchases: React.FC = () => {
     const [exchangeRate, setExchangeRate] = useState<string>('');
     const [additionalCost, setAdditionalCost] = useState<string>('');
     const [costDescription, setCostDescription] = useState<string>('');
+    const [taxAmount, setTaxAmount] = useState<string>('');
 
     const [isListening, setIsListening] = useState(false);
     const [recognitionLang, setRecognitionLang] = useState<'fa-IR' | 'en-US'>('fa-IR');
@@ -189,6 +193,7 @@ const Purchases: React.FC = () => {
         setExchangeRate('');
         setAdditionalCost('');
         setCostDescription('');
+        setTaxAmount('');
         if (editingPurchaseInvoiceId) {
             cancelEditPurchase();
         }
@@ -204,8 +209,12 @@ const Purchases: React.FC = () => {
         setIsModalOpen(false);
     }
 
-    const handleEditClick = (invoice: PurchaseInvoice) => {
-        const result = beginEditPurchase(invoice.id);
+    const handleEditClick = (invoice: PurchaseInvoice, approval?: SaleApproval) => {
+        const result = beginEditPurchase(invoice.id, approval);
+        if (result.approvalRequired) {
+            setApprovalRequest({ violations: result.approvalRequired, resume: (a) => handleEditClick(invoice, a) });
+            return;
+        }
         if (!result.success) {
             showToast(result.message);
             return;
@@ -225,6 +234,7 @@ const Purchases: React.FC = () => {
         setExchangeRate(invoice.exchangeRate ? String(invoice.exchangeRate) : '');
         setAdditionalCost(invoice.additionalCost ? String(invoice.additionalCost) : '');
         setCostDescription(invoice.costDescription || '');
+        setTaxAmount(invoice.taxAmount ? String(invoice.taxAmount) : '');
         setIsModalOpen(true);
     };
 
@@ -276,8 +286,8 @@ const Purchases: React.FC = () => {
     };
 
     const totalAmount = useMemo(() => {
-        return items.reduce((total, item) => total + (Number(item.purchasePrice || 0) * Number(item.quantity || 0)), 0);
-    }, [items]);
+        return items.reduce((total, item) => total + (Number(item.purchasePrice || 0) * Number(item.quantity || 0)), 0) + (Number(taxAmount) || 0);
+    }, [items, taxAmount]);
 
     const filteredProducts = useMemo(() => {
         if (!productSearch) return [];
@@ -366,7 +376,8 @@ const Purchases: React.FC = () => {
             currency,
             exchangeRate: currency === storeSettings.baseCurrency ? 1 : Number(exchangeRate),
             additionalCost: Number(additionalCost) || 0,
-            costDescription
+            costDescription,
+            taxAmount: Number(taxAmount) || undefined
         };
 
         const result = await (editingPurchaseInvoiceId
@@ -406,6 +417,13 @@ const Purchases: React.FC = () => {
             {returnModalInvoice && (
                 <ReturnModal invoice={returnModalInvoice} onClose={() => setReturnModalInvoice(null)} onSubmit={handleReturnSubmit} />
             )}
+            {approvalRequest && (
+                <SupervisorApprovalModal
+                    violations={approvalRequest.violations}
+                    onClose={() => setApprovalRequest(null)}
+                    onApproved={(approval) => { const { resume } = approvalRequest; setApprovalRequest(null); resume(approval); }}
+                />
+            )}
             <div className="flex justify-between items-center mb-6 flex-wrap gap-4">
                 <h1 className="text-2xl md:text-4xl text-slate-800">مدیریت خرید</h1>
                 {hasPermission('purchase:create_invoice') && (
@@ -498,6 +516,7 @@ const Purchases: React.FC = () => {
                             <div className="flex justify-between"><span className="text-slate-500">تاریخ:</span> <span className="font-semibold">{new Date(invoice.timestamp).toLocaleDateString('fa-IR')}</span></div>
                          </div>
                         <div className="mt-3 pt-3 border-t">
+                             {!!invoice.taxAmount && <div className="flex justify-between text-sm"><span className="text-slate-500">مالیات خرید:</span> <span className="font-bold text-amber-600">{formatCurrency(invoice.taxAmount, storeSettings, getInvoiceCurrencyName(invoice))}</span></div>}
                              <div className="flex justify-between text-lg"><span className="text-slate-500">مبلغ کل:</span> <span className="font-bold text-blue-600">{formatCurrency(invoice.totalAmount, storeSettings, getInvoiceCurrencyName(invoice))}</span></div>
                         </div>
                     </div>
@@ -666,7 +685,18 @@ const Purchases: React.FC = () => {
                            {/* Additional Cost Section - Only show if items are added */}
                            {items.length > 0 && (
                                <div className="mt-6 pt-6 border-t border-slate-200 animate-fade-in">
-                                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                       <div>
+                                           <label className="block text-[10px] font-black text-slate-400 mb-1 mr-1">مالیات خرید ({currency})</label>
+                                           <input 
+                                               type="text" 
+                                               inputMode="decimal"
+                                               className="w-full p-3 bg-white border border-gray-300 rounded-xl text-lg font-black text-amber-600 text-center focus:outline-none focus:ring-4 focus:ring-blue-100 transition-all"
+                                               placeholder="0"
+                                               value={taxAmount}
+                                               onChange={e => setTaxAmount(toEnglishDigits(e.target.value).replace(/[^0-9.]/g, ''))}
+                                           />
+                                       </div>
                                        <div>
                                            <label className="block text-[10px] font-black text-slate-400 mb-1 mr-1">مبلغ هزینه اضافه ({currency})</label>
                                            <input 
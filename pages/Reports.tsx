@@ -1,29 +1,49 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useAppContext } from '../AppContext';
 import DateRangeFilter from '../components/DateRangeFilter';
 import { formatCurrency, formatStockToPackagesAndUnits } from '../utils/formatters';
-import type { Product, SaleInvoice, User, Customer, Supplier, CustomerTransaction, SupplierTransaction, InTransitInvoice, Expense, CartItem, InvoiceItem } from '../types';
+import type { Product, SaleInvoice, User, Customer, Supplier, CustomerTransaction, SupplierTransaction, InTransitInvoice, Expense, CartItem, InvoiceItem, Shift } from '../types';
 import TransactionHistoryModal from '../components/TransactionHistoryModal';
 import { PrintIcon, WarningIcon, UserGroupIcon, InventoryIcon, AccountingIcon, POSIcon, ReportsIcon, DashboardIcon, TruckIcon, SafeIcon, ChartBarIcon, SearchIcon } from '../components/icons';
 import ReportPrintPreviewModal from '../components/ReportPrintPreviewModal';
+import AuditLogViewer from '../components/AuditLogViewer';
+import ZReportModal from '../components/ZReportModal';
+import { computeFinancialPosition, toBaseAmount } from '../utils/ledger';
+import { invoiceTaxBase, taxableBase } from '../utils/tax';
+import { getJalaliDate, jalaliPeriodRange, JALALI_MONTHS, JALALI_SEASONS, type JalaliPeriod } from '../utils/jalali';
+import { canViewCosts } from '../utils/permissions';
+import { CURRENCIES, shiftVariance } from '../utils/shifts';
 
 const Reports: React.FC = () => {
     const { 
-        saleInvoices, products, expenses, users, activities, inTransitInvoices,
+        saleInvoices: allSaleInvoices, products, expenses, users, inTransitInvoices,
         customers, suppliers, customerTransactions, supplierTransactions, storeSettings, hasPermission,
-        depositHolders, depositTransactions, purchaseInvoices
+        depositHolders, depositTransactions, purchaseInvoices, journalEntries,
+        ensureInvoicesSince, roleLimits, shifts
     } = useAppContext();
+    // Voided invoices stay on file but are left out of every figure here
+    const saleInvoices = useMemo(() => allSaleInvoices.filter(inv => !inv.voided), [allSaleInvoices]);
+    // Roles without cost visibility see sales figures only: no purchase prices, book values or profit
+    const showCosts = canViewCosts(roleLimits);
 
     const [activeTab, setActiveTab] = useState('sales');
     const [dateRange, setDateRange] = useState<{ start: Date, end: Date }>({ start: new Date(), end: new Date() });
     const [printModalContent, setPrintModalContent] = useState<{ title: string; content: React.ReactNode } | null>(null);
+    const [zReportShift, setZReportShift] = useState<Shift | null>(null);
+    const [taxPeriod, setTaxPeriod] = useState<{ year: number; period: JalaliPeriod }>(() => ({ year: getJalaliDate(new Date()).jy, period: getJalaliDate(new Date()).jm }));
 
     // Itemized Stats Local State
-    const [statsType, setStatsType] = useState<'purchases' | 'sales'>('purchases');
+    const [statsType, setStatsType] = useState<'purchases' | 'sales'>(showCosts ? 'purchases' : 'sales');
     const [selectedEntityId, setSelectedEntityId] = useState<string>('');
     const [selectedProductId, setSelectedProductId] = useState<string>('');
 
+    // Only recent invoices are kept in memory; a longer range pulls the rest in from the local database
+    useEffect(() => { ensureInvoicesSince(dateRange.start); }, [dateRange.start.getTime()]);
+    // Tax periods are Jalali months, seasons or years, chosen apart from the page's date range
+    const taxRange = useMemo(() => jalaliPeriodRange(taxPeriod.year, taxPeriod.period), [taxPeriod]);
+    useEffect(() => { if (activeTab === 'tax') ensureInvoicesSince(taxRange.start); }, [activeTab, taxRange.start.getTime()]);
+
     // --- Calculations (Unified for both views) ---
     const salesData = useMemo(() => {
         const filteredInvoices = saleInvoices.filter(inv => {
@@ -38,8 +58,10 @@ const Reports: React.FC = () => {
             const config = storeSettings.currencyConfigs[inv.currency];
             const amountBase = inv.totalAmountAFN ?? (config?.method === 'multiply' ? (inv.totalAmount / rate) : (inv.totalAmount * rate));
             
+            // Tax collected is owed on, so it is not revenue
+            const netOfTax = amountBase - invoiceTaxBase(inv);
             if (inv.type === 'sale') {
-                grossRevenueBase += amountBase;
+                grossRevenueBase += netOfTax;
                 if (inv.totalDiscount > 0) {
                     const discountBase = config?.method === 'multiply' ? (inv.totalDiscount / rate) : (inv.totalDiscount * rate);
                     totalDiscountsGivenBase += discountBase;
@@ -50,7 +72,7 @@ const Reports: React.FC = () => {
                     }
                 });
             } else if (inv.type === 'return') {
-                returnsAmountBase += amountBase;
+                returnsAmountBase += netOfTax;
                 inv.items.forEach(item => { 
                     if (item.type === 'product') {
                         totalCOGS -= (item.purchasePrice || 0) * item.quantity; 
@@ -127,83 +149,26 @@ const Reports: React.FC = () => {
         return { totalBase, totalUSD, totalIRT, txCount: transactionsInRange.length, holdersCount: depositHolders.length };
     }, [depositHolders, depositTransactions, dateRange, storeSettings]);
 
-    // --- Virtual Cash Position (Liquidity) Calculation ---
-    const cashPosition = useMemo(() => {
-        const baseCurrency = storeSettings.baseCurrency || 'AFN';
-        const cashInSales = saleInvoices.reduce((s, i) => {
-            // Only add to cash if it's not a credit sale and NOT an intermediary sale
-            if (i.type === 'sale' && !i.customerId && !i.supplierIntermediaryId) return s + i.totalAmountAFN;
-            if (i.type === 'return' && !i.customerId && !i.supplierIntermediaryId) return s - i.totalAmountAFN;
-            return s;
-        }, 0);
-
-        const cashInCollections = customerTransactions.filter(t => t.type === 'payment' && t.isCash !== false).reduce((s, t) => {
-            const rate = (t as any).exchangeRate || 1;
-            const currency = (t as any).currency || baseCurrency;
-            const config = storeSettings.currencyConfigs[currency];
-            const amountBase = config?.method === 'multiply' ? t.amount / rate : t.amount * rate;
-            return s + amountBase;
-        }, 0);
-
-        const cashInDeposits = depositTransactions.filter(t => t.type === 'deposit' && t.isCash !== false).reduce((s, t) => {
-            const rate = (t as any).exchangeRate || 1; 
-            const config = storeSettings.currencyConfigs[t.currency || storeSettings.baseCurrency];
-            const amountBase = config?.method === 'multiply' ? t.amount / rate : t.amount * rate;
-            return s + amountBase;
-        }, 0);
-
-        const cashOutSuppliers = supplierTransactions.filter(t => t.type === 'payment' && t.isCash !== false).reduce((s, t) => {
-            const rate = (t as any).exchangeRate || 1;
-            const currency = (t as any).currency || baseCurrency;
-            const config = storeSettings.currencyConfigs[currency];
-            const amountBase = config?.method === 'multiply' ? t.amount / rate : t.amount * rate;
-            return s + amountBase;
-        }, 0);
-
-        const cashOutExpenses = expenses.reduce((s, e) => s + (e.amountBase || e.amount), 0);
-
-        const cashOutDeposits = depositTransactions.filter(t => t.type === 'withdrawal' && t.isCash !== false).reduce((s, t) => {
-            const rate = (t as any).exchangeRate || 1;
-            const config = storeSettings.currencyConfigs[t.currency || storeSettings.baseCurrency];
-            const amountBase = config?.method === 'multiply' ? t.amount / rate : t.amount * rate;
-            return s + amountBase;
-        }, 0);
-
-        return (cashInSales + cashInCollections + cashInDeposits) - (cashOutSuppliers + cashOutExpenses + cashOutDeposits);
-    }, [saleInvoices, customerTransactions, depositTransactions, supplierTransactions, expenses, storeSettings]);
-
+    // --- Balance sheet from the general ledger ---
     const financialPositionData = useMemo(() => {
-        const invVal = inventoryData.totalBookValue;
-        const custRec = customers.reduce((sum, c) => sum + (c.balance > 0 ? c.balance : 0), 0);
-        const suppPay = suppliers.reduce((sum, s) => sum + (s.balance > 0 ? s.balance : 0), 0);
+        const ledger = computeFinancialPosition(journalEntries);
         const deferredAssets = supplyChainData.totalValueBase;
-        
-        // Segregate deposits into assets (when they owe us - Besan-kari) and liabilities (when we owe them - Amanat)
-        const depositAssets = depositHolders.reduce((s, h) => {
-            const baseBalance = h.balance || h.balanceAFN; // Fallback for legacy data
-            return s + (baseBalance < 0 ? Math.abs(baseBalance) : 0);
-        }, 0);
-        const depositLiabilities = depositHolders.reduce((s, h) => {
-            const baseBalance = h.balance || h.balanceAFN;
-            return s + (baseBalance > 0 ? baseBalance : 0);
-        }, 0);
-        
-        const totalAssets = invVal + cashPosition + custRec + depositAssets + deferredAssets;
-        const totalLiabilities = suppPay + depositLiabilities;
-        const netWorthRaw = totalAssets - totalLiabilities;
+        const totalAssets = ledger.inventoryValue + ledger.cashInHand + ledger.customerReceivables + ledger.netDepositAsset + deferredAssets;
+        const totalLiabilities = ledger.supplierPayables + ledger.netDepositLiability + ledger.netTaxPayable;
 
         return { 
-            inventoryValue: invVal, 
-            cashInHand: cashPosition,
-            customerReceivables: custRec, 
-            supplierPayables: suppPay, 
+            inventoryValue: ledger.inventoryValue, 
+            cashInHand: ledger.cashInHand,
+            customerReceivables: ledger.customerReceivables, 
+            supplierPayables: ledger.supplierPayables, 
             deferredAssets,
             totalAssets, 
-            netCapital: netWorthRaw,
-            netDepositAsset: depositAssets,
-            netDepositLiability: depositLiabilities
+            netCapital: totalAssets - totalLiabilities,
+            netDepositAsset: ledger.netDepositAsset,
+            netDepositLiability: ledger.netDepositLiability,
+            netTaxPayable: ledger.netTaxPayable
         };
-    }, [inventoryData, customers, suppliers, supplyChainData, cashPosition, depositHolders]);
+    }, [journalEntries, supplyChainData]);
 
     const collectionsData = useMemo(() => {
         const filtered = customerTransactions.filter(t => {
@@ -358,6 +323,43 @@ const Reports: React.FC = () => {
     }, [statsType, selectedProductId, selectedEntityId, purchaseInvoices, saleInvoices, dateRange, suppliers, customers]);
 
 
+    // Promotion usage over the range, taken from what each sale invoice recorded
+    const promotionUsage = useMemo(() => {
+        const usage = new Map<string, { name: string; invoices: number; times: number; discount: number }>();
+        saleInvoices.forEach(inv => {
+            const invTime = new Date(inv.timestamp).getTime();
+            if (inv.type !== 'sale' || invTime < dateRange.start.getTime() || invTime > dateRange.end.getTime()) return;
+            inv.promotions?.forEach(promo => {
+                const row = usage.get(promo.promotionId) || { name: promo.name, invoices: 0, times: 0, discount: 0 };
+                usage.set(promo.promotionId, { ...row, invoices: row.invoices + 1, times: row.times + promo.times, discount: row.discount + promo.discount });
+            });
+        });
+        return Array.from(usage.entries()).map(([id, row]) => ({ id, ...row })).sort((a, b) => b.discount - a.discount);
+    }, [saleInvoices, dateRange]);
+
+    const taxSummary = useMemo(() => {
+        const inPeriod = (iso: string) => { const t = new Date(iso).getTime(); return t >= taxRange.start.getTime() && t <= taxRange.end.getTime(); };
+        const byRate = new Map<number, { taxable: number; tax: number }>();
+        let outputTax = 0, returnedTax = 0, inputTax = 0, purchaseReturnTax = 0;
+        saleInvoices.filter(inv => inPeriod(inv.timestamp)).forEach(inv => {
+            const sign = inv.type === 'sale' ? 1 : -1;
+            inv.items.forEach(item => {
+                const rate = item.taxRate || 0;
+                const row = byRate.get(rate) || { taxable: 0, tax: 0 };
+                byRate.set(rate, { taxable: row.taxable + sign * taxableBase(item, inv.pricesIncludeTax), tax: row.tax + sign * (item.taxAmount || 0) });
+            });
+            if (inv.type === 'sale') outputTax += invoiceTaxBase(inv);
+            else returnedTax += invoiceTaxBase(inv);
+        });
+        purchaseInvoices.filter(inv => inv.taxAmount && inPeriod(inv.timestamp)).forEach(inv => {
+            const base = toBaseAmount(inv.taxAmount || 0, inv.currency, inv.exchangeRate, storeSettings);
+            if (inv.type === 'purchase') inputTax += base;
+            else purchaseReturnTax += base;
+        });
+        const rows = Array.from(byRate.entries()).map(([rate, row]) => ({ rate, ...row })).sort((a, b) => b.rate - a.rate);
+        return { rows, outputTax, returnedTax, inputTax, purchaseReturnTax, netPayable: outputTax - returnedTax - (inputTax - purchaseReturnTax) };
+    }, [saleInvoices, purchaseInvoices, taxRange, storeSettings]);
+
     const tabs = [
         { id: 'sales', label: 'فروش و سود', icon: <POSIcon className="w-5 h-5"/> },
         { id: 'inventory', label: 'انبار', icon: <InventoryIcon className="w-5 h-5"/> },
@@ -366,7 +368,10 @@ const Reports: React.FC = () => {
         { id: 'financial_position', label: 'ترازنامه', icon: <AccountingIcon className="w-5 h-5"/> },
         { id: 'accounts', label: 'وصولی‌ها', icon: <UserGroupIcon className="w-5 h-5"/> },
         { id: 'item_stats', label: 'آمار کالاها', icon: <ChartBarIcon className="w-5 h-5"/> },
-        { id: 'employees', label: 'فعالیت‌ها', icon: <ReportsIcon className="w-5 h-5"/> },
+        { id: 'shifts', label: 'شیفت‌ها', icon: <SafeIcon className="w-5 h-5"/> },
+        { id: 'promotions', label: 'طرح‌های تخفیف', icon: <ChartBarIcon className="w-5 h-5"/> },
+        { id: 'tax', label: 'مالیات', icon: <AccountingIcon className="w-5 h-5"/> },
+        ...(hasPermission('reports:view_audit') ? [{ id: 'audit', label: 'گزارش ممیزی', icon: <ReportsIcon className="w-5 h-5"/> }] : []),
     ];
 
     const SmartStatCard: React.FC<{ title: string, value: string, color: string, icon?: React.ReactNode }> = ({ title, value, color, icon }) => (
@@ -384,7 +389,7 @@ const Reports: React.FC = () => {
                     <div className="space-y-6">
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
                             <SmartStatCard title={`فروش خالص (${storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})`} value={formatCurrency(salesData.netSales, storeSettings)} color="text-blue-600" icon={<POSIcon/>}/>
-                            <SmartStatCard title={`سود خالص (${storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})`} value={formatCurrency(salesData.netIncome, storeSettings)} color="text-green-600" icon={<DashboardIcon/>}/>
+                            {showCosts && <SmartStatCard title={`سود خالص (${storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})`} value={formatCurrency(salesData.netIncome, storeSettings)} color="text-green-600" icon={<DashboardIcon/>}/>}
                             <SmartStatCard title="هزینه‌ها" value={formatCurrency(salesData.totalExpenses, storeSettings)} color="text-red-500" icon={<WarningIcon/>}/>
                         </div>
                         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -409,17 +414,17 @@ const Reports: React.FC = () => {
                 return (
                     <div className="space-y-6">
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                            <SmartStatCard title="ارزش دفتری انبار (خرید)" value={formatCurrency(inventoryData.totalBookValue, storeSettings)} color="text-slate-600" icon={<InventoryIcon/>}/>
+                            {showCosts && <SmartStatCard title="ارزش دفتری انبار (خرید)" value={formatCurrency(inventoryData.totalBookValue, storeSettings)} color="text-slate-600" icon={<InventoryIcon/>}/>}
                             <SmartStatCard title="ارزش روز انبار (فروش)" value={formatCurrency(inventoryData.totalSalesValue, storeSettings)} color="text-blue-600" icon={<ReportsIcon/>}/>
-                            <SmartStatCard title="سود موجود در انبار" value={formatCurrency(inventoryData.projectedProfit, storeSettings)} color="text-emerald-600" icon={<DashboardIcon/>}/>
+                            {showCosts && <SmartStatCard title="سود موجود در انبار" value={formatCurrency(inventoryData.projectedProfit, storeSettings)} color="text-emerald-600" icon={<DashboardIcon/>}/>}
                         </div>
                         
-                        <div className="p-4 bg-blue-50 border-r-4 border-blue-600 rounded-l-xl flex flex-col gap-1">
+                        {showCosts && <div className="p-4 bg-blue-50 border-r-4 border-blue-600 rounded-l-xl flex flex-col gap-1">
                              <h4 className="font-black text-blue-800 text-sm">تجدید ارزیابی دارایی‌ها</h4>
                              <p className="text-xs text-blue-700 font-medium leading-relaxed">
                                 ارزش روز انبار بر اساس قیمت‌های فروش فعلی شما محاسبه شده است. مابه‌التفاوت ارزش دفتری (خرید) و ارزش روز، نشان‌دهنده سودی است که پس از فروش تمام اجناس فعلی عاید شما خواهد شد.
                              </p>
-                        </div>
+                        </div>}
 
                         <div className="hidden md:block bg-white rounded-2xl border border-slate-200 overflow-hidden">
                             <table className="min-w-full text-center table-zebra">
@@ -427,9 +432,9 @@ const Reports: React.FC = () => {
                                     <tr>
                                         <th className="p-4 text-right pr-8">نام محصول</th>
                                         <th className="p-4">موجودی</th>
-                                        <th className="p-4">ارزش دفتری ({storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})</th>
+                                        {showCosts && <th className="p-4">ارزش دفتری ({storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})</th>}
                                         <th className="p-4">ارزش روز ({storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})</th>
-                                        <th className="p-4">سود ناخالص واحد</th>
+                                        {showCosts && <th className="p-4">سود ناخالص واحد</th>}
                                     </tr>
                                 </thead>
                                 <tbody>
@@ -442,9 +447,9 @@ const Reports: React.FC = () => {
                                             <tr key={p.id} className="border-t">
                                                 <td className="p-4 font-bold text-slate-700 text-right pr-8">{p.name}</td>
                                                 <td className="p-4 font-mono font-bold">{stock}</td>
-                                                <td className="p-4 font-mono">{bookVal.toLocaleString(undefined, {maximumFractionDigits: 3})}</td>
+                                                {showCosts && <td className="p-4 font-mono">{bookVal.toLocaleString(undefined, {maximumFractionDigits: 3})}</td>}
                                                 <td className="p-4 font-mono text-blue-600 font-bold">{saleVal.toLocaleString(undefined, {maximumFractionDigits: 3})}</td>
-                                                <td className="p-4 text-emerald-600 font-black" dir="ltr">{(p.salePrice - avgPurc).toLocaleString(undefined, {maximumFractionDigits:1})}</td>
+                                                {showCosts && <td className="p-4 text-emerald-600 font-black" dir="ltr">{(p.salePrice - avgPurc).toLocaleString(undefined, {maximumFractionDigits:1})}</td>}
                                             </tr>
                                         )
                                     })}
@@ -498,7 +503,7 @@ const Reports: React.FC = () => {
                             <div className="space-y-4">
                                 <h3 className="font-black text-green-700 flex items-center gap-2 px-1"><div className="w-2 h-2 rounded-full bg-green-500"></div> دارایی‌ها</h3>
                                 <SmartStatCard title={`موجودی انبار (${storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})`} value={formatCurrency(financialPositionData.inventoryValue, storeSettings)} color="text-slate-800" />
-                                <SmartStatCard title="موجودی نقد (تخمینی)" value={formatCurrency(financialPositionData.cashInHand, storeSettings)} color="text-blue-700" icon={<SafeIcon />} />
+                                <SmartStatCard title="موجودی نقد (دفتر کل)" value={formatCurrency(financialPositionData.cashInHand, storeSettings)} color="text-blue-700" icon={<SafeIcon />} />
                                 <SmartStatCard title={`طلب از مشتریان (${storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})`} value={formatCurrency(financialPositionData.customerReceivables, storeSettings)} color="text-slate-800" />
                                 <SmartStatCard title="بسان‌کاری (طلب از امانات)" value={formatCurrency(financialPositionData.netDepositAsset, storeSettings)} color="text-blue-600" />
                                 <SmartStatCard title="کالای نرسیده (Deferred)" value={formatCurrency(financialPositionData.deferredAssets, storeSettings)} color="text-blue-600" />
@@ -509,6 +514,9 @@ const Reports: React.FC = () => {
                                 {financialPositionData.netDepositLiability > 0 && (
                                     <SmartStatCard title="موجودی امانی (بدهی جاری)" value={formatCurrency(financialPositionData.netDepositLiability, storeSettings)} color="text-indigo-600" />
                                 )}
+                                {Math.abs(financialPositionData.netTaxPayable) > 0.01 && (
+                                    <SmartStatCard title="مالیات پرداختنی (خالص)" value={formatCurrency(financialPositionData.netTaxPayable, storeSettings)} color="text-amber-600" />
+                                )}
                                 <div className="p-4 bg-slate-50 rounded-2xl border border-slate-200">
                                     <p className="text-[10px] font-black text-slate-400 uppercase mb-1">کل هزینه‌های انجام شده (از ابتدای کار)</p>
                                     <p className="font-black text-slate-700 text-lg" dir="ltr">{formatCurrency(expenses.reduce((s,e)=>s+(e.amountBase || e.amount), 0), storeSettings)}</p>
@@ -562,12 +570,12 @@ const Reports: React.FC = () => {
                         {/* Sub-Tabs & Filtering Controls */}
                         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 bg-slate-50/80 p-4 rounded-3xl border border-slate-100 shadow-sm">
                             <div className="flex gap-2 p-1 bg-white rounded-xl shadow-sm border">
-                                <button 
+                                {showCosts && <button 
                                     onClick={() => { setStatsType('purchases'); setSelectedEntityId(''); setSelectedProductId(''); }} 
                                     className={`px-6 py-2.5 rounded-lg text-sm font-black transition-all ${statsType === 'purchases' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-400 hover:text-blue-600'}`}
                                 >
                                     ورودی (خرید)
-                                </button>
+                                </button>}
                                 <button 
                                     onClick={() => { setStatsType('sales'); setSelectedEntityId(''); setSelectedProductId(''); }} 
                                     className={`px-6 py-2.5 rounded-lg text-sm font-black transition-all ${statsType === 'sales' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-400 hover:text-blue-600'}`}
@@ -644,7 +652,7 @@ const Reports: React.FC = () => {
                                                 <th className="p-4 text-xs font-black">{statsType === 'purchases' ? 'تأمین‌کننده' : 'مشتری'}</th>
                                                 <th className="p-4 text-xs font-black">قیمت معامله ({storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})</th>
                                                 <th className="p-4 text-xs font-black">تعداد</th>
-                                                {statsType === 'sales' && <th className="p-4 text-xs font-black">سود این ردیف ({storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})</th>}
+                                                {statsType === 'sales' && showCosts && <th className="p-4 text-xs font-black">سود این ردیف ({storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})</th>}
                                                 <th className="p-4 text-xs font-black">ارزش کل ({storeSettings.currencyConfigs[storeSettings.baseCurrency]?.name || storeSettings.baseCurrency})</th>
                                             </tr>
                                         </thead>
@@ -661,7 +669,7 @@ const Reports: React.FC = () => {
                                                         return priceBase.toLocaleString();
                                                     })()}</td>
                                                     <td className="p-4 font-bold text-slate-600">{formatStockToPackagesAndUnits(tx.quantity, storeSettings, (products.find(p=>p.id===selectedProductId)?.itemsPerPackage || 1))}</td>
-                                                    {statsType === 'sales' && <td className="p-4 font-black text-emerald-600" dir="ltr">{tx.profitBase.toLocaleString(undefined, {maximumFractionDigits: 3})}</td>}
+                                                    {statsType === 'sales' && showCosts && <td className="p-4 font-black text-emerald-600" dir="ltr">{tx.profitBase.toLocaleString(undefined, {maximumFractionDigits: 3})}</td>}
                                                     <td className="p-4 font-black text-blue-600" dir="ltr">{(tx.totalBase ?? tx.totalSaleBase).toLocaleString(undefined, {maximumFractionDigits: 3})}</td>
                                                 </tr>
                                             ))}
@@ -700,29 +708,131 @@ const Reports: React.FC = () => {
                         )}
                     </div>
                 );
-            case 'employees':
+            case 'shifts': {
+                const rangeShifts = shifts.filter(s => {
+                    const openedAt = new Date(s.openedAt).getTime();
+                    return openedAt >= dateRange.start.getTime() && openedAt <= dateRange.end.getTime();
+                });
+                const dateTime = (iso: string) => `${new Date(iso).toLocaleDateString('fa-IR')} ${new Date(iso).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}`;
                 return (
-                    <div className="p-5 bg-white rounded-2xl border border-slate-100 shadow-sm max-h-[60vh] overflow-y-auto">
-                        <h3 className="font-black text-slate-800 mb-6 flex items-center gap-2"><ReportsIcon className="w-6 h-6 text-blue-50"/> تاریخچه فعالیت کارکنان</h3>
-                        <div className="space-y-4">
-                            {activities.filter(a => {
-                                const t = new Date(a.timestamp).getTime();
-                                return t >= dateRange.start.getTime() && t <= dateRange.end.getTime();
-                            }).map(act => (
-                                <div key={act.id} className="flex gap-4 p-4 bg-slate-50/50 rounded-2xl border border-slate-100 items-start hover:bg-white transition-all group">
-                                    <div className="p-3 bg-white rounded-xl shadow-sm text-blue-600 group-hover:scale-110 transition-transform"><UserGroupIcon className="w-5 h-5"/></div>
-                                    <div className="flex-grow">
-                                        <div className="flex justify-between items-center mb-1">
-                                            <span className="font-black text-blue-800 text-sm md:text-base">{act.user}</span>
-                                            <span className="text-[10px] text-slate-400 font-bold">{new Date(act.timestamp).toLocaleString('fa-IR')}</span>
-                                        </div>
-                                        <p className="text-xs md:text-sm text-slate-600 font-medium leading-relaxed">{act.description}</p>
-                                    </div>
-                                </div>
-                            ))}
+                    <div className="bg-white rounded-3xl border border-slate-200 shadow-xl overflow-x-auto">
+                        <table className="min-w-full text-center">
+                            <thead className="bg-slate-50 border-b border-slate-200">
+                                <tr>
+                                    <th className="p-4 font-black text-slate-500 text-sm">دستگاه</th>
+                                    <th className="p-4 font-black text-slate-500 text-sm">باز شده</th>
+                                    <th className="p-4 font-black text-slate-500 text-sm">بسته شده</th>
+                                    <th className="p-4 font-black text-slate-500 text-sm">صندوقدار</th>
+                                    <th className="p-4 font-black text-slate-500 text-sm">اضافه / کسری</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rangeShifts.map(shift => {
+                                    const variance = shiftVariance(shift);
+                                    const nonZero = variance ? CURRENCIES.filter(c => Math.abs(variance[c]) > 0.01) : [];
+                                    return (
+                                        <tr key={shift.id} onClick={() => setZReportShift(shift)} className="border-b last:border-0 hover:bg-blue-50 transition-colors cursor-pointer">
+                                            <td className="p-4 font-bold text-slate-800">{shift.deviceName}</td>
+                                            <td className="p-4 text-sm text-slate-600">{dateTime(shift.openedAt)}</td>
+                                            <td className="p-4 text-sm text-slate-600">{shift.closedAt ? dateTime(shift.closedAt) : <span className="px-2 py-1 rounded-full text-xs font-bold bg-emerald-100 text-emerald-700">باز</span>}</td>
+                                            <td className="p-4 text-sm font-bold text-slate-700">{shift.closedBy && shift.closedBy !== shift.openedBy ? `${shift.openedBy} / ${shift.closedBy}` : shift.openedBy}</td>
+                                            <td className="p-4 font-mono text-sm" dir="ltr">
+                                                {!variance ? '—' : nonZero.length === 0 ? <span className="text-emerald-600 font-bold">0</span> : nonZero.map(c => (
+                                                    <span key={c} className={`block font-bold ${variance[c] < 0 ? 'text-red-600' : 'text-emerald-600'}`}>{variance[c].toLocaleString(undefined, { maximumFractionDigits: 2 })} {c}</span>
+                                                ))}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                                {rangeShifts.length === 0 && (
+                                    <tr><td colSpan={5} className="p-20 text-slate-400 font-bold">در این بازه شیفتی ثبت نشده است.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            }
+            case 'promotions':
+                return (
+                    <div className="bg-white rounded-3xl border border-slate-200 shadow-xl overflow-x-auto">
+                        <table className="min-w-full text-center">
+                            <thead className="bg-slate-50 border-b border-slate-200">
+                                <tr>
+                                    <th className="p-4 font-black text-slate-500 text-sm text-right pr-8">طرح تخفیف</th>
+                                    <th className="p-4 font-black text-slate-500 text-sm">تعداد فاکتور</th>
+                                    <th className="p-4 font-black text-slate-500 text-sm">دفعات اعمال</th>
+                                    <th className="p-4 font-black text-slate-500 text-sm">مجموع تخفیف</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {promotionUsage.map(row => (
+                                    <tr key={row.id} className="border-b last:border-0 hover:bg-blue-50 transition-colors">
+                                        <td className="p-4 text-right pr-8 font-bold text-slate-800">{row.name}</td>
+                                        <td className="p-4 font-bold text-slate-600">{row.invoices.toLocaleString()}</td>
+                                        <td className="p-4 font-bold text-slate-600">{row.times.toLocaleString()}</td>
+                                        <td className="p-4 font-black text-emerald-600" dir="ltr">{formatCurrency(row.discount, storeSettings)}</td>
+                                    </tr>
+                                ))}
+                                {promotionUsage.length === 0 && (
+                                    <tr><td colSpan={4} className="p-20 text-slate-400 font-bold">در این بازه طرح تخفیفی اعمال نشده است.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            case 'tax': {
+                const periodName = taxPeriod.period === 'year' ? 'کل سال'
+                    : typeof taxPeriod.period === 'number' ? JALALI_MONTHS.find(m => m.value === taxPeriod.period)?.name
+                    : JALALI_SEASONS.find(q => q.value === taxPeriod.period)?.name;
+                return (
+                    <div className="space-y-6">
+                        <div className="flex flex-wrap items-center gap-3 no-print">
+                            <input type="number" value={taxPeriod.year} onChange={e => setTaxPeriod(p => ({ ...p, year: parseInt(e.target.value, 10) || p.year }))} className="w-24 p-2 border rounded-md text-center font-bold" />
+                            <select
+                                value={String(taxPeriod.period)}
+                                onChange={e => setTaxPeriod(p => ({ ...p, period: /^\d+$/.test(e.target.value) ? Number(e.target.value) : e.target.value as JalaliPeriod }))}
+                                className="p-2 border rounded-md bg-white font-bold"
+                            >
+                                <optgroup label="ماه">{JALALI_MONTHS.map(m => <option key={m.value} value={m.value}>{m.name}</option>)}</optgroup>
+                                <optgroup label="فصل">{JALALI_SEASONS.map(q => <option key={String(q.value)} value={String(q.value)}>{q.name}</option>)}</optgroup>
+                                <option value="year">کل سال</option>
+                            </select>
+                        </div>
+                        <p className="font-black text-slate-700">دوره مالیاتی: {periodName} {taxPeriod.year.toLocaleString('fa-IR', { useGrouping: false })}</p>
+                        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                            <SmartStatCard title="مالیات فروش" value={formatCurrency(taxSummary.outputTax, storeSettings)} color="text-blue-600" icon={<POSIcon/>}/>
+                            <SmartStatCard title="مالیات مرجوعی فروش" value={formatCurrency(taxSummary.returnedTax, storeSettings)} color="text-red-500"/>
+                            <SmartStatCard title="مالیات خرید (قابل کسر)" value={formatCurrency(taxSummary.inputTax - taxSummary.purchaseReturnTax, storeSettings)} color="text-emerald-600" icon={<TruckIcon/>}/>
+                            <SmartStatCard title={taxSummary.netPayable >= 0 ? 'خالص مالیات پرداختنی' : 'مالیات قابل استرداد'} value={formatCurrency(Math.abs(taxSummary.netPayable), storeSettings)} color="text-amber-600" icon={<AccountingIcon/>}/>
+                        </div>
+                        <div className="bg-white rounded-3xl border border-slate-200 shadow-xl overflow-x-auto">
+                            <table className="min-w-full text-center">
+                                <thead className="bg-slate-50 border-b border-slate-200">
+                                    <tr>
+                                        <th className="p-4 font-black text-slate-500 text-sm text-right pr-8">نرخ مالیات</th>
+                                        <th className="p-4 font-black text-slate-500 text-sm">فروش خالص (بدون مالیات)</th>
+                                        <th className="p-4 font-black text-slate-500 text-sm">مالیات</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {taxSummary.rows.map(row => (
+                                        <tr key={row.rate} className="border-b last:border-0 hover:bg-blue-50 transition-colors">
+                                            <td className="p-4 text-right pr-8 font-bold text-slate-800">{row.rate > 0 ? `${row.rate}٪` : 'معاف از مالیات'}</td>
+                                            <td className="p-4 font-bold text-slate-600" dir="ltr">{formatCurrency(row.taxable, storeSettings)}</td>
+                                            <td className="p-4 font-black text-amber-600" dir="ltr">{formatCurrency(row.tax, storeSettings)}</td>
+                                        </tr>
+                                    ))}
+                                    {taxSummary.rows.length === 0 && (
+                                        <tr><td colSpan={3} className="p-20 text-slate-400 font-bold">در این دوره فروشی ثبت نشده است.</td></tr>
+                                    )}
+                                </tbody>
+                            </table>
                         </div>
                     </div>
                 );
+            }
+            case 'audit':
+                return <AuditLogViewer dateRange={dateRange} />;
             default: return null;
         }
     }
@@ -734,6 +844,7 @@ const Reports: React.FC = () => {
                     {printModalContent.content}
                 </ReportPrintPreviewModal>
             )}
+            {zReportShift && <ZReportModal shift={zReportShift} onClose={() => setZReportShift(null)} />}
 
             <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
                 <h1 className="text-3xl md:text-4xl font-black text-slate-800">مرکز گزارشات</h1>
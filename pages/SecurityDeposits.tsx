@@ -19,7 +19,7 @@ const Modal: React.FC<{ title: string, onClose: () => void, children: React.Reac
 );
 
 const SecurityDeposits: React.FC = () => {
-    const { depositHolders, depositTransactions, addDepositHolder, deleteDepositHolder, processDepositTransaction, hasPermission, storeSettings } = useAppContext();
+    const { depositHolders, depositTransactions, getPartyTransactions, addDepositHolder, deleteDepositHolder, processDepositTransaction, hasPermission, storeSettings } = useAppContext();
     
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
     const [isTransactionModalOpen, setIsTransactionModalOpen] = useState(false);
@@ -31,10 +31,17 @@ const SecurityDeposits: React.FC = () => {
     const [transactionAmount, setTransactionAmount] = useState<string>('');
     const [exchangeRate, setExchangeRate] = useState<string>('1');
     const [historyModalHolder, setHistoryModalHolder] = useState<DepositHolder | null>(null);
+    const [historyTransactions, setHistoryTransactions] = useState<DepositTransaction[]>([]);
     const [toast, setToast] = useState('');
 
     const showToast = (msg: string) => { setToast(msg); setTimeout(() => setToast(''), 3000); };
 
+    // The whole history is read from the database; state only holds the recent window
+    const handleViewHistory = async (holder: DepositHolder) => {
+        setHistoryTransactions(await getPartyTransactions('depositHolder', holder.id));
+        setHistoryModalHolder(holder);
+    };
+
     const handleOpenTransactionModal = (holder: DepositHolder, type: 'deposit' | 'withdrawal') => {
         setSelectedHolder(holder);
         setTransactionType(type);
@@ -167,7 +174,7 @@ const SecurityDeposits: React.FC = () => {
                                             </td>
                                             <td className="p-4">
                                                 <div className="flex justify-center gap-2">
-                                                    <button onClick={() => setHistoryModalHolder(h)} className="p-2 rounded-xl text-indigo-600 hover:bg-indigo-100 transition-colors" title="ریز تراکنش‌ها"><EyeIcon className="w-6 h-6"/></button>
+                                                    <button onClick={() => handleViewHistory(h)} className="p-2 rounded-xl text-indigo-600 hover:bg-indigo-100 transition-colors" title="ریز تراکنش‌ها"><EyeIcon className="w-6 h-6"/></button>
                                                     <button onClick={() => handleOpenTransactionModal(h, 'deposit')} className="bg-emerald-500 text-white px-3 py-2 rounded-xl text-xs font-black shadow-md hover:shadow-emerald-100 transition-all">واریز</button>
                                                     <button onClick={() => handleOpenTransactionModal(h, 'withdrawal')} className="bg-orange-500 text-white px-3 py-2 rounded-xl text-xs font-black shadow-md hover:shadow-orange-100 transition-all">برداشت</button>
                                                     <button onClick={() => handleDelete(h)} className={`p-2 rounded-xl transition-all ${(h.balanceAFN===0 && h.balanceUSD===0 && h.balanceIRT===0) ? 'text-red-400 hover:bg-red-50' : 'text-slate-200 cursor-not-allowed'}`} disabled={h.balanceAFN!==0 || h.balanceUSD!==0 || h.balanceIRT!==0}><TrashIcon className="w-5 h-5"/></button>
@@ -192,7 +199,7 @@ const SecurityDeposits: React.FC = () => {
                                             <p className="text-xs text-slate-400">{h.phone}</p>
                                         </div>
                                         <div className="flex gap-1">
-                                            <button onClick={() => setHistoryModalHolder(h)} className="p-2 bg-indigo-50 rounded-xl text-indigo-600"><EyeIcon className="w-5 h-5"/></button>
+                                            <button onClick={() => handleViewHistory(h)} className="p-2 bg-indigo-50 rounded-xl text-indigo-600"><EyeIcon className="w-5 h-5"/></button>
                                             <button onClick={() => handleDelete(h)} className={`p-2 bg-slate-50 rounded-xl ${h.balanceAFN===0 ? 'text-red-400' : 'text-slate-200'}`}><TrashIcon className="w-5 h-5"/></button>
                                         </div>
                                     </div>
@@ -367,7 +374,7 @@ const SecurityDeposits: React.FC = () => {
             {historyModalHolder && (
                 <DepositHistoryModal 
                     holder={historyModalHolder} 
-                    transactions={depositTransactions.filter(t => t.holderId === historyModalHolder.id)}
+                    transactions={historyTransactions}
                     onClose={() => setHistoryModalHolder(null)}
                 />
             )}
@@ -1,10 +1,13 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useAppContext } from '../AppContext';
-import type { StoreSettings, Service, Role, User, Permission } from '../types';
-import { PlusIcon, TrashIcon, DownloadIcon, UploadIcon, UserGroupIcon, KeyIcon, WarningIcon, CheckIcon, SettingsIcon } from '../components/icons';
+import type { ShopDevice, DeviceStatus } from '../services/supabaseService';
+import type { StoreSettings, Service, Role, PriceList, PriceListKind, Promotion, PromotionKind, RoleLimits, User, Permission, IntegrityReport, BalanceSnapshot, LedgerPartyType } from '../types';
+import { PlusIcon, EditIcon, TrashIcon, DownloadIcon, UploadIcon, UserGroupIcon, KeyIcon, WarningIcon, CheckIcon, SettingsIcon } from '../components/icons';
 import Toast from '../components/Toast';
 import { formatCurrency, toEnglishDigits } from '../utils/formatters';
 import { ALL_PERMISSIONS, groupPermissions } from '../utils/permissions';
+import { PRICE_LIST_KIND_LABELS, isPriceListActive, isWithinValidity } from '../utils/pricing';
+import { PROMOTION_KIND_LABELS } from '../utils/promotions';
 
 interface TabProps {
     showToast: (message: string) => void;
@@ -105,7 +108,7 @@ const AlertsTab: React.FC<TabProps> = ({ showToast }) => {
 };
 
 const CustomizationTab: React.FC<TabProps> = ({ showToast }) => {
-    const { storeSettings, updateSettings, products, saleInvoices, purchaseInvoices } = useAppContext();
+    const { storeSettings, updateSettings, products, saleInvoices, purchaseInvoices, hasOlderInvoices } = useAppContext();
     const [formData, setFormData] = useState({
         packageLabel: storeSettings.packageLabel || 'بسته',
         unitLabel: storeSettings.unitLabel || 'عدد',
@@ -113,7 +116,7 @@ const CustomizationTab: React.FC<TabProps> = ({ showToast }) => {
         currencyConfigs: storeSettings.currencyConfigs
     });
 
-    const isSystemEmpty = products.length === 0 && saleInvoices.length === 0 && purchaseInvoices.length === 0;
+    const isSystemEmpty = products.length === 0 && saleInvoices.length === 0 && purchaseInvoices.length === 0 && !hasOlderInvoices;
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
@@ -248,15 +251,18 @@ const ServicesTab: React.FC<TabProps> = ({ showToast }) => {
     const { services, addService, deleteService, storeSettings } = useAppContext();
     const [name, setName] = useState('');
     const [price, setPrice] = useState('');
+    const [taxClassId, setTaxClassId] = useState('');
+    const taxClasses = storeSettings.taxClasses || [];
 
     const handleAddService = () => {
         if (!name.trim() || !price || Number(price) <= 0) {
             showToast("لطفاً نام و قیمت معتبر برای خدمت وارد کنید.");
             return;
         }
-        addService({ name: name.trim(), price: Number(price) });
+        addService({ name: name.trim(), price: Number(price), taxClassId: taxClassId || undefined });
         setName('');
         setPrice('');
+        setTaxClassId('');
         showToast("خدمت جدید با موفقیت اضافه شد.");
     };
 
@@ -269,6 +275,12 @@ const ServicesTab: React.FC<TabProps> = ({ showToast }) => {
                 <div className="flex flex-col md:flex-row gap-3">
                     <input value={name} onChange={e => setName(e.target.value)} placeholder="نام خدمت (مثال: فتوکپی)" className="flex-grow p-3.5 border border-slate-200 rounded-xl focus:ring-4 focus:ring-blue-50 outline-none transition-all" />
                     <input value={price} onChange={e => setPrice(toEnglishDigits(e.target.value).replace(/[^0-9]/g, ''))} type="text" inputMode="numeric" placeholder={`قیمت (${storeSettings.currencyName})`} className="md:w-48 p-3.5 border border-slate-200 rounded-xl focus:ring-4 focus:ring-blue-50 outline-none transition-all font-bold" />
+                    {taxClasses.length > 0 && (
+                        <select value={taxClassId} onChange={e => setTaxClassId(e.target.value)} className="md:w-44 p-3.5 border border-slate-200 rounded-xl bg-white font-bold text-sm">
+                            <option value="">بدون مالیات</option>
+                            {taxClasses.map(c => <option key={c.id} value={c.id}>{c.name} ({c.rate}٪)</option>)}
+                        </select>
+                    )}
                     <button onClick={handleAddService} className="flex items-center justify-center bg-blue-600 text-white px-6 py-3.5 rounded-xl shadow-lg shadow-blue-100 btn-primary active:scale-[0.98]">
                         <PlusIcon className="w-5 h-5 ml-2" /> <span className="font-bold">افزودن</span>
                     </button>
@@ -280,7 +292,10 @@ const ServicesTab: React.FC<TabProps> = ({ showToast }) => {
                     <div key={service.id} className="flex justify-between items-center p-4 bg-white rounded-2xl shadow-sm border border-slate-100 hover:border-blue-200 transition-all">
                         <div>
                             <p className="font-black text-slate-800 text-lg">{service.name}</p>
-                            <p className="text-sm text-blue-600 font-bold">{formatCurrency(service.price, storeSettings)}</p>
+                            <p className="text-sm text-blue-600 font-bold">
+                                {formatCurrency(service.price, storeSettings)}
+                                {service.taxClassId && <span className="text-amber-600"> · مالیات {taxClasses.find(c => c.id === service.taxClassId)?.rate ?? 0}٪</span>}
+                            </p>
                         </div>
                         <button onClick={() => deleteService(service.id)} className="p-3 rounded-xl text-red-500 hover:bg-red-50 active:bg-red-100 transition-colors">
                            <TrashIcon className="w-6 h-6" />
@@ -297,10 +312,483 @@ const ServicesTab: React.FC<TabProps> = ({ showToast }) => {
     );
 };
 
+const TaxTab: React.FC<TabProps> = ({ showToast }) => {
+    const { storeSettings, updateSettings, products, services } = useAppContext();
+    // Rates are edited as text and parsed on save
+    const [taxClasses, setTaxClasses] = useState((storeSettings.taxClasses || []).map(c => ({ ...c, rate: String(c.rate) })));
+    const [pricesIncludeTax, setPricesIncludeTax] = useState(!!storeSettings.pricesIncludeTax);
+    const [taxNumber, setTaxNumber] = useState(storeSettings.taxNumber || '');
+
+    const updateClass = (id: string, patch: Partial<{ name: string; rate: string }>) =>
+        setTaxClasses(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+
+    const removeClass = (id: string) => {
+        const inUse = products.filter(p => p.taxClassId === id).length + services.filter(s => s.taxClassId === id).length;
+        if (inUse > 0 && !window.confirm(`${inUse} کالا و خدمت به این نرخ مالیات وصل است و پس از حذف بدون مالیات فروخته می‌شود. ادامه می‌دهید؟`)) return;
+        setTaxClasses(prev => prev.filter(c => c.id !== id));
+    };
+
+    const handleSave = () => {
+        if (taxClasses.some(c => !c.name.trim())) { showToast('نام همه نرخ‌های مالیات را وارد کنید.'); return; }
+        if (taxClasses.some(c => !(Number(c.rate) > 0) || Number(c.rate) >= 100)) { showToast('نرخ مالیات باید بیشتر از ۰ و کمتر از ۱۰۰ درصد باشد.'); return; }
+        updateSettings({
+            ...storeSettings,
+            taxClasses: taxClasses.map(c => ({ id: c.id, name: c.name.trim(), rate: Number(c.rate) })),
+            pricesIncludeTax,
+            taxNumber: taxNumber.trim() || undefined,
+        });
+        showToast('تنظیمات مالیات ذخیره شد.');
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-6">
+            <h3 className="text-xl font-bold text-slate-800 border-b pb-3 hidden md:block">مالیات بر ارزش افزوده</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-2">شماره ثبت مالیاتی فروشگاه</label>
+                    <input value={taxNumber} onChange={e => setTaxNumber(toEnglishDigits(e.target.value))} placeholder="روی فاکتورهای مالیاتی چاپ می‌شود" className="w-full p-3.5 border border-slate-200 rounded-xl font-mono focus:ring-4 focus:ring-blue-50 outline-none" />
+                </div>
+                <label className="flex items-center gap-3 p-4 bg-slate-50 rounded-xl border border-slate-200 cursor-pointer self-end">
+                    <input type="checkbox" checked={pricesIncludeTax} onChange={e => setPricesIncludeTax(e.target.checked)} className="w-5 h-5" />
+                    <span className="text-sm font-bold text-slate-700">قیمت‌های فروش شامل مالیات هستند</span>
+                </label>
+            </div>
+            <p className="text-sm text-slate-500">
+                {pricesIncludeTax
+                    ? 'مالیات از داخل قیمت فروش جدا می‌شود و مبلغ فاکتور تغییر نمی‌کند.'
+                    : 'مالیات هنگام فروش به قیمت کالا اضافه می‌شود.'}
+                {' '}نرخ هر کالا در فرم کالا و نرخ هر خدمت در بخش خدمات انتخاب می‌شود.
+            </p>
+
+            <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden">
+                <div className="flex justify-between items-center p-3 bg-slate-50 border-b">
+                    <p className="text-xs font-black text-slate-500">نرخ‌های مالیات</p>
+                    <button onClick={() => setTaxClasses(prev => [...prev, { id: crypto.randomUUID(), name: '', rate: '' }])} className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-xl font-bold text-sm"><PlusIcon className="w-4 h-4 ml-1" /> نرخ جدید</button>
+                </div>
+                <div className="p-3 space-y-2">
+                    {taxClasses.map(c => (
+                        <div key={c.id} className="flex items-center gap-3">
+                            <input value={c.name} onChange={e => updateClass(c.id, { name: e.target.value })} placeholder="نام (مثال: نرخ عمومی)" className="flex-grow p-2.5 border border-slate-200 rounded-xl text-sm font-bold" />
+                            <input value={c.rate} onChange={e => updateClass(c.id, { rate: toEnglishDigits(e.target.value).replace(/[^0-9.]/g, '') })} inputMode="decimal" placeholder="٪" className="w-24 p-2.5 border border-slate-200 rounded-xl text-center font-mono" />
+                            <button onClick={() => removeClass(c.id)} className="p-2 rounded-lg text-red-500 hover:bg-red-50"><TrashIcon className="w-5 h-5" /></button>
+                        </div>
+                    ))}
+                    {taxClasses.length === 0 && <p className="p-6 text-center text-slate-400 font-bold">هنوز نرخ مالیاتی تعریف نکرده‌اید.</p>}
+                </div>
+            </div>
+
+            <div className="flex justify-end">
+                <button onClick={handleSave} className="px-8 py-3 rounded-xl bg-blue-600 text-white font-bold shadow-lg shadow-blue-100 btn-primary">ذخیره تنظیمات مالیات</button>
+            </div>
+        </div>
+    );
+};
+
+const CustomerPicker: React.FC<{ title: string; selectedIds: string[]; onChange: (ids: string[]) => void }> = ({ title, selectedIds, onChange }) => {
+    const { customers } = useAppContext();
+    const [search, setSearch] = useState('');
+    const matching = customers.filter(c => c.name.includes(search.trim()));
+    const toggle = (customerId: string) => onChange(selectedIds.includes(customerId) ? selectedIds.filter(id => id !== customerId) : [...selectedIds, customerId]);
+
+    return (
+        <div className="bg-slate-50 p-4 rounded-2xl border border-slate-200">
+            <p className="text-xs font-black text-slate-500 mb-3">{title} ({selectedIds.length})</p>
+            <input value={search} onChange={e => setSearch(e.target.value)} placeholder="جستجوی مشتری..." className="w-full p-2.5 border border-slate-200 rounded-xl mb-3 text-sm" />
+            <div className="max-h-48 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-1">
+                {matching.map(c => (
+                    <label key={c.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-white cursor-pointer text-sm font-bold text-slate-700">
+                        <input type="checkbox" checked={selectedIds.includes(c.id)} onChange={() => toggle(c.id)} className="w-4 h-4" />
+                        {c.name}
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Prices are edited as text and parsed on save
+interface PriceListForm {
+    id: string;
+    name: string;
+    kind: PriceListKind;
+    customerIds: string[];
+    validFrom: string;
+    validTo: string;
+    entries: { itemId: string; itemType: 'product' | 'service'; unitPrice: string; packagePrice: string }[];
+}
+
+const toPriceListForm = (list?: PriceList): PriceListForm => list ? {
+    ...list, validFrom: list.validFrom || '', validTo: list.validTo || '',
+    entries: list.entries.map(e => ({ itemId: e.itemId, itemType: e.itemType, unitPrice: String(e.unitPrice), packagePrice: e.packagePrice !== undefined ? String(e.packagePrice) : '' }))
+} : { id: crypto.randomUUID(), name: '', kind: 'wholesale', customerIds: [], validFrom: '', validTo: '', entries: [] };
+
+const PriceListsTab: React.FC<TabProps> = ({ showToast }) => {
+    const { priceLists, products, services, storeSettings, savePriceList, deletePriceList } = useAppContext();
+    const [form, setForm] = useState<PriceListForm | null>(null);
+    const [newItemKey, setNewItemKey] = useState('');
+
+    const itemName = (itemId: string, itemType: 'product' | 'service') =>
+        (itemType === 'product' ? products.find(p => p.id === itemId)?.name : services.find(s => s.id === itemId)?.name) || 'حذف‌شده';
+    const numeric = (value: string) => toEnglishDigits(value).replace(/[^0-9.]/g, '');
+    const updateEntry = (index: number, patch: Partial<PriceListForm['entries'][number]>) =>
+        setForm(prev => prev && { ...prev, entries: prev.entries.map((e, i) => i === index ? { ...e, ...patch } : e) });
+
+    const addEntry = () => {
+        if (!form || !newItemKey) return;
+        const [itemType, itemId] = newItemKey.split(':') as ['product' | 'service', string];
+        if (form.entries.some(e => e.itemId === itemId && e.itemType === itemType)) { showToast('این قلم در لیست وجود دارد.'); return; }
+        const current = itemType === 'product' ? products.find(p => p.id === itemId)?.salePrice : services.find(s => s.id === itemId)?.price;
+        setForm({ ...form, entries: [...form.entries, { itemId, itemType, unitPrice: current ? String(current) : '', packagePrice: '' }] });
+        setNewItemKey('');
+    };
+
+    const handleSave = async () => {
+        if (!form) return;
+        const result = await savePriceList({
+            id: form.id, name: form.name, kind: form.kind, customerIds: form.customerIds,
+            validFrom: form.validFrom || undefined, validTo: form.validTo || undefined,
+            entries: form.entries.map(e => ({ itemId: e.itemId, itemType: e.itemType, unitPrice: Number(e.unitPrice) || 0, ...(e.packagePrice ? { packagePrice: Number(e.packagePrice) || 0 } : {}) }))
+        });
+        showToast(result.message);
+        if (result.success) setForm(null);
+    };
+
+    const handleDelete = async (list: PriceList) => {
+        if (!window.confirm(`لیست قیمت «${list.name}» حذف شود؟ فاکتورهای قبلی تغییر نمی‌کنند.`)) return;
+        const result = await deletePriceList(list.id);
+        showToast(result.message);
+    };
+
+    if (form) {
+        return (
+            <div className="max-w-4xl mx-auto space-y-6">
+                <h3 className="text-xl font-bold text-slate-800 border-b pb-3 hidden md:block">{priceLists.some(l => l.id === form.id) ? 'ویرایش لیست قیمت' : 'لیست قیمت جدید'}</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="نام لیست (مثال: عمده‌فروشی)" className="p-3.5 border border-slate-200 rounded-xl focus:ring-4 focus:ring-blue-50 outline-none" />
+                    <select value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as PriceListKind })} className="p-3.5 border border-slate-200 rounded-xl bg-white font-bold">
+                        {(Object.keys(PRICE_LIST_KIND_LABELS) as PriceListKind[]).map(k => <option key={k} value={k}>{PRICE_LIST_KIND_LABELS[k]}</option>)}
+                    </select>
+                    <label className="flex items-center gap-2 text-sm font-bold text-slate-600">از تاریخ
+                        <input type="date" value={form.validFrom} onChange={e => setForm({ ...form, validFrom: e.target.value })} className="flex-grow p-3 border border-slate-200 rounded-xl" />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm font-bold text-slate-600">تا تاریخ
+                        <input type="date" value={form.validTo} onChange={e => setForm({ ...form, validTo: e.target.value })} className="flex-grow p-3 border border-slate-200 rounded-xl" />
+                    </label>
+                </div>
+
+                {form.kind === 'retail' ? (
+                    <p className="text-sm font-bold text-slate-500 bg-slate-50 p-3 rounded-xl border">لیست خرده‌فروشی برای همه فروش‌ها، از جمله مشتریان گذری، اعمال می‌شود.</p>
+                ) : (
+                    <CustomerPicker title="مشتریان این لیست" selectedIds={form.customerIds} onChange={customerIds => setForm({ ...form, customerIds })} />
+                )}
+
+                <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden">
+                    <div className="flex flex-col md:flex-row gap-2 p-3 bg-slate-50 border-b">
+                        <select value={newItemKey} onChange={e => setNewItemKey(e.target.value)} className="flex-grow p-2.5 border border-slate-200 rounded-xl bg-white text-sm">
+                            <option value="">انتخاب کالا یا خدمت...</option>
+                            <optgroup label="کالاها">{products.map(p => <option key={p.id} value={`product:${p.id}`}>{p.name}</option>)}</optgroup>
+                            <optgroup label="خدمات">{services.map(sv => <option key={sv.id} value={`service:${sv.id}`}>{sv.name}</option>)}</optgroup>
+                        </select>
+                        <button onClick={addEntry} disabled={!newItemKey} className="flex items-center justify-center bg-blue-600 text-white px-5 py-2.5 rounded-xl font-bold disabled:opacity-50"><PlusIcon className="w-5 h-5 ml-1" /> افزودن</button>
+                    </div>
+                    <table className="min-w-full text-sm text-center">
+                        <thead className="bg-slate-50 text-slate-500">
+                            <tr>
+                                <th className="p-3 text-right">قلم</th>
+                                <th className="p-3">قیمت واحد ({storeSettings.baseCurrency})</th>
+                                <th className="p-3">قیمت هر {storeSettings.packageLabel || 'بسته'}</th>
+                                <th className="p-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {form.entries.map((entry, index) => {
+                                const perPackage = entry.itemType === 'product' ? products.find(p => p.id === entry.itemId)?.itemsPerPackage || 1 : 1;
+                                return (
+                                    <tr key={`${entry.itemType}:${entry.itemId}`} className="border-t">
+                                        <td className="p-2 text-right font-bold text-slate-700">{itemName(entry.itemId, entry.itemType)}</td>
+                                        <td className="p-2"><input value={entry.unitPrice} onChange={e => updateEntry(index, { unitPrice: numeric(e.target.value) })} inputMode="decimal" className="w-28 p-2 border border-slate-200 rounded-lg text-center font-mono" /></td>
+                                        <td className="p-2">
+                                            {perPackage > 1
+                                                ? <input value={entry.packagePrice} onChange={e => updateEntry(index, { packagePrice: numeric(e.target.value) })} inputMode="decimal" placeholder={`${perPackage} عدد`} className="w-28 p-2 border border-slate-200 rounded-lg text-center font-mono" />
+                                                : <span className="text-slate-300">—</span>}
+                                        </td>
+                                        <td className="p-2"><button onClick={() => setForm({ ...form, entries: form.entries.filter((_, i) => i !== index) })} className="p-2 rounded-lg text-red-500 hover:bg-red-50"><TrashIcon className="w-5 h-5" /></button></td>
+                                    </tr>
+                                );
+                            })}
+                            {form.entries.length === 0 && <tr><td colSpan={4} className="p-8 text-slate-400 font-bold">هنوز قلمی به این لیست اضافه نشده است.</td></tr>}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex gap-3 justify-end">
+                    <button onClick={() => setForm(null)} className="px-6 py-3 rounded-xl bg-slate-100 text-slate-600 font-bold hover:bg-slate-200">انصراف</button>
+                    <button onClick={handleSave} className="px-8 py-3 rounded-xl bg-blue-600 text-white font-bold shadow-lg shadow-blue-100 btn-primary">ذخیره لیست</button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-4xl mx-auto">
+            <div className="flex justify-between items-center border-b pb-3 mb-6">
+                <h3 className="text-xl font-bold text-slate-800">لیست‌های قیمت</h3>
+                <button onClick={() => setForm(toPriceListForm())} className="flex items-center bg-blue-600 text-white px-5 py-2.5 rounded-xl shadow-lg shadow-blue-100 btn-primary font-bold"><PlusIcon className="w-5 h-5 ml-1" /> لیست جدید</button>
+            </div>
+            <p className="text-sm text-slate-500 mb-4">با انتخاب مشتری در صفحه فروش، قیمت ویژه او، سپس لیست عمده‌ای که در آن است و در نهایت لیست خرده‌فروشی اعمال می‌شود. اقلامی که در هیچ لیستی نیستند با قیمت فروش خودشان فروخته می‌شوند.</p>
+            <div className="space-y-3">
+                {priceLists.map(list => (
+                    <div key={list.id} className="flex justify-between items-center p-4 bg-white rounded-2xl shadow-sm border border-slate-100 hover:border-blue-200 transition-all">
+                        <div>
+                            <p className="font-black text-slate-800 text-lg flex items-center gap-2">
+                                {list.name}
+                                <span className="px-2 py-0.5 rounded-full text-[11px] font-bold bg-indigo-50 text-indigo-600">{PRICE_LIST_KIND_LABELS[list.kind]}</span>
+                                {!isPriceListActive(list) && <span className="px-2 py-0.5 rounded-full text-[11px] font-bold bg-slate-100 text-slate-500">غیرفعال</span>}
+                            </p>
+                            <p className="text-sm text-slate-500 font-bold">
+                                {list.entries.length} قلم{list.kind !== 'retail' && ` · ${list.customerIds.length} مشتری`}
+                                {(list.validFrom || list.validTo) && ` · ${list.validFrom ? new Date(list.validFrom).toLocaleDateString('fa-IR') : '...'} تا ${list.validTo ? new Date(list.validTo).toLocaleDateString('fa-IR') : '...'}`}
+                            </p>
+                        </div>
+                        <div className="flex gap-1">
+                            <button onClick={() => setForm(toPriceListForm(list))} className="p-3 rounded-xl text-blue-600 hover:bg-blue-50 transition-colors"><EditIcon className="w-6 h-6" /></button>
+                            <button onClick={() => handleDelete(list)} className="p-3 rounded-xl text-red-500 hover:bg-red-50 transition-colors"><TrashIcon className="w-6 h-6" /></button>
+                        </div>
+                    </div>
+                ))}
+                {priceLists.length === 0 && (
+                    <div className="text-center py-12 border-2 border-dashed border-slate-200 rounded-3xl">
+                        <p className="text-slate-400 font-bold">هنوز لیست قیمتی تعریف نکرده‌اید.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// Numbers are edited as text and parsed on save
+interface PromotionForm {
+    id: string;
+    name: string;
+    kind: PromotionKind;
+    active: boolean;
+    validFrom: string;
+    validTo: string;
+    productIds: string[];
+    manufacturers: string[];
+    customerIds: string[];
+    percentOff: string;
+    buyQuantity: string;
+    freeQuantity: string;
+    bundleItems: { productId: string; quantity: string }[];
+    bundlePrice: string;
+}
+
+const toPromotionForm = (promotion?: Promotion): PromotionForm => promotion ? {
+    ...promotion, validFrom: promotion.validFrom || '', validTo: promotion.validTo || '',
+    percentOff: promotion.percentOff !== undefined ? String(promotion.percentOff) : '',
+    buyQuantity: promotion.buyQuantity !== undefined ? String(promotion.buyQuantity) : '',
+    freeQuantity: promotion.freeQuantity !== undefined ? String(promotion.freeQuantity) : '',
+    bundleItems: (promotion.bundleItems || []).map(b => ({ productId: b.productId, quantity: String(b.quantity) })),
+    bundlePrice: promotion.bundlePrice !== undefined ? String(promotion.bundlePrice) : '',
+} : {
+    id: crypto.randomUUID(), name: '', kind: 'percent_off', active: true, validFrom: '', validTo: '', productIds: [], manufacturers: [], customerIds: [],
+    percentOff: '', buyQuantity: '', freeQuantity: '', bundleItems: [], bundlePrice: '',
+};
+
+const PromotionsTab: React.FC<TabProps> = ({ showToast }) => {
+    const { promotions, products, storeSettings, savePromotion, deletePromotion } = useAppContext();
+    const [form, setForm] = useState<PromotionForm | null>(null);
+    const [newProductId, setNewProductId] = useState('');
+
+    const productName = (productId: string) => products.find(p => p.id === productId)?.name || 'حذف‌شده';
+    const manufacturers = products.reduce<string[]>((list, p) => p.manufacturer && !list.includes(p.manufacturer) ? [...list, p.manufacturer] : list, []);
+    const numeric = (value: string) => toEnglishDigits(value).replace(/[^0-9.]/g, '');
+    const optionalNumber = (value: string) => value ? Number(value) || 0 : undefined;
+
+    const addProduct = () => {
+        if (!form || !newProductId) return;
+        if (form.kind === 'bundle') {
+            if (form.bundleItems.some(b => b.productId === newProductId)) { showToast('این کالا در بسته وجود دارد.'); return; }
+            setForm({ ...form, bundleItems: [...form.bundleItems, { productId: newProductId, quantity: '1' }] });
+        } else if (!form.productIds.includes(newProductId)) {
+            setForm({ ...form, productIds: [...form.productIds, newProductId] });
+        }
+        setNewProductId('');
+    };
+
+    const toggleManufacturer = (name: string) => setForm(prev => prev && {
+        ...prev, manufacturers: prev.manufacturers.includes(name) ? prev.manufacturers.filter(m => m !== name) : [...prev.manufacturers, name]
+    });
+
+    const handleSave = async () => {
+        if (!form) return;
+        const isBundle = form.kind === 'bundle';
+        const result = await savePromotion({
+            id: form.id, name: form.name, kind: form.kind, active: form.active,
+            validFrom: form.validFrom || undefined, validTo: form.validTo || undefined,
+            productIds: isBundle ? [] : form.productIds, manufacturers: isBundle ? [] : form.manufacturers, customerIds: form.customerIds,
+            ...(form.kind === 'percent_off' ? { percentOff: optionalNumber(form.percentOff) } : {}),
+            ...(form.kind === 'buy_x_get_y' ? { buyQuantity: optionalNumber(form.buyQuantity), freeQuantity: optionalNumber(form.freeQuantity) } : {}),
+            ...(isBundle ? { bundleItems: form.bundleItems.map(b => ({ productId: b.productId, quantity: Number(b.quantity) || 0 })), bundlePrice: optionalNumber(form.bundlePrice) } : {}),
+        });
+        showToast(result.message);
+        if (result.success) setForm(null);
+    };
+
+    const handleDelete = async (promotion: Promotion) => {
+        if (!window.confirm(`طرح تخفیف «${promotion.name}» حذف شود؟ فاکتورهای قبلی تغییر نمی‌کنند.`)) return;
+        const result = await deletePromotion(promotion.id);
+        showToast(result.message);
+    };
+
+    const describe = (promotion: Promotion) => {
+        if (promotion.kind === 'percent_off') return `${promotion.percentOff || 0}٪ تخفیف`;
+        if (promotion.kind === 'buy_x_get_y') return `${promotion.buyQuantity || 0} بخر، ${promotion.freeQuantity || 0} هدیه`;
+        return `${(promotion.bundleItems || []).map(b => `${b.quantity} ${productName(b.productId)}`).join(' + ')} به ${formatCurrency(promotion.bundlePrice || 0, storeSettings)}`;
+    };
+
+    if (form) {
+        const isBundle = form.kind === 'bundle';
+        return (
+            <div className="max-w-4xl mx-auto space-y-6">
+                <h3 className="text-xl font-bold text-slate-800 border-b pb-3 hidden md:block">{promotions.some(p => p.id === form.id) ? 'ویرایش طرح تخفیف' : 'طرح تخفیف جدید'}</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="نام طرح (مثال: ۳ بخر ۱ هدیه)" className="p-3.5 border border-slate-200 rounded-xl focus:ring-4 focus:ring-blue-50 outline-none" />
+                    <select value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as PromotionKind })} className="p-3.5 border border-slate-200 rounded-xl bg-white font-bold">
+                        {(Object.keys(PROMOTION_KIND_LABELS) as PromotionKind[]).map(k => <option key={k} value={k}>{PROMOTION_KIND_LABELS[k]}</option>)}
+                    </select>
+                    <label className="flex items-center gap-2 text-sm font-bold text-slate-600">از تاریخ
+                        <input type="date" value={form.validFrom} onChange={e => setForm({ ...form, validFrom: e.target.value })} className="flex-grow p-3 border border-slate-200 rounded-xl" />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm font-bold text-slate-600">تا تاریخ
+                        <input type="date" value={form.validTo} onChange={e => setForm({ ...form, validTo: e.target.value })} className="flex-grow p-3 border border-slate-200 rounded-xl" />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm font-bold text-slate-700 cursor-pointer">
+                        <input type="checkbox" checked={form.active} onChange={e => setForm({ ...form, active: e.target.checked })} className="w-5 h-5" />
+                        طرح فعال است
+                    </label>
+                </div>
+
+                <div className="bg-slate-50 p-4 rounded-2xl border border-slate-200 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {form.kind === 'percent_off' && (
+                        <label className="flex items-center gap-2 text-sm font-bold text-slate-600">درصد تخفیف
+                            <input value={form.percentOff} onChange={e => setForm({ ...form, percentOff: numeric(e.target.value) })} inputMode="decimal" className="flex-grow p-3 border border-slate-200 rounded-xl font-mono text-center" />
+                        </label>
+                    )}
+                    {form.kind === 'buy_x_get_y' && (
+                        <>
+                            <label className="flex items-center gap-2 text-sm font-bold text-slate-600">تعداد خرید
+                                <input value={form.buyQuantity} onChange={e => setForm({ ...form, buyQuantity: numeric(e.target.value) })} inputMode="numeric" className="flex-grow p-3 border border-slate-200 rounded-xl font-mono text-center" />
+                            </label>
+                            <label className="flex items-center gap-2 text-sm font-bold text-slate-600">تعداد هدیه
+                                <input value={form.freeQuantity} onChange={e => setForm({ ...form, freeQuantity: numeric(e.target.value) })} inputMode="numeric" className="flex-grow p-3 border border-slate-200 rounded-xl font-mono text-center" />
+                            </label>
+                        </>
+                    )}
+                    {isBundle && (
+                        <label className="flex items-center gap-2 text-sm font-bold text-slate-600">قیمت بسته ({storeSettings.baseCurrency})
+                            <input value={form.bundlePrice} onChange={e => setForm({ ...form, bundlePrice: numeric(e.target.value) })} inputMode="decimal" className="flex-grow p-3 border border-slate-200 rounded-xl font-mono text-center" />
+                        </label>
+                    )}
+                </div>
+
+                <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden">
+                    <div className="flex flex-col md:flex-row gap-2 p-3 bg-slate-50 border-b">
+                        <select value={newProductId} onChange={e => setNewProductId(e.target.value)} className="flex-grow p-2.5 border border-slate-200 rounded-xl bg-white text-sm">
+                            <option value="">{isBundle ? 'افزودن کالا به بسته...' : 'محدود به کالا...'}</option>
+                            {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <button onClick={addProduct} disabled={!newProductId} className="flex items-center justify-center bg-blue-600 text-white px-5 py-2.5 rounded-xl font-bold disabled:opacity-50"><PlusIcon className="w-5 h-5 ml-1" /> افزودن</button>
+                    </div>
+                    {isBundle ? (
+                        <div className="p-3 space-y-2">
+                            {form.bundleItems.map((item, index) => (
+                                <div key={item.productId} className="flex items-center gap-3">
+                                    <span className="flex-grow font-bold text-slate-700 text-sm">{productName(item.productId)}</span>
+                                    <input value={item.quantity} onChange={e => setForm({ ...form, bundleItems: form.bundleItems.map((b, i) => i === index ? { ...b, quantity: numeric(e.target.value) } : b) })} inputMode="numeric" className="w-20 p-2 border border-slate-200 rounded-lg text-center font-mono" />
+                                    <button onClick={() => setForm({ ...form, bundleItems: form.bundleItems.filter((_, i) => i !== index) })} className="p-2 rounded-lg text-red-500 hover:bg-red-50"><TrashIcon className="w-5 h-5" /></button>
+                                </div>
+                            ))}
+                            {form.bundleItems.length === 0 && <p className="p-6 text-center text-slate-400 font-bold">کالاهای بسته را اضافه کنید.</p>}
+                        </div>
+                    ) : (
+                        <div className="p-3 space-y-3">
+                            <div className="flex flex-wrap gap-2">
+                                {form.productIds.map(id => (
+                                    <span key={id} className="flex items-center gap-1 px-3 py-1 rounded-full bg-blue-50 text-blue-700 text-sm font-bold">
+                                        {productName(id)}
+                                        <button onClick={() => setForm({ ...form, productIds: form.productIds.filter(p => p !== id) })} className="text-blue-400 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
+                                    </span>
+                                ))}
+                            </div>
+                            {manufacturers.length > 0 && (
+                                <div>
+                                    <p className="text-xs font-black text-slate-500 mb-2">برندها / تولیدکنندگان</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {manufacturers.map(m => (
+                                            <button key={m} onClick={() => toggleManufacturer(m)} className={`px-3 py-1 rounded-full text-sm font-bold border ${form.manufacturers.includes(m) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200'}`}>{m}</button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            {form.productIds.length === 0 && form.manufacturers.length === 0 && <p className="text-sm font-bold text-slate-500">بدون انتخاب کالا یا برند، طرح روی همه کالاها اعمال می‌شود.</p>}
+                        </div>
+                    )}
+                </div>
+
+                <CustomerPicker title="مشتریان مشمول (خالی یعنی همه)" selectedIds={form.customerIds} onChange={customerIds => setForm({ ...form, customerIds })} />
+
+                <div className="flex gap-3 justify-end">
+                    <button onClick={() => setForm(null)} className="px-6 py-3 rounded-xl bg-slate-100 text-slate-600 font-bold hover:bg-slate-200">انصراف</button>
+                    <button onClick={handleSave} className="px-8 py-3 rounded-xl bg-blue-600 text-white font-bold shadow-lg shadow-blue-100 btn-primary">ذخیره طرح</button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-4xl mx-auto">
+            <div className="flex justify-between items-center border-b pb-3 mb-6">
+                <h3 className="text-xl font-bold text-slate-800">طرح‌های تخفیف</h3>
+                <button onClick={() => setForm(toPromotionForm())} className="flex items-center bg-blue-600 text-white px-5 py-2.5 rounded-xl shadow-lg shadow-blue-100 btn-primary font-bold"><PlusIcon className="w-5 h-5 ml-1" /> طرح جدید</button>
+            </div>
+            <p className="text-sm text-slate-500 mb-4">طرح‌ها هنگام فروش خودکار اعمال می‌شوند. هر قلم فقط در یک طرح شرکت می‌کند: اول بسته‌ها، سپس بخر و هدیه بگیر و در آخر تخفیف درصدی.</p>
+            <div className="space-y-3">
+                {promotions.map(promotion => (
+                    <div key={promotion.id} className="flex justify-between items-center p-4 bg-white rounded-2xl shadow-sm border border-slate-100 hover:border-blue-200 transition-all">
+                        <div>
+                            <p className="font-black text-slate-800 text-lg flex items-center gap-2">
+                                {promotion.name}
+                                <span className="px-2 py-0.5 rounded-full text-[11px] font-bold bg-emerald-50 text-emerald-600">{PROMOTION_KIND_LABELS[promotion.kind]}</span>
+                                {!(promotion.active && isWithinValidity(promotion)) && <span className="px-2 py-0.5 rounded-full text-[11px] font-bold bg-slate-100 text-slate-500">غیرفعال</span>}
+                            </p>
+                            <p className="text-sm text-slate-500 font-bold">
+                                {describe(promotion)}
+                                {promotion.customerIds.length > 0 && ` · ${promotion.customerIds.length} مشتری`}
+                                {(promotion.validFrom || promotion.validTo) && ` · ${promotion.validFrom ? new Date(promotion.validFrom).toLocaleDateString('fa-IR') : '...'} تا ${promotion.validTo ? new Date(promotion.validTo).toLocaleDateString('fa-IR') : '...'}`}
+                            </p>
+                        </div>
+                        <div className="flex gap-1">
+                            <button onClick={() => setForm(toPromotionForm(promotion))} className="p-3 rounded-xl text-blue-600 hover:bg-blue-50 transition-colors"><EditIcon className="w-6 h-6" /></button>
+                            <button onClick={() => handleDelete(promotion)} className="p-3 rounded-xl text-red-500 hover:bg-red-50 transition-colors"><TrashIcon className="w-6 h-6" /></button>
+                        </div>
+                    </div>
+                ))}
+                {promotions.length === 0 && (
+                    <div className="text-center py-12 border-2 border-dashed border-slate-200 rounded-3xl">
+                        <p className="text-slate-400 font-bold">هنوز طرح تخفیفی تعریف نکرده‌اید.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
 const BackupRestoreTab: React.FC<TabProps> = ({ showToast }) => {
     const { 
-        exportData, importData, cloudBackup, cloudRestore, 
-        autoBackupEnabled, setAutoBackupEnabled 
+        exportData, importData, syncNow, resyncFromCloud, restoreLegacyCloudBackup, syncStatus,
+        autoSyncEnabled, setAutoSyncEnabled 
     } = useAppContext();
     
     const [isProcessing, setIsProcessing] = useState(false);
@@ -318,15 +806,24 @@ const BackupRestoreTab: React.FC<TabProps> = ({ showToast }) => {
         event.target.value = '';
     };
 
-    const handleCloudBackup = async () => {
+    const handleSyncNow = async () => {
         setIsProcessing(true);
-        await cloudBackup();
+        const result = await syncNow();
+        showToast(result.message);
         setIsProcessing(false);
     };
 
-    const handleCloudRestore = async () => {
+    const handleResync = async () => {
         setIsProcessing(true);
-        await cloudRestore();
+        const result = await resyncFromCloud();
+        showToast(result.message);
+        setIsProcessing(false);
+    };
+
+    const handleLegacyRestore = async () => {
+        setIsProcessing(true);
+        const result = await restoreLegacyCloudBackup();
+        showToast(result.message);
         setIsProcessing(false);
     };
 
@@ -358,39 +855,51 @@ const BackupRestoreTab: React.FC<TabProps> = ({ showToast }) => {
                 <div className="flex justify-between items-start mb-4">
                     <div className="flex items-center gap-3">
                          <div className="p-3 bg-indigo-100 text-indigo-700 rounded-2xl"><UploadIcon className="w-6 h-6" /></div>
-                         <h3 className="text-xl font-black text-indigo-900">پشتیبان‌گیری ابری</h3>
+                         <h3 className="text-xl font-black text-indigo-900">همگام‌سازی ابری</h3>
                     </div>
                      <span className={`text-[10px] px-2 py-1 rounded-full font-black ${navigator.onLine ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
                         {navigator.onLine ? 'متصل' : 'آفلاین'}
                     </span>
                 </div>
-                <p className="text-sm text-slate-500 mb-6 leading-relaxed font-medium">اطلاعات شما را در سرور مرکزی کاسب‌یار ذخیره می‌کند تا از هر دستگاهی به آن دسترسی داشته باشید.</p>
+                <p className="text-sm text-slate-500 mb-4 leading-relaxed font-medium">هر تغییر به‌صورت جداگانه با سرور مرکزی کاسب‌یار همگام می‌شود تا چند دستگاه بتوانند هم‌زمان روی یک فروشگاه کار کنند.</p>
+                <div className="flex flex-wrap gap-4 mb-6 text-xs font-bold text-slate-500">
+                    <span>تغییرات در صف ارسال: <span className="text-indigo-700">{syncStatus.pending.toLocaleString('fa-IR')}</span></span>
+                    <span>آخرین همگام‌سازی: <span className="text-indigo-700">{syncStatus.lastSyncedAt ? new Date(syncStatus.lastSyncedAt).toLocaleString('fa-IR') : 'هرگز'}</span></span>
+                    {syncStatus.error && <span className="text-red-600">خطا در آخرین تلاش</span>}
+                </div>
                 
                 <div className="flex flex-col md:flex-row gap-3">
                     <button 
-                        onClick={handleCloudBackup} 
-                        disabled={isProcessing || !navigator.onLine}
+                        onClick={handleSyncNow} 
+                        disabled={isProcessing || syncStatus.isSyncing || !navigator.onLine}
                         className="flex-1 flex items-center justify-center gap-2 px-6 py-4 rounded-xl bg-indigo-600 text-white font-black shadow-lg shadow-indigo-100 active:scale-[0.98] disabled:bg-slate-400"
                     >
-                        {isProcessing ? 'درحال انجام...' : 'ذخیره فوری در ابر'}
+                        {isProcessing || syncStatus.isSyncing ? 'درحال انجام...' : 'همگام‌سازی فوری'}
                     </button>
                     <button 
-                        onClick={handleCloudRestore}
-                        disabled={isProcessing || !navigator.onLine}
+                        onClick={handleResync}
+                        disabled={isProcessing || syncStatus.isSyncing || !navigator.onLine}
                         className="flex-1 flex items-center justify-center gap-2 px-6 py-4 rounded-xl bg-white border-2 border-indigo-200 text-indigo-600 font-black hover:bg-indigo-50 active:scale-[0.98] disabled:opacity-50"
                     >
-                        بازیابی آخرین نسخه ابری
+                        دریافت مجدد همه تغییرات از ابر
                     </button>
                 </div>
+                <button
+                    onClick={handleLegacyRestore}
+                    disabled={isProcessing || syncStatus.isSyncing || !navigator.onLine}
+                    className="mt-3 text-xs font-black text-indigo-500 hover:text-indigo-700 underline disabled:opacity-50"
+                >
+                    بازیابی پشتیبان ابری نسخه قبلی برنامه
+                </button>
 
                 <div className="mt-8 pt-6 border-t border-indigo-100 flex flex-col md:flex-row items-center justify-between gap-4">
                     <div className="flex items-center gap-4">
-                         <div className={`w-14 h-8 rounded-full p-1 cursor-pointer transition-all duration-300 ${autoBackupEnabled ? 'bg-green-500' : 'bg-slate-300'}`} onClick={() => setAutoBackupEnabled(!autoBackupEnabled)}>
-                            <div className={`bg-white w-6 h-6 rounded-full shadow-md transition-all duration-300 ${autoBackupEnabled ? 'mr-6' : 'mr-0'}`}></div>
+                         <div className={`w-14 h-8 rounded-full p-1 cursor-pointer transition-all duration-300 ${autoSyncEnabled ? 'bg-green-500' : 'bg-slate-300'}`} onClick={() => setAutoSyncEnabled(!autoSyncEnabled)}>
+                            <div className={`bg-white w-6 h-6 rounded-full shadow-md transition-all duration-300 ${autoSyncEnabled ? 'mr-6' : 'mr-0'}`}></div>
                         </div>
                         <div>
-                            <p className="font-black text-slate-800 text-sm">پشتیبان‌گیری هوشمند ۲۴ ساعته</p>
-                            <p className="text-[10px] text-slate-500 font-bold">ذخیره خودکار در ابر و حافظه دستگاه هر روز</p>
+                            <p className="font-black text-slate-800 text-sm">همگام‌سازی خودکار</p>
+                            <p className="text-[10px] text-slate-500 font-bold">ارسال و دریافت تغییرات هر دقیقه و هنگام وصل شدن اینترنت</p>
                         </div>
                     </div>
                 </div>
@@ -404,20 +913,255 @@ const BackupRestoreTab: React.FC<TabProps> = ({ showToast }) => {
     );
 };
 
+const PARTY_LABELS: Record<LedgerPartyType, string> = { customer: 'مشتری', supplier: 'تأمین‌کننده', employee: 'کارمند', depositHolder: 'امانت‌گذار' };
+
+const DataIntegrityTab: React.FC<TabProps> = ({ showToast }) => {
+    const { checkDataIntegrity, repairBalancesFromHistory, storeSettings } = useAppContext();
+    const [report, setReport] = useState<IntegrityReport | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const handleCheck = async () => {
+        setIsProcessing(true);
+        try {
+            setReport(await checkDataIntegrity());
+        } catch (e) {
+            showToast("❌ خطا در بررسی داده‌ها.");
+        }
+        setIsProcessing(false);
+    };
+
+    const handleRepair = async () => {
+        if (!report) return;
+        if (!window.confirm(`تراز ${report.balanceMismatches.length} حساب با جمع تاریخچه معاملات جایگزین و یک سند تعدیل در دفتر کل ثبت می‌شود. ادامه می‌دهید؟`)) return;
+        setIsProcessing(true);
+        const result = await repairBalancesFromHistory(report);
+        showToast(result.message);
+        if (result.success) setReport(await checkDataIntegrity());
+        setIsProcessing(false);
+    };
+
+    const renderBalance = (b: BalanceSnapshot) => (
+        <div className="text-[11px] font-bold space-y-0.5" dir="ltr">
+            {(['AFN', 'USD', 'IRT'] as const).filter(c => Math.abs(b[c]) > 0.0001).map(c => <div key={c}>{b[c].toLocaleString()} {c}</div>)}
+            <div className="text-slate-400">{formatCurrency(b.Total, storeSettings)}</div>
+        </div>
+    );
+
+    const issueCount = report ? report.balanceMismatches.length + report.stockMismatches.length + report.orphanReferences.length : 0;
+
+    return (
+        <div className="space-y-6 max-w-5xl mx-auto pb-10">
+            <div className="bg-white p-5 md:p-8 rounded-3xl shadow-sm border border-slate-200">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="p-3 bg-emerald-50 text-emerald-600 rounded-2xl"><CheckIcon className="w-6 h-6" /></div>
+                    <h3 className="text-xl font-black text-slate-800">سلامت داده‌ها</h3>
+                </div>
+                <p className="text-sm text-slate-500 mb-6 leading-relaxed font-medium">تراز مشتریان، تأمین‌کنندگان، کارکنان و امانت‌گذاران از روی تاریخچه معاملات بازسازی و با ترازهای ذخیره‌شده مقایسه می‌شود. موجودی هر بچ نیز با خریدها و فروش‌ها تطبیق داده شده و ارجاع‌های بی‌صاحب شناسایی می‌شوند.</p>
+                <div className="flex flex-col md:flex-row gap-3">
+                    <button onClick={handleCheck} disabled={isProcessing} className="flex-1 px-6 py-4 rounded-xl bg-blue-600 text-white font-black hover:bg-blue-700 transition-all shadow-lg shadow-blue-100 active:scale-[0.98] disabled:bg-slate-400">
+                        {isProcessing ? 'درحال انجام...' : 'اجرای بررسی'}
+                    </button>
+                    <button onClick={handleRepair} disabled={isProcessing || !report || report.balanceMismatches.length === 0} className="flex-1 px-6 py-4 rounded-xl bg-white border-2 border-emerald-200 text-emerald-700 font-black hover:bg-emerald-50 active:scale-[0.98] disabled:opacity-50">
+                        ترمیم تراز از روی تاریخچه معاملات
+                    </button>
+                </div>
+            </div>
+
+            {report && (
+                <>
+                    <div className={`p-4 rounded-2xl border-r-4 font-bold text-sm ${issueCount === 0 ? 'bg-green-50 border-green-500 text-green-800' : 'bg-orange-50 border-orange-500 text-orange-800'}`}>
+                        {issueCount === 0
+                            ? '✅ هیچ ناهماهنگی یافت نشد.'
+                            : `${report.balanceMismatches.length} حساب ناهماهنگ، ${report.stockMismatches.length} مغایرت موجودی و ${report.orphanReferences.length} ارجاع بی‌صاحب یافت شد.`}
+                        <span className="block text-[10px] text-slate-400 mt-1">{new Date(report.checkedAt).toLocaleString('fa-IR')}</span>
+                    </div>
+
+                    {report.balanceMismatches.length > 0 && (
+                        <div className="bg-white rounded-3xl border border-slate-200 overflow-x-auto">
+                            <h4 className="font-black text-slate-800 p-5 pb-3">ترازهای ناهماهنگ</h4>
+                            <table className="w-full text-right min-w-[600px]">
+                                <thead className="bg-slate-50 text-xs text-slate-500">
+                                    <tr><th className="p-3">طرف حساب</th><th className="p-3">تراز ذخیره‌شده</th><th className="p-3">دفتر کل</th><th className="p-3">تاریخچه معاملات</th></tr>
+                                </thead>
+                                <tbody>
+                                    {report.balanceMismatches.map(m => (
+                                        <tr key={`${m.partyType}-${m.partyId}`} className="border-t border-slate-100">
+                                            <td className="p-3 font-bold text-slate-700">{m.name}<span className="block text-[10px] text-slate-400">{PARTY_LABELS[m.partyType]}</span></td>
+                                            <td className="p-3 text-red-600">{renderBalance(m.stored)}</td>
+                                            <td className="p-3 text-slate-600">{renderBalance(m.ledger)}</td>
+                                            <td className="p-3 text-emerald-700">{renderBalance(m.replayed)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {report.stockMismatches.length > 0 && (
+                        <div className="bg-white rounded-3xl border border-slate-200 overflow-x-auto">
+                            <h4 className="font-black text-slate-800 p-5 pb-3">مغایرت موجودی بچ‌ها</h4>
+                            <table className="w-full text-right min-w-[500px]">
+                                <thead className="bg-slate-50 text-xs text-slate-500">
+                                    <tr><th className="p-3">محصول</th><th className="p-3">شماره لات</th><th className="p-3">موجودی فعلی</th><th className="p-3">موجودی مورد انتظار</th></tr>
+                                </thead>
+                                <tbody>
+                                    {report.stockMismatches.map(m => (
+                                        <tr key={`${m.productId}-${m.lotNumber}`} className="border-t border-slate-100 text-sm">
+                                            <td className="p-3 font-bold text-slate-700">{m.productName}</td>
+                                            <td className="p-3 text-slate-500">{m.lotNumber}</td>
+                                            <td className="p-3 font-black text-red-600">{m.actualStock}</td>
+                                            <td className="p-3 font-black text-emerald-700">{m.expectedStock}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="text-[11px] text-slate-400 font-bold p-4">مغایرت موجودی به‌صورت خودکار ترمیم نمی‌شود؛ آن را از بخش انبارداری بررسی و اصلاح کنید.</p>
+                        </div>
+                    )}
+
+                    {report.orphanReferences.length > 0 && (
+                        <div className="bg-white rounded-3xl border border-slate-200 p-5">
+                            <h4 className="font-black text-slate-800 mb-3">ارجاع‌های بی‌صاحب</h4>
+                            <ul className="space-y-2">
+                                {report.orphanReferences.map((o, idx) => (
+                                    <li key={`${o.kind}-${o.id}-${idx}`} className="text-sm font-medium text-slate-600 bg-slate-50 rounded-xl p-3 flex gap-2">
+                                        <WarningIcon className="w-4 h-4 text-orange-500 shrink-0 mt-0.5" />{o.description}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+const DEVICE_STATUS_LABELS: Record<DeviceStatus, { label: string; className: string }> = {
+    pending: { label: 'در انتظار تایید', className: 'bg-amber-100 text-amber-700' },
+    approved: { label: 'فعال', className: 'bg-green-100 text-green-700' },
+    revoked: { label: 'مسدود', className: 'bg-red-100 text-red-700' },
+};
+
+const DevicesTab: React.FC<TabProps> = ({ showToast }) => {
+    const { getShopDevices, setDeviceStatus, renameDevice, currentDeviceId } = useAppContext();
+    const [devices, setDevices] = useState<ShopDevice[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const loadDevices = useCallback(async () => {
+        if (!navigator.onLine) return;
+        setIsLoading(true);
+        try {
+            setDevices(await getShopDevices());
+        } catch (e) {
+            showToast("❌ خطا در دریافت فهرست دستگاه‌ها.");
+        }
+        setIsLoading(false);
+    }, [getShopDevices, showToast]);
+
+    useEffect(() => { loadDevices(); }, []);
+
+    const handleStatus = async (device: ShopDevice, status: DeviceStatus) => {
+        if (status === 'revoked' && !window.confirm(`دسترسی «${device.name}» لغو شود؟ این دستگاه در اتصال بعدی قفل و از حساب خارج می‌شود.`)) return;
+        const result = await setDeviceStatus(device.id, status);
+        showToast(result.message);
+        if (result.success) loadDevices();
+    };
+
+    const handleRename = async (device: ShopDevice) => {
+        const name = window.prompt('نام جدید دستگاه:', device.name);
+        if (name === null || name === device.name) return;
+        const result = await renameDevice(device.id, name);
+        showToast(result.message);
+        if (result.success) loadDevices();
+    };
+
+    return (
+        <div className="space-y-6 max-w-4xl mx-auto pb-10">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h3 className="text-xl font-black text-slate-800">دستگاه‌های فروشگاه</h3>
+                    <p className="text-xs text-slate-500 font-bold mt-1">هر دستگاهی که با حساب مالک وارد شود اینجا ثبت می‌شود و تا تایید شما نمی‌تواند از فروشگاه استفاده کند.</p>
+                </div>
+                <button onClick={loadDevices} disabled={isLoading || !navigator.onLine} className="px-4 py-2 rounded-xl bg-slate-100 text-slate-700 font-black text-sm hover:bg-slate-200 disabled:opacity-50">
+                    {isLoading ? 'درحال دریافت...' : 'بارگذاری مجدد'}
+                </button>
+            </div>
+
+            {!navigator.onLine && (
+                <div className="p-4 bg-orange-50 border-r-4 border-orange-500 rounded-l-2xl text-xs font-bold text-orange-800">مدیریت دستگاه‌ها نیاز به اتصال اینترنت دارد.</div>
+            )}
+
+            <div className="space-y-3">
+                {devices.map(device => (
+                    <div key={device.id} className="bg-white p-4 rounded-2xl border border-slate-200 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                        <div>
+                            <div className="flex items-center gap-2">
+                                <span className="font-black text-slate-800">{device.name}</span>
+                                <span className={`text-[10px] px-2 py-1 rounded-full font-black ${DEVICE_STATUS_LABELS[device.status].className}`}>{DEVICE_STATUS_LABELS[device.status].label}</span>
+                                {device.id === currentDeviceId && <span className="text-[10px] px-2 py-1 rounded-full font-black bg-blue-100 text-blue-700">همین دستگاه</span>}
+                            </div>
+                            <p className="text-[11px] text-slate-400 font-bold mt-1">آخرین اتصال: {new Date(device.last_seen_at).toLocaleString('fa-IR')}</p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => handleRename(device)} className="px-3 py-2 rounded-xl bg-slate-100 text-slate-700 font-bold text-xs hover:bg-slate-200">تغییر نام</button>
+                            {device.status !== 'approved' && (
+                                <button onClick={() => handleStatus(device, 'approved')} className="px-3 py-2 rounded-xl bg-green-600 text-white font-bold text-xs hover:bg-green-700">{device.status === 'pending' ? 'تایید' : 'رفع مسدودی'}</button>
+                            )}
+                            {device.status !== 'revoked' && device.id !== currentDeviceId && (
+                                <button onClick={() => handleStatus(device, 'revoked')} className="px-3 py-2 rounded-xl bg-red-50 text-red-600 font-bold text-xs hover:bg-red-100">{device.status === 'pending' ? 'رد' : 'قفل از راه دور'}</button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+                {devices.length === 0 && !isLoading && <p className="text-center text-slate-400 font-bold py-10">دستگاهی ثبت نشده است.</p>}
+            </div>
+        </div>
+    );
+};
+
+type NumericLimit = 'maxLineDiscountPercent' | 'maxInvoiceDiscountPercent' | 'maxCreditSaleAmount' | 'editWindowDays';
+type LimitsForm = Record<NumericLimit, string> & { canViewCosts: boolean };
+
+const NUMERIC_LIMITS: { key: NumericLimit; label: string }[] = [
+    { key: 'maxLineDiscountPercent', label: 'سقف تخفیف هر ردیف (٪)' },
+    { key: 'maxInvoiceDiscountPercent', label: 'سقف تخفیف کل فاکتور (٪)' },
+    { key: 'maxCreditSaleAmount', label: 'سقف فروش نسیه در هر فاکتور (ارز پایه)' },
+    { key: 'editWindowDays', label: 'ویرایش فاکتور تا چند روز گذشته' },
+];
+
+// Empty fields mean no limit
+const toLimitsForm = (limits: RoleLimits = {}): LimitsForm => ({
+    maxLineDiscountPercent: limits.maxLineDiscountPercent?.toString() ?? '',
+    maxInvoiceDiscountPercent: limits.maxInvoiceDiscountPercent?.toString() ?? '',
+    maxCreditSaleAmount: limits.maxCreditSaleAmount?.toString() ?? '',
+    editWindowDays: limits.editWindowDays?.toString() ?? '',
+    canViewCosts: limits.canViewCosts !== false,
+});
+
+const fromLimitsForm = (form: LimitsForm): RoleLimits => {
+    const limits: RoleLimits = { canViewCosts: form.canViewCosts };
+    NUMERIC_LIMITS.forEach(({ key }) => { if (form[key] !== '') limits[key] = Number(form[key]); });
+    return limits;
+};
+
 const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
-    const { users, roles, addUser, updateUser, deleteUser, addRole, updateRole, deleteRole, currentUser } = useAppContext();
+    const { users, roles, addUser, updateUser, deleteUser, addRole, updateRole, deleteRole, currentUser, storeSettings, updateSettings } = useAppContext();
     const [activeSubTab, setActiveSubTab] = useState<'users' | 'roles'>('users');
     
     // Role state
     const [editingRole, setEditingRole] = useState<Role | null>(null);
     const [roleName, setRoleName] = useState('');
     const [rolePermissions, setRolePermissions] = useState<Permission[]>([]);
+    const [limitsForm, setLimitsForm] = useState<LimitsForm>(toLimitsForm());
 
     // User state
     const [editingUser, setEditingUser] = useState<User | null>(null);
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
+    const [pin, setPin] = useState('');
     const [userRoleId, setUserRoleId] = useState('');
+    const [idleLockMinutes, setIdleLockMinutes] = useState(String(storeSettings.idleLockMinutes || 0));
     
     const groupedPermissions = groupPermissions(ALL_PERMISSIONS);
     
@@ -430,20 +1174,22 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
         setEditingRole(role);
         setRoleName(role.name);
         setRolePermissions(role.permissions || []);
+        setLimitsForm(toLimitsForm(role.limits));
         window.scrollTo({ top: 0, behavior: 'smooth' });
     };
 
     const handleSaveRole = async () => {
         if (!roleName) { showToast("نام نقش نمی‌تواند خالی باشد."); return; }
         const result = await (editingRole 
-            ? updateRole({ ...editingRole, name: roleName, permissions: rolePermissions })
-            : addRole({ name: roleName, permissions: rolePermissions }));
+            ? updateRole({ ...editingRole, name: roleName, permissions: rolePermissions, limits: fromLimitsForm(limitsForm) })
+            : addRole({ name: roleName, permissions: rolePermissions, limits: fromLimitsForm(limitsForm) }));
         
         showToast(result.message);
         if(result.success) {
             setEditingRole(null);
             setRoleName('');
             setRolePermissions([]);
+            setLimitsForm(toLimitsForm());
         }
     };
     
@@ -456,6 +1202,7 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
         setUsername(user.username);
         setUserRoleId(user.roleId);
         setPassword('');
+        setPin('');
         window.scrollTo({ top: 0, behavior: 'smooth' });
     };
     
@@ -465,17 +1212,29 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
             return;
         }
         const result = await (editingUser
-            ? updateUser({ id: editingUser.id, username, roleId: userRoleId, password: password || undefined })
-            : addUser({ username, password, roleId: userRoleId }));
+            ? updateUser({ id: editingUser.id, username, roleId: userRoleId, password: password || undefined, pin: pin || undefined })
+            : addUser({ username, password, roleId: userRoleId, pin: pin || undefined }));
 
         showToast(result.message);
         if(result.success) {
             setEditingUser(null);
             setUsername('');
             setPassword('');
+            setPin('');
             setUserRoleId('');
         }
     };
+
+    const handleRemovePin = async (user: User) => {
+        if (!window.confirm(`رمز کوتاه «${user.username}» حذف شود؟`)) return;
+        const result = await updateUser({ id: user.id, pin: null });
+        showToast(result.success ? '✅ رمز کوتاه حذف شد.' : result.message);
+    };
+
+    const handleSaveIdleLock = () => {
+        updateSettings({ ...storeSettings, idleLockMinutes: Number(idleLockMinutes) || 0 });
+        showToast("تنظیمات قفل خودکار ذخیره شد.");
+    };
     
 
     return (
@@ -497,11 +1256,13 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
 
             {activeSubTab === 'users' && (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-6">
                      <div className="bg-white p-5 md:p-6 rounded-3xl border border-slate-200">
                         <h4 className="text-lg font-black text-slate-800 mb-6">{editingUser ? 'ویرایش کاربر' : 'افزودن کاربر جدید'}</h4>
                         <div className="space-y-4">
                             <input value={username} onChange={e => setUsername(e.target.value)} placeholder="نام کاربری" className="w-full p-3.5 border border-slate-200 rounded-xl focus:ring-4 focus:ring-blue-50 outline-none font-bold" />
                             <input value={password} onChange={e => setPassword(e.target.value)} type="password" placeholder={editingUser ? 'رمز عبور جدید (اختیاری)' : 'رمز عبور'} className="w-full p-3.5 border border-slate-200 rounded-xl focus:ring-4 focus:ring-blue-50 outline-none" />
+                            <input value={pin} onChange={e => setPin(toEnglishDigits(e.target.value).replace(/[^0-9]/g, '').slice(0, 6))} type="password" inputMode="numeric" placeholder={editingUser?.pinHash ? 'رمز کوتاه جدید (اختیاری)' : 'رمز کوتاه ۴ تا ۶ رقمی برای تعویض سریع در همین دستگاه (اختیاری)'} className="w-full p-3.5 border border-slate-200 rounded-xl focus:ring-4 focus:ring-blue-50 outline-none" />
                             <select value={userRoleId} onChange={e => setUserRoleId(e.target.value)} className="w-full p-3.5 border border-slate-200 rounded-xl bg-white focus:ring-4 focus:ring-blue-50 outline-none font-bold">
                                 <option value="">-- انتخاب نقش --</option>
                                 {roles.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
@@ -512,6 +1273,15 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
                             </div>
                         </div>
                     </div>
+                    <div className="bg-white p-5 md:p-6 rounded-3xl border border-slate-200">
+                        <h4 className="text-lg font-black text-slate-800 mb-2">قفل خودکار صندوق</h4>
+                        <p className="text-xs text-slate-400 font-bold mb-4 leading-relaxed">پس از این مدت بدون فعالیت، نشست کاربر بسته شده و صفحه ورود با رمز کوتاه نمایش داده می‌شود. صفر یعنی غیرفعال.</p>
+                        <div className="flex gap-2">
+                            <input value={idleLockMinutes} onChange={e => setIdleLockMinutes(toEnglishDigits(e.target.value).replace(/[^0-9]/g, ''))} type="text" inputMode="numeric" placeholder="دقیقه" className="flex-grow p-3.5 border border-slate-200 rounded-xl focus:ring-4 focus:ring-blue-50 outline-none font-bold" />
+                            <button onClick={handleSaveIdleLock} className="px-6 rounded-xl bg-blue-600 text-white font-black">ذخیره</button>
+                        </div>
+                    </div>
+                    </div>
                     <div className="space-y-3">
                         <h4 className="text-lg font-black text-slate-400 mb-2 px-2 uppercase tracking-tighter">لیست کاربران سیستم</h4>
                         {users.map(user => (
@@ -519,8 +1289,12 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
                                 <div>
                                     <p className="font-black text-slate-800">{user.username}</p>
                                     <p className="text-[10px] text-blue-500 font-bold bg-blue-50 px-2 py-0.5 rounded-full inline-block mt-1">{roles.find(r => r.id === user.roleId)?.name}</p>
+                                    {user.pinHash && <p className="text-[10px] text-emerald-600 font-bold bg-emerald-50 px-2 py-0.5 rounded-full inline-block mt-1 mr-1">رمز کوتاه فعال در این دستگاه</p>}
                                 </div>
                                 <div className="flex gap-1">
+                                    {user.pinHash && (
+                                        <button onClick={() => handleRemovePin(user)} className="px-3 rounded-xl bg-slate-50 text-slate-500 text-[10px] font-bold hover:bg-red-50 hover:text-red-600 transition-colors">حذف رمز کوتاه</button>
+                                    )}
                                     <button onClick={() => handleEditUser(user)} className="p-2.5 rounded-xl bg-slate-50 text-slate-600 hover:bg-blue-50 hover:text-blue-600 transition-colors">
                                         <KeyIcon className="w-5 h-5" />
                                     </button>
@@ -571,6 +1345,34 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
                                     </div>
                                 ))}
                             </div>
+
+                            <div className="bg-slate-50 p-4 rounded-2xl border border-slate-100 space-y-3">
+                                <h5 className="font-black text-slate-700 border-b border-slate-200 pb-2 text-sm">محدودیت‌های نقش</h5>
+                                <p className="text-[10px] text-slate-400 font-bold">خالی گذاشتن هر فیلد یعنی بدون محدودیت.</p>
+                                {NUMERIC_LIMITS.map(({ key, label }) => (
+                                    <label key={key} className="flex items-center justify-between gap-3">
+                                        <span className="text-sm font-bold text-slate-600">{label}</span>
+                                        <input
+                                            type="text"
+                                            inputMode="decimal"
+                                            value={limitsForm[key]}
+                                            onChange={e => { const value = toEnglishDigits(e.target.value).replace(/[^0-9.]/g, ''); setLimitsForm(prev => ({ ...prev, [key]: value })); }}
+                                            className="w-28 p-2 border border-slate-200 rounded-xl text-center font-bold outline-none focus:ring-4 focus:ring-blue-50"
+                                            disabled={editingRole?.id === 'admin-role'}
+                                        />
+                                    </label>
+                                ))}
+                                <label className="flex items-center gap-3 pt-1 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={limitsForm.canViewCosts}
+                                        onChange={e => setLimitsForm(prev => ({ ...prev, canViewCosts: e.target.checked }))}
+                                        className="w-5 h-5 rounded-lg text-blue-600 border-slate-300 focus:ring-blue-500"
+                                        disabled={editingRole?.id === 'admin-role'}
+                                    />
+                                    <span className="text-sm font-bold text-slate-600">نمایش قیمت خرید و سود</span>
+                                </label>
+                            </div>
                              <div className="flex gap-2 mt-6">
                                 <button 
                                     onClick={handleSaveRole} 
@@ -579,7 +1381,7 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
                                 >
                                     {editingRole ? 'بروزرسانی نهایی' : 'ذخیره نقش'}
                                 </button>
-                                {editingRole && <button onClick={() => {setEditingRole(null); setRoleName(''); setRolePermissions([]);}} className="px-6 rounded-xl bg-slate-100 text-slate-500 font-bold">لغو</button>}
+                                {editingRole && <button onClick={() => {setEditingRole(null); setRoleName(''); setRolePermissions([]); setLimitsForm(toLimitsForm());}} className="px-6 rounded-xl bg-slate-100 text-slate-500 font-bold">لغو</button>}
                             </div>
                         </div>
                     </div>
@@ -632,8 +1434,13 @@ const Settings: React.FC = () => {
         { id: 'alerts', label: 'هشدارها', permission: 'settings:manage_alerts', icon: <WarningIcon className="w-5 h-5"/> },
         { id: 'customization', label: 'شخصی‌سازی', permission: 'settings:manage_store', icon: <SettingsIcon className="w-5 h-5"/> },
         { id: 'services', label: 'خدمات', permission: 'settings:manage_services', icon: <PlusIcon className="w-5 h-5"/> },
+        { id: 'priceLists', label: 'لیست قیمت', permission: 'settings:manage_price_lists', icon: <EditIcon className="w-5 h-5"/> },
+        { id: 'promotions', label: 'طرح تخفیف', permission: 'settings:manage_promotions', icon: <CheckIcon className="w-5 h-5"/> },
+        { id: 'tax', label: 'مالیات', permission: 'settings:manage_store', icon: <SettingsIcon className="w-5 h-5"/> },
         { id: 'usersAndRoles', label: 'کاربران', permission: 'settings:manage_users', icon: <UserGroupIcon className="w-5 h-5"/> },
         { id: 'backup', label: 'پشتیبان‌گیری', permission: 'settings:manage_backup', icon: <UploadIcon className="w-5 h-5"/> },
+        { id: 'devices', label: 'دستگاه‌ها', permission: 'settings:manage_devices', icon: <KeyIcon className="w-5 h-5"/> },
+        { id: 'integrity', label: 'سلامت داده‌ها', permission: 'settings:data_integrity', icon: <CheckIcon className="w-5 h-5"/> },
     ];
     
     const accessibleTabs = tabs.filter(tab => hasPermission(tab.permission));
@@ -644,8 +1451,13 @@ const Settings: React.FC = () => {
             case 'alerts': return <AlertsTab showToast={showToast} />;
             case 'customization': return <CustomizationTab showToast={showToast} />;
             case 'services': return <ServicesTab showToast={showToast} />;
+            case 'priceLists': return <PriceListsTab showToast={showToast} />;
+            case 'promotions': return <PromotionsTab showToast={showToast} />;
+            case 'tax': return <TaxTab showToast={showToast} />;
             case 'backup': return <BackupRestoreTab showToast={showToast} />;
             case 'usersAndRoles': return <UsersAndRolesTab showToast={showToast} />;
+            case 'devices': return <DevicesTab showToast={showToast} />;
+            case 'integrity': return <DataIntegrityTab showToast={showToast} />;
             default: return <StoreDetailsTab showToast={showToast} />;
         }
     };
@@ -1,31 +1,149 @@
 import { supabase } from '../utils/supabaseClient';
 import * as db from '../utils/db';
+import { migrateBackup } from '../utils/migrations';
+import { hashPassword, verifyPassword, isPasswordHash } from '../utils/passwords';
+import { verifyAuditChain } from '../utils/audit';
+import { sumJournalLines, carriedForwardEntry, type PartyBalances } from '../utils/ledger';
+import { getDeviceId } from '../utils/device';
 import type { 
     Product, ProductBatch, SaleInvoice, PurchaseInvoice, InTransitInvoice, Supplier, Customer, 
     Employee, Expense, Role, User, StoreSettings, ActivityLog, 
     CustomerTransaction, SupplierTransaction, PayrollTransaction, AppState, Service,
-    DepositHolder, DepositTransaction
+    DepositHolder, DepositTransaction, JournalEntry, JournalLine, LedgerPartyType, BalanceSnapshot, AuditEntry, ParkedCart, Shift, PriceList, Promotion, Quotation, SalesOrder, StoreCreditVoucher
 } from '../types';
+import type { ShiftMovements } from '../utils/shifts';
+
+// Users written before password hashing carry the plaintext in `password`
+type LegacyUser = User & { password?: string };
+
+// Replaces a legacy plaintext password with its hash; users already hashed pass through untouched
+const upgradeLegacyUser = async ({ password, ...user }: LegacyUser): Promise<User> => {
+    if (password === undefined) return user;
+    return { ...user, passwordHash: isPasswordHash(user.passwordHash) ? user.passwordHash : await hashPassword(password) };
+};
+
+const withLocalCredentials = (user: User, local?: User): User => ({
+    ...user,
+    ...(local?.passwordHash ? { passwordHash: local.passwordHash } : {}),
+    ...(local?.pinHash ? { pinHash: local.pinHash } : {}),
+});
+
+const OPENING_JOURNAL_KEY = 'openingJournal';
+const JOURNAL_PAGE_SIZE = 500;
+
+export interface PartyTransactions {
+    customer: CustomerTransaction;
+    supplier: SupplierTransaction;
+    employee: PayrollTransaction;
+    depositHolder: DepositTransaction;
+}
+
+// The parties a payment can be recorded against
+type PaymentPartyType = Exclude<LedgerPartyType, 'depositHolder'>;
+
+const PARTY_TRANSACTION_INDEXES: Record<LedgerPartyType, [string, string]> = {
+    customer: [db.STORES.CUSTOMER_TX, 'customerId'],
+    supplier: [db.STORES.SUPPLIER_TX, 'supplierId'],
+    employee: [db.STORES.PAYROLL_TX, 'employeeId'],
+    depositHolder: [db.STORES.DEPOSIT_TRANSACTIONS, 'holderId'],
+};
+
+// A hash that never matches, so unknown usernames cost as much to check as known ones
+let decoyHash: Promise<string> | null = null;
+const getDecoyHash = () => decoyHash || (decoyHash = hashPassword(crypto.randomUUID()));
 
 export interface AdminProfile {
     id: string;
     email: string;
     is_approved: boolean;
-    current_device_id: string | null;
+}
+
+export type DeviceStatus = 'pending' | 'approved' | 'revoked';
+
+// An expense and its journal lines, written together with the document it belongs to
+export interface ExpenseWrite {
+    expense: Expense;
+    journal: JournalEntry[];
+}
+
+// Everything a purchase invoice writes: the invoice, the supplier's balance and payable, the new batches and its additional cost
+export interface PurchaseWrite {
+    invoice: PurchaseInvoice;
+    supplierUpdate: BalanceChange & { transaction: SupplierTransaction };
+    newBatches: any[];
+    journal: JournalEntry[];
+    additionalCost?: ExpenseWrite;
+}
+
+// A deposit or withdrawal with the change it makes to the holder's balances and its journal lines
+export interface DepositWrite {
+    change: PartyBalances;
+    transaction: DepositTransaction;
+    journal: JournalEntry[];
+}
+
+// A signed change to a batch's stock: negative takes goods off the shelf, positive puts them back
+export interface StockChange {
+    batchId: string;
+    quantity: number;
+}
+
+// What a write moves a party's balances by. Changes are added to the balances read inside the write,
+// never worked out from a loaded copy, so movements another device made in the meantime are kept.
+export interface BalanceChange {
+    id: string;
+    change: PartyBalances;
+}
+
+// The part of a sale paid from a voucher, in the base currency
+export interface VoucherSpend {
+    voucherId: string;
+    amount: number;
+}
+
+// What a void is worked out from, read inside its transaction so it never goes by a stale loaded copy
+export interface SaleVoidSource {
+    invoice?: SaleInvoice;
+    returns: SaleInvoice[];
+    posted: JournalEntry[];
+    customer?: Customer;
+    supplier?: Supplier;
+    vouchers: StoreCreditVoucher[]; // Vouchers the sale was paid from
+}
+
+// Everything a void writes: the invoice marked void, its stock back, the parties' balances and the reversing journal
+export interface SaleVoidWrite {
+    invoice: SaleInvoice;
+    stockRestores: { batchId: string, quantity: number }[];
+    customerUpdate?: { id: string, newBalances: BalanceSnapshot, transaction: CustomerTransaction };
+    supplierUpdate?: { id: string, newBalances: BalanceSnapshot, transaction: SupplierTransaction };
+    journal: JournalEntry[];
+    vouchers: StoreCreditVoucher[]; // Vouchers the sale spent, given their balance back
+}
+
+export interface ShopDevice {
+    id: string;
+    owner_id: string;
+    name: string;
+    status: DeviceStatus;
+    registered_at: string;
+    last_seen_at: string;
 }
 
 // DEFAULT ADMIN ROLE (Local Fallback)
+// Only written to an empty roles store: a permission added here reaches a stored admin role through a migration step
 const DEFAULT_ADMIN_ROLE: Role = {
     id: 'admin-role',
     name: 'Admin',
     permissions: [
         'page:dashboard', 'page:inventory', 'page:pos', 'page:purchases', 'page:accounting', 'page:reports', 'page:settings', 'page:in_transit', 'page:deposits',
         'inventory:add_product', 'inventory:edit_product', 'inventory:delete_product',
-        'pos:create_invoice', 'pos:edit_invoice', 'pos:apply_discount', 'pos:create_credit_sale',
+        'pos:create_invoice', 'pos:edit_invoice', 'pos:apply_discount', 'pos:create_credit_sale', 'pos:approve_override', 'pos:manage_shift', 'pos:manage_quotations', 'pos:manage_sales_orders', 'pos:void_invoice', 'pos:return_without_invoice',
         'purchase:create_invoice', 'purchase:edit_invoice',
         'in_transit:confirm_receipt',
         'accounting:manage_suppliers', 'accounting:manage_customers', 'accounting:manage_payroll', 'accounting:manage_expenses', 'accounting:manage_deposits',
-        'settings:manage_store', 'settings:manage_users', 'settings:manage_backup', 'settings:manage_services', 'settings:manage_alerts'
+        'settings:manage_store', 'settings:manage_users', 'settings:manage_backup', 'settings:manage_services', 'settings:manage_alerts', 'settings:data_integrity', 'settings:manage_devices', 'settings:manage_price_lists', 'settings:manage_promotions',
+        'reports:view_audit'
     ]
 };
 
@@ -73,34 +191,81 @@ export const api = {
         }
     },
 
-    // --- CLOUD BACKUP ---
-    saveCloudBackup: async (userId: string, appState: any): Promise<boolean> => {
+    // --- LEGACY CLOUD BACKUP (Online Only) ---
+    // Before record sync, the whole state was uploaded to `backups`, one row per owner. Nothing writes
+    // there any more; the last upload is only read back so a shop can restore it once.
+    getLegacyCloudBackup: async (ownerId: string): Promise<{ data: AppState; updatedAt: string } | null> => {
         try {
-            const { error } = await supabase.from('backups').upsert({
-                user_id: userId,
-                data: appState,
-                updated_at: new Date().toISOString()
-            }, { onConflict: 'user_id' });
-            return !error;
+            const { data, error } = await supabase.from('backups').select('data, updated_at').eq('user_id', ownerId).maybeSingle();
+            if (error || !data?.data) return null;
+            return { data: data.data, updatedAt: data.updated_at };
         } catch (e) {
-            return false;
+            return null;
         }
     },
-    getCloudBackup: async (userId: string): Promise<any | null> => {
+
+    // --- SHOP DEVICES (Online Only) ---
+    // Registers the device on first contact and refreshes last_seen_at on every later one.
+    // The owner's first device is approved outright; later ones wait for the owner. Returns null when offline or on error.
+    checkInDevice: async (ownerId: string, deviceId: string, name: string): Promise<DeviceStatus | null> => {
         try {
-            const { data, error } = await supabase.from('backups').select('data').eq('user_id', userId).maybeSingle();
-            if (error || !data) return null;
-            return data.data;
+            const { data, error } = await supabase.from('shop_devices').select('*').eq('owner_id', ownerId).eq('id', deviceId).maybeSingle();
+            if (error) return null;
+            const now = new Date().toISOString();
+            if (data) {
+                if (data.status !== 'approved') return data.status;
+                const { error: updateError } = await supabase.from('shop_devices').update({ last_seen_at: now }).eq('owner_id', ownerId).eq('id', deviceId);
+                return updateError ? null : 'approved';
+            }
+            const { count, error: countError } = await supabase.from('shop_devices').select('id', { count: 'exact', head: true }).eq('owner_id', ownerId);
+            if (countError) return null;
+            const status: DeviceStatus = count ? 'pending' : 'approved';
+            const { error: insertError } = await supabase.from('shop_devices').insert({ id: deviceId, owner_id: ownerId, name, status, registered_at: now, last_seen_at: now });
+            return insertError ? null : status;
         } catch (e) {
             return null;
         }
     },
-    
+    getDevices: async (ownerId: string): Promise<ShopDevice[]> => {
+        const { data, error } = await supabase.from('shop_devices').select('*').eq('owner_id', ownerId).order('registered_at', { ascending: true });
+        if (error) throw error.message;
+        return data || [];
+    },
+    updateDevice: async (ownerId: string, deviceId: string, updates: Partial<Pick<ShopDevice, 'name' | 'status'>>): Promise<boolean> => {
+        try {
+            const { error } = await supabase.from('shop_devices').update(updates).eq('owner_id', ownerId).eq('id', deviceId);
+            if (error) {
+                console.error("Supabase device update error:", error);
+                return false;
+            }
+            return true;
+        } catch (e) {
+            console.error("Device update failed:", e);
+            return false;
+        }
+    },
+
     // --- STAFF AUTH (100% LOCAL) ---
     verifyStaffCredentials: async (username: string, password: string): Promise<User | null> => {
         const users = await db.getAll<User>(db.STORES.USERS);
-        const user = users.find(u => u.username === username && u.password === password);
-        return user || null;
+        const user = users.find(u => u.username === username);
+        const isValid = await verifyPassword(password, user ? user.passwordHash : await getDecoyHash());
+        return user && isValid ? user : null;
+    },
+    verifyStaffPin: async (userId: string, pin: string): Promise<User | null> => {
+        const user = await db.getById<User>(db.STORES.USERS, userId);
+        if (!user?.pinHash) return null;
+        return (await verifyPassword(pin, user.pinHash)) ? user : null;
+    },
+    // Hashes plaintext passwords left by versions before hashing; a no-op once every user is upgraded
+    upgradeLegacyPasswords: async (): Promise<number> => {
+        const legacy = (await db.getAll<LegacyUser>(db.STORES.USERS)).filter(u => u.password !== undefined);
+        if (legacy.length === 0) return 0;
+        const upgraded = await Promise.all(legacy.map(upgradeLegacyUser));
+        await db.runTransaction([db.STORES.USERS], async (tx) => {
+            for (const user of upgraded) await tx.put(db.STORES.USERS, user);
+        });
+        return upgraded.length;
     },
 
     // --- SETTINGS (Local) ---
@@ -122,15 +287,23 @@ export const api = {
         }
         return roles;
     },
-    addUser: async (user: Omit<User, 'id'>) => {
+    addUser: async ({ password, pin, ...user }: Omit<User, 'id' | 'passwordHash' | 'pinHash'> & { password: string; pin?: string }) => {
         const newId = crypto.randomUUID();
-        const newUser = { ...user, id: newId };
+        const newUser: User = { ...user, id: newId, passwordHash: await hashPassword(password) };
+        if (pin) newUser.pinHash = await hashPassword(pin);
         await db.putItem(db.STORES.USERS, newUser);
         return newUser;
     },
-    updateUser: async (user: Partial<User> & { id: string }) => {
-        const existing = await db.getById<User>(db.STORES.USERS, user.id);
-        if (existing) await db.putItem(db.STORES.USERS, { ...existing, ...user });
+    // `pin`: a string sets a new PIN, null removes it, undefined leaves it as is
+    updateUser: async ({ password, pin, ...user }: Partial<Omit<User, 'passwordHash' | 'pinHash'>> & { id: string; password?: string; pin?: string | null }): Promise<User | null> => {
+        const existing = await db.getById<LegacyUser>(db.STORES.USERS, user.id);
+        if (!existing) return null;
+        const updated = { ...(await upgradeLegacyUser(existing)), ...user };
+        if (password) updated.passwordHash = await hashPassword(password);
+        if (pin) updated.pinHash = await hashPassword(pin);
+        if (pin === null) delete updated.pinHash;
+        await db.putItem(db.STORES.USERS, updated);
+        return updated;
     },
     deleteUser: async (id: string) => db.deleteItem(db.STORES.USERS, id),
     addRole: async (role: Omit<Role, 'id'>) => {
@@ -146,7 +319,10 @@ export const api = {
     },
 
     // --- SHOP ENTITIES ---
-    getProducts: async () => db.getAll<Product>(db.STORES.PRODUCTS),
+    getProducts: async () => {
+        const products = await db.getAll<Product>(db.STORES.PRODUCTS);
+        return products.map(({ batchIds, ...product }) => product);
+    },
     addProduct: async (product: Omit<Product, 'id'|'batches'>, firstBatch: Omit<ProductBatch, 'id'>) => {
         const productId = crypto.randomUUID();
         const batchId = crypto.randomUUID();
@@ -156,6 +332,14 @@ export const api = {
     },
     updateProduct: async (product: Product) => db.putItem(db.STORES.PRODUCTS, product),
     deleteProduct: async (id: string) => db.deleteItem(db.STORES.PRODUCTS, id),
+    isProductReferenced: async (productId: string) => {
+        const [sale, purchase, inTransit] = await Promise.all([
+            db.findFirst<SaleInvoice>(db.STORES.SALE_INVOICES, inv => inv.items.some(item => item.id === productId)),
+            db.findFirst<PurchaseInvoice>(db.STORES.PURCHASE_INVOICES, inv => inv.items.some(item => item.productId === productId)),
+            db.findFirst<InTransitInvoice>(db.STORES.IN_TRANSIT_INVOICES, inv => inv.items.some(item => item.productId === productId))
+        ]);
+        return !!(sale || purchase || inTransit);
+    },
 
     getServices: async () => db.getAll<Service>(db.STORES.SERVICES),
     addService: async (service: Omit<Service, 'id'>) => {
@@ -166,6 +350,36 @@ export const api = {
     },
     deleteService: async (id: string) => db.deleteItem(db.STORES.SERVICES, id),
 
+    getParkedCarts: async () => db.getAll<ParkedCart>(db.STORES.PARKED_CARTS),
+    saveParkedCart: async (cart: ParkedCart) => db.putItem(db.STORES.PARKED_CARTS, cart),
+    deleteParkedCart: async (id: string) => db.deleteItem(db.STORES.PARKED_CARTS, id),
+
+    getShifts: async () => db.getByIndexRange<Shift>(db.STORES.SHIFTS, 'openedAt', { direction: 'prev' }),
+    saveShift: async (shift: Shift) => db.putItem(db.STORES.SHIFTS, shift),
+    // Read by index so a shift's records are found even when they are older than the loaded invoice window
+    getShiftMovements: async (shiftId: string): Promise<ShiftMovements> => {
+        const [saleInvoices, customerTransactions, expenses] = await Promise.all([
+            db.getAllByIndex<SaleInvoice>(db.STORES.SALE_INVOICES, 'shiftId', shiftId),
+            db.getAllByIndex<CustomerTransaction>(db.STORES.CUSTOMER_TX, 'shiftId', shiftId),
+            db.getAllByIndex<Expense>(db.STORES.EXPENSES, 'shiftId', shiftId)
+        ]);
+        return { saleInvoices, customerTransactions, expenses };
+    },
+
+    getPriceLists: async () => db.getAll<PriceList>(db.STORES.PRICE_LISTS),
+    savePriceList: async (list: PriceList) => db.putItem(db.STORES.PRICE_LISTS, list),
+    deletePriceList: async (id: string) => db.deleteItem(db.STORES.PRICE_LISTS, id),
+
+    getPromotions: async () => db.getAll<Promotion>(db.STORES.PROMOTIONS),
+    savePromotion: async (promotion: Promotion) => db.putItem(db.STORES.PROMOTIONS, promotion),
+    deletePromotion: async (id: string) => db.deleteItem(db.STORES.PROMOTIONS, id),
+    getQuotations: async () => db.getAll<Quotation>(db.STORES.QUOTATIONS),
+    saveQuotation: async (quotation: Quotation) => db.putItem(db.STORES.QUOTATIONS, quotation),
+    deleteQuotation: async (id: string) => db.deleteItem(db.STORES.QUOTATIONS, id),
+    getSalesOrders: async () => db.getAll<SalesOrder>(db.STORES.SALES_ORDERS),
+    saveSalesOrder: async (order: SalesOrder) => db.putItem(db.STORES.SALES_ORDERS, order),
+    getStoreCreditVouchers: async () => db.getAll<StoreCreditVoucher>(db.STORES.STORE_CREDIT_VOUCHERS),
+
     getEntities: async () => {
         const [customers, suppliers, employees, expenses, depositHolders] = await Promise.all([
             db.getAll<Customer>(db.STORES.CUSTOMERS),
@@ -198,9 +412,21 @@ export const api = {
         await db.putItem(db.STORES.EMPLOYEES, item); 
         return item; 
     },
-    addExpense: async (e: any) => { const id = crypto.randomUUID(); const item = { ...e, id }; await db.putItem(db.STORES.EXPENSES, item); return item; },
-    updateExpense: async (e: Expense) => db.putItem(db.STORES.EXPENSES, e),
-    deleteExpense: async (id: string) => db.deleteItem(db.STORES.EXPENSES, id),
+    addExpense: async (e: any, journal: JournalEntry[] = []) => {
+        const item = { id: crypto.randomUUID(), ...e };
+        await db.runTransaction([db.STORES.EXPENSES, db.STORES.JOURNAL], (tx) => writeExpense(tx, { expense: item, journal }));
+        return item;
+    },
+    updateExpense: async (e: Expense, journal: JournalEntry[] = []) => {
+        await db.runTransaction([db.STORES.EXPENSES, db.STORES.JOURNAL], (tx) => writeExpense(tx, { expense: e, journal }));
+    },
+    getRelatedExpenses: async (relatedId: string) => db.getAllByIndex<Expense>(db.STORES.EXPENSES, 'relatedId', relatedId),
+    deleteExpense: async (id: string) => {
+        await db.runTransaction([db.STORES.EXPENSES, db.STORES.JOURNAL], async (tx) => {
+            await tx.delete(db.STORES.EXPENSES, id);
+            await replaceJournal(tx, id, []);
+        });
+    },
 
     // --- SECURITY DEPOSITS (LOCAL) ---
     addDepositHolder: async (holder: Omit<DepositHolder, 'id' | 'balance' | 'balanceAFN' | 'balanceUSD' | 'balanceIRT' | 'createdAt'>) => {
@@ -213,280 +439,558 @@ export const api = {
     deleteDepositHolder: async (id: string) => db.deleteItem(db.STORES.DEPOSIT_HOLDERS, id),
     addDepositTransaction: async (tx: DepositTransaction) => db.putItem(db.STORES.DEPOSIT_TRANSACTIONS, tx),
 
-    getTransactions: async () => {
+    // Newest first, windowed by date like the invoices; without bounds it is the whole history
+    getTransactions: async (since?: string, before?: string) => {
+        const range = { direction: 'prev' as const, lower: since, upper: before, upperOpen: true };
         const [customerTransactions, supplierTransactions, payrollTransactions, depositTransactions] = await Promise.all([
-            db.getAll<CustomerTransaction>(db.STORES.CUSTOMER_TX),
-            db.getAll<SupplierTransaction>(db.STORES.SUPPLIER_TX),
-            db.getAll<PayrollTransaction>(db.STORES.PAYROLL_TX),
-            db.getAll<DepositTransaction>(db.STORES.DEPOSIT_TRANSACTIONS)
+            db.getByIndexRange<CustomerTransaction>(db.STORES.CUSTOMER_TX, 'date', range),
+            db.getByIndexRange<SupplierTransaction>(db.STORES.SUPPLIER_TX, 'date', range),
+            db.getByIndexRange<PayrollTransaction>(db.STORES.PAYROLL_TX, 'date', range),
+            db.getByIndexRange<DepositTransaction>(db.STORES.DEPOSIT_TRANSACTIONS, 'date', range)
         ]);
         return { customerTransactions, supplierTransactions, payrollTransactions, depositTransactions };
     },
+    // One party's whole history, for statements that reach back past the loaded window
+    getPartyTransactions: async <P extends LedgerPartyType>(partyType: P, partyId: string): Promise<PartyTransactions[P][]> => {
+        const [store, index] = PARTY_TRANSACTION_INDEXES[partyType];
+        return db.getAllByIndex<PartyTransactions[P]>(store, index, partyId);
+    },
 
-    getInvoices: async () => {
+    // ISO timestamps sort lexicographically, so the timestamp index already yields newest-first order.
+    // Sale and purchase invoices are windowed by `since`; in-transit orders are few and always loaded whole.
+    getInvoices: async (since?: string) => {
+        const recent = { direction: 'prev' as const, lower: since };
         const [saleInvoices, purchaseInvoices, inTransitInvoices] = await Promise.all([
-            db.getAll<SaleInvoice>(db.STORES.SALE_INVOICES),
-            db.getAll<PurchaseInvoice>(db.STORES.PURCHASE_INVOICES),
-            db.getAll<InTransitInvoice>(db.STORES.IN_TRANSIT_INVOICES)
+            db.getByIndexRange<SaleInvoice>(db.STORES.SALE_INVOICES, 'timestamp', recent),
+            db.getByIndexRange<PurchaseInvoice>(db.STORES.PURCHASE_INVOICES, 'timestamp', recent),
+            api.getInTransitInvoices()
         ]);
-        return { 
-            saleInvoices: saleInvoices.sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()), 
-            purchaseInvoices: purchaseInvoices.sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
-            inTransitInvoices: inTransitInvoices.sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-        };
+        return { saleInvoices, purchaseInvoices, inTransitInvoices };
     },
-
-    getActivities: async () => {
-        const logs = await db.getAll<ActivityLog>(db.STORES.ACTIVITY);
-        return logs.sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()).slice(0, 100);
+    // Invoices in [since, before), for growing the in-memory window backwards
+    getOlderInvoices: async (since: string, before: string) => {
+        const range = { direction: 'prev' as const, lower: since, upper: before, upperOpen: true };
+        const [saleInvoices, purchaseInvoices] = await Promise.all([
+            db.getByIndexRange<SaleInvoice>(db.STORES.SALE_INVOICES, 'timestamp', range),
+            db.getByIndexRange<PurchaseInvoice>(db.STORES.PURCHASE_INVOICES, 'timestamp', range)
+        ]);
+        return { saleInvoices, purchaseInvoices };
+    },
+    hasInvoicesBefore: async (before: string) => {
+        const range = { upper: before, upperOpen: true, limit: 1 };
+        const [sale, purchase] = await Promise.all([
+            db.getByIndexRange<SaleInvoice>(db.STORES.SALE_INVOICES, 'timestamp', range),
+            db.getByIndexRange<PurchaseInvoice>(db.STORES.PURCHASE_INVOICES, 'timestamp', range)
+        ]);
+        return sale.length > 0 || purchase.length > 0;
+    },
+    getInTransitInvoices: async () => db.getByIndexRange<InTransitInvoice>(db.STORES.IN_TRANSIT_INVOICES, 'timestamp', { direction: 'prev' }),
+    getSaleInvoice: async (id: string) => db.getById<SaleInvoice>(db.STORES.SALE_INVOICES, id),
+    getPurchaseInvoice: async (id: string) => db.getById<PurchaseInvoice>(db.STORES.PURCHASE_INVOICES, id),
+    // Invoice numbers are sequential over the whole store, not just the loaded window
+    getInvoiceIds: async (kind: 'sale' | 'purchase') => {
+        const keys = await db.getAllKeys(kind === 'sale' ? db.STORES.SALE_INVOICES : db.STORES.PURCHASE_INVOICES);
+        return keys.map(String);
     },
+
+    getActivities: async (from?: db.PageCursor) => db.getPage<ActivityLog>(db.STORES.ACTIVITY, 'timestamp', { direction: 'prev', limit: 100, from }),
     addActivity: async (log: ActivityLog) => db.putItem(db.STORES.ACTIVITY, log),
 
+    // --- AUDIT LOG (written by the local database itself, never by callers) ---
+    getAuditLog: async (start: Date, end: Date) =>
+        db.getByIndexRange<AuditEntry>(db.AUDIT_STORE, 'timestamp', { lower: start.toISOString(), upper: end.toISOString(), direction: 'prev' }),
+    // Checks the whole log, every device's chain, against the hashes and this device's chain head
+    verifyAuditLog: async () => {
+        const [entries, head] = await Promise.all([db.getAll<AuditEntry>(db.AUDIT_STORE), db.getAuditChainHead()]);
+        return { checked: entries.length, problems: verifyAuditChain(entries, { deviceId: getDeviceId(), head }) };
+    },
+
+    // --- GENERAL LEDGER ---
+    // The journal from `since` on. What came before is read page by page and kept only as its totals,
+    // in one carried-forward entry, so the balances derived from the result still cover the whole history.
+    getJournal: async (since?: string): Promise<JournalEntry[]> => {
+        if (!since) return db.getByIndexRange<JournalEntry>(db.STORES.JOURNAL, 'date');
+        const recent = await db.getByIndexRange<JournalEntry>(db.STORES.JOURNAL, 'date', { lower: since });
+        const older = { upper: since, upperOpen: true, limit: JOURNAL_PAGE_SIZE };
+        let page = await db.getPage<JournalEntry>(db.STORES.JOURNAL, 'date', older);
+        const totals = sumJournalLines(page.items);
+        while (page.next) {
+            page = await db.getPage<JournalEntry>(db.STORES.JOURNAL, 'date', { ...older, from: page.next });
+            sumJournalLines(page.items, totals);
+        }
+        return totals.size > 0 ? [carriedForwardEntry(totals, since), ...recent] : recent;
+    },
+    // Posts the opening entry once, for data recorded before the journal existed. The check is recorded in
+    // sync state, so a shop whose journal is still empty does not rebuild it from its whole history every start.
+    ensureOpeningJournal: async (buildOpening: () => Promise<JournalEntry[]>): Promise<JournalEntry[]> => {
+        if (await db.getSyncState<boolean>(OPENING_JOURNAL_KEY)) return [];
+        const existing = await db.getByIndexRange<JournalEntry>(db.STORES.JOURNAL, 'date', { limit: 1 });
+        const opening = existing.length > 0 ? [] : await buildOpening();
+        await db.runTransaction([db.STORES.JOURNAL], async (tx) => {
+            for (const entry of opening) await tx.put(db.STORES.JOURNAL, entry);
+        });
+        await db.setSyncState(OPENING_JOURNAL_KEY, true);
+        return opening;
+    },
+
+    // Resolves to the vouchers the sale was paid from, as written
     createSale: async (
         invoice: SaleInvoice, 
-        stockUpdates: {batchId: string, newStock: number}[], 
-        customerUpdate?: {id: string, newBalances: {AFN: number, USD: number, IRT: number, Total: number}, transaction: CustomerTransaction},
-        supplierUpdate?: {id: string, newBalances: {AFN: number, USD: number, IRT: number, Total: number}, transaction: SupplierTransaction}
-    ) => {
-        await db.putItem(db.STORES.SALE_INVOICES, invoice);
-        for (const update of stockUpdates) {
-            const product = await findProductByBatchId(update.batchId);
-            if (product) {
-                product.batches = product.batches.map(b => b.id === update.batchId ? { ...b, stock: update.newStock } : b);
-                await db.putItem(db.STORES.PRODUCTS, product);
+        stockChanges: StockChange[], 
+        customerUpdate?: BalanceChange & { transaction: CustomerTransaction },
+        supplierUpdate?: BalanceChange & { transaction: SupplierTransaction },
+        journal: JournalEntry[] = [],
+        salesOrder?: SalesOrder, // A delivery saves its order's new quantities with the invoice
+        voucherSpends: VoucherSpend[] = []
+    ): Promise<StoreCreditVoucher[]> => {
+        return db.runTransaction([db.STORES.SALE_INVOICES, db.STORES.PRODUCTS, db.STORES.CUSTOMERS, db.STORES.CUSTOMER_TX, db.STORES.SUPPLIERS, db.STORES.SUPPLIER_TX, db.STORES.JOURNAL, db.STORES.STORE_CREDIT_VOUCHERS, ...(salesOrder ? [db.STORES.SALES_ORDERS] : [])], async (tx) => {
+            await tx.put(db.STORES.SALE_INVOICES, invoice);
+            if (salesOrder) await tx.put(db.STORES.SALES_ORDERS, salesOrder);
+            const vouchers = await spendVouchers(tx, invoice, voucherSpends);
+            await replaceJournal(tx, invoice.id, journal);
+            await addToStock(tx, stockChanges);
+            if (customerUpdate && await addToBalances(tx, db.STORES.CUSTOMERS, customerUpdate.id, customerUpdate.change)) {
+                await tx.put(db.STORES.CUSTOMER_TX, customerUpdate.transaction);
             }
-        }
-        if (customerUpdate) {
-            const customer = await db.getById<Customer>(db.STORES.CUSTOMERS, customerUpdate.id);
-            if (customer) {
-                await db.putItem(db.STORES.CUSTOMERS, { ...customer, balanceAFN: customerUpdate.newBalances.AFN, balanceUSD: customerUpdate.newBalances.USD, balanceIRT: customerUpdate.newBalances.IRT, balance: customerUpdate.newBalances.Total });
-                await db.putItem(db.STORES.CUSTOMER_TX, customerUpdate.transaction);
+            if (supplierUpdate && await addToBalances(tx, db.STORES.SUPPLIERS, supplierUpdate.id, supplierUpdate.change)) {
+                await tx.put(db.STORES.SUPPLIER_TX, supplierUpdate.transaction);
             }
-        }
-        if (supplierUpdate) {
-            const supplier = await db.getById<Supplier>(db.STORES.SUPPLIERS, supplierUpdate.id);
-            if (supplier) {
-                await db.putItem(db.STORES.SUPPLIERS, { ...supplier, balanceAFN: supplierUpdate.newBalances.AFN, balanceUSD: supplierUpdate.newBalances.USD, balanceIRT: supplierUpdate.newBalances.IRT, balance: supplierUpdate.newBalances.Total });
-                await db.putItem(db.STORES.SUPPLIER_TX, supplierUpdate.transaction);
-            }
-        }
+            return vouchers;
+        });
     },
 
     updateSale: async (
         invoiceId: string, 
         newInvoiceData: SaleInvoice, 
-        stockRestores: {batchId: string, quantity: number}[], 
-        stockUpdates: {batchId: string, newStock: number}[], 
-        customerUpdates: {id: string, newBalances: {AFN: number, USD: number, IRT: number, Total: number}}[], 
+        stockChanges: StockChange[], // The old invoice's goods put back and the new one's taken off
+        customerUpdates: BalanceChange[], 
         transaction: CustomerTransaction,
-        supplierUpdates: {id: string, newBalances: {AFN: number, USD: number, IRT: number, Total: number}}[] = [],
-        supplierTransaction?: SupplierTransaction
+        supplierUpdates: BalanceChange[] = [],
+        supplierTransaction?: SupplierTransaction,
+        journal: JournalEntry[] = []
     ) => {
-        await db.putItem(db.STORES.SALE_INVOICES, newInvoiceData);
-        for (const restore of stockRestores) {
-            const product = await findProductByBatchId(restore.batchId);
-            if (product) {
-                product.batches = product.batches.map(b => b.id === restore.batchId ? { ...b, stock: b.stock + restore.quantity } : b);
-                await db.putItem(db.STORES.PRODUCTS, product);
+        await db.runTransaction([db.STORES.SALE_INVOICES, db.STORES.PRODUCTS, db.STORES.CUSTOMERS, db.STORES.CUSTOMER_TX, db.STORES.SUPPLIERS, db.STORES.SUPPLIER_TX, db.STORES.JOURNAL], async (tx) => {
+            await tx.put(db.STORES.SALE_INVOICES, newInvoiceData);
+            await replaceJournal(tx, invoiceId, journal);
+            await addToStock(tx, stockChanges);
+            for (const cu of customerUpdates) await addToBalances(tx, db.STORES.CUSTOMERS, cu.id, cu.change);
+            const [existingCustomerTx] = await tx.getAllByIndex<CustomerTransaction>(db.STORES.CUSTOMER_TX, 'invoiceId', invoiceId);
+            if (transaction.customerId) {
+                if (existingCustomerTx) {
+                    Object.assign(existingCustomerTx, { amount: transaction.amount, date: transaction.date, currency: transaction.currency, exchangeRate: transaction.exchangeRate, customerId: transaction.customerId });
+                    await tx.put(db.STORES.CUSTOMER_TX, existingCustomerTx);
+                } else await tx.put(db.STORES.CUSTOMER_TX, transaction);
+            } else if (existingCustomerTx) {
+                // The edited invoice no longer leaves anything on the customer's account
+                await tx.delete(db.STORES.CUSTOMER_TX, existingCustomerTx.id);
             }
-        }
-        for (const update of stockUpdates) {
-            const product = await findProductByBatchId(update.batchId);
-            if (product) {
-                product.batches = product.batches.map(b => b.id === update.batchId ? { ...b, stock: update.newStock } : b);
-                await db.putItem(db.STORES.PRODUCTS, product);
+
+            for (const su of supplierUpdates) await addToBalances(tx, db.STORES.SUPPLIERS, su.id, su.change);
+            const [existingSupplierTx] = await tx.getAllByIndex<SupplierTransaction>(db.STORES.SUPPLIER_TX, 'invoiceId', invoiceId);
+            if (supplierTransaction) {
+                if (existingSupplierTx) {
+                    Object.assign(existingSupplierTx, { amount: supplierTransaction.amount, date: supplierTransaction.date, currency: supplierTransaction.currency, exchangeRate: supplierTransaction.exchangeRate, supplierId: supplierTransaction.supplierId });
+                    await tx.put(db.STORES.SUPPLIER_TX, existingSupplierTx);
+                } else await tx.put(db.STORES.SUPPLIER_TX, supplierTransaction);
+            } else if (existingSupplierTx) {
+                await tx.delete(db.STORES.SUPPLIER_TX, existingSupplierTx.id);
             }
-        }
-        for (const cu of customerUpdates) {
-            const customer = await db.getById<Customer>(db.STORES.CUSTOMERS, cu.id);
-            if (customer) await db.putItem(db.STORES.CUSTOMERS, { ...customer, balanceAFN: cu.newBalances.AFN, balanceUSD: cu.newBalances.USD, balanceIRT: cu.newBalances.IRT, balance: cu.newBalances.Total });
-        }
-        if (transaction.customerId) {
-            const txs = await db.getAll<CustomerTransaction>(db.STORES.CUSTOMER_TX);
-            const existingTx = txs.find(t => t.invoiceId === invoiceId);
-            if (existingTx) {
-                Object.assign(existingTx, { amount: transaction.amount, date: transaction.date, currency: transaction.currency, customerId: transaction.customerId });
-                await db.putItem(db.STORES.CUSTOMER_TX, existingTx);
-            } else await db.putItem(db.STORES.CUSTOMER_TX, transaction);
-        }
+        });
+    },
 
-        for (const su of supplierUpdates) {
-            const supplier = await db.getById<Supplier>(db.STORES.SUPPLIERS, su.id);
-            if (supplier) await db.putItem(db.STORES.SUPPLIERS, { ...supplier, balanceAFN: su.newBalances.AFN, balanceUSD: su.newBalances.USD, balanceIRT: su.newBalances.IRT, balance: su.newBalances.Total });
-        }
-        if (supplierTransaction) {
-            const txs = await db.getAll<SupplierTransaction>(db.STORES.SUPPLIER_TX);
-            const existingTx = txs.find(t => t.invoiceId === invoiceId);
-            if (existingTx) {
-                Object.assign(existingTx, { amount: supplierTransaction.amount, date: supplierTransaction.date, currency: supplierTransaction.currency, supplierId: supplierTransaction.supplierId });
-                await db.putItem(db.STORES.SUPPLIER_TX, existingTx);
-            } else await db.putItem(db.STORES.SUPPLIER_TX, supplierTransaction);
-        }
+    // A return without its invoice may shelve goods in batches of their own (newBatches); a voucher refund is saved with it
+    createSaleReturn: async (
+        returnInvoice: SaleInvoice,
+        stockRestores: StockChange[],
+        customerRefund?: BalanceChange & { amount: number, currency: 'AFN'|'USD'|'IRT' },
+        journal: JournalEntry[] = [],
+        voucher?: StoreCreditVoucher,
+        newBatches: {productId: string, batch: ProductBatch}[] = []
+    ) => {
+        await db.runTransaction([db.STORES.SALE_INVOICES, db.STORES.PRODUCTS, db.STORES.CUSTOMERS, db.STORES.CUSTOMER_TX, db.STORES.JOURNAL, db.STORES.STORE_CREDIT_VOUCHERS], async (tx) => {
+            await tx.put(db.STORES.SALE_INVOICES, returnInvoice);
+            await replaceJournal(tx, returnInvoice.id, journal);
+            if (voucher) await tx.put(db.STORES.STORE_CREDIT_VOUCHERS, voucher);
+            for (const { productId, batch } of newBatches) {
+                const product = await tx.get<Product>(db.STORES.PRODUCTS, productId);
+                if (product) await tx.put(db.STORES.PRODUCTS, { ...product, batches: [...product.batches, batch] });
+            }
+            await addToStock(tx, stockRestores);
+            if (customerRefund && await addToBalances(tx, db.STORES.CUSTOMERS, customerRefund.id, customerRefund.change)) {
+                const returnTx: CustomerTransaction = { id: crypto.randomUUID(), customerId: customerRefund.id, type: 'sale_return', amount: customerRefund.amount, date: returnInvoice.timestamp, description: returnInvoice.originalInvoiceId ? `مرجوعی فاکتور #${returnInvoice.originalInvoiceId}` : `مرجوعی بدون فاکتور #${returnInvoice.id}`, invoiceId: returnInvoice.id, currency: customerRefund.currency };
+                await tx.put(db.STORES.CUSTOMER_TX, returnTx);
+            }
+        });
+    },
+
+    // A sale and the return it was swapped for, saved together. Stock changes hold both the returned and the sold goods.
+    // Resolves to the vouchers the sale was paid from, as written.
+    createExchange: async (
+        invoice: SaleInvoice,
+        returnInvoice: SaleInvoice,
+        stockChanges: StockChange[],
+        customerUpdates: BalanceChange[],
+        supplierUpdates: BalanceChange[],
+        customerTransactions: CustomerTransaction[],
+        supplierTransactions: SupplierTransaction[],
+        journal: JournalEntry[] = [],
+        voucherSpends: VoucherSpend[] = []
+    ): Promise<StoreCreditVoucher[]> => {
+        return db.runTransaction([db.STORES.SALE_INVOICES, db.STORES.PRODUCTS, db.STORES.CUSTOMERS, db.STORES.CUSTOMER_TX, db.STORES.SUPPLIERS, db.STORES.SUPPLIER_TX, db.STORES.JOURNAL, db.STORES.STORE_CREDIT_VOUCHERS], async (tx) => {
+            await tx.put(db.STORES.SALE_INVOICES, invoice);
+            await tx.put(db.STORES.SALE_INVOICES, returnInvoice);
+            const vouchers = await spendVouchers(tx, invoice, voucherSpends);
+            await replaceJournal(tx, invoice.id, journal.filter(e => e.refId === invoice.id));
+            await replaceJournal(tx, returnInvoice.id, journal.filter(e => e.refId === returnInvoice.id));
+            await addToStock(tx, stockChanges);
+            for (const cu of customerUpdates) await addToBalances(tx, db.STORES.CUSTOMERS, cu.id, cu.change);
+            for (const su of supplierUpdates) await addToBalances(tx, db.STORES.SUPPLIERS, su.id, su.change);
+            for (const t of customerTransactions) await tx.put(db.STORES.CUSTOMER_TX, t);
+            for (const t of supplierTransactions) await tx.put(db.STORES.SUPPLIER_TX, t);
+            return vouchers;
+        });
     },
 
-    createSaleReturn: async (returnInvoice: SaleInvoice, stockRestores: {batchId: string, quantity: number}[], customerRefund?: {id: string, amount: number, currency: 'AFN'|'USD'|'IRT', newBalances: any}) => {
-        await db.putItem(db.STORES.SALE_INVOICES, returnInvoice);
-        for (const restore of stockRestores) {
-            const product = await findProductByBatchId(restore.batchId);
-            if (product) {
-                product.batches = product.batches.map(b => b.id === restore.batchId ? { ...b, stock: b.stock + restore.quantity } : b);
-                await db.putItem(db.STORES.PRODUCTS, product);
+    // The journal holds the original entries and their reversal together under the invoice's id. `build` throws to refuse the void.
+    voidSale: async (invoiceId: string, build: (source: SaleVoidSource) => SaleVoidWrite): Promise<SaleVoidWrite> => {
+        return db.runTransaction([db.STORES.SALE_INVOICES, db.STORES.PRODUCTS, db.STORES.CUSTOMERS, db.STORES.CUSTOMER_TX, db.STORES.SUPPLIERS, db.STORES.SUPPLIER_TX, db.STORES.JOURNAL, db.STORES.STORE_CREDIT_VOUCHERS], async (tx) => {
+            const invoice = await tx.get<SaleInvoice>(db.STORES.SALE_INVOICES, invoiceId);
+            const returns = await tx.getAllByIndex<SaleInvoice>(db.STORES.SALE_INVOICES, 'originalInvoiceId', invoiceId);
+            const posted = await tx.getAllByIndex<JournalEntry>(db.STORES.JOURNAL, 'refId', invoiceId);
+            const customer = invoice?.customerId ? await tx.get<Customer>(db.STORES.CUSTOMERS, invoice.customerId) : undefined;
+            const supplier = invoice?.supplierIntermediaryId ? await tx.get<Supplier>(db.STORES.SUPPLIERS, invoice.supplierIntermediaryId) : undefined;
+            const vouchers: StoreCreditVoucher[] = [];
+            for (const voucherId of new Set(invoice?.payment?.tenders.flatMap(t => t.kind === 'voucher' && t.voucherId ? [t.voucherId] : []))) {
+                const voucher = await tx.get<StoreCreditVoucher>(db.STORES.STORE_CREDIT_VOUCHERS, voucherId);
+                if (voucher) vouchers.push(voucher);
             }
-        }
-        if (customerRefund) {
-            const customer = await db.getById<Customer>(db.STORES.CUSTOMERS, customerRefund.id);
-            if (customer) {
-                await db.putItem(db.STORES.CUSTOMERS, { ...customer, balanceAFN: customerRefund.newBalances.AFN, balanceUSD: customerRefund.newBalances.USD, balanceIRT: customerRefund.newBalances.IRT, balance: customerRefund.newBalances.Total });
-                const returnTx: CustomerTransaction = { id: crypto.randomUUID(), customerId: customerRefund.id, type: 'sale_return', amount: customerRefund.amount, date: returnInvoice.timestamp, description: `مرجوعی فاکتور #${returnInvoice.originalInvoiceId}`, invoiceId: returnInvoice.id, currency: customerRefund.currency };
-                await db.putItem(db.STORES.CUSTOMER_TX, returnTx);
+            const write = build({ invoice, returns, posted, customer, supplier, vouchers });
+            const { customerUpdate, supplierUpdate } = write;
+
+            await tx.put(db.STORES.SALE_INVOICES, write.invoice);
+            await replaceJournal(tx, invoiceId, write.journal);
+            for (const voucher of write.vouchers) await tx.put(db.STORES.STORE_CREDIT_VOUCHERS, voucher);
+            for (const restore of write.stockRestores) {
+                const product = await findProductByBatchId(tx, restore.batchId);
+                if (product) {
+                    product.batches = product.batches.map(b => b.id === restore.batchId ? { ...b, stock: b.stock + restore.quantity } : b);
+                    await tx.put(db.STORES.PRODUCTS, product);
+                }
             }
-        }
+            if (customer && customerUpdate) {
+                await tx.put(db.STORES.CUSTOMERS, { ...customer, balanceAFN: customerUpdate.newBalances.AFN, balanceUSD: customerUpdate.newBalances.USD, balanceIRT: customerUpdate.newBalances.IRT, balance: customerUpdate.newBalances.Total });
+                await tx.put(db.STORES.CUSTOMER_TX, customerUpdate.transaction);
+            }
+            if (supplier && supplierUpdate) {
+                await tx.put(db.STORES.SUPPLIERS, { ...supplier, balanceAFN: supplierUpdate.newBalances.AFN, balanceUSD: supplierUpdate.newBalances.USD, balanceIRT: supplierUpdate.newBalances.IRT, balance: supplierUpdate.newBalances.Total });
+                await tx.put(db.STORES.SUPPLIER_TX, supplierUpdate.transaction);
+            }
+            return write;
+        });
     },
 
-    createPurchase: async (invoice: PurchaseInvoice, supplierUpdate: {id: string, newBalances: any, transaction: SupplierTransaction}, newBatches: any[]) => {
-        await db.putItem(db.STORES.PURCHASE_INVOICES, invoice);
-        await db.putItem(db.STORES.SUPPLIER_TX, supplierUpdate.transaction);
-        const supplier = await db.getById<Supplier>(db.STORES.SUPPLIERS, supplierUpdate.id);
-        if (supplier) await db.putItem(db.STORES.SUPPLIERS, { ...supplier, balanceAFN: supplierUpdate.newBalances.AFN, balanceUSD: supplierUpdate.newBalances.USD, balanceIRT: supplierUpdate.newBalances.IRT, balance: supplierUpdate.newBalances.Total });
-        for (const b of newBatches) {
-            const p = await db.getById<Product>(db.STORES.PRODUCTS, b.productId);
-            if (p) { p.batches.push(b); await db.putItem(db.STORES.PRODUCTS, p); }
-        }
+    createPurchase: async (purchase: PurchaseWrite) => {
+        await db.runTransaction(PURCHASE_STORES, (tx) => writePurchase(tx, purchase));
     },
 
-    updatePurchase: async (invoiceId: string, newInvoiceData: PurchaseInvoice, supplierUpdate?: {id: string, newBalances: any}) => {
+    // The additional cost expense is replaced along with the invoice, or dropped when the invoice no longer has one
+    updatePurchase: async (invoiceId: string, newInvoiceData: PurchaseInvoice, supplierUpdate?: BalanceChange, journal: JournalEntry[] = [], additionalCost?: ExpenseWrite) => {
+        // Settings are read up front: awaiting a separate request inside the transaction would commit it early
         const settings = await api.getSettings();
-        const oldInvoice = await db.getById<PurchaseInvoice>(db.STORES.PURCHASE_INVOICES, invoiceId);
-        if (oldInvoice) {
-            for (const item of oldInvoice.items) {
-                const product = await db.getById<Product>(db.STORES.PRODUCTS, item.productId);
+        await db.runTransaction(PURCHASE_STORES, async (tx) => {
+            await replaceJournal(tx, invoiceId, journal);
+            const oldInvoice = await tx.get<PurchaseInvoice>(db.STORES.PURCHASE_INVOICES, invoiceId);
+            if (oldInvoice) {
+                for (const item of oldInvoice.items) {
+                    const product = await tx.get<Product>(db.STORES.PRODUCTS, item.productId);
+                    if (product) {
+                        const bIdx = product.batches.findIndex(b => b.lotNumber === item.lotNumber);
+                        if (bIdx !== -1) { product.batches[bIdx].stock -= item.quantity; await tx.put(db.STORES.PRODUCTS, product); }
+                    }
+                }
+            }
+
+            await tx.put(db.STORES.PURCHASE_INVOICES, newInvoiceData);
+
+            const totalQty = newInvoiceData.items.reduce((s, i) => s + (i.quantity || 0), 0);
+            const rate = newInvoiceData.exchangeRate || 1;
+            const config = settings.currencyConfigs[newInvoiceData.currency || settings.baseCurrency];
+            
+            const additionalCostBase = newInvoiceData.additionalCost 
+                ? (newInvoiceData.currency === settings.baseCurrency ? newInvoiceData.additionalCost : (config.method === 'multiply' ? newInvoiceData.additionalCost / rate : newInvoiceData.additionalCost * rate)) 
+                : 0;
+            const costPerUnitBase = totalQty > 0 ? additionalCostBase / totalQty : 0;
+
+            for (const item of newInvoiceData.items) {
+                const product = await tx.get<Product>(db.STORES.PRODUCTS, item.productId);
                 if (product) {
                     const bIdx = product.batches.findIndex(b => b.lotNumber === item.lotNumber);
-                    if (bIdx !== -1) { product.batches[bIdx].stock -= item.quantity; await db.putItem(db.STORES.PRODUCTS, product); }
+                    const priceBase = (newInvoiceData.currency === settings.baseCurrency ? item.purchasePrice : (config.method === 'multiply' ? item.purchasePrice / rate : item.purchasePrice * rate)) + costPerUnitBase;
+                    if (bIdx !== -1) {
+                        product.batches[bIdx].stock += item.quantity;
+                        product.batches[bIdx].purchasePrice = priceBase;
+                        product.batches[bIdx].expiryDate = item.expiryDate;
+                    } else {
+                        product.batches.push({ id: crypto.randomUUID(), lotNumber: item.lotNumber, stock: item.quantity, purchasePrice: priceBase, purchaseDate: newInvoiceData.timestamp, expiryDate: item.expiryDate });
+                    }
+                    await tx.put(db.STORES.PRODUCTS, product);
                 }
             }
-        }
 
-        await db.putItem(db.STORES.PURCHASE_INVOICES, newInvoiceData);
-
-        const totalQty = newInvoiceData.items.reduce((s, i) => s + (i.quantity || 0), 0);
-        const rate = newInvoiceData.exchangeRate || 1;
-        const config = settings.currencyConfigs[newInvoiceData.currency || settings.baseCurrency];
-        
-        const additionalCostBase = newInvoiceData.additionalCost 
-            ? (newInvoiceData.currency === settings.baseCurrency ? newInvoiceData.additionalCost : (config.method === 'multiply' ? newInvoiceData.additionalCost / rate : newInvoiceData.additionalCost * rate)) 
-            : 0;
-        const costPerUnitBase = totalQty > 0 ? additionalCostBase / totalQty : 0;
-
-        for (const item of newInvoiceData.items) {
-            const product = await db.getById<Product>(db.STORES.PRODUCTS, item.productId);
-            if (product) {
-                const bIdx = product.batches.findIndex(b => b.lotNumber === item.lotNumber);
-                const priceBase = (newInvoiceData.currency === settings.baseCurrency ? item.purchasePrice : (config.method === 'multiply' ? item.purchasePrice / rate : item.purchasePrice * rate)) + costPerUnitBase;
-                if (bIdx !== -1) {
-                    product.batches[bIdx].stock += item.quantity;
-                    product.batches[bIdx].purchasePrice = priceBase;
-                    product.batches[bIdx].expiryDate = item.expiryDate;
-                } else {
-                    product.batches.push({ id: crypto.randomUUID(), lotNumber: item.lotNumber, stock: item.quantity, purchasePrice: priceBase, purchaseDate: newInvoiceData.timestamp, expiryDate: item.expiryDate });
+            if (supplierUpdate) {
+                if (await addToBalances(tx, db.STORES.SUPPLIERS, supplierUpdate.id, supplierUpdate.change)) {
+                    const [existingTx] = await tx.getAllByIndex<SupplierTransaction>(db.STORES.SUPPLIER_TX, 'invoiceId', invoiceId);
+                    if (existingTx) {
+                        Object.assign(existingTx, { amount: newInvoiceData.totalAmount, date: newInvoiceData.timestamp, currency: newInvoiceData.currency });
+                        await tx.put(db.STORES.SUPPLIER_TX, existingTx);
+                    }
                 }
-                await db.putItem(db.STORES.PRODUCTS, product);
             }
-        }
 
-        if (supplierUpdate) {
-            const supplier = await db.getById<Supplier>(db.STORES.SUPPLIERS, supplierUpdate.id);
-            if (supplier) {
-                await db.putItem(db.STORES.SUPPLIERS, { ...supplier, balanceAFN: supplierUpdate.newBalances.AFN, balanceUSD: supplierUpdate.newBalances.USD, balanceIRT: supplierUpdate.newBalances.IRT, balance: supplierUpdate.newBalances.Total });
-                const txs = await db.getAll<SupplierTransaction>(db.STORES.SUPPLIER_TX);
-                const existingTx = txs.find(t => t.invoiceId === invoiceId);
-                if (existingTx) {
-                    Object.assign(existingTx, { amount: newInvoiceData.totalAmount, date: newInvoiceData.timestamp, currency: newInvoiceData.currency });
-                    await db.putItem(db.STORES.SUPPLIER_TX, existingTx);
-                }
+            for (const old of await tx.getAllByIndex<Expense>(db.STORES.EXPENSES, 'relatedId', invoiceId)) {
+                if (old.id === additionalCost?.expense.id) continue;
+                await tx.delete(db.STORES.EXPENSES, old.id);
+                await replaceJournal(tx, old.id, []);
             }
-        }
+            if (additionalCost) await writeExpense(tx, additionalCost);
+        });
     },
 
-    createPurchaseReturn: async (returnInvoice: PurchaseInvoice, stockDeductions: {productId: string, quantity: number, lotNumber: string}[], supplierRefund?: {id: string, amount: number, currency: 'AFN'|'USD'|'IRT', newBalances: any}) => {
-        await db.putItem(db.STORES.PURCHASE_INVOICES, returnInvoice);
-        for (const deduct of stockDeductions) {
-            const p = await db.getById<Product>(db.STORES.PRODUCTS, deduct.productId);
-            if (p) {
-                const batch = p.batches.find(b => b.lotNumber === deduct.lotNumber);
-                if (batch) { batch.stock = Math.max(0, batch.stock - deduct.quantity); await db.putItem(db.STORES.PRODUCTS, p); }
+    createPurchaseReturn: async (returnInvoice: PurchaseInvoice, stockDeductions: {productId: string, quantity: number, lotNumber: string}[], supplierRefund?: BalanceChange & { amount: number, currency: 'AFN'|'USD'|'IRT' }, journal: JournalEntry[] = []) => {
+        await db.runTransaction([db.STORES.PURCHASE_INVOICES, db.STORES.PRODUCTS, db.STORES.SUPPLIERS, db.STORES.SUPPLIER_TX, db.STORES.JOURNAL], async (tx) => {
+            await tx.put(db.STORES.PURCHASE_INVOICES, returnInvoice);
+            await replaceJournal(tx, returnInvoice.id, journal);
+            for (const deduct of stockDeductions) {
+                const p = await tx.get<Product>(db.STORES.PRODUCTS, deduct.productId);
+                if (p) {
+                    const batch = p.batches.find(b => b.lotNumber === deduct.lotNumber);
+                    if (batch) { batch.stock = Math.max(0, batch.stock - deduct.quantity); await tx.put(db.STORES.PRODUCTS, p); }
+                }
             }
-        }
-        if (supplierRefund) {
-            const supplier = await db.getById<Supplier>(db.STORES.SUPPLIERS, supplierRefund.id);
-            if (supplier) {
-                await db.putItem(db.STORES.SUPPLIERS, { ...supplier, balanceAFN: supplierRefund.newBalances.AFN, balanceUSD: supplierRefund.newBalances.USD, balanceIRT: supplierRefund.newBalances.IRT, balance: supplierRefund.newBalances.Total });
+            if (supplierRefund && await addToBalances(tx, db.STORES.SUPPLIERS, supplierRefund.id, supplierRefund.change)) {
                 const returnTx: SupplierTransaction = { id: crypto.randomUUID(), supplierId: supplierRefund.id, type: 'purchase_return', amount: supplierRefund.amount, date: returnInvoice.timestamp, description: `مرجوعی خرید فاکتور #${returnInvoice.originalInvoiceId}`, invoiceId: returnInvoice.id, currency: supplierRefund.currency };
-                await db.putItem(db.STORES.SUPPLIER_TX, returnTx);
+                await tx.put(db.STORES.SUPPLIER_TX, returnTx);
             }
-        }
+        });
     },
 
     createInTransit: async (invoice: InTransitInvoice) => db.putItem(db.STORES.IN_TRANSIT_INVOICES, invoice),
     updateInTransit: async (invoice: InTransitInvoice) => db.putItem(db.STORES.IN_TRANSIT_INVOICES, invoice),
+    // What arrived is filed as a purchase in the same transaction that moves it along the shipment
+    receiveInTransit: async (invoice: InTransitInvoice, purchase?: PurchaseWrite) => {
+        await db.runTransaction([db.STORES.IN_TRANSIT_INVOICES, ...PURCHASE_STORES], async (tx) => {
+            if (purchase) await writePurchase(tx, purchase);
+            await tx.put(db.STORES.IN_TRANSIT_INVOICES, invoice);
+        });
+    },
+    // The shipment's paid amount and the supplier payment it records commit together
+    addInTransitPayment: async (invoice: InTransitInvoice, change: PartyBalances, payment: SupplierTransaction, journal: JournalEntry[] = []) => {
+        await db.runTransaction([db.STORES.IN_TRANSIT_INVOICES, ...paymentStores('supplier'), db.STORES.JOURNAL], async (tx) => {
+            await tx.put(db.STORES.IN_TRANSIT_INVOICES, invoice);
+            await recordPayment(tx, 'supplier', invoice.supplierId, change, payment, undefined, journal);
+        });
+    },
     deleteInTransit: async (id: string) => db.deleteItem(db.STORES.IN_TRANSIT_INVOICES, id),
 
-    processPayment: async (entityType: 'customer' | 'supplier' | 'employee', entityId: string, newBalance: any, transaction: any) => {
-        const store = entityType === 'customer' ? db.STORES.CUSTOMERS : (entityType === 'supplier' ? db.STORES.SUPPLIERS : db.STORES.EMPLOYEES);
-        const txStore = entityType === 'customer' ? db.STORES.CUSTOMER_TX : (entityType === 'supplier' ? db.STORES.SUPPLIER_TX : db.STORES.PAYROLL_TX);
-        const entity = await db.getById<any>(store, entityId);
-        if (entity) {
-            await db.putItem(store, { 
-                ...entity, 
-                balanceAFN: newBalance.AFN, 
-                balanceUSD: newBalance.USD, 
-                balanceIRT: newBalance.IRT, 
-                balance: newBalance.Total 
-            });
-            await db.putItem(txStore, transaction);
-        }
+    processPayment: async <P extends PaymentPartyType>(entityType: P, entityId: string, change: PartyBalances, transaction: PartyTransactions[P], expense?: Expense, journal: JournalEntry[] = []) => {
+        await db.runTransaction([...paymentStores(entityType), db.STORES.EXPENSES, db.STORES.JOURNAL], async (tx) => {
+            await recordPayment(tx, entityType, entityId, change, transaction, expense, journal);
+        });
     },
 
-    processPayroll: async (updates: {id: string, newBalances: any}[], transactions: PayrollTransaction[], expense: Expense) => {
-        for (const u of updates) {
-            const emp = await db.getById<Employee>(db.STORES.EMPLOYEES, u.id);
-            if (emp) await db.putItem(db.STORES.EMPLOYEES, { 
-                ...emp, 
-                balanceAFN: u.newBalances.AFN, 
-                balanceUSD: u.newBalances.USD, 
-                balanceIRT: u.newBalances.IRT, 
-                balance: u.newBalances.Total 
-            });
-        }
-        for (const tx of transactions) await db.putItem(db.STORES.PAYROLL_TX, tx);
-        await db.putItem(db.STORES.EXPENSES, expense);
+    // The order's running prepayment and the customer payment it comes from commit together
+    addSalesOrderPrepayment: async (orderId: string, amount: number, change: PartyBalances, payment: CustomerTransaction, journal: JournalEntry[] = []): Promise<SalesOrder> => {
+        return db.runTransaction([db.STORES.SALES_ORDERS, ...paymentStores('customer'), db.STORES.JOURNAL], async (tx) => {
+            const order = await tx.get<SalesOrder>(db.STORES.SALES_ORDERS, orderId);
+            if (!order) throw 'Sales order not found';
+            if (order.status === 'closed') throw 'Sales order is closed';
+            const updated: SalesOrder = { ...order, prepaidAmount: order.prepaidAmount + amount };
+            await tx.put(db.STORES.SALES_ORDERS, updated);
+            await recordPayment(tx, 'customer', order.customerId, change, payment, undefined, journal);
+            return updated;
+        });
+    },
+
+    processPayroll: async (updates: BalanceChange[], transactions: PayrollTransaction[], expense: Expense, journal: JournalEntry[] = []) => {
+        await db.runTransaction([db.STORES.EMPLOYEES, db.STORES.PAYROLL_TX, db.STORES.EXPENSES, db.STORES.JOURNAL], async (tx) => {
+            for (const u of updates) await addToBalances(tx, db.STORES.EMPLOYEES, u.id, u.change);
+            for (const t of transactions) await tx.put(db.STORES.PAYROLL_TX, t);
+            await tx.put(db.STORES.EXPENSES, expense);
+            for (const entry of journal) await tx.put(db.STORES.JOURNAL, entry);
+        });
+    },
+
+    processDepositTransaction: async (deposit: DepositWrite) => {
+        await db.runTransaction(DEPOSIT_STORES, (tx) => recordDeposit(tx, deposit));
     },
 
-    clearAndRestoreData: async (data: AppState) => {
+    // A customer paying through a trustee: the payment and the trustee's withdrawal commit together
+    processTrusteePayment: async (customerId: string, change: PartyBalances, payment: CustomerTransaction, journal: JournalEntry[], deposit: DepositWrite) => {
+        await db.runTransaction([...paymentStores('customer'), ...DEPOSIT_STORES], async (tx) => {
+            await recordPayment(tx, 'customer', customerId, change, payment, undefined, journal);
+            await recordDeposit(tx, deposit);
+        });
+    },
+
+    // Overwrites stored balances with the replayed ones and posts the matching journal adjustment together
+    repairBalances: async (updates: {partyType: LedgerPartyType, id: string, newBalances: BalanceSnapshot}[], journal: JournalEntry[]) => {
+        const storeFor: Record<LedgerPartyType, string> = {
+            customer: db.STORES.CUSTOMERS, supplier: db.STORES.SUPPLIERS, employee: db.STORES.EMPLOYEES, depositHolder: db.STORES.DEPOSIT_HOLDERS
+        };
+        await db.runTransaction([...Object.values(storeFor), db.STORES.JOURNAL], async (tx) => {
+            for (const u of updates) {
+                const entity = await tx.get<Customer | Supplier | Employee | DepositHolder>(storeFor[u.partyType], u.id);
+                if (entity) await tx.put(storeFor[u.partyType], { ...entity, balanceAFN: u.newBalances.AFN, balanceUSD: u.newBalances.USD, balanceIRT: u.newBalances.IRT, balance: u.newBalances.Total });
+            }
+            for (const entry of journal) await tx.put(db.STORES.JOURNAL, entry);
+        });
+    },
+
+    // Everything a backup file holds, read straight from the stores since React state only keeps a window
+    getBackupSnapshot: async (): Promise<Partial<AppState>> => {
+        const [storeSettings, users, roles, products, services, entities, transactions, invoices, activities, journalEntries, shifts, priceLists, promotions, quotations, salesOrders, storeCreditVouchers] = await Promise.all([
+            api.getSettings(), api.getUsers(), api.getRoles(), api.getProducts(), api.getServices(), api.getEntities(), api.getTransactions(),
+            api.getInvoices(), db.getByIndexRange<ActivityLog>(db.STORES.ACTIVITY, 'timestamp', { direction: 'prev' }), api.getJournal(), api.getShifts(), api.getPriceLists(), api.getPromotions(), api.getQuotations(), api.getSalesOrders(), api.getStoreCreditVouchers()
+        ]);
+        // Backup files are plain JSON, so no credential goes into one, not even a hash; PINs stay on this device anyway
+        return { storeSettings, users: users.map(({ password, passwordHash, pinHash, ...user }: LegacyUser) => user), roles, products, services, ...entities, ...transactions, ...invoices, activities, journalEntries, shifts, priceLists, promotions, quotations, salesOrders, storeCreditVouchers };
+    },
+
+    // Resolves to how many restored users are left without a password, which the owner has to set again
+    clearAndRestoreData: async (backup: AppState): Promise<number> => {
+        // Old backups are brought up to the current record shapes before anything is written
+        const data = migrateBackup(backup);
+        // Backups taken before hashing hold plaintext passwords; hash them before anything is written
+        if (data.users) data.users = await Promise.all((data.users as LegacyUser[]).map(upgradeLegacyUser));
+        // Backups carry no credentials, so the ones stored on this device outlive the restore
+        const localUsers = new Map((await api.getUsers()).map(user => [user.id, user]));
+        if (data.users) data.users = data.users.map(user => withLocalCredentials(user, localUsers.get(user.id)));
+        const restored = new Map<string, { id: string | number }[] | undefined>([
+            [db.STORES.SETTINGS, data.storeSettings && [{ ...data.storeSettings, id: 'current' }]],
+            [db.STORES.PRODUCTS, data.products],
+            [db.STORES.SALE_INVOICES, data.saleInvoices],
+            [db.STORES.PURCHASE_INVOICES, data.purchaseInvoices],
+            [db.STORES.IN_TRANSIT_INVOICES, data.inTransitInvoices],
+            [db.STORES.CUSTOMERS, data.customers],
+            [db.STORES.SUPPLIERS, data.suppliers],
+            [db.STORES.EMPLOYEES, data.employees],
+            [db.STORES.EXPENSES, data.expenses],
+            [db.STORES.SERVICES, data.services],
+            [db.STORES.DEPOSIT_HOLDERS, data.depositHolders],
+            [db.STORES.CUSTOMER_TX, data.customerTransactions],
+            [db.STORES.SUPPLIER_TX, data.supplierTransactions],
+            [db.STORES.PAYROLL_TX, data.payrollTransactions],
+            [db.STORES.DEPOSIT_TRANSACTIONS, data.depositTransactions],
+            [db.STORES.ACTIVITY, data.activities],
+            [db.STORES.USERS, data.users],
+            [db.STORES.ROLES, data.roles],
+            [db.STORES.JOURNAL, data.journalEntries],
+            [db.STORES.SHIFTS, data.shifts],
+            [db.STORES.PRICE_LISTS, data.priceLists],
+            [db.STORES.PROMOTIONS, data.promotions],
+            [db.STORES.QUOTATIONS, data.quotations],
+            [db.STORES.SALES_ORDERS, data.salesOrders],
+            [db.STORES.STORE_CREDIT_VOUCHERS, data.storeCreditVouchers],
+        ]);
         const stores = Object.values(db.STORES);
-        for (const storeName of stores) await db.clearStore(storeName);
-        if (data.storeSettings) await db.putItem(db.STORES.SETTINGS, { ...data.storeSettings, id: 'current' });
-        if (data.products) for (const p of data.products) await db.putItem(db.STORES.PRODUCTS, p);
-        if (data.saleInvoices) for (const s of data.saleInvoices) await db.putItem(db.STORES.SALE_INVOICES, s);
-        if (data.purchaseInvoices) for (const p of data.purchaseInvoices) await db.putItem(db.STORES.PURCHASE_INVOICES, p);
-        if (data.inTransitInvoices) for (const i of data.inTransitInvoices) await db.putItem(db.STORES.IN_TRANSIT_INVOICES, i);
-        if (data.customers) for (const c of data.customers) await db.putItem(db.STORES.CUSTOMERS, c);
-        if (data.suppliers) for (const s of data.suppliers) await db.putItem(db.STORES.SUPPLIERS, s);
-        if (data.employees) for (const e of data.employees) await db.putItem(db.STORES.EMPLOYEES, e);
-        if (data.expenses) for (const e of data.expenses) await db.putItem(db.STORES.EXPENSES, e);
-        if (data.services) for (const s of data.services) await db.putItem(db.STORES.SERVICES, s);
-        if (data.depositHolders) for (const h of data.depositHolders) await db.putItem(db.STORES.DEPOSIT_HOLDERS, h);
-        if (data.customerTransactions) for (const t of data.customerTransactions) await db.putItem(db.STORES.CUSTOMER_TX, t);
-        if (data.supplierTransactions) for (const t of data.supplierTransactions) await db.putItem(db.STORES.SUPPLIER_TX, t);
-        if (data.payrollTransactions) for (const t of data.payrollTransactions) await db.putItem(db.STORES.PAYROLL_TX, t);
-        if (data.depositTransactions) for (const t of data.depositTransactions) await db.putItem(db.STORES.DEPOSIT_TRANSACTIONS, t);
-        if (data.activities) for (const a of data.activities) await db.putItem(db.STORES.ACTIVITY, a);
-        if (data.users) for (const u of data.users) await db.putItem(db.STORES.USERS, u);
-        if (data.roles) for (const r of data.roles) await db.putItem(db.STORES.ROLES, r);
+        // Restored records are logged as one event rather than one entry per record. Nothing is cleared: each record
+        // the backup lacks is deleted and each one it has is written over the stored copy, so the other devices get
+        // the deletes and the counter deltas too.
+        await db.runTransaction(stores, async (tx) => {
+            for (const storeName of stores) {
+                const records = restored.get(storeName) || [];
+                const kept = new Set(records.map(record => String(record.id)));
+                for (const key of await tx.getAllKeys(storeName)) if (!kept.has(String(key))) await tx.delete(storeName, key);
+                for (const record of records) await tx.put(storeName, record);
+            }
+        }, { audit: false });
+        const restoredCounts = Object.fromEntries(Object.entries(data).filter(([, value]) => Array.isArray(value)).map(([key, value]) => [key, { after: (value as unknown[]).length }]));
+        await db.recordAuditEvent({ entityType: 'backup', entityId: String(data.schemaVersion), action: 'restore', changes: restoredCounts });
+        // A backup from before the journal existed needs its opening entry posted again
+        await db.setSyncState(OPENING_JOURNAL_KEY, false);
+        return (data.users || []).filter(user => !user.passwordHash).length;
     }
 };
 
-async function findProductByBatchId(batchId: string): Promise<Product | undefined> {
-    const products = await db.getAll<Product>(db.STORES.PRODUCTS);
-    return products.find(p => p.batches.some(b => b.id === batchId));
-}
\ No newline at end of file
+const PURCHASE_STORES = [db.STORES.PURCHASE_INVOICES, db.STORES.SUPPLIER_TX, db.STORES.SUPPLIERS, db.STORES.PRODUCTS, db.STORES.JOURNAL, db.STORES.EXPENSES];
+const DEPOSIT_STORES = [db.STORES.DEPOSIT_HOLDERS, db.STORES.DEPOSIT_TRANSACTIONS, db.STORES.JOURNAL];
+
+const paymentStores = (entityType: PaymentPartyType) => entityType === 'customer'
+    ? [db.STORES.CUSTOMERS, db.STORES.CUSTOMER_TX]
+    : entityType === 'supplier' ? [db.STORES.SUPPLIERS, db.STORES.SUPPLIER_TX] : [db.STORES.EMPLOYEES, db.STORES.PAYROLL_TX];
+
+// Moves the party's stored balance and files the payment with its expense and journal lines; nothing is written for an unknown party
+async function recordPayment<P extends PaymentPartyType>(tx: db.TransactionScope, entityType: P, entityId: string, change: PartyBalances, transaction: PartyTransactions[P], expense?: Expense, journal: JournalEntry[] = []) {
+    const [store, txStore] = paymentStores(entityType);
+    if (!await addToBalances(tx, store, entityId, change)) return;
+    await tx.put(txStore, transaction);
+    if (expense) await tx.put(db.STORES.EXPENSES, expense);
+    for (const entry of journal) await tx.put(db.STORES.JOURNAL, entry);
+}
+
+// Nothing is written for an unknown holder
+async function recordDeposit(tx: db.TransactionScope, { change, transaction, journal }: DepositWrite) {
+    if (!await addToBalances(tx, db.STORES.DEPOSIT_HOLDERS, transaction.holderId, change)) return;
+    await tx.put(db.STORES.DEPOSIT_TRANSACTIONS, transaction);
+    for (const entry of journal) await tx.put(db.STORES.JOURNAL, entry);
+}
+
+async function writeExpense(tx: db.TransactionScope, { expense, journal }: ExpenseWrite) {
+    await tx.put(db.STORES.EXPENSES, expense);
+    await replaceJournal(tx, expense.id, journal);
+}
+
+// The supplier owes the invoice total and the received goods arrive as new batches
+async function writePurchase(tx: db.TransactionScope, { invoice, supplierUpdate, newBatches, journal, additionalCost }: PurchaseWrite) {
+    await tx.put(db.STORES.PURCHASE_INVOICES, invoice);
+    await replaceJournal(tx, invoice.id, journal);
+    await tx.put(db.STORES.SUPPLIER_TX, supplierUpdate.transaction);
+    await addToBalances(tx, db.STORES.SUPPLIERS, supplierUpdate.id, supplierUpdate.change);
+    for (const b of newBatches) {
+        const p = await tx.get<Product>(db.STORES.PRODUCTS, b.productId);
+        if (p) { p.batches.push(b); await tx.put(db.STORES.PRODUCTS, p); }
+    }
+    if (additionalCost) await writeExpense(tx, additionalCost);
+}
+
+// Added to the stock as stored, so goods another device sold or received in the meantime still count
+async function addToStock(tx: db.TransactionScope, changes: StockChange[]) {
+    for (const change of changes) {
+        const product = await findProductByBatchId(tx, change.batchId);
+        if (product) await tx.put(db.STORES.PRODUCTS, { ...product, batches: product.batches.map(b => b.id === change.batchId ? { ...b, stock: b.stock + change.quantity } : b) });
+    }
+}
+
+// Resolves to false for an unknown party, leaving nothing written
+async function addToBalances(tx: db.TransactionScope, storeName: string, id: string, change: PartyBalances): Promise<boolean> {
+    const party = await tx.get<Customer | Supplier | Employee | DepositHolder>(storeName, id);
+    if (!party) return false;
+    await tx.put(storeName, { ...party, balanceAFN: party.balanceAFN + change.AFN, balanceUSD: party.balanceUSD + change.USD, balanceIRT: party.balanceIRT + change.IRT, balance: party.balance + change.Total });
+    return true;
+}
+
+// Takes each spend off the voucher as stored and notes it against the invoice. Resolves to the vouchers as written.
+async function spendVouchers(tx: db.TransactionScope, invoice: SaleInvoice, spends: VoucherSpend[]): Promise<StoreCreditVoucher[]> {
+    const written: StoreCreditVoucher[] = [];
+    for (const { voucherId, amount } of spends) {
+        const voucher = await tx.get<StoreCreditVoucher>(db.STORES.STORE_CREDIT_VOUCHERS, voucherId);
+        if (!voucher) throw new Error(`ووچر ${voucherId} یافت نشد.`);
+        if (amount > voucher.balance + 0.01) throw new Error(`مانده ووچر ${voucherId} کافی نیست.`);
+        const spent = { ...voucher, balance: Math.max(voucher.balance - amount, 0), redemptions: [...voucher.redemptions, { invoiceId: invoice.id, amount, at: invoice.timestamp }] };
+        await tx.put(db.STORES.STORE_CREDIT_VOUCHERS, spent);
+        written.push(spent);
+    }
+    return written;
+}
+
+async function findProductByBatchId(tx: db.TransactionScope, batchId: string): Promise<Product | undefined> {
+    const [product] = await tx.getAllByIndex<Product>(db.STORES.PRODUCTS, 'batchIds', batchId);
+    return product;
+}
+
+// Entries are keyed by their source document so edits and deletes replace them instead of stacking
+async function replaceJournal(tx: db.TransactionScope, refId: string, entries: JournalEntry[]): Promise<void> {
+    const existing = await tx.getAllByIndex<JournalEntry>(db.STORES.JOURNAL, 'refId', refId);
+    for (const entry of existing) await tx.delete(db.STORES.JOURNAL, entry.id);
+    for (const entry of entries) await tx.put(db.STORES.JOURNAL, entry);
+}
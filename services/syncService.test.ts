@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AppState, SaleInvoice, SyncChange } from '../types';
+
+type SyncModule = typeof import('./syncService');
+type DbModule = typeof import('../utils/db');
+
+const OWNER = 'owner-1';
+const OTHER_DEVICE = 'device-other';
+const OLDER = '2000-01-01T00:00:00.000Z';
+const NEWER = '2999-01-01T00:00:00.000Z';
+
+interface Row {
+    seq: number;
+    owner_id: string;
+    store: string;
+    record_id: string;
+    op: string;
+    record: any;
+    deltas: Record<string, number> | null;
+    changed_at: string;
+    device_id: string;
+}
+
+// Enough of supabase-js for the sync_changes queries the transport makes
+const createSupabaseStandIn = () => {
+    const rows: Row[] = [];
+    const insert = (newRows: Omit<Row, 'seq'>[]) => {
+        newRows.forEach(row => rows.push({ ...structuredClone(row), seq: rows.length + 1 }));
+        return Promise.resolve({ error: null });
+    };
+    const select = () => {
+        const filters: ((row: Row) => boolean)[] = [];
+        const query = {
+            eq: (column: keyof Row, value: unknown) => { filters.push(row => row[column] === value); return query; },
+            gt: (column: keyof Row, value: number) => { filters.push(row => (row[column] as number) > value); return query; },
+            order: () => query,
+            limit: (count: number) => Promise.resolve({ data: rows.filter(row => filters.every(f => f(row))).slice(0, count), error: null }),
+        };
+        return query;
+    };
+    const client = { from: () => ({ insert, select }) } as unknown as SupabaseClient;
+    // A change another device pushed earlier
+    const remote = (change: Omit<SyncChange, 'deviceId' | 'seq'> & { deviceId?: string }) => insert([{
+        owner_id: OWNER, store: change.store, record_id: change.recordId, op: change.op, record: change.record ?? null,
+        deltas: change.deltas ?? null, changed_at: change.changedAt, device_id: change.deviceId || OTHER_DEVICE,
+    }]);
+    return { client, rows, remote };
+};
+
+const customer = (balance: number, name = 'احمد') => ({ id: 'c1', name, phone: '', creditLimit: 0, balance, balanceAFN: balance, balanceUSD: 0, balanceIRT: 0 });
+const product = (stock: number, name = 'کتاب') => ({ id: 'p1', name, salePrice: 100, batches: [{ id: 'b1', lotNumber: 'L1', stock, purchasePrice: 60, purchaseDate: OLDER }] });
+
+// Audited writes also push their audit entries, so pushes are counted per store
+const pushedTo = (store: string) => standIn.rows.filter(row => row.store === store && row.device_id !== OTHER_DEVICE);
+
+let sync: SyncModule;
+let db: DbModule;
+let standIn: ReturnType<typeof createSupabaseStandIn>;
+let transport: ReturnType<SyncModule['createSupabaseTransport']>;
+
+// Every test starts from an empty database and a fresh module state (open connection, in-flight sync)
+beforeEach(async () => {
+    vi.resetModules();
+    globalThis.indexedDB = new IDBFactory();
+    localStorage.clear();
+    sync = await import('./syncService');
+    db = await import('../utils/db');
+    standIn = createSupabaseStandIn();
+    transport = sync.createSupabaseTransport(standIn.client, OWNER);
+});
+
+describe('push', () => {
+    it('sends only the latest write per record and empties the outbox', async () => {
+        await db.putItem(db.STORES.SERVICES, { id: 's1', name: 'صحافی', price: 10 });
+        await db.putItem(db.STORES.SERVICES, { id: 's1', name: 'صحافی', price: 12 });
+
+        await sync.syncOnce(transport);
+
+        const pushed = pushedTo(db.STORES.SERVICES);
+        expect(pushed).toHaveLength(1);
+        expect(pushed[0]).toMatchObject({ owner_id: OWNER, record_id: 's1', op: 'put', device_id: localStorage.getItem('kasebyar_device_id') });
+        expect(pushed[0].record.price).toBe(12);
+        expect(await db.countOutbox()).toBe(0);
+    });
+
+    it('queues records stored before sync existed once, stamped older than any real write', async () => {
+        const database = await db.openDB();
+        await new Promise<void>((resolve) => {
+            const tx = database.transaction(db.STORES.SERVICES, 'readwrite');
+            tx.objectStore(db.STORES.SERVICES).put({ id: 'legacy', name: 'قدیمی', price: 5 });
+            tx.oncomplete = () => resolve();
+        });
+
+        await sync.syncOnce(transport);
+        await sync.syncOnce(transport);
+
+        const seeded = standIn.rows.filter(row => row.record_id === 'legacy');
+        expect(seeded).toHaveLength(1);
+        expect(seeded[0].changed_at).toBe(new Date(0).toISOString());
+    });
+
+    it('sums the deltas of compacted counter writes', async () => {
+        await db.putItem(db.STORES.CUSTOMERS, customer(100));
+        await sync.syncOnce(transport);
+        await db.putItem(db.STORES.CUSTOMERS, customer(80));
+        await db.putItem(db.STORES.CUSTOMERS, customer(50));
+
+        await sync.syncOnce(transport);
+
+        expect(pushedTo(db.STORES.CUSTOMERS).map(row => row.deltas)).toEqual([null, { balance: -50, balanceAFN: -50 }]);
+    });
+
+    it('keeps PIN hashes on the device', async () => {
+        await db.putItem(db.STORES.USERS, { id: 'u1', username: 'sara', roleId: 'cashier', passwordHash: 'pw', pinHash: 'pin' });
+
+        await sync.syncOnce(transport);
+
+        const [pushed] = pushedTo(db.STORES.USERS);
+        expect(pushed.record).toEqual({ id: 'u1', username: 'sara', roleId: 'cashier', passwordHash: 'pw' });
+    });
+});
+
+describe('restoring a backup', () => {
+    it('pushes the records it drops as deletes and the stock it restores as deltas', async () => {
+        const { api } = await import('./supabaseService');
+        await db.putItem(db.STORES.PRODUCTS, product(10));
+        await db.putItem(db.STORES.SERVICES, { id: 's1', name: 'صحافی', price: 10 });
+        await sync.syncOnce(transport);
+
+        await api.clearAndRestoreData({ products: [product(4)] } as unknown as AppState);
+        await sync.syncOnce(transport);
+
+        expect(pushedTo(db.STORES.PRODUCTS).map(row => row.deltas)).toEqual([null, { b1: -6 }]);
+        expect(pushedTo(db.STORES.SERVICES).map(row => row.op)).toEqual(['put', 'delete']);
+    });
+});
+
+describe('pull and apply', () => {
+    it('applies changes from other devices and advances the cursor', async () => {
+        await standIn.remote({ store: db.STORES.SERVICES, recordId: 's9', op: 'put', record: { id: 's9', name: 'جلد', price: 3 }, changedAt: OLDER });
+
+        const result = await sync.syncOnce(transport);
+
+        expect(result).toMatchObject({ pulled: 1, applied: 1, pushed: 0 });
+        expect(await db.getById(db.STORES.SERVICES, 's9')).toMatchObject({ name: 'جلد' });
+        expect(await db.getSyncState('cursor')).toBe(1);
+        expect(standIn.rows).toHaveLength(1); // Nothing echoed back
+    });
+
+    it('skips its own pushes when they come back', async () => {
+        await db.putItem(db.STORES.SERVICES, { id: 's1', name: 'صحافی', price: 10 });
+        await sync.syncOnce(transport);
+        await db.putItem(db.STORES.SERVICES, { id: 's1', name: 'صحافی', price: 11 });
+
+        const result = await sync.syncOnce(transport);
+
+        expect(result.applied).toBe(0);
+        expect(await db.getById(db.STORES.SERVICES, 's1')).toMatchObject({ price: 11 });
+    });
+
+    it('keeps the PIN set on this device when a user is pulled', async () => {
+        await db.putItem(db.STORES.USERS, { id: 'u1', username: 'sara', roleId: 'cashier', pinHash: 'pin' });
+        await sync.syncOnce(transport);
+        await standIn.remote({ store: db.STORES.USERS, recordId: 'u1', op: 'put', record: { id: 'u1', username: 'sara', roleId: 'manager', pinHash: 'other' }, changedAt: NEWER });
+
+        await sync.syncOnce(transport);
+
+        expect(await db.getById(db.STORES.USERS, 'u1')).toEqual({ id: 'u1', username: 'sara', roleId: 'manager', pinHash: 'pin' });
+    });
+});
+
+describe('conflict policies', () => {
+    it('server-wins: a pulled change drops the unpushed local edit', async () => {
+        await db.putItem(db.STORES.SETTINGS, { id: 'current', storeName: 'محلی' });
+        await standIn.remote({ store: db.STORES.SETTINGS, recordId: 'current', op: 'put', record: { id: 'current', storeName: 'سرور' }, changedAt: OLDER });
+
+        const result = await sync.syncOnce(transport);
+
+        expect(result.discarded).toBe(1);
+        expect(pushedTo(db.STORES.SETTINGS)).toHaveLength(0);
+        expect(await db.getById(db.STORES.SETTINGS, 'current')).toMatchObject({ storeName: 'سرور' });
+    });
+
+    it('last-writer-wins: an older remote version is skipped and the local edit is pushed', async () => {
+        await db.putItem(db.STORES.SERVICES, { id: 's1', name: 'محلی', price: 10 });
+        await standIn.remote({ store: db.STORES.SERVICES, recordId: 's1', op: 'put', record: { id: 's1', name: 'قدیمی', price: 1 }, changedAt: OLDER });
+
+        const result = await sync.syncOnce(transport);
+
+        expect(result).toMatchObject({ applied: 0, discarded: 0 });
+        expect(pushedTo(db.STORES.SERVICES)).toHaveLength(1);
+        expect(await db.getById(db.STORES.SERVICES, 's1')).toMatchObject({ name: 'محلی' });
+    });
+
+    it('last-writer-wins: a newer remote version replaces the local edit', async () => {
+        await db.putItem(db.STORES.SERVICES, { id: 's1', name: 'محلی', price: 10 });
+        await standIn.remote({ store: db.STORES.SERVICES, recordId: 's1', op: 'put', record: { id: 's1', name: 'جدید', price: 20 }, changedAt: NEWER });
+
+        const result = await sync.syncOnce(transport);
+
+        expect(result).toMatchObject({ applied: 1, discarded: 1 });
+        expect(pushedTo(db.STORES.SERVICES)).toHaveLength(0);
+        expect(await db.getById(db.STORES.SERVICES, 's1')).toMatchObject({ name: 'جدید' });
+    });
+
+    it('append-only: both sides are kept', async () => {
+        await db.putItem(db.STORES.JOURNAL, { id: 'j-local', refId: 'a', date: OLDER, lines: [] });
+        await standIn.remote({ store: db.STORES.JOURNAL, recordId: 'j-remote', op: 'put', record: { id: 'j-remote', refId: 'b', date: OLDER, lines: [] }, changedAt: OLDER });
+
+        const result = await sync.syncOnce(transport);
+
+        expect(result).toMatchObject({ applied: 1, discarded: 0 });
+        expect(pushedTo(db.STORES.JOURNAL)).toHaveLength(1);
+        expect((await db.getAll(db.STORES.JOURNAL)).map((j: any) => j.id).sort()).toEqual(['j-local', 'j-remote']);
+    });
+
+    it('counter: concurrent stock deductions on two devices both come off', async () => {
+        await standIn.remote({ store: db.STORES.PRODUCTS, recordId: 'p1', op: 'put', record: product(10), changedAt: OLDER });
+        await sync.syncOnce(transport);
+
+        // This device sells 2 while the other sells 3 from the same batch
+        await db.putItem(db.STORES.PRODUCTS, product(8));
+        await standIn.remote({ store: db.STORES.PRODUCTS, recordId: 'p1', op: 'put', record: product(7), deltas: { b1: -3 }, changedAt: OLDER });
+
+        const result = await sync.syncOnce(transport);
+
+        expect(result.discarded).toBe(0);
+        expect((await db.getById<any>(db.STORES.PRODUCTS, 'p1'))!.batches[0].stock).toBe(5);
+        expect(pushedTo(db.STORES.PRODUCTS).map(row => row.deltas)).toEqual([{ b1: -2 }]);
+    });
+
+    it('counter: a sale worked out before a pulled change keeps that change', async () => {
+        const { api } = await import('./supabaseService');
+        await standIn.remote({ store: db.STORES.PRODUCTS, recordId: 'p1', op: 'put', record: product(10), changedAt: OLDER });
+        await sync.syncOnce(transport);
+        // The other device sells 3 while this one still shows 10 on the shelf and sells 2
+        await standIn.remote({ store: db.STORES.PRODUCTS, recordId: 'p1', op: 'put', record: product(7), deltas: { b1: -3 }, changedAt: OLDER });
+        await sync.syncOnce(transport);
+
+        const invoice = { id: 'F1', type: 'sale', items: [], subtotal: 200, totalAmount: 200, totalAmountAFN: 200, totalDiscount: 0, timestamp: NEWER, cashier: 'admin' } as unknown as SaleInvoice;
+        await api.createSale(invoice, [{ batchId: 'b1', quantity: -2 }]);
+        await sync.syncOnce(transport);
+
+        expect((await db.getById<any>(db.STORES.PRODUCTS, 'p1'))!.batches[0].stock).toBe(5);
+        expect(pushedTo(db.STORES.PRODUCTS).map(row => row.deltas)).toEqual([{ b1: -2 }]);
+    });
+
+    it('counter: a payment worked out before a pulled change keeps that change', async () => {
+        const { api } = await import('./supabaseService');
+        await standIn.remote({ store: db.STORES.CUSTOMERS, recordId: 'c1', op: 'put', record: customer(100), changedAt: OLDER });
+        await sync.syncOnce(transport);
+        // The other device takes 30 while this one still shows 100 owed and takes 20
+        await standIn.remote({ store: db.STORES.CUSTOMERS, recordId: 'c1', op: 'put', record: customer(70), deltas: { balance: -30, balanceAFN: -30 }, changedAt: OLDER });
+        await sync.syncOnce(transport);
+
+        const payment = { id: 't1', customerId: 'c1', type: 'payment', amount: 20, date: NEWER, description: '', currency: 'AFN' } as const;
+        await api.processPayment('customer', 'c1', { AFN: -20, USD: 0, IRT: 0, Total: -20 }, payment);
+        await sync.syncOnce(transport);
+
+        expect(await db.getById(db.STORES.CUSTOMERS, 'c1')).toMatchObject({ balance: 50, balanceAFN: 50 });
+        expect(pushedTo(db.STORES.CUSTOMERS).map(row => row.deltas)).toEqual([{ balance: -20, balanceAFN: -20 }]);
+    });
+
+    it('counter: balances add up while other fields follow the newer version', async () => {
+        await db.putItem(db.STORES.CUSTOMERS, customer(100));
+        await sync.syncOnce(transport);
+        await db.putItem(db.STORES.CUSTOMERS, customer(120));
+        await standIn.remote({ store: db.STORES.CUSTOMERS, recordId: 'c1', op: 'put', record: customer(70, 'احمد کریمی'), deltas: { balance: -30, balanceAFN: -30 }, changedAt: NEWER });
+
+        await sync.syncOnce(transport);
+
+        expect(await db.getById(db.STORES.CUSTOMERS, 'c1')).toMatchObject({ name: 'احمد کریمی', balance: 90, balanceAFN: 90 });
+    });
+
+    it('counter: a batch added on another device arrives with its stock', async () => {
+        await standIn.remote({ store: db.STORES.PRODUCTS, recordId: 'p1', op: 'put', record: product(10), changedAt: OLDER });
+        await sync.syncOnce(transport);
+        const withNewBatch = { ...product(10), batches: [...product(10).batches, { id: 'b2', lotNumber: 'L2', stock: 6, purchasePrice: 65, purchaseDate: NEWER }] };
+        await standIn.remote({ store: db.STORES.PRODUCTS, recordId: 'p1', op: 'put', record: withNewBatch, deltas: { b2: 6 }, changedAt: NEWER });
+
+        await sync.syncOnce(transport);
+
+        const stored = await db.getById<any>(db.STORES.PRODUCTS, 'p1');
+        expect(stored.batches.map((b: any) => [b.id, b.stock])).toEqual([['b1', 10], ['b2', 6]]);
+        expect(stored.batchIds).toEqual(['b1', 'b2']);
+    });
+});
+
+describe('resolveConflicts', () => {
+    const change = (store: string, changedAt: string, op: SyncChange['op'] = 'put'): SyncChange => ({ store, recordId: 'r1', op, changedAt, deviceId: OTHER_DEVICE });
+
+    it('keeps pending counter writes but lets a newer delete overrule them', () => {
+        const pending = [{ store: 'products', recordId: 'r1', op: 'put' as const, changedAt: OLDER, deviceId: 'me', localSeq: 7 }];
+        const known = new Map([['products:r1', `${OLDER}|me`]]);
+
+        expect(sync.resolveConflicts([change('products', NEWER)], pending, known, 'me')).toEqual({ apply: [change('products', NEWER)], discard: [] });
+        expect(sync.resolveConflicts([change('products', NEWER, 'delete')], pending, known, 'me').discard).toEqual([7]);
+    });
+});
@@ -0,0 +1,180 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import * as db from '../utils/db';
+import { STORES, AUDIT_STORE } from '../utils/stores';
+import { getDeviceId } from '../utils/device';
+import { COUNTER_STORES, sumDeltas } from '../utils/counters';
+import type { SyncChange, OutboxEntry } from '../types';
+
+// How a pulled change is reconciled with the local copy of the same record:
+// - server-wins: the server's order is final and unpushed local edits are dropped
+// - last-writer-wins: the newer version stamp is kept on every device
+// - append-only: records are never edited in place, so both sides are kept
+// - counter: stock and balances add up the deltas of every device; other fields are last-writer-wins
+export type ConflictPolicy = 'server-wins' | 'last-writer-wins' | 'append-only' | 'counter';
+
+export const SYNC_POLICIES: Record<string, ConflictPolicy> = {
+    [STORES.SETTINGS]: 'server-wins',
+    [STORES.ROLES]: 'server-wins',
+    [STORES.JOURNAL]: 'append-only',
+    [STORES.CUSTOMER_TX]: 'append-only',
+    [STORES.SUPPLIER_TX]: 'append-only',
+    [STORES.PAYROLL_TX]: 'append-only',
+    [STORES.DEPOSIT_TRANSACTIONS]: 'append-only',
+    [STORES.ACTIVITY]: 'append-only',
+    [AUDIT_STORE]: 'append-only',
+    ...Object.fromEntries(Object.keys(COUNTER_STORES).map(name => [name, 'counter' as const])),
+};
+
+const policyFor = (storeName: string): ConflictPolicy => SYNC_POLICIES[storeName] || 'last-writer-wins';
+
+export interface SyncTransport {
+    push: (changes: SyncChange[]) => Promise<void>;
+    // Changes with seq greater than `after`, in seq order
+    pull: (after: number, limit: number) => Promise<SyncChange[]>;
+}
+
+export interface SyncResult {
+    pushed: number;
+    pulled: number;
+    applied: number;
+    discarded: number;
+}
+
+const BATCH_SIZE = 500;
+
+const keyOf = (change: Pick<SyncChange, 'store' | 'recordId'>) => db.syncRecordKey(change.store, change.recordId);
+
+// Only the last pending write per record needs to reach the server, carrying the deltas of the writes it replaces.
+// After a create or a delete the record starts over, so earlier deltas are dropped.
+export const compactOutbox = (entries: OutboxEntry[]): OutboxEntry[] => {
+    const latest = new Map<string, OutboxEntry>();
+    [...entries].sort((a, b) => (a.localSeq || 0) - (b.localSeq || 0)).forEach(entry => {
+        const previous = latest.get(keyOf(entry));
+        latest.delete(keyOf(entry));
+        if (entry.deltas && previous?.op === 'put') {
+            const { deltas, ...created } = entry;
+            latest.set(keyOf(entry), previous.deltas ? { ...entry, deltas: sumDeltas(previous.deltas, deltas) } : created);
+        } else {
+            latest.set(keyOf(entry), entry);
+        }
+    });
+    return [...latest.values()];
+};
+
+// Pure: decides which pulled changes to apply and which pending local writes they overrule.
+// `knownVersions` holds the newest version this device has seen per record, its own writes included.
+export const resolveConflicts = (remote: SyncChange[], pending: OutboxEntry[], knownVersions: Map<string, string>, deviceId: string) => {
+    const pendingSeqs = new Map<string, number[]>();
+    pending.forEach(entry => pendingSeqs.set(keyOf(entry), [...(pendingSeqs.get(keyOf(entry)) || []), entry.localSeq!]));
+
+    const versions = new Map(knownVersions);
+    const apply: SyncChange[] = [];
+    const discard: number[] = [];
+
+    for (const change of remote) {
+        // Our own pushes come back on the next pull and are already applied
+        if (change.deviceId === deviceId) continue;
+        const key = keyOf(change);
+        const version = db.syncVersionOf(change);
+        const policy = policyFor(change.store);
+        const known = versions.get(key);
+        const isStale = !!known && known > version;
+
+        // Pending local writes to a counter record keep their deltas, so nothing is discarded for it.
+        // Its deltas are added even when stale (see db.applySyncedChanges).
+        if (policy === 'counter' && change.op === 'put') {
+            apply.push(change);
+            if (!isStale) versions.set(key, version);
+            continue;
+        }
+        if ((policy === 'last-writer-wins' || policy === 'counter') && isStale) continue;
+
+        apply.push(change);
+        if (policy !== 'append-only') {
+            versions.set(key, version);
+            discard.push(...(pendingSeqs.get(key) || []));
+            pendingSeqs.delete(key);
+        }
+    }
+    return { apply, discard };
+};
+
+let inFlight: Promise<SyncResult> | null = null;
+
+// Pulls before pushing so server-wins stores and newer remote versions can overrule local writes before they go out
+export const syncOnce = (transport: SyncTransport): Promise<SyncResult> => {
+    if (inFlight) return inFlight;
+    inFlight = (async () => {
+        const deviceId = getDeviceId();
+        const result: SyncResult = { pushed: 0, pulled: 0, applied: 0, discarded: 0 };
+        // Once per device: queue what was stored before sync existed. Seeding ahead of the pull lets
+        // newer remote versions overrule the seeded copies before they are pushed.
+        await db.seedOutbox();
+        let cursor = (await db.getSyncState<number>('cursor')) ?? 0;
+
+        while (true) {
+            const batch = await transport.pull(cursor, BATCH_SIZE);
+            if (batch.length === 0) break;
+            const [pending, versions] = await Promise.all([db.getOutbox(), db.getSyncVersions(batch.map(keyOf))]);
+            const { apply, discard } = resolveConflicts(batch, pending, versions, deviceId);
+            cursor = Math.max(cursor, ...batch.map(c => c.seq || 0));
+            await db.applySyncedChanges(apply, discard, cursor);
+            result.pulled += batch.length;
+            result.applied += apply.length;
+            result.discarded += discard.length;
+            if (batch.length < BATCH_SIZE) break;
+        }
+
+        // Writes made while this runs get higher localSeqs and stay queued for the next round
+        const outbox = await db.getOutbox();
+        const changes = compactOutbox(outbox).map(({ localSeq, ...change }) => ({ ...change, record: db.withoutDeviceFields(change.store, change.record) }));
+        for (let i = 0; i < changes.length; i += BATCH_SIZE) await transport.push(changes.slice(i, i + BATCH_SIZE));
+        await db.removeOutboxEntries(outbox.map(entry => entry.localSeq!));
+        result.pushed = changes.length;
+
+        await db.setSyncState('lastSyncedAt', new Date().toISOString());
+        return result;
+    })().finally(() => { inFlight = null; });
+    return inFlight;
+};
+
+// Pulls the whole change log again; versions already applied are skipped, so this only fills gaps
+export const resetSyncCursor = () => db.setSyncState('cursor', 0);
+
+export const startSyncWorker = (
+    transport: SyncTransport,
+    { intervalMs = 60000, onSynced, onError }: { intervalMs?: number; onSynced?: (result: SyncResult) => void; onError?: (error: unknown) => void } = {}
+): (() => void) => {
+    const tick = () => {
+        if (!navigator.onLine) return;
+        syncOnce(transport).then(onSynced).catch(onError);
+    };
+    const timer = setInterval(tick, intervalMs);
+    window.addEventListener('online', tick);
+    tick();
+    return () => {
+        clearInterval(timer);
+        window.removeEventListener('online', tick);
+    };
+};
+
+// The server keeps one append-only table per project:
+//   sync_changes(seq bigserial primary key, owner_id uuid, store text, record_id text, op text, record jsonb, deltas jsonb, changed_at text, device_id text)
+// changed_at is text so version stamps round-trip byte for byte. The client is passed in, so the same
+// transport runs against a local Supabase or plain PostgREST stand-in.
+export const createSupabaseTransport = (client: SupabaseClient, ownerId: string): SyncTransport => ({
+    push: async (changes) => {
+        const rows = changes.map(c => ({
+            owner_id: ownerId, store: c.store, record_id: c.recordId, op: c.op, record: c.record ?? null, deltas: c.deltas ?? null, changed_at: c.changedAt, device_id: c.deviceId
+        }));
+        const { error } = await client.from('sync_changes').insert(rows);
+        if (error) throw `Sync push failed: ${error.message}`;
+    },
+    pull: async (after, limit) => {
+        const { data, error } = await client.from('sync_changes').select('*').eq('owner_id', ownerId).gt('seq', after).order('seq', { ascending: true }).limit(limit);
+        if (error) throw `Sync pull failed: ${error.message}`;
+        return (data || []).map(row => ({
+            seq: Number(row.seq), store: row.store, recordId: row.record_id, op: row.op, record: row.record ?? undefined, deltas: row.deltas ?? undefined, changedAt: row.changed_at, deviceId: row.device_id
+        }));
+    }
+});
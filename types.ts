@@ -18,12 +18,18 @@ export interface Product {
   barcode?: string;
   manufacturer?: string;
   itemsPerPackage?: number;
+  taxClassId?: string; // One of StoreSettings.taxClasses; unset means not taxed
+  batchIds?: string[]; // Maintained by the db layer for the batch index; not for UI use
 }
 
 export interface InvoiceItem extends Product {
   quantity: number;
   purchasePrice: number; // This is calculated at the time of sale for profit reporting.
   finalPrice?: number; // Added for individual item discounts
+  priceListId?: string; // Price list that set salePrice; unset when the product's own price applied
+  promotionDiscount?: number; // Promotion discount on the whole line, in the base currency
+  taxRate?: number; // Percent the line was taxed at
+  taxAmount?: number; // Tax on the whole line, in the base currency
   batchDeductions?: { batchId: string; quantity: number }[]; // Track exactly which batches were used
 }
 
@@ -32,19 +38,102 @@ export interface Service {
     id: string;
     name: string;
     price: number;
+    taxClassId?: string;
 }
 
-export type CartItem = (InvoiceItem & { type: 'product' }) | (Service & { quantity: number; type: 'service' });
+export type CartItem = (InvoiceItem & { type: 'product' }) | (Service & { quantity: number; type: 'service'; priceListId?: string; taxRate?: number; taxAmount?: number });
 
+// - percent_off: a percentage off every product in scope
+// - buy_x_get_y: for every buyQuantity + freeQuantity units of a product in scope, freeQuantity are free
+// - bundle: the listed products together, at bundlePrice per set
+export type PromotionKind = 'percent_off' | 'buy_x_get_y' | 'bundle';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  kind: PromotionKind;
+  active: boolean;
+  validFrom?: string;       // YYYY-MM-DD, inclusive
+  validTo?: string;         // YYYY-MM-DD, inclusive
+  productIds: string[];     // Product scope; with no manufacturers either, every product is in scope. Bundles ignore it.
+  manufacturers: string[];
+  customerIds: string[];    // Empty means every sale, walk-in customers included
+  percentOff?: number;
+  buyQuantity?: number;
+  freeQuantity?: number;
+  bundleItems?: { productId: string; quantity: number }[];
+  bundlePrice?: number;     // In the base currency
+}
+
+// A promotion as it worked out on one cart or invoice
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  times: number;    // Sets, free-item rounds or discounted units it applied to
+  discount: number; // In the base currency
+}
+
+// - retail: applies to every sale, walk-in customers included
+// - wholesale: applies to the customers listed on it
+// - special: negotiated prices for the customers listed on it; wins over the other two
+export type PriceListKind = 'retail' | 'wholesale' | 'special';
+
+export interface PriceListEntry {
+  itemId: string;
+  itemType: 'product' | 'service';
+  unitPrice: number;     // In the base currency
+  packagePrice?: number; // Price of a full package; units beyond whole packages go at unitPrice
+}
+
+export interface PriceList {
+  id: string;
+  name: string;
+  kind: PriceListKind;
+  customerIds: string[]; // Ignored for retail lists
+  validFrom?: string;    // YYYY-MM-DD, inclusive; unset means already valid
+  validTo?: string;      // YYYY-MM-DD, inclusive; unset means no end
+  entries: PriceListEntry[];
+}
+
+// A cart set aside at the POS. Its product quantities stay reserved until it is resumed or discarded.
+export interface ParkedCart {
+  id: string;
+  name: string;
+  items: CartItem[];
+  customerId?: string;
+  supplierIntermediaryId?: string;
+  currency: 'AFN' | 'USD' | 'IRT';
+  exchangeRate: number;
+  cashier: string;
+  parkedAt: string;
+  quotationId?: string; // Quotation the cart was loaded from, carried back to the till on resume
+}
+
+export type CurrencyAmounts = { AFN: number; USD: number; IRT: number };
+
+// A till session on one device. Open while `closedAt` is unset.
+export interface Shift {
+  id: string;
+  deviceId: string;
+  deviceName: string;
+  openedBy: string;
+  openedAt: string;
+  openingFloat: CurrencyAmounts;   // Counted into the drawer at opening
+  closedBy?: string;
+  closedAt?: string;
+  expectedCash?: CurrencyAmounts;  // Float plus the shift's cash movements, frozen at closing
+  countedCash?: CurrencyAmounts;   // Blind count at closing
+  notes?: string;
+}
 
 export interface SaleInvoice {
   id: string;
   type: 'sale' | 'return';
-  originalInvoiceId?: string; // Present if type is 'return'
+  originalInvoiceId?: string; // The sale a return is against; unset for a return taken without its invoice
   items: CartItem[];
   subtotal: number; // Total before discount (in transaction currency)
   totalDiscount: number; // Total discount amount (in transaction currency)
-  totalAmount: number; // Final amount (subtotal - totalDiscount) (in transaction currency)
+  totalAmount: number; // Final amount (subtotal - totalDiscount, plus totalTax unless prices include it) (in transaction currency)
   totalAmountAFN: number; // NEW: Equivalent in AFN for inventory and reports
   timestamp: string;
   cashier: string;
@@ -52,8 +141,142 @@ export interface SaleInvoice {
   supplierIntermediaryId?: string; // Optional: for sales to suppliers
   currency: 'AFN' | 'USD' | 'IRT'; // Multi-currency support
   exchangeRate: number;            // Rate to base currency (AFN)
+  approvals?: SaleApproval[];      // Supervisor sign-offs for rule breaches on this invoice
+  payment?: SalePayment;           // Tender breakdown; invoices without it were settled whole in their own currency
+  shiftId?: string;                // Till session the invoice was rung up in
+  priceListIds?: string[];         // Price lists that set any line's price; each line names its own
+  promotions?: AppliedPromotion[]; // Make up totalDiscount; each line carries its own share
+  totalTax?: number;               // Sum of the lines' tax (in transaction currency)
+  pricesIncludeTax?: boolean;      // Whether the line prices already held the tax when the invoice was saved
+  quotationId?: string;            // Quotation this sale was converted from
+  salesOrderId?: string;           // Sales order this invoice delivered part of
+  prepaymentApplied?: number;      // Share of the order's prepayment this invoice used up (in transaction currency)
+  voided?: SaleVoid;               // Set when the invoice was cancelled; it stays on file but counts for nothing
+  exchangeInvoiceId?: string;      // The other half of an exchange: the return on its sale, the sale on its return
+  costBasis?: ReturnCostBasis;     // How a return without its invoice costed the goods it put back on the shelf
+}
+
+// - latest_batch: back into the product's newest batch, at that batch's cost
+// - manual: into a batch of its own, at a cost entered at the till
+export type ReturnCostBasis = 'latest_batch' | 'manual';
+
+// A line handed back without its invoice, priced at the till (prices in the base currency, as on the shelf)
+export interface UnreferencedReturnLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  unitCost?: number; // Required when the cost basis is manual
+}
+
+// Where the value of a return goes. Cash may be paid out in any currency; credit needs the invoice's customer.
+export interface ReturnRefundRequest {
+  destination: 'cash' | 'credit' | 'voucher';
+  currency: 'AFN' | 'USD' | 'IRT';
+  exchangeRate: number;
+}
+
+// Store credit handed out on a return instead of money, spent as a 'voucher' tender on later sales
+export interface StoreCreditVoucher {
+  id: string;               // Printed on the return and typed in at the till
+  returnInvoiceId: string;
+  customerId?: string;
+  amount: number;           // Issued value, in the base currency
+  balance: number;          // Still unspent, in the base currency
+  issuedAt: string;
+  redemptions: { invoiceId: string; amount: number; at: string }[];
+}
+
+// Lines of an earlier sale the customer is handing back; their value is set off against the cart when it is sold
+export interface CartExchange {
+  originalInvoiceId: string;
+  items: { id: string; type: 'product' | 'service'; quantity: number }[];
+  creditBase: number; // What the returned lines are worth, in the base currency
+}
+
+export interface SaleVoid {
+  at: string;
+  by: string;
+  reason: string;
+}
+
+// A priced offer to a customer. It holds a snapshot of the cart but reserves no stock and posts nothing to any balance.
+export interface Quotation extends Pick<SaleInvoice, 'id' | 'items' | 'subtotal' | 'totalDiscount' | 'totalAmount' | 'totalAmountAFN' | 'timestamp' | 'cashier' | 'customerId' | 'currency' | 'exchangeRate' | 'priceListIds' | 'promotions' | 'totalTax' | 'pricesIncludeTax'> {
+  customerName?: string;       // For customers without an account
+  validUntil: string;          // Last day the quoted prices hold, YYYY-MM-DD
+  convertedInvoiceId?: string; // Set once the quotation has been sold
+}
+
+export interface SalesOrderItem {
+  id: string;
+  type: 'product' | 'service';
+  name: string;
+  unitPrice: number;         // Agreed price per unit after discounts, in the base currency
+  itemsPerPackage?: number;
+  quantity: number;          // Ordered
+  deliveredQty: number;
+}
+
+// An order delivered in parts. Each delivery becomes its own sale invoice on the customer's account,
+// and the prepayment (already credited to that account) is drawn down as the invoices come in.
+export interface SalesOrder {
+  id: string;
+  customerId: string;
+  items: SalesOrderItem[];
+  currency: 'AFN' | 'USD' | 'IRT';
+  exchangeRate: number;
+  totalAmount: number;       // Ordered value with tax as at the order date (in order currency)
+  timestamp: string;
+  cashier: string;
+  notes?: string;
+  prepaidAmount: number;     // Received in advance (in order currency)
+  appliedPrepayment: number; // Part of the prepayment used up by deliveries (in order currency)
+  invoiceIds: string[];      // Delivery invoices, oldest first
+  status: 'open' | 'closed';
+}
+
+// - cash: paid into the drawer of the tender's currency
+// - credit: put on the invoice customer's account
+// - intermediary: settled through the invoice's supplier intermediary
+// 'exchange' is the value of goods handed back in an exchange, set off between its return and its sale
+// - voucher: store credit, issued by a return and spent by a sale
+export type TenderKind = 'cash' | 'credit' | 'intermediary' | 'exchange' | 'voucher';
+
+export interface SaleTender {
+  kind: TenderKind;
+  currency: 'AFN' | 'USD' | 'IRT';
+  exchangeRate: number;
+  amount: number;     // In the tender's currency
+  amountBase: number; // Same amount in the base currency, at the rate above
+  voucherId?: string; // The voucher issued or spent, on voucher tenders
+}
+
+export interface SalePayment {
+  tenders: SaleTender[];
+  change?: { currency: 'AFN' | 'USD' | 'IRT'; exchangeRate: number; amount: number; amountBase: number }; // Handed back from the drawer
+}
+
+// What the till hands in; base amounts and the change are worked out when the sale is saved
+export interface SalePaymentRequest {
+  tenders: Omit<SaleTender, 'amountBase'>[];
+  changeCurrency: 'AFN' | 'USD' | 'IRT';
+  changeExchangeRate: number;
 }
 
+// A supervisor's sign-off for a sale that broke a role limit or a shop rule
+export interface SaleApproval {
+  id: string;
+  approverId: string;
+  approverName: string;
+  method: 'pin' | 'password';
+  reason: string;
+  violations: string[]; // The exact breaches shown to the supervisor
+  approvedAt: string;
+}
+
+export type SupervisorCredentials =
+  | { method: 'pin'; userId: string; pin: string }
+  | { method: 'password'; username: string; password: string };
+
 export interface PurchaseInvoiceItem {
     productId: string;
     productName: string; // Denormalized for easier display
@@ -81,6 +304,8 @@ export interface PurchaseInvoice {
   sourceInTransitId?: string; // Phase 2: Link to parent shipment
   additionalCost?: number;
   costDescription?: string;
+  taxAmount?: number; // Input tax charged by the supplier, in the invoice currency; included in totalAmount
+  approvals?: SaleApproval[]; // Supervisor sign-offs for edits outside the editor's window
 }
 
 export interface InTransitInvoice extends Omit<PurchaseInvoice, 'type'> {
@@ -92,12 +317,37 @@ export interface InTransitInvoice extends Omit<PurchaseInvoice, 'type'> {
 
 export interface ActivityLog {
   id: string;
-  type: 'sale' | 'purchase' | 'inventory' | 'login' | 'payroll' | 'deposit';
+  type: 'sale' | 'purchase' | 'inventory' | 'login' | 'payroll' | 'deposit' | 'integrity' | 'permission';
   description: string;
   timestamp: string;
   user: string;
   refId?: string; // ID of the related entity (invoice, product, etc.)
   refType?: 'saleInvoice' | 'purchaseInvoice' | 'product' | 'depositHolder'; // To know what to look for
+  deviceId?: string; // Terminal the action was taken on
+}
+
+// --- Audit Trail ---
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface AuditChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+// Written by the local database on every audited write. Entries from one device form a hash chain:
+// `seq` counts up from 1 and each `hash` covers the entry together with the previous entry's hash.
+export interface AuditEntry {
+  id: string;
+  seq: number;
+  deviceId: string;
+  timestamp: string;
+  entityType: string; // Object store name
+  entityId: string;
+  action: AuditAction;
+  actor: string;
+  changes: Record<string, AuditChange>; // Changed top-level fields only
+  prevHash: string;
+  hash: string;
 }
 
 // --- Security Deposit Module Types ---
@@ -198,6 +448,7 @@ export interface CustomerTransaction {
     currency?: 'AFN' | 'USD' | 'IRT'; // Added currency tracking
     exchangeRate?: number; // Rate to base currency at time of transaction
     isCash?: boolean; // NEW: To distinguish physical cash from intermediary settlements
+    shiftId?: string; // Till session a payment was taken in
 }
 
 export type AnyTransaction = CustomerTransaction | SupplierTransaction | PayrollTransaction | DepositTransaction;
@@ -212,6 +463,96 @@ export interface Expense {
     amountBase?: number; // Equivalent in base currency
     date: string;
     relatedId?: string; // Link to purchase invoices or other entities
+    shiftId?: string; // Paid out of the drawer during this shift
+}
+
+// --- General Ledger Types ---
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export interface LedgerAccount {
+    id: string; // Account code, e.g. '1100'
+    name: string;
+    type: LedgerAccountType;
+    currency?: 'AFN' | 'USD' | 'IRT'; // Only set on per-currency cash accounts
+}
+
+export type LedgerPartyType = 'customer' | 'supplier' | 'employee' | 'depositHolder';
+
+export interface JournalLine {
+    accountId: string;
+    debit: number;  // In base currency
+    credit: number; // In base currency
+    currency: 'AFN' | 'USD' | 'IRT'; // Currency the movement actually happened in
+    currencyAmount: number; // Signed amount in `currency` (debit positive, credit negative)
+    partyType?: LedgerPartyType; // Sub-ledger owner for receivables, payables, advances and deposits
+    partyId?: string;
+}
+
+export interface JournalEntry {
+    id: string;
+    date: string;
+    description: string;
+    refId?: string; // Source document (invoice, expense, transaction); entries are replaced per refId on edit
+    refType?: 'saleInvoice' | 'purchaseInvoice' | 'expense' | 'customerTransaction' | 'supplierTransaction' | 'payroll' | 'deposit' | 'opening' | 'adjustment';
+    lines: JournalLine[];
+}
+
+// --- Data Integrity Audit Types ---
+export interface BalanceSnapshot { AFN: number; USD: number; IRT: number; Total: number; }
+
+export interface BalanceMismatch {
+    partyType: LedgerPartyType;
+    partyId: string;
+    name: string;
+    stored: BalanceSnapshot;   // What the entity store holds
+    ledger: BalanceSnapshot;   // What the general journal derives
+    replayed: BalanceSnapshot; // What the transaction history adds up to
+}
+
+export interface StockMismatch {
+    productId: string;
+    productName: string;
+    lotNumber: string;
+    actualStock: number;
+    expectedStock: number;
+}
+
+export interface OrphanReference {
+    kind: 'transaction' | 'invoice' | 'batchDeduction' | 'journal' | 'expense';
+    id: string;
+    description: string;
+}
+
+export interface IntegrityReport {
+    checkedAt: string;
+    balanceMismatches: BalanceMismatch[];
+    stockMismatches: StockMismatch[];
+    orphanReferences: OrphanReference[];
+}
+
+// --- Sync ---
+// One record-level change. changedAt plus deviceId is the version stamp: a later changedAt wins, deviceId breaks ties.
+export interface SyncChange {
+    seq?: number; // Position in the server change log, used as the pull cursor
+    store: string;
+    recordId: string;
+    op: 'put' | 'delete';
+    record?: any;
+    deltas?: Record<string, number>; // What the write added to each stock or balance counter (see utils/counters.ts)
+    changedAt: string;
+    deviceId: string;
+}
+
+// A local write not yet pushed
+export interface OutboxEntry extends Omit<SyncChange, 'seq'> {
+    localSeq?: number;
+}
+
+export interface SyncStatus {
+    isSyncing: boolean;
+    pending: number;
+    lastSyncedAt: string | null;
+    error: string | null;
 }
 
 export interface SalesMemoImage {
@@ -244,6 +585,17 @@ export interface StoreSettings {
         IRT: CurrencyConfig;
     };
     expenseCategories: string[]; // Dynamic categories
+    idleLockMinutes?: number; // Locks the session to the PIN screen after this much inactivity; 0 or unset disables it
+    taxClasses?: TaxClass[];
+    pricesIncludeTax?: boolean; // Sale prices already hold the tax; otherwise it is added on top at the till
+    taxNumber?: string; // The shop's tax registration number, printed on tax invoices
+}
+
+// A named tax rate that products and services are assigned to
+export interface TaxClass {
+    id: string;
+    name: string;
+    rate: number; // Percent
 }
 
 // --- Package/Unit Management ---
@@ -255,16 +607,27 @@ export interface PackageUnits {
 // --- Auth & RBAC Types ---
 export type Permission = string; // e.g., 'pos:create_invoice'
 
+// Numeric policy attached to a role; a field left unset means no limit
+export interface RoleLimits {
+    maxLineDiscountPercent?: number;
+    maxInvoiceDiscountPercent?: number;
+    maxCreditSaleAmount?: number; // Per invoice, in the base currency
+    editWindowDays?: number; // How many days back a sale or purchase invoice may be reopened for editing
+    canViewCosts?: boolean; // Purchase prices and profit figures; shown unless set to false
+}
+
 export interface Role {
     id: string;
     name: string;
     permissions: Permission[];
+    limits?: RoleLimits;
 }
 
 export interface User {
     id: string;
     username: string;
-    password?: string; // Should be hashed in a real app
+    passwordHash?: string; // Salted PBKDF2, see utils/passwords.ts; the plaintext is never stored
+    pinHash?: string; // Optional numeric PIN for quick cashier switching, hashed the same way
     roleId: string;
 }
 
@@ -282,10 +645,21 @@ export interface AppState {
     depositTransactions: DepositTransaction[];
     storeSettings: StoreSettings;
     cart: CartItem[];
+    parkedCarts: ParkedCart[];
+    shifts: Shift[];
+    priceLists: PriceList[];
+    promotions: Promotion[];
+    cartPromotions: AppliedPromotion[]; // Promotions the current cart qualifies for
+    quotations: Quotation[];
+    cartQuotationId: string | null; // Quotation the current cart was loaded from
+    cartExchange: CartExchange | null; // Goods being handed back against the current cart
+    salesOrders: SalesOrder[];
+    storeCreditVouchers: StoreCreditVoucher[];
     customerTransactions: CustomerTransaction[];
     supplierTransactions: SupplierTransaction[];
     payrollTransactions: PayrollTransaction[];
     activities: ActivityLog[];
+    journalEntries: JournalEntry[];
     saleInvoiceCounter: number;
     editingSaleInvoiceId: string | null;
     editingPurchaseInvoiceId: string | null;
@@ -0,0 +1,88 @@
+import type { AuditChange, AuditEntry } from '../types';
+import { sha256 } from './sha256';
+
+// Credentials never reach the log; a change to one still shows up, masked
+const REDACTED_FIELDS = ['password', 'passwordHash', 'pinHash'];
+const REDACTED = '••••••';
+
+let currentActor = '';
+
+// Kept in step with the signed-in user by the app; writes made before sign-in are put down to the system
+export const setAuditActor = (name: string) => { currentActor = name; };
+export const getAuditActor = () => currentActor || 'سیستم';
+
+// Not every hop keeps key order (Postgres jsonb sorts keys), so hashes are taken over sorted keys.
+// Undefined fields are skipped, as they are by JSON.
+export const canonicalJson = (value: unknown): string => {
+    if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().filter(key => record[key] !== undefined).map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+};
+
+// Top-level fields whose value differs; a create has no `before` side and a delete no `after` side
+export const diffRecords = (before: unknown, after: unknown): Record<string, AuditChange> => {
+    const previous = (before ?? {}) as Record<string, unknown>;
+    const next = (after ?? {}) as Record<string, unknown>;
+    const changes: Record<string, AuditChange> = {};
+    new Set([...Object.keys(previous), ...Object.keys(next)]).forEach(key => {
+        if (canonicalJson(previous[key]) === canonicalJson(next[key])) return;
+        const mask = (value: unknown) => value === undefined || !REDACTED_FIELDS.includes(key) ? value : REDACTED;
+        changes[key] = { before: mask(previous[key]), after: mask(next[key]) };
+    });
+    return changes;
+};
+
+export interface AuditChainHead {
+    seq: number;
+    hash: string;
+}
+
+export const EMPTY_CHAIN: AuditChainHead = { seq: 0, hash: '' };
+
+export const hashAuditEntry = ({ hash, ...entry }: Omit<AuditEntry, 'hash'> & { hash?: string }) => sha256(canonicalJson(entry));
+
+export const sealAuditEntry = (head: AuditChainHead, fields: Omit<AuditEntry, 'id' | 'seq' | 'prevHash' | 'hash'>): AuditEntry => {
+    const entry = { id: crypto.randomUUID(), seq: head.seq + 1, prevHash: head.hash, ...fields };
+    return { ...entry, hash: hashAuditEntry(entry) };
+};
+
+// - altered: the entry no longer matches its hash
+// - missing: entries are absent before this sequence number
+// - relinked: the entry does not point at the entry before it (reordered, duplicated or spliced in)
+// - truncated: the device's newest entries are gone
+export interface AuditProblem {
+    deviceId: string;
+    seq: number;
+    kind: 'altered' | 'missing' | 'relinked' | 'truncated';
+}
+
+// Checks each device's chain on its own. The local chain head is kept apart from the log,
+// so it also catches entries cut off the end, which a chain alone cannot show.
+export const verifyAuditChain = (entries: AuditEntry[], local?: { deviceId: string; head: AuditChainHead }): AuditProblem[] => {
+    const problems: AuditProblem[] = [];
+    const chains = new Map<string, AuditEntry[]>();
+    entries.forEach(entry => {
+        const chain = chains.get(entry.deviceId);
+        if (chain) chain.push(entry); else chains.set(entry.deviceId, [entry]);
+    });
+
+    chains.forEach((chain, deviceId) => {
+        chain.sort((a, b) => a.seq - b.seq);
+        let previous: AuditEntry | undefined;
+        chain.forEach(entry => {
+            const expectedSeq = (previous?.seq ?? 0) + 1;
+            if (entry.seq > expectedSeq) problems.push({ deviceId, seq: expectedSeq, kind: 'missing' });
+            else if (entry.seq < expectedSeq || entry.prevHash !== (previous?.hash ?? '')) problems.push({ deviceId, seq: entry.seq, kind: 'relinked' });
+            if (hashAuditEntry(entry) !== entry.hash) problems.push({ deviceId, seq: entry.seq, kind: 'altered' });
+            previous = entry;
+        });
+    });
+
+    if (local && local.head.seq > 0) {
+        const last = chains.get(local.deviceId)?.at(-1);
+        if (!last || last.seq < local.head.seq) problems.push({ deviceId: local.deviceId, seq: (last?.seq ?? 0) + 1, kind: 'truncated' });
+        else if (last.seq === local.head.seq && last.hash !== local.head.hash) problems.push({ deviceId: local.deviceId, seq: last.seq, kind: 'altered' });
+    }
+    return problems;
+};
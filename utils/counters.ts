@@ -0,0 +1,67 @@
+import type { Product } from '../types';
+import { STORES } from './stores';
+
+// Stock and balances are changed on several devices at once by adding to them. A write to one of these
+// records carries what it added to each counter (its deltas), and a pulled write adds its deltas to the
+// local copy instead of replacing it, so two sales of the same batch on two counters both come off.
+export type CounterDeltas = Record<string, number>;
+
+interface CounterSpec {
+    read: (record: any) => Record<string, number>;
+    write: (record: any, counters: Record<string, number>) => any;
+    // Adds structure only `other` has yet to `base`
+    union: (base: any, other: any) => any;
+}
+
+const balanceCounters = (fields: string[]): CounterSpec => ({
+    read: (record) => Object.fromEntries(fields.filter(field => typeof record?.[field] === 'number').map(field => [field, record[field]])),
+    write: (record, counters) => ({ ...record, ...counters }),
+    union: (base) => base,
+});
+
+// Batches are only ever added to a product, so stock is counted per batch id
+const batchCounters: CounterSpec = {
+    read: (product: Product) => Object.fromEntries((product?.batches || []).map(b => [b.id, b.stock])),
+    write: (product: Product, counters) => ({ ...product, batches: product.batches.map(b => b.id in counters ? { ...b, stock: counters[b.id] } : b) }),
+    union: (base: Product, other: Product) => ({ ...base, batches: [...base.batches, ...(other.batches || []).filter(b => !base.batches.some(x => x.id === b.id))] }),
+};
+
+const PARTY_BALANCES = balanceCounters(['balance', 'balanceAFN', 'balanceUSD', 'balanceIRT']);
+
+export const COUNTER_STORES: Record<string, CounterSpec> = {
+    [STORES.PRODUCTS]: batchCounters,
+    [STORES.CUSTOMERS]: PARTY_BALANCES,
+    [STORES.SUPPLIERS]: PARTY_BALANCES,
+    [STORES.EMPLOYEES]: PARTY_BALANCES,
+    [STORES.DEPOSIT_HOLDERS]: PARTY_BALANCES,
+    [STORES.STORE_CREDIT_VOUCHERS]: balanceCounters(['balance']),
+};
+
+export const isCounterStore = (storeName: string) => storeName in COUNTER_STORES;
+
+// What a write added to each counter. A new record has none: its counters travel as its starting values.
+export const counterDeltas = (storeName: string, before: unknown, after: unknown): CounterDeltas | undefined => {
+    const spec = COUNTER_STORES[storeName];
+    if (!spec || before === undefined || after === undefined) return undefined;
+    const previous = spec.read(before);
+    return Object.fromEntries(Object.entries(spec.read(after))
+        .map(([key, value]) => [key, value - (previous[key] ?? 0)] as const)
+        .filter(([, delta]) => delta !== 0));
+};
+
+export const sumDeltas = (a: CounterDeltas, b: CounterDeltas): CounterDeltas => {
+    const sum = { ...a };
+    Object.entries(b).forEach(([key, delta]) => { sum[key] = (sum[key] ?? 0) + delta; });
+    return sum;
+};
+
+// The other fields come from whichever copy is newer. Counters the local copy does not have yet start at zero,
+// since the write that created them carried them as deltas.
+export const mergeCounters = (storeName: string, local: unknown, incoming: unknown, deltas: CounterDeltas = {}, incomingIsNewer = true): unknown => {
+    const spec = COUNTER_STORES[storeName];
+    if (local === undefined) return incomingIsNewer ? incoming : undefined;
+    const merged = incomingIsNewer ? spec.union(incoming, local) : spec.union(local, incoming);
+    const current = spec.read(local);
+    const counters = Object.fromEntries(Object.keys(spec.read(merged)).map(key => [key, (current[key] ?? 0) + (deltas[key] ?? 0)]));
+    return spec.write(merged, counters);
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { AuditEntry } from '../types';
+
+type DbModule = typeof import('./db');
+
+let db: DbModule;
+let sealFails = false;
+
+// The real chain, except that sealing can be made to fail
+vi.mock('./audit', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('./audit')>();
+    return {
+        ...actual,
+        sealAuditEntry: (...args: Parameters<typeof actual.sealAuditEntry>) => {
+            if (sealFails) throw new Error('seal failed');
+            return actual.sealAuditEntry(...args);
+        },
+    };
+});
+
+const SERVICE = { id: 's1', name: 'صحافی', price: 10 };
+
+beforeEach(async () => {
+    vi.resetModules();
+    globalThis.indexedDB = new IDBFactory();
+    sealFails = false;
+    db = await import('./db');
+});
+
+describe('audited writes', () => {
+    it('commit together with their audit entry', async () => {
+        await db.putItem(db.STORES.SERVICES, SERVICE);
+        await db.runTransaction([db.STORES.SERVICES], (tx) => tx.put(db.STORES.SERVICES, { ...SERVICE, price: 12 }));
+
+        expect(await db.getById(db.STORES.SERVICES, SERVICE.id)).toMatchObject({ price: 12 });
+        const entries = (await db.getAll<AuditEntry>(db.AUDIT_STORE)).sort((a, b) => a.seq - b.seq);
+        expect(entries.map(e => e.action)).toEqual(['create', 'update']);
+    });
+
+    it('fail together when the audit entry cannot be written', async () => {
+        sealFails = true;
+
+        await expect(db.putItem(db.STORES.SERVICES, SERVICE)).rejects.toThrow('seal failed');
+        await expect(db.runTransaction([db.STORES.SERVICES], (tx) => tx.put(db.STORES.SERVICES, SERVICE))).rejects.toThrow('seal failed');
+
+        expect(await db.getAll(db.STORES.SERVICES)).toEqual([]);
+        expect(await db.getAll(db.AUDIT_STORE)).toEqual([]);
+        expect(await db.getOutbox()).toEqual([]);
+    });
+});
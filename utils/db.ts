@@ -1,56 +1,139 @@
-import type { SalesMemoImage, Product, SaleInvoice, PurchaseInvoice, InTransitInvoice, Customer, Supplier, Employee, Expense, Service, StoreSettings, CustomerTransaction, SupplierTransaction, PayrollTransaction, ActivityLog, User, Role, DepositHolder, DepositTransaction } from '../types';
+import type { SalesMemoImage, Product, SaleInvoice, PurchaseInvoice, InTransitInvoice, Customer, Supplier, Employee, Expense, Service, StoreSettings, CustomerTransaction, SupplierTransaction, PayrollTransaction, ActivityLog, User, Role, DepositHolder, DepositTransaction, SyncChange, OutboxEntry, AuditEntry } from '../types';
+import { STORES, MIGRATIONS_STORE, OUTBOX_STORE, SYNC_STATE_STORE, SYNCED_STORES, AUDIT_STORE, AUDITED_STORES, DEVICE_LOCAL_FIELDS } from './stores';
+import { LATEST_VERSION, openMigratedDatabase, withDerivedFields, type AppliedMigration } from './migrations';
+import { getDeviceId } from './device';
+import { isCounterStore, counterDeltas, mergeCounters } from './counters';
+import { diffRecords, sealAuditEntry, getAuditActor, EMPTY_CHAIN, type AuditChainHead } from './audit';
 
 const DB_NAME = 'KetabestanLocalDB';
-const DB_VERSION = 5; // Increment version for security deposit stores
-
-const STORES = {
-  SALES_MEMOS: 'salesMemos',
-  PRODUCTS: 'products',
-  SALE_INVOICES: 'sale_invoices',
-  PURCHASE_INVOICES: 'purchase_invoices',
-  IN_TRANSIT_INVOICES: 'in_transit_invoices',
-  CUSTOMERS: 'customers',
-  SUPPLIERS: 'suppliers',
-  EMPLOYEES: 'employees',
-  EXPENSES: 'expenses',
-  SERVICES: 'services',
-  CUSTOMER_TX: 'customer_transactions',
-  SUPPLIER_TX: 'supplier_transactions',
-  PAYROLL_TX: 'payroll_transactions',
-  DEPOSIT_HOLDERS: 'deposit_holders',
-  DEPOSIT_TRANSACTIONS: 'deposit_transactions',
-  ACTIVITY: 'activity_logs',
-  SETTINGS: 'store_settings',
-  USERS: 'users',
-  ROLES: 'roles'
-};
+// Schema changes go in utils/migrations.ts; the version follows the newest step
+const DB_VERSION = LATEST_VERSION;
 
 let db: IDBDatabase;
 
-export const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    if (db) return resolve(db);
+export const openDB = async (): Promise<IDBDatabase> => {
+  if (db) return db;
+  db = await openMigratedDatabase(indexedDB, DB_NAME);
+  return db;
+};
 
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+// --- Change log ---
+export const syncRecordKey = (storeName: string, recordId: string | number) => `${storeName}:${recordId}`;
+// ISO timestamps have a fixed width, so versions compare as plain strings
+export const syncVersionOf = (change: Pick<SyncChange, 'changedAt' | 'deviceId'>) => `${change.changedAt}|${change.deviceId}`;
 
-    request.onerror = () => reject('Error opening local database');
+const isSynced = (storeName: string) => SYNCED_STORES.includes(storeName);
+const isAudited = (storeName: string) => AUDITED_STORES.includes(storeName);
+// Synced writes also touch the outbox and sync state, audited writes the audit log
+const withSyncStores = (storeNames: string[]) => [
+  ...storeNames,
+  ...(storeNames.some(isSynced) ? [OUTBOX_STORE, SYNC_STATE_STORE] : []),
+  ...(storeNames.some(isAudited) ? [AUDIT_STORE] : []),
+];
 
-    request.onsuccess = (event) => {
-      db = (event.target as IDBOpenDBRequest).result;
-      resolve(db);
-    };
+// A record as it may leave the device, without the fields kept on it
+export const withoutDeviceFields = <T>(storeName: string, record: T): T => {
+  const fields = DEVICE_LOCAL_FIELDS[storeName];
+  if (!fields || !record) return record;
+  const copy = { ...record } as Record<string, unknown>;
+  fields.forEach(field => delete copy[field]);
+  return copy as T;
+};
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      Object.values(STORES).forEach(storeName => {
-        if (!db.objectStoreNames.contains(storeName)) {
-          db.createObjectStore(storeName, { keyPath: 'id', autoIncrement: storeName === STORES.SALES_MEMOS });
-        }
-      });
-    };
+// A pulled copy keeps this device's own values of those fields
+const withDeviceFields = (storeName: string, incoming: unknown, local: unknown): unknown => {
+  const fields = DEVICE_LOCAL_FIELDS[storeName].filter(field => (local as Record<string, unknown> | undefined)?.[field] !== undefined);
+  return { ...withoutDeviceFields(storeName, incoming as object), ...Object.fromEntries(fields.map(field => [field, (local as Record<string, unknown>)[field]])) };
+};
+
+// Every local write to a synced store leaves an outbox entry and its version in the same transaction.
+// Call it before issuing the write: a counter record is read first, so its deltas are taken against the old copy.
+const logChange = (transaction: IDBTransaction, storeName: string, op: SyncChange['op'], recordId: string | number, record?: unknown) => {
+  if (!isSynced(storeName)) return;
+  const change: OutboxEntry = { store: storeName, recordId: String(recordId), op, record, changedAt: new Date().toISOString(), deviceId: getDeviceId() };
+  const outbox = transaction.objectStore(OUTBOX_STORE);
+  transaction.objectStore(SYNC_STATE_STORE).put({ key: syncRecordKey(storeName, recordId), value: syncVersionOf(change) });
+  if (op === 'delete' || !isCounterStore(storeName)) {
+    outbox.add(change);
+    return;
+  }
+  const before = transaction.objectStore(storeName).get(recordId);
+  before.onsuccess = () => {
+    const deltas = counterDeltas(storeName, before.result, record);
+    outbox.add(deltas ? { ...change, deltas } : change);
+  };
+};
+
+// --- Audit trail ---
+// Entries are hashed synchronously and written in the same transaction as the change they describe,
+// so a write and its audit entry commit or fail together. The chain head lives in sync state, apart from the log.
+const AUDIT_HEAD_KEY = 'auditHead';
+
+type AuditFields = Pick<AuditEntry, 'entityType' | 'entityId' | 'action' | 'changes'>;
+
+const readAuditHead = (transaction: IDBTransaction): Promise<AuditChainHead> =>
+  requestToPromise<{ value: AuditChainHead } | undefined>(transaction.objectStore(SYNC_STATE_STORE).get(AUDIT_HEAD_KEY), 'Error reading audit chain head')
+    .then(record => record?.value ?? EMPTY_CHAIN);
+
+const appendAudit = (transaction: IDBTransaction, head: AuditChainHead, fields: AuditFields): AuditChainHead => {
+  const entry = sealAuditEntry(head, { ...fields, deviceId: getDeviceId(), timestamp: new Date().toISOString(), actor: getAuditActor() });
+  transaction.objectStore(AUDIT_STORE).add(entry);
+  logChange(transaction, AUDIT_STORE, 'put', entry.id, entry);
+  const next = { seq: entry.seq, hash: entry.hash };
+  transaction.objectStore(SYNC_STATE_STORE).put({ key: AUDIT_HEAD_KEY, value: next });
+  return next;
+};
+
+// Settles with the transaction rather than with its requests, so the audit, outbox and sync state writes
+// queued beside the data have committed too. The returned `fail` aborts it, rejecting with that error.
+const settleOnCommit = (transaction: IDBTransaction, resolve: () => void, reject: (reason: unknown) => void, fallback: string) => {
+  let failure: unknown = null;
+  transaction.oncomplete = () => resolve();
+  transaction.onabort = () => reject(failure || fallback);
+  // Requests still pending when it aborts fail too; the first error is the one reported
+  return (error: unknown) => {
+    if (failure) return;
+    failure = error;
+    try { transaction.abort(); } catch (e) { reject(error); }
+  };
+};
+
+// One writer per transaction. The head is read once and then advanced in memory, so writes issued
+// side by side in a transaction still chain one after another. Call `record` before issuing the write,
+// so the read of the old record sees it as it was. An entry that cannot be written fails the transaction.
+const createAuditWriter = (transaction: IDBTransaction, fail: (error: unknown) => void) => {
+  let head: Promise<AuditChainHead> | null = null;
+  const record = (storeName: string, recordId: string | number, after?: unknown) => {
+    if (!isAudited(storeName)) return;
+    const before = requestToPromise<unknown>(transaction.objectStore(storeName).get(recordId), `Error reading ${recordId} from ${storeName}`);
+    head = Promise.all([head || readAuditHead(transaction), before]).then(([previous, old]) => {
+      const changes = diffRecords(old, after);
+      if (Object.keys(changes).length === 0) return previous;
+      const action = after === undefined ? 'delete' : old === undefined ? 'create' : 'update';
+      return appendAudit(transaction, previous, { entityType: storeName, entityId: String(recordId), action, changes });
+    });
+    head.catch(fail);
+  };
+  // Resolves once every entry recorded so far is written
+  const settled = async () => { await head; };
+  return { record, settled };
+};
+
+// For events that are not a single record write, such as a backup restore
+export const recordAuditEvent = async (fields: AuditFields): Promise<void> => {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(withSyncStores([AUDIT_STORE]), 'readwrite');
+    const fail = settleOnCommit(transaction, resolve, reject, 'Error writing audit entry');
+    // A head that cannot be read or an entry that cannot be sealed leaves nothing half-written
+    readAuditHead(transaction)
+      .then(head => appendAudit(transaction, head, fields))
+      .catch(fail);
   });
 };
 
+export const getAuditChainHead = async (): Promise<AuditChainHead> => (await getSyncState<AuditChainHead>(AUDIT_HEAD_KEY)) ?? EMPTY_CHAIN;
+
 // Generic CRUD helpers
 export const getAll = async <T>(storeName: string): Promise<T[]> => {
   const database = await openDB();
@@ -74,25 +157,38 @@ export const getById = async <T>(storeName: string, id: string | number): Promis
   });
 };
 
+export const getAllKeys = async (storeName: string): Promise<IDBValidKey[]> => {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).getAllKeys();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(`Error getting keys from ${storeName}`);
+  });
+};
+
 export const putItem = async <T>(storeName: string, item: T): Promise<void> => {
   const database = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(storeName, 'readwrite');
+    const transaction = database.transaction(withSyncStores([storeName]), 'readwrite');
+    const fail = settleOnCommit(transaction, resolve, reject, `Error putting item into ${storeName}`);
     const store = transaction.objectStore(storeName);
-    const request = store.put(item);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(`Error putting item into ${storeName}`);
+    const stored = withDerivedFields(storeName, item);
+    createAuditWriter(transaction, fail).record(storeName, (item as { id: string }).id, stored);
+    logChange(transaction, storeName, 'put', (item as { id: string }).id, item);
+    store.put(stored);
   });
 };
 
 export const deleteItem = async (storeName: string, id: string | number): Promise<void> => {
   const database = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(storeName, 'readwrite');
+    const transaction = database.transaction(withSyncStores([storeName]), 'readwrite');
+    const fail = settleOnCommit(transaction, resolve, reject, `Error deleting ${id} from ${storeName}`);
     const store = transaction.objectStore(storeName);
-    const request = store.delete(id);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(`Error deleting ${id} from ${storeName}`);
+    createAuditWriter(transaction, fail).record(storeName, id);
+    store.delete(id);
+    logChange(transaction, storeName, 'delete', id);
   });
 };
 
@@ -107,6 +203,155 @@ export const clearStore = async (storeName: string): Promise<void> => {
     });
 };
 
+// Walks the store with a cursor and stops at the first match, so large stores are never loaded whole
+export const findFirst = async <T>(storeName: string, predicate: (item: T) => boolean): Promise<T | undefined> => {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(undefined);
+      if (predicate(cursor.value)) return resolve(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(`Error scanning ${storeName}`);
+  });
+};
+
+// --- Index queries ---
+export interface RangeQuery {
+  lower?: IDBValidKey;
+  upper?: IDBValidKey;
+  upperOpen?: boolean;
+  direction?: 'next' | 'prev';
+  limit?: number;
+}
+
+// Position of the first record of the next page; pass it back as `from` to continue
+export interface PageCursor {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+}
+
+export interface Page<T> {
+  items: T[];
+  next: PageCursor | null;
+}
+
+const toKeyRange = (lower?: IDBValidKey, upper?: IDBValidKey, upperOpen = false): IDBKeyRange | undefined => {
+  if (lower !== undefined && upper !== undefined) return IDBKeyRange.bound(lower, upper, false, upperOpen);
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper, upperOpen);
+  return undefined;
+};
+
+export const getAllByIndex = async <T>(storeName: string, indexName: string, value: IDBValidKey): Promise<T[]> => {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).index(indexName).getAll(value);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(`Error querying ${storeName} by ${indexName}`);
+  });
+};
+
+export const getByIndexRange = async <T>(storeName: string, indexName: string, query: RangeQuery = {}): Promise<T[]> => {
+  const page = await getPage<T>(storeName, indexName, query);
+  return page.items;
+};
+
+export const getPage = async <T>(storeName: string, indexName: string, query: RangeQuery & { from?: PageCursor } = {}): Promise<Page<T>> => {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).index(indexName).openCursor(toKeyRange(query.lower, query.upper, query.upperOpen), query.direction || 'next');
+    const limit = query.limit ?? Infinity;
+    const items: T[] = [];
+    let positioned = !query.from;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve({ items, next: null });
+      if (!positioned) {
+        positioned = true;
+        const from = query.from!;
+        if (indexedDB.cmp(cursor.key, from.key) !== 0 || indexedDB.cmp(cursor.primaryKey, from.primaryKey) !== 0) {
+          cursor.continuePrimaryKey(from.key, from.primaryKey);
+          return;
+        }
+      }
+      if (items.length >= limit) return resolve({ items, next: { key: cursor.key, primaryKey: cursor.primaryKey } });
+      items.push(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(`Error paging ${storeName} by ${indexName}`);
+  });
+};
+
+// Multi-store transactions: every write made through the scope commits together or not at all
+export interface TransactionScope {
+  get: <T>(storeName: string, id: string | number) => Promise<T | undefined>;
+  getAll: <T>(storeName: string) => Promise<T[]>;
+  getAllByIndex: <T>(storeName: string, indexName: string, value: IDBValidKey) => Promise<T[]>;
+  getAllKeys: (storeName: string) => Promise<(string | number)[]>;
+  put: <T>(storeName: string, item: T) => Promise<void>;
+  delete: (storeName: string, id: string | number) => Promise<void>;
+}
+
+const requestToPromise = <R>(request: IDBRequest<R>, errorMessage: string): Promise<R> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(errorMessage);
+  });
+};
+
+// NOTE: `work` must only await requests made through the scope. Awaiting anything else
+// (fetch, timers, openDB) lets IndexedDB auto-commit the transaction half way through.
+// `audit: false` is for bulk rewrites that are recorded as one event instead (see recordAuditEvent).
+export const runTransaction = async <T>(storeNames: string[], work: (tx: TransactionScope) => Promise<T>, { audit = true }: { audit?: boolean } = {}): Promise<T> => {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(withSyncStores(storeNames), 'readwrite');
+    let result: T;
+    const fail = settleOnCommit(transaction, () => resolve(result), reject, `Transaction aborted on ${storeNames.join(', ')}`);
+    const auditWriter = audit ? createAuditWriter(transaction, fail) : null;
+    const recordAudit = auditWriter ? auditWriter.record : () => {};
+
+    const scope: TransactionScope = {
+      get: <R>(storeName: string, id: string | number) =>
+        requestToPromise<R | undefined>(transaction.objectStore(storeName).get(id), `Error getting ${id} from ${storeName}`),
+      getAll: <R>(storeName: string) =>
+        requestToPromise<R[]>(transaction.objectStore(storeName).getAll(), `Error getting all from ${storeName}`),
+      getAllByIndex: <R>(storeName: string, indexName: string, value: IDBValidKey) =>
+        requestToPromise<R[]>(transaction.objectStore(storeName).index(indexName).getAll(value), `Error querying ${storeName} by ${indexName}`),
+      getAllKeys: (storeName: string) =>
+        requestToPromise(transaction.objectStore(storeName).getAllKeys() as IDBRequest<(string | number)[]>, `Error getting keys from ${storeName}`),
+      put: async (storeName, item) => {
+        const stored = withDerivedFields(storeName, item);
+        recordAudit(storeName, (item as { id: string }).id, stored);
+        logChange(transaction, storeName, 'put', (item as { id: string }).id, item);
+        const request = transaction.objectStore(storeName).put(stored);
+        await requestToPromise(request, `Error putting item into ${storeName}`);
+      },
+      delete: async (storeName, id) => {
+        recordAudit(storeName, id);
+        const request = transaction.objectStore(storeName).delete(id);
+        logChange(transaction, storeName, 'delete', id);
+        await requestToPromise(request, `Error deleting ${id} from ${storeName}`);
+      }
+    };
+
+    // The audit entries of the last writes are still being sealed when `work` returns
+    work(scope)
+      .then(async value => {
+        await auditWriter?.settled();
+        result = value;
+      })
+      .catch(fail);
+  });
+};
+
 // Sales Memo specific (because of auto-increment)
 export const addMemoImage = async (imageData: string): Promise<void> => {
   const database = await openDB();
@@ -128,4 +373,154 @@ export const deleteMemoImage = async (id: number): Promise<void> => {
   return deleteItem(STORES.SALES_MEMOS, id);
 };
 
-export { STORES };
\ No newline at end of file
+// --- Sync bookkeeping ---
+export const getOutbox = async (): Promise<OutboxEntry[]> => getAll<OutboxEntry>(OUTBOX_STORE);
+
+export const countOutbox = async (): Promise<number> => {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = database.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE).count();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject('Error counting outbox');
+  });
+};
+
+export const removeOutboxEntries = async (localSeqs: number[]): Promise<void> => {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(OUTBOX_STORE, 'readwrite');
+    const store = transaction.objectStore(OUTBOX_STORE);
+    localSeqs.forEach(seq => store.delete(seq));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error removing outbox entries');
+  });
+};
+
+export const getSyncState = async <T>(key: string): Promise<T | undefined> => {
+  const entry = await getById<{ key: string; value: T }>(SYNC_STATE_STORE, key);
+  return entry?.value;
+};
+
+export const setSyncState = async (key: string, value: unknown): Promise<void> => {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = database.transaction(SYNC_STATE_STORE, 'readwrite').objectStore(SYNC_STATE_STORE).put({ key, value });
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(`Error saving sync state ${key}`);
+  });
+};
+
+// Last known version per record key, for the records a pulled batch touches
+export const getSyncVersions = async (recordKeys: string[]): Promise<Map<string, string>> => {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const store = database.transaction(SYNC_STATE_STORE, 'readonly').objectStore(SYNC_STATE_STORE);
+    const versions = new Map<string, string>();
+    let remaining = recordKeys.length;
+    if (remaining === 0) return resolve(versions);
+    recordKeys.forEach(key => {
+      const request = store.get(key);
+      request.onsuccess = () => {
+        if (request.result) versions.set(key, request.result.value);
+        if (--remaining === 0) resolve(versions);
+      };
+      request.onerror = () => reject(`Error reading sync version ${key}`);
+    });
+  });
+};
+
+// Records written before sync existed never went through logChange. They are queued once, stamped older
+// than any real write, so a version another device wrote later always wins over a seeded copy.
+const OUTBOX_SEED_KEY = 'outboxSeed';
+const OUTBOX_SEED_VERSION = 1;
+const SEED_STAMP = new Date(0).toISOString();
+
+export const seedOutbox = async (): Promise<number> => {
+  const database = await openDB();
+  const stores = SYNCED_STORES.filter(name => database.objectStoreNames.contains(name));
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([...stores, OUTBOX_STORE, SYNC_STATE_STORE], 'readwrite');
+    const state = transaction.objectStore(SYNC_STATE_STORE);
+    const outbox = transaction.objectStore(OUTBOX_STORE);
+    let queued = 0;
+    let failure: unknown = null;
+
+    const seed = async () => {
+      const marker = await requestToPromise<{ value: number } | undefined>(state.get(OUTBOX_SEED_KEY), 'Error reading outbox seed marker');
+      if ((marker?.value ?? 0) >= OUTBOX_SEED_VERSION) return;
+      // Records that already carry a version were written, or pulled, after sync existed
+      const versioned = new Set((await requestToPromise(state.getAllKeys(), 'Error reading sync versions')).map(String));
+      for (const storeName of stores) {
+        const records = await requestToPromise<{ id: string | number }[]>(transaction.objectStore(storeName).getAll(), `Error getting all from ${storeName}`);
+        records.filter(record => !versioned.has(syncRecordKey(storeName, record.id))).forEach(record => {
+          const change: OutboxEntry = { store: storeName, recordId: String(record.id), op: 'put', record, changedAt: SEED_STAMP, deviceId: getDeviceId() };
+          outbox.add(change);
+          state.put({ key: syncRecordKey(storeName, record.id), value: syncVersionOf(change) });
+          queued++;
+        });
+      }
+      state.put({ key: OUTBOX_SEED_KEY, value: OUTBOX_SEED_VERSION });
+    };
+
+    seed().catch(error => {
+      failure = error;
+      try { transaction.abort(); } catch (e) { reject(error); }
+    });
+    transaction.oncomplete = () => resolve(queued);
+    transaction.onabort = () => reject(failure || 'Error seeding outbox');
+  });
+};
+
+// Writes pulled changes, drops the local changes they overruled and advances the cursor, all at once.
+// Nothing here goes through logChange, so pulled changes are never echoed back to the server.
+// Changes are applied one after another, as a counter record is read and merged before it is written.
+export const applySyncedChanges = async (changes: SyncChange[], discardLocalSeqs: number[], cursor: number): Promise<void> => {
+  const database = await openDB();
+  const stores = [...new Set(changes.map(c => c.store))].filter(name => isSynced(name) && database.objectStoreNames.contains(name));
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([...stores, OUTBOX_STORE, SYNC_STATE_STORE], 'readwrite');
+    const state = transaction.objectStore(SYNC_STATE_STORE);
+    let failure: unknown = null;
+
+    const apply = async () => {
+      for (const change of changes.filter(c => stores.includes(c.store))) {
+        const store = transaction.objectStore(change.store);
+        const key = syncRecordKey(change.store, change.recordId);
+        const version = syncVersionOf(change);
+        if (change.op === 'delete') {
+          store.delete(change.recordId);
+        } else if (isCounterStore(change.store)) {
+          // The deltas count even when the local copy is newer; only the other fields follow the newer version
+          const [local, known] = await Promise.all([
+            requestToPromise<unknown>(store.get(change.recordId), `Error reading ${change.recordId} from ${change.store}`),
+            requestToPromise<{ value: string } | undefined>(state.get(key), `Error reading sync version ${key}`),
+          ]);
+          const incomingIsNewer = !known || version > known.value;
+          const merged = mergeCounters(change.store, local, change.record, change.deltas, incomingIsNewer);
+          if (merged !== undefined) store.put(withDerivedFields(change.store, merged));
+          if (!incomingIsNewer) continue;
+        } else if (DEVICE_LOCAL_FIELDS[change.store]) {
+          const local = await requestToPromise<unknown>(store.get(change.recordId), `Error reading ${change.recordId} from ${change.store}`);
+          store.put(withDerivedFields(change.store, withDeviceFields(change.store, change.record, local)));
+        } else {
+          store.put(withDerivedFields(change.store, change.record));
+        }
+        state.put({ key, value: version });
+      }
+      const outbox = transaction.objectStore(OUTBOX_STORE);
+      discardLocalSeqs.forEach(seq => outbox.delete(seq));
+      state.put({ key: 'cursor', value: cursor });
+    };
+
+    apply().catch(error => {
+      failure = error;
+      try { transaction.abort(); } catch (e) { reject(error); }
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(failure || 'Error applying synced changes');
+  });
+};
+
+export const getAppliedMigrations = async (): Promise<AppliedMigration[]> => getAll<AppliedMigration>(MIGRATIONS_STORE);
+
+export { STORES, AUDIT_STORE, DB_VERSION };
\ No newline at end of file
@@ -0,0 +1,16 @@
+// Stable per-browser id, registered as a shop device and used to stamp synced changes
+export const getDeviceId = (): string => {
+    let id = localStorage.getItem('kasebyar_device_id');
+    if (!id) {
+        id = crypto.randomUUID();
+        localStorage.setItem('kasebyar_device_id', id);
+    }
+    return id;
+};
+
+// Name shown to the owner when this device asks to join the shop; renamed from the devices screen
+export const getDeviceName = (): string => {
+    return localStorage.getItem('kasebyar_device_name') || `دستگاه ${getDeviceId().slice(0, 4).toUpperCase()}`;
+};
+
+export const setDeviceName = (name: string) => localStorage.setItem('kasebyar_device_name', name);
@@ -0,0 +1,243 @@
+import type {
+    Customer, Supplier, Employee, DepositHolder, Product, SaleInvoice, PurchaseInvoice, InTransitInvoice, Expense,
+    CustomerTransaction, SupplierTransaction, PayrollTransaction, DepositTransaction, JournalEntry, StoreSettings,
+    LedgerPartyType, BalanceSnapshot, BalanceMismatch, StockMismatch, OrphanReference, IntegrityReport
+} from '../types';
+import { toBaseAmount, derivePartyBalances, partyKey, saleSettlements } from './ledger';
+
+type Currency = 'AFN' | 'USD' | 'IRT';
+
+export interface IntegrityData {
+    customers: Customer[];
+    suppliers: Supplier[];
+    employees: Employee[];
+    depositHolders: DepositHolder[];
+    products: Product[];
+    saleInvoices: SaleInvoice[];
+    purchaseInvoices: PurchaseInvoice[];
+    inTransitInvoices: InTransitInvoice[];
+    customerTransactions: CustomerTransaction[];
+    supplierTransactions: SupplierTransaction[];
+    payrollTransactions: PayrollTransaction[];
+    depositTransactions: DepositTransaction[];
+    expenses: Expense[];
+    journalEntries: JournalEntry[];
+}
+
+const TOLERANCE = 0.01;
+
+const emptySnapshot = (): BalanceSnapshot => ({ AFN: 0, USD: 0, IRT: 0, Total: 0 });
+
+const snapshotOf = (entity: { balance: number; balanceAFN: number; balanceUSD: number; balanceIRT: number }): BalanceSnapshot => ({
+    AFN: entity.balanceAFN || 0, USD: entity.balanceUSD || 0, IRT: entity.balanceIRT || 0, Total: entity.balance || 0
+});
+
+const differs = (a: BalanceSnapshot, b: BalanceSnapshot) =>
+    (['AFN', 'USD', 'IRT', 'Total'] as const).some(k => Math.abs(a[k] - b[k]) > TOLERANCE);
+
+const byDate = <T extends { date: string }>(a: T, b: T) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+// --- Balance replay ---
+
+export const replayPartyBalances = (data: IntegrityData, settings: StoreSettings): Map<string, BalanceSnapshot> => {
+    const result = new Map<string, BalanceSnapshot>();
+    const saleById = new Map(data.saleInvoices.map(i => [i.id, i]));
+    const purchaseById = new Map(data.purchaseInvoices.map(i => [i.id, i]));
+
+    // The journal holds the exact base value a movement was posted at; older rows fall back to their own rate
+    const journalBase = new Map<string, number>();
+    data.journalEntries.forEach(e => {
+        const partyLine = e.lines.find(l => l.partyId);
+        if (e.refId && partyLine) journalBase.set(e.refId, Math.abs(partyLine.debit - partyLine.credit));
+    });
+
+    // `settledAs` picks the part of a split-tender sale that landed on the party
+    const baseOf = (tx: { id: string; amount: number; currency?: Currency; exchangeRate?: number; invoiceId?: string }, settledAs?: 'credit' | 'intermediary') => {
+        const posted = journalBase.get(tx.id);
+        if (posted !== undefined) return posted;
+        if (tx.invoiceId) {
+            const sale = saleById.get(tx.invoiceId);
+            if (sale) return sale.payment ? saleSettlements(sale).find(st => st.kind === settledAs)?.base ?? 0 : sale.totalAmountAFN;
+            const purchase = purchaseById.get(tx.invoiceId);
+            if (purchase) return toBaseAmount(purchase.totalAmount, purchase.currency, purchase.exchangeRate, settings);
+        }
+        return toBaseAmount(tx.amount, tx.currency, tx.exchangeRate, settings);
+    };
+
+    const apply = (partyType: LedgerPartyType, partyId: string, currency: Currency | undefined, amount: number, base: number) => {
+        const key = partyKey(partyType, partyId);
+        const current = result.get(key) || emptySnapshot();
+        current[currency || settings.baseCurrency] += amount;
+        current.Total += base;
+        result.set(key, current);
+    };
+
+    data.customerTransactions.forEach(t => {
+        const factor = t.type === 'credit_sale' ? 1 : -1;
+        apply('customer', t.customerId, t.currency, factor * t.amount, factor * baseOf(t, 'credit'));
+    });
+
+    data.supplierTransactions.forEach(t => {
+        const factor = t.type === 'purchase' ? 1 : -1;
+        apply('supplier', t.supplierId, t.currency, factor * t.amount, factor * baseOf(t, 'intermediary'));
+    });
+
+    data.depositTransactions.forEach(t => {
+        const factor = t.type === 'deposit' ? 1 : -1;
+        apply('depositHolder', t.holderId, t.currency, factor * t.amount, factor * baseOf(t));
+    });
+
+    // A payroll run zeroes every employee, but only employees with a positive net pay get a salary_payment row,
+    // so every recorded payment date is treated as a reset point for all employees
+    const payrollRuns = Array.from(new Set(data.payrollTransactions.filter(t => t.type === 'salary_payment').map(t => t.date))).sort();
+    const advances = data.payrollTransactions.filter(t => t.type === 'advance').sort(byDate);
+    data.employees.forEach(e => {
+        const key = partyKey('employee', e.id);
+        let balance = emptySnapshot();
+        let runIdx = 0;
+        advances.filter(t => t.employeeId === e.id).forEach(t => {
+            while (runIdx < payrollRuns.length && payrollRuns[runIdx] <= t.date) { balance = emptySnapshot(); runIdx++; }
+            balance[t.currency] += t.amount;
+            balance.Total += baseOf(t);
+        });
+        if (runIdx < payrollRuns.length) balance = emptySnapshot();
+        result.set(key, balance);
+    });
+
+    return result;
+};
+
+const findBalanceMismatches = (data: IntegrityData, settings: StoreSettings): BalanceMismatch[] => {
+    const replayed = replayPartyBalances(data, settings);
+    const ledger = derivePartyBalances(data.journalEntries);
+    const parties: { partyType: LedgerPartyType; entity: Customer | Supplier | Employee | DepositHolder }[] = [
+        ...data.customers.map(entity => ({ partyType: 'customer' as const, entity })),
+        ...data.suppliers.map(entity => ({ partyType: 'supplier' as const, entity })),
+        ...data.employees.map(entity => ({ partyType: 'employee' as const, entity })),
+        ...data.depositHolders.map(entity => ({ partyType: 'depositHolder' as const, entity })),
+    ];
+
+    return parties.reduce<BalanceMismatch[]>((acc, { partyType, entity }) => {
+        const key = partyKey(partyType, entity.id);
+        const stored = snapshotOf(entity);
+        const fromHistory = replayed.get(key) || emptySnapshot();
+        const fromLedger = ledger.get(key) || stored;
+        if (differs(stored, fromHistory) || differs(fromLedger, fromHistory)) {
+            acc.push({ partyType, partyId: entity.id, name: entity.name, stored, ledger: fromLedger, replayed: fromHistory });
+        }
+        return acc;
+    }, []);
+};
+
+// --- Stock reconciliation ---
+
+// Lots that never went through a purchase invoice (the first batch entered with a new product) have no
+// document to reconcile against and are skipped.
+const findStockMismatches = (data: IntegrityData): StockMismatch[] => {
+    const lotKey = (productId: string, lotNumber: string) => `${productId}::${lotNumber}`;
+    const batchLots = new Map<string, string>();
+    const actual = new Map<string, number>();
+    data.products.forEach(p => p.batches.forEach(b => {
+        const key = lotKey(p.id, b.lotNumber);
+        batchLots.set(b.id, key);
+        actual.set(key, (actual.get(key) || 0) + b.stock);
+    }));
+
+    const expected = new Map<string, number>();
+    const add = (key: string | undefined, qty: number) => { if (key) expected.set(key, (expected.get(key) || 0) + qty); };
+
+    data.purchaseInvoices.forEach(inv => inv.items.forEach(item => {
+        add(lotKey(item.productId, item.lotNumber), inv.type === 'return' ? -item.quantity : item.quantity);
+    }));
+    const purchasedLots = new Set(expected.keys());
+
+    data.saleInvoices.forEach(inv => inv.items.forEach(item => {
+        // A voided sale put back exactly what it took
+        if (item.type !== 'product' || !item.batchDeductions || inv.voided) return;
+        if (inv.type === 'sale') {
+            item.batchDeductions.forEach(d => add(batchLots.get(d.batchId), -d.quantity));
+        } else {
+            // Returns restore stock into the original deductions in order, as addSaleReturn does
+            let remaining = item.quantity;
+            item.batchDeductions.forEach(d => {
+                if (remaining <= 0) return;
+                const qty = Math.min(d.quantity, remaining);
+                add(batchLots.get(d.batchId), qty);
+                remaining -= qty;
+            });
+        }
+    }));
+
+    const productNames = new Map(data.products.map(p => [p.id, p.name]));
+    return Array.from(purchasedLots).reduce<StockMismatch[]>((acc, key) => {
+        const actualStock = actual.get(key) || 0;
+        const expectedStock = expected.get(key) || 0;
+        if (Math.abs(actualStock - expectedStock) > TOLERANCE) {
+            const [productId, lotNumber] = key.split('::');
+            acc.push({ productId, productName: productNames.get(productId) || 'ناشناس', lotNumber, actualStock, expectedStock });
+        }
+        return acc;
+    }, []);
+};
+
+// --- Orphan references ---
+
+const findOrphanReferences = (data: IntegrityData): OrphanReference[] => {
+    const orphans: OrphanReference[] = [];
+    const ids = <T extends { id: string }>(items: T[]) => new Set(items.map(i => i.id));
+    const customerIds = ids(data.customers), supplierIds = ids(data.suppliers), employeeIds = ids(data.employees), holderIds = ids(data.depositHolders);
+    const saleIds = ids(data.saleInvoices), purchaseIds = ids(data.purchaseInvoices), inTransitIds = ids(data.inTransitInvoices);
+    const batchIds = new Set(data.products.flatMap(p => p.batches.map(b => b.id)));
+    const partyIds: Record<LedgerPartyType, Set<string>> = { customer: customerIds, supplier: supplierIds, employee: employeeIds, depositHolder: holderIds };
+
+    data.customerTransactions.forEach(t => {
+        if (!customerIds.has(t.customerId)) orphans.push({ kind: 'transaction', id: t.id, description: `تراکنش مشتری «${t.description}» به مشتری حذف‌شده اشاره دارد.` });
+        if (t.invoiceId && !saleIds.has(t.invoiceId)) orphans.push({ kind: 'transaction', id: t.id, description: `تراکنش مشتری به فاکتور ناموجود #${t.invoiceId} اشاره دارد.` });
+    });
+    data.supplierTransactions.forEach(t => {
+        if (!supplierIds.has(t.supplierId)) orphans.push({ kind: 'transaction', id: t.id, description: `تراکنش تأمین‌کننده «${t.description}» به تأمین‌کننده حذف‌شده اشاره دارد.` });
+        // Intermediary sales link supplier rows to sale invoices
+        if (t.invoiceId && !purchaseIds.has(t.invoiceId) && !saleIds.has(t.invoiceId)) orphans.push({ kind: 'transaction', id: t.id, description: `تراکنش تأمین‌کننده به فاکتور ناموجود #${t.invoiceId} اشاره دارد.` });
+    });
+    data.payrollTransactions.forEach(t => {
+        if (!employeeIds.has(t.employeeId)) orphans.push({ kind: 'transaction', id: t.id, description: `تراکنش حقوق «${t.description}» به کارمند حذف‌شده اشاره دارد.` });
+    });
+    data.depositTransactions.forEach(t => {
+        if (!holderIds.has(t.holderId)) orphans.push({ kind: 'transaction', id: t.id, description: `تراکنش امانی «${t.description}» به امانت‌گذار حذف‌شده اشاره دارد.` });
+    });
+
+    data.saleInvoices.forEach(inv => {
+        if (inv.customerId && !customerIds.has(inv.customerId)) orphans.push({ kind: 'invoice', id: inv.id, description: `فاکتور فروش #${inv.id} به مشتری حذف‌شده اشاره دارد.` });
+        if (inv.supplierIntermediaryId && !supplierIds.has(inv.supplierIntermediaryId)) orphans.push({ kind: 'invoice', id: inv.id, description: `فاکتور فروش #${inv.id} به تأمین‌کننده واسطه حذف‌شده اشاره دارد.` });
+        if (inv.originalInvoiceId && !saleIds.has(inv.originalInvoiceId)) orphans.push({ kind: 'invoice', id: inv.id, description: `مرجوعی #${inv.id} به فاکتور اصلی ناموجود #${inv.originalInvoiceId} اشاره دارد.` });
+        inv.items.forEach(item => {
+            if (item.type !== 'product' || !item.batchDeductions) return;
+            item.batchDeductions.filter(d => !batchIds.has(d.batchId)).forEach(d => {
+                orphans.push({ kind: 'batchDeduction', id: inv.id, description: `کسر موجودی «${item.name}» در فاکتور #${inv.id} به بچ ناموجود ${d.batchId.slice(0, 8)} اشاره دارد.` });
+            });
+        });
+    });
+    data.purchaseInvoices.forEach(inv => {
+        if (!supplierIds.has(inv.supplierId)) orphans.push({ kind: 'invoice', id: inv.id, description: `فاکتور خرید #${inv.invoiceNumber || inv.id} به تأمین‌کننده حذف‌شده اشاره دارد.` });
+        if (inv.originalInvoiceId && !purchaseIds.has(inv.originalInvoiceId)) orphans.push({ kind: 'invoice', id: inv.id, description: `مرجوعی خرید #${inv.id} به فاکتور اصلی ناموجود #${inv.originalInvoiceId} اشاره دارد.` });
+        if (inv.sourceInTransitId && !inTransitIds.has(inv.sourceInTransitId)) orphans.push({ kind: 'invoice', id: inv.id, description: `فاکتور خرید #${inv.invoiceNumber || inv.id} به محموله در راه ناموجود اشاره دارد.` });
+    });
+
+    data.expenses.forEach(e => {
+        if (e.relatedId && !purchaseIds.has(e.relatedId)) orphans.push({ kind: 'expense', id: e.id, description: `هزینه «${e.description}» به فاکتور خرید ناموجود #${e.relatedId} اشاره دارد.` });
+    });
+
+    data.journalEntries.forEach(entry => {
+        const missing = entry.lines.find(l => l.partyType && l.partyId && !partyIds[l.partyType].has(l.partyId));
+        if (missing) orphans.push({ kind: 'journal', id: entry.id, description: `سند دفتر کل «${entry.description}» به طرف حساب حذف‌شده اشاره دارد.` });
+    });
+
+    return orphans;
+};
+
+export const runIntegrityCheck = (data: IntegrityData, settings: StoreSettings): IntegrityReport => ({
+    checkedAt: new Date().toISOString(),
+    balanceMismatches: findBalanceMismatches(data, settings),
+    stockMismatches: findStockMismatches(data),
+    orphanReferences: findOrphanReferences(data),
+});
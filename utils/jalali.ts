@@ -58,3 +58,20 @@ export const JALALI_MONTHS = [
     { value: 7, name: 'مهر' }, { value: 8, name: 'آبان' }, { value: 9, name: 'آذر' },
     { value: 10, name: 'دی' }, { value: 11, name: 'بهمن' }, { value: 12, name: 'اسفند' }
 ];
+
+// A reporting period within a Jalali year: a month (1-12), a season or the whole year
+export type JalaliPeriod = number | 'q1' | 'q2' | 'q3' | 'q4' | 'year';
+
+export const JALALI_SEASONS: { value: JalaliPeriod; name: string }[] = [
+    { value: 'q1', name: 'بهار' }, { value: 'q2', name: 'تابستان' }, { value: 'q3', name: 'پاییز' }, { value: 'q4', name: 'زمستان' }
+];
+
+export const jalaliPeriodRange = (jy: number, period: JalaliPeriod) => {
+    const [from, to] = period === 'year' ? [1, 12]
+        : typeof period === 'number' ? [period, period]
+        : [(Number(period[1]) - 1) * 3 + 1, Number(period[1]) * 3];
+    const start = jalaliToDate(jy, from, 1);
+    const end = to === 12 ? jalaliToDate(jy + 1, 1, 1) : jalaliToDate(jy, to + 1, 1);
+    end.setMilliseconds(-1);
+    return { start, end };
+};
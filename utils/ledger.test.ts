@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { journalForPartyPayment, sumJournalLines, carriedForwardEntry, computeFinancialPosition, derivePartyBalances } from './ledger';
+
+const payment = (partyType: 'customer' | 'supplier', partyId: string, amount: number, date: string) =>
+    journalForPartyPayment(partyType, partyId, { id: crypto.randomUUID(), amount, currency: 'AFN', baseAmount: amount, date, description: '', isCash: true });
+
+describe('carried-forward journal', () => {
+    const journal = [
+        ...payment('customer', 'c1', 100, '2024-01-05T00:00:00.000Z'),
+        ...payment('supplier', 's1', 40, '2024-02-01T00:00:00.000Z'),
+        ...payment('customer', 'c1', 25, '2024-03-01T00:00:00.000Z'),
+        ...payment('customer', 'c2', 10, '2024-06-01T00:00:00.000Z'),
+    ];
+    const since = '2024-04-01T00:00:00.000Z';
+    const windowed = [carriedForwardEntry(sumJournalLines(journal.filter(e => e.date < since)), since), ...journal.filter(e => e.date >= since)];
+
+    it('derives the same balances as the whole journal', () => {
+        expect(derivePartyBalances(windowed)).toEqual(derivePartyBalances(journal));
+        expect(computeFinancialPosition(windowed)).toEqual(computeFinancialPosition(journal));
+    });
+
+    it('keeps one line per account, party and currency', () => {
+        const [carried] = windowed;
+        expect(carried.refId).toBeUndefined();
+        // Cash in AFN, customer c1 and supplier s1
+        expect(carried.lines).toHaveLength(3);
+    });
+});
@@ -0,0 +1,418 @@
+import type {
+    LedgerAccount, LedgerPartyType, JournalEntry, JournalLine, StoreSettings, SaleInvoice, PurchaseInvoice, TenderKind,
+    Customer, Supplier, Employee, DepositHolder, Product, Expense, CustomerTransaction, SupplierTransaction, DepositTransaction,
+    BalanceSnapshot
+} from '../types';
+import { invoiceTaxBase, purchaseTaxBase } from './tax';
+
+type Currency = 'AFN' | 'USD' | 'IRT';
+
+export const ACCOUNTS = {
+    CASH_AFN: '1010',
+    CASH_USD: '1011',
+    CASH_IRT: '1012',
+    CLEARING: '1090', // Money settled through an intermediary (trustee, supplier) instead of the drawer, and the goods set off in an exchange
+    RECEIVABLES: '1100',
+    EMPLOYEE_ADVANCES: '1150',
+    INVENTORY: '1200',
+    INPUT_TAX: '1300', // Tax paid on purchases, deductible from tax owed on sales
+    PAYABLES: '2000',
+    DEPOSITS: '2100',
+    TAX_PAYABLE: '2200',
+    STORE_CREDIT: '2300', // Vouchers issued on returns and not yet spent
+    OPENING_EQUITY: '3000',
+    BALANCE_ADJUSTMENTS: '3900',
+    SALES_REVENUE: '4000',
+    SALES_RETURNS: '4100',
+    COGS: '5000',
+    OPERATING_EXPENSES: '6000',
+    SALARY_EXPENSE: '6100',
+} as const;
+
+export const CHART_OF_ACCOUNTS: LedgerAccount[] = [
+    { id: ACCOUNTS.CASH_AFN, name: 'صندوق افغانی', type: 'asset', currency: 'AFN' },
+    { id: ACCOUNTS.CASH_USD, name: 'صندوق دلار', type: 'asset', currency: 'USD' },
+    { id: ACCOUNTS.CASH_IRT, name: 'صندوق تومان', type: 'asset', currency: 'IRT' },
+    { id: ACCOUNTS.CLEARING, name: 'حساب واسطه (تسویه غیرنقدی)', type: 'asset' },
+    { id: ACCOUNTS.RECEIVABLES, name: 'حساب‌های دریافتنی (مشتریان)', type: 'asset' },
+    { id: ACCOUNTS.EMPLOYEE_ADVANCES, name: 'مساعده کارکنان', type: 'asset' },
+    { id: ACCOUNTS.INVENTORY, name: 'موجودی کالا', type: 'asset' },
+    { id: ACCOUNTS.INPUT_TAX, name: 'مالیات خرید قابل کسر', type: 'asset' },
+    { id: ACCOUNTS.PAYABLES, name: 'حساب‌های پرداختنی (تأمین‌کنندگان)', type: 'liability' },
+    { id: ACCOUNTS.DEPOSITS, name: 'امانات', type: 'liability' },
+    { id: ACCOUNTS.TAX_PAYABLE, name: 'مالیات فروش پرداختنی', type: 'liability' },
+    { id: ACCOUNTS.STORE_CREDIT, name: 'ووچرهای اعتبار خرید', type: 'liability' },
+    { id: ACCOUNTS.OPENING_EQUITY, name: 'سرمایه افتتاحیه', type: 'equity' },
+    { id: ACCOUNTS.BALANCE_ADJUSTMENTS, name: 'تعدیلات تراز حساب‌ها', type: 'equity' },
+    { id: ACCOUNTS.SALES_REVENUE, name: 'درآمد فروش', type: 'revenue' },
+    { id: ACCOUNTS.SALES_RETURNS, name: 'برگشت از فروش', type: 'revenue' },
+    { id: ACCOUNTS.COGS, name: 'بهای تمام شده کالای فروش رفته', type: 'expense' },
+    { id: ACCOUNTS.OPERATING_EXPENSES, name: 'هزینه‌های عملیاتی', type: 'expense' },
+    { id: ACCOUNTS.SALARY_EXPENSE, name: 'هزینه حقوق و دستمزد', type: 'expense' },
+];
+
+const PARTY_ACCOUNTS: Record<LedgerPartyType, string> = {
+    customer: ACCOUNTS.RECEIVABLES,
+    supplier: ACCOUNTS.PAYABLES,
+    employee: ACCOUNTS.EMPLOYEE_ADVANCES,
+    depositHolder: ACCOUNTS.DEPOSITS,
+};
+
+// Customers and employees owe us (debit balance); suppliers and deposit holders are owed (credit balance)
+const PARTY_SIGN: Record<LedgerPartyType, 1 | -1> = { customer: 1, employee: 1, supplier: -1, depositHolder: -1 };
+
+const EPSILON = 0.0001;
+
+export const cashAccountFor = (currency: Currency): string =>
+    currency === 'USD' ? ACCOUNTS.CASH_USD : (currency === 'IRT' ? ACCOUNTS.CASH_IRT : ACCOUNTS.CASH_AFN);
+
+export const toBaseAmount = (amount: number, currency: Currency | undefined, rate: number | undefined, settings: StoreSettings): number => {
+    const cur = currency || settings.baseCurrency;
+    if (cur === settings.baseCurrency) return amount;
+    const r = rate || 1;
+    const config = settings.currencyConfigs[cur];
+    return config?.method === 'multiply' ? amount / r : amount * r;
+};
+
+export const fromBaseAmount = (base: number, currency: Currency | undefined, rate: number | undefined, settings: StoreSettings): number => {
+    const cur = currency || settings.baseCurrency;
+    if (cur === settings.baseCurrency) return base;
+    const r = rate || 1;
+    const config = settings.currencyConfigs[cur];
+    return config?.method === 'multiply' ? base * r : base / r;
+};
+
+const debit = (accountId: string, base: number, currency: Currency, amount: number, party?: { type: LedgerPartyType; id: string }): JournalLine => ({
+    accountId, debit: base, credit: 0, currency, currencyAmount: amount, partyType: party?.type, partyId: party?.id
+});
+
+const credit = (accountId: string, base: number, currency: Currency, amount: number, party?: { type: LedgerPartyType; id: string }): JournalLine => ({
+    accountId, debit: 0, credit: base, currency, currencyAmount: -amount, partyType: party?.type, partyId: party?.id
+});
+
+const entry = (date: string, description: string, lines: JournalLine[], refId?: string, refType?: JournalEntry['refType']): JournalEntry => ({
+    id: crypto.randomUUID(), date, description, refId, refType,
+    lines: lines.filter(l => Math.abs(l.debit) > EPSILON || Math.abs(l.credit) > EPSILON || Math.abs(l.currencyAmount) > EPSILON)
+});
+
+export const isBalanced = (journalEntry: JournalEntry): boolean => {
+    const totals = journalEntry.lines.reduce((acc, l) => ({ debit: acc.debit + l.debit, credit: acc.credit + l.credit }), { debit: 0, credit: 0 });
+    return Math.abs(totals.debit - totals.credit) < 0.01;
+};
+
+export interface SaleSettlement {
+    kind: TenderKind;
+    currency: Currency;
+    amount: number;
+    base: number;
+}
+
+// Where the money of a sale or return lands: the customer's account, the intermediary supplier, store credit, or the drawer.
+// Invoices from before tenders were recorded settle whole; change handed back is a negative cash settlement.
+export const saleSettlements = (invoice: SaleInvoice): SaleSettlement[] => {
+    if (!invoice.payment) {
+        const kind: TenderKind = invoice.customerId ? 'credit' : (invoice.supplierIntermediaryId ? 'intermediary' : 'cash');
+        return [{ kind, currency: invoice.currency, amount: invoice.totalAmount, base: invoice.totalAmountAFN }];
+    }
+    const { tenders, change } = invoice.payment;
+    const settlements: SaleSettlement[] = tenders.map(t => ({ kind: t.kind, currency: t.currency, amount: t.amount, base: t.amountBase }));
+    if (change && change.amount > 0) settlements.push({ kind: 'cash', currency: change.currency, amount: -change.amount, base: -change.amountBase });
+    return settlements;
+};
+
+const settlementLine = (invoice: SaleInvoice, settlement: SaleSettlement, side: 'debit' | 'credit'): JournalLine => {
+    // A negative settlement (change) moves the other way
+    const flipped = settlement.base < 0 ? (side === 'debit' ? 'credit' : 'debit') : side;
+    const make = flipped === 'debit' ? debit : credit;
+    const base = Math.abs(settlement.base);
+    const amount = Math.abs(settlement.amount);
+    if (settlement.kind === 'credit' && invoice.customerId) return make(ACCOUNTS.RECEIVABLES, base, settlement.currency, amount, { type: 'customer', id: invoice.customerId });
+    if (settlement.kind === 'intermediary' && invoice.supplierIntermediaryId) return make(ACCOUNTS.PAYABLES, base, settlement.currency, amount, { type: 'supplier', id: invoice.supplierIntermediaryId });
+    // The return credits and the sale debits the same amount, so an exchange leaves nothing here
+    if (settlement.kind === 'exchange') return make(ACCOUNTS.CLEARING, base, settlement.currency, amount);
+    if (settlement.kind === 'voucher') return make(ACCOUNTS.STORE_CREDIT, base, settlement.currency, amount);
+    return make(cashAccountFor(settlement.currency), base, settlement.currency, amount);
+};
+
+const costOfItems = (invoice: SaleInvoice): number =>
+    invoice.items.reduce((s, item) => item.type === 'product' ? s + (item.purchasePrice || 0) * item.quantity : s, 0);
+
+// Tax collected on a sale is owed on, not earned
+export const journalForSale = (invoice: SaleInvoice, settings: StoreSettings): JournalEntry[] => {
+    const tax = invoiceTaxBase(invoice);
+    const base = invoice.totalAmountAFN - tax;
+    const cost = costOfItems(invoice);
+    const baseCurrency = settings.baseCurrency;
+    return [entry(invoice.timestamp, `فاکتور فروش #${invoice.id}`, [
+        ...saleSettlements(invoice).map(st => settlementLine(invoice, st, 'debit')),
+        credit(ACCOUNTS.SALES_REVENUE, base, invoice.currency, invoice.totalAmount - (invoice.totalTax || 0)),
+        credit(ACCOUNTS.TAX_PAYABLE, tax, invoice.currency, invoice.totalTax || 0),
+        debit(ACCOUNTS.COGS, cost, baseCurrency, cost),
+        credit(ACCOUNTS.INVENTORY, cost, baseCurrency, cost),
+    ], invoice.id, 'saleInvoice')];
+};
+
+export const journalForSaleReturn = (invoice: SaleInvoice, settings: StoreSettings): JournalEntry[] => {
+    const tax = invoiceTaxBase(invoice);
+    const base = invoice.totalAmountAFN - tax;
+    const cost = costOfItems(invoice);
+    const baseCurrency = settings.baseCurrency;
+    return [entry(invoice.timestamp, `مرجوعی فروش #${invoice.id}`, [
+        debit(ACCOUNTS.SALES_RETURNS, base, invoice.currency, invoice.totalAmount - (invoice.totalTax || 0)),
+        debit(ACCOUNTS.TAX_PAYABLE, tax, invoice.currency, invoice.totalTax || 0),
+        ...saleSettlements(invoice).map(st => settlementLine(invoice, st, 'credit')),
+        debit(ACCOUNTS.INVENTORY, cost, baseCurrency, cost),
+        credit(ACCOUNTS.COGS, cost, baseCurrency, cost),
+    ], invoice.id, 'saleInvoice')];
+};
+
+// Undoes a sale by posting its entries again with every line on the other side; the originals stay on the books
+export const journalForSaleVoid = (invoice: SaleInvoice, posted: JournalEntry[], date: string): JournalEntry[] =>
+    posted.map(e => entry(date, `ابطال فاکتور فروش #${invoice.id}`, e.lines.map(l => ({ ...l, debit: l.credit, credit: l.debit, currencyAmount: -l.currencyAmount })), invoice.id, 'saleInvoice'));
+
+export const journalForPurchase =(invoice: PurchaseInvoice, baseAmount: number, settings: StoreSettings): JournalEntry[] => {
+    const currency = invoice.currency || settings.baseCurrency;
+    const party = { type: 'supplier' as const, id: invoice.supplierId };
+    const taxBase = purchaseTaxBase(invoice, baseAmount);
+    const tax = invoice.taxAmount || 0;
+    const lines = invoice.type === 'return'
+        ? [debit(ACCOUNTS.PAYABLES, baseAmount, currency, invoice.totalAmount, party), credit(ACCOUNTS.INVENTORY, baseAmount - taxBase, currency, invoice.totalAmount - tax), credit(ACCOUNTS.INPUT_TAX, taxBase, currency, tax)]
+        : [debit(ACCOUNTS.INVENTORY, baseAmount - taxBase, currency, invoice.totalAmount - tax), debit(ACCOUNTS.INPUT_TAX, taxBase, currency, tax), credit(ACCOUNTS.PAYABLES, baseAmount, currency, invoice.totalAmount, party)];
+    return [entry(invoice.timestamp, `${invoice.type === 'return' ? 'مرجوعی خرید' : 'فاکتور خرید'} #${invoice.invoiceNumber || invoice.id}`, lines, invoice.id, 'purchaseInvoice')];
+};
+
+interface Movement {
+    id: string;
+    amount: number;
+    currency: Currency;
+    baseAmount: number;
+    date: string;
+    description: string;
+    isCash?: boolean;
+}
+
+const moneyAccount = (m: Movement) => m.isCash === false ? ACCOUNTS.CLEARING : cashAccountFor(m.currency);
+
+// Payment received from a customer or paid to a supplier
+export const journalForPartyPayment = (partyType: 'customer' | 'supplier', partyId: string, m: Movement): JournalEntry[] => {
+    const party = { type: partyType, id: partyId };
+    const lines = partyType === 'customer'
+        ? [debit(moneyAccount(m), m.baseAmount, m.currency, m.amount), credit(ACCOUNTS.RECEIVABLES, m.baseAmount, m.currency, m.amount, party)]
+        : [debit(ACCOUNTS.PAYABLES, m.baseAmount, m.currency, m.amount, party), credit(moneyAccount(m), m.baseAmount, m.currency, m.amount)];
+    return [entry(m.date, m.description, lines, m.id, partyType === 'customer' ? 'customerTransaction' : 'supplierTransaction')];
+};
+
+// `owedToUs` is true for a debtor customer or a supplier we have prepaid
+export const journalForOpeningBalance = (partyType: LedgerPartyType, partyId: string, owedToUs: boolean, m: Movement): JournalEntry[] => {
+    const party = { type: partyType, id: partyId };
+    const lines = owedToUs
+        ? [debit(PARTY_ACCOUNTS[partyType], m.baseAmount, m.currency, m.amount, party), credit(ACCOUNTS.OPENING_EQUITY, m.baseAmount, m.currency, m.amount)]
+        : [debit(ACCOUNTS.OPENING_EQUITY, m.baseAmount, m.currency, m.amount), credit(PARTY_ACCOUNTS[partyType], m.baseAmount, m.currency, m.amount, party)];
+    return [entry(m.date, m.description, lines, m.id, 'opening')];
+};
+
+export const journalForEmployeeAdvance = (employeeId: string, m: Movement): JournalEntry[] => [
+    entry(m.date, m.description, [
+        debit(ACCOUNTS.EMPLOYEE_ADVANCES, m.baseAmount, m.currency, m.amount, { type: 'employee', id: employeeId }),
+        credit(cashAccountFor(m.currency), m.baseAmount, m.currency, m.amount),
+    ], m.id, 'payroll')
+];
+
+// Salary settlement clears every advance of the employee and pays the rest in cash
+export const journalForPayroll = (employees: Employee[], netPayments: { employeeId: string; amount: number }[], date: string, refId: string, settings: StoreSettings): JournalEntry[] => {
+    const baseCurrency = settings.baseCurrency;
+    const lines: JournalLine[] = [];
+    let expenseBase = 0;
+    employees.forEach(e => {
+        // Clearing the advances is the opening split reversed
+        lines.push(...splitPartyBalance('employee', e.id, e, -1, settings));
+        expenseBase += e.balance || 0;
+        const paid = netPayments.find(p => p.employeeId === e.id)?.amount || 0;
+        if (paid > 0) {
+            lines.push(credit(cashAccountFor(baseCurrency), paid, baseCurrency, paid));
+            expenseBase += paid;
+        }
+    });
+    lines.push(debit(ACCOUNTS.SALARY_EXPENSE, expenseBase, baseCurrency, expenseBase));
+    return [entry(date, 'تسویه حقوق کارکنان', lines, refId, 'payroll')];
+};
+
+export const journalForDeposit = (holderId: string, type: 'deposit' | 'withdrawal', m: Movement): JournalEntry[] => {
+    const party = { type: 'depositHolder' as const, id: holderId };
+    const lines = type === 'deposit'
+        ? [debit(moneyAccount(m), m.baseAmount, m.currency, m.amount), credit(ACCOUNTS.DEPOSITS, m.baseAmount, m.currency, m.amount, party)]
+        : [debit(ACCOUNTS.DEPOSITS, m.baseAmount, m.currency, m.amount, party), credit(moneyAccount(m), m.baseAmount, m.currency, m.amount)];
+    return [entry(m.date, m.description, lines, m.id, 'deposit')];
+};
+
+export const journalForExpense = (expense: Expense, settings: StoreSettings): JournalEntry[] => {
+    const currency = expense.currency || settings.baseCurrency;
+    const base = expense.amountBase ?? toBaseAmount(expense.amount, currency, expense.exchangeRate, settings);
+    // Landed costs of a purchase are already spread over its batch prices, so they belong to inventory
+    const account = expense.relatedId ? ACCOUNTS.INVENTORY : (expense.category === 'salary' ? ACCOUNTS.SALARY_EXPENSE : ACCOUNTS.OPERATING_EXPENSES);
+    return [entry(expense.date, `هزینه: ${expense.description}`, [
+        debit(account, base, currency, expense.amount),
+        credit(cashAccountFor(currency), base, currency, expense.amount),
+    ], expense.id, 'expense')];
+};
+
+// Stored balances carry per-currency amounts but only one base total with no rates, so the whole base
+// value is placed on the first line and the other currencies ride along at zero base value
+const splitPartyBalance = (partyType: LedgerPartyType, partyId: string, entity: { balance: number; balanceAFN: number; balanceUSD: number; balanceIRT: number }, sign: 1 | -1, settings: StoreSettings): JournalLine[] => {
+    const byCurrency: [Currency, number][] = [['AFN', entity.balanceAFN || 0], ['USD', entity.balanceUSD || 0], ['IRT', entity.balanceIRT || 0]];
+    const nonZero = byCurrency.filter(([, amt]) => Math.abs(amt) > EPSILON);
+    if (nonZero.length === 0 && Math.abs(entity.balance || 0) > EPSILON) nonZero.push([settings.baseCurrency, entity.balance]);
+    return nonZero.map(([cur, amt], idx) => {
+        const base = idx === 0 ? sign * (entity.balance || 0) : 0;
+        return {
+            accountId: PARTY_ACCOUNTS[partyType], debit: Math.max(base, 0), credit: Math.max(-base, 0),
+            currency: cur, currencyAmount: sign * amt, partyType, partyId
+        };
+    });
+};
+
+// Moves party sub-ledgers by `diff` (in the party's natural sign) against the adjustments account
+export const journalForBalanceAdjustment = (adjustments: { partyType: LedgerPartyType; partyId: string; diff: BalanceSnapshot }[], date: string, settings: StoreSettings): JournalEntry[] => {
+    const lines: JournalLine[] = adjustments.flatMap(({ partyType, partyId, diff }) => {
+        const sign = PARTY_SIGN[partyType];
+        const byCurrency: [Currency, number][] = [['AFN', diff.AFN], ['USD', diff.USD], ['IRT', diff.IRT]];
+        const nonZero = byCurrency.filter(([, amt]) => Math.abs(amt) > EPSILON);
+        if (nonZero.length === 0) nonZero.push([settings.baseCurrency, 0]);
+        return nonZero.map(([cur, amt], idx) => {
+            const base = idx === 0 ? sign * diff.Total : 0;
+            return {
+                accountId: PARTY_ACCOUNTS[partyType], debit: Math.max(base, 0), credit: Math.max(-base, 0),
+                currency: cur, currencyAmount: sign * amt, partyType, partyId
+            };
+        });
+    });
+    if (lines.length === 0) return [];
+    const net = lines.reduce((s, l) => s + l.debit - l.credit, 0);
+    const baseCurrency = settings.baseCurrency;
+    lines.push(net >= 0 ? credit(ACCOUNTS.BALANCE_ADJUSTMENTS, net, baseCurrency, net) : debit(ACCOUNTS.BALANCE_ADJUSTMENTS, -net, baseCurrency, -net));
+    return [entry(date, 'ترمیم تراز حساب‌ها از روی تاریخچه معاملات', lines, undefined, 'adjustment')];
+};
+
+// Cash in hand as it was estimated before the journal existed: cash sales and collections minus payments and expenses
+export const estimateCashFromHistory = (data: { saleInvoices: SaleInvoice[]; customerTransactions: CustomerTransaction[]; supplierTransactions: SupplierTransaction[]; depositTransactions: DepositTransaction[]; expenses: Expense[] }, settings: StoreSettings): number => {
+    const cashInSales = data.saleInvoices.reduce((s, i) => {
+        const cash = saleSettlements(i).filter(st => st.kind === 'cash').reduce((sum, st) => sum + st.base, 0);
+        return i.type === 'sale' ? s + cash : s - cash;
+    }, 0);
+    const cashInCollections = data.customerTransactions.filter(t => t.type === 'payment' && t.isCash !== false).reduce((s, t) => s + toBaseAmount(t.amount, t.currency, t.exchangeRate, settings), 0);
+    const cashOutSuppliers = data.supplierTransactions.filter(t => t.type === 'payment' && t.isCash !== false).reduce((s, t) => s + toBaseAmount(t.amount, t.currency, t.exchangeRate, settings), 0);
+    const cashOutExpenses = data.expenses.reduce((s, e) => s + (e.amountBase || e.amount), 0);
+    const netDeposits = data.depositTransactions.filter(t => t.isCash !== false).reduce((s, t) => {
+        const base = toBaseAmount(t.amount, t.currency, t.exchangeRate, settings);
+        return t.type === 'deposit' ? s + base : s - base;
+    }, 0);
+    return cashInSales + cashInCollections + netDeposits - cashOutSuppliers - cashOutExpenses;
+};
+
+// Opening entry for shops that already had balances before the journal existed. Cash is posted in the
+// base currency from the historical estimate since per-currency drawer history was never recorded.
+export const buildOpeningEntries = (data: { customers: Customer[]; suppliers: Supplier[]; employees: Employee[]; depositHolders: DepositHolder[]; products: Product[]; cashInHand: number }, settings: StoreSettings): JournalEntry[] => {
+    const baseCurrency = settings.baseCurrency;
+    const lines: JournalLine[] = [
+        ...data.customers.flatMap(c => splitPartyBalance('customer', c.id, c, PARTY_SIGN.customer, settings)),
+        ...data.suppliers.flatMap(s => splitPartyBalance('supplier', s.id, s, PARTY_SIGN.supplier, settings)),
+        ...data.employees.flatMap(e => splitPartyBalance('employee', e.id, e, PARTY_SIGN.employee, settings)),
+        ...data.depositHolders.flatMap(h => splitPartyBalance('depositHolder', h.id, h, PARTY_SIGN.depositHolder, settings)),
+    ];
+    const inventoryValue = data.products.reduce((sum, p) => sum + p.batches.reduce((s, b) => s + b.stock * b.purchasePrice, 0), 0);
+    if (inventoryValue > 0) lines.push(debit(ACCOUNTS.INVENTORY, inventoryValue, baseCurrency, inventoryValue));
+    if (data.cashInHand > 0) lines.push(debit(cashAccountFor(baseCurrency), data.cashInHand, baseCurrency, data.cashInHand));
+    else if (data.cashInHand < 0) lines.push(credit(cashAccountFor(baseCurrency), -data.cashInHand, baseCurrency, -data.cashInHand));
+
+    if (lines.length === 0) return [];
+    const net = lines.reduce((s, l) => s + l.debit - l.credit, 0);
+    lines.push(net >= 0 ? credit(ACCOUNTS.OPENING_EQUITY, net, baseCurrency, net) : debit(ACCOUNTS.OPENING_EQUITY, -net, baseCurrency, -net));
+    return [entry(new Date().toISOString(), 'تراز افتتاحیه دفتر کل', lines, 'opening', 'opening')];
+};
+
+// --- Derived views ---
+
+export const deriveAccountBalances = (entries: JournalEntry[]): Map<string, number> => {
+    const balances = new Map<string, number>();
+    entries.forEach(e => e.lines.forEach(l => balances.set(l.accountId, (balances.get(l.accountId) || 0) + l.debit - l.credit)));
+    return balances;
+};
+
+// Adds entries into running totals per account, party and currency. The journal from a date on, plus one
+// entry holding the totals of everything before that date, derives the same balances as the whole journal.
+export const sumJournalLines = (entries: JournalEntry[], totals = new Map<string, JournalLine>()): Map<string, JournalLine> => {
+    entries.forEach(e => e.lines.forEach(l => {
+        const key = [l.accountId, l.partyType, l.partyId, l.currency].join('|');
+        const total = totals.get(key);
+        if (!total) totals.set(key, { ...l });
+        else Object.assign(total, { debit: total.debit + l.debit, credit: total.credit + l.credit, currencyAmount: total.currencyAmount + l.currencyAmount });
+    }));
+    return totals;
+};
+
+// Never stored: it has no refId, so writes that replace a document's lines leave it alone
+export const carriedForwardEntry = (totals: Map<string, JournalLine>, date: string): JournalEntry =>
+    ({ id: 'carried-forward', date, description: 'نقل از دوره قبل', lines: [...totals.values()] });
+
+export interface PartyBalances { AFN: number; USD: number; IRT: number; Total: number; }
+
+// What a document moves a party's balances by: the amount in its own currency and what it is worth in the base currency
+export const balanceChange = (currency: 'AFN' | 'USD' | 'IRT', amount: number, base: number): PartyBalances => {
+    const change = { AFN: 0, USD: 0, IRT: 0, Total: base };
+    change[currency] += amount;
+    return change;
+};
+
+export const partyKey = (partyType: LedgerPartyType, partyId: string) => `${partyType}:${partyId}`;
+
+export const derivePartyBalances = (entries: JournalEntry[]): Map<string, PartyBalances> => {
+    const balances = new Map<string, PartyBalances>();
+    entries.forEach(e => e.lines.forEach(l => {
+        if (!l.partyType || !l.partyId) return;
+        const key = partyKey(l.partyType, l.partyId);
+        const sign = PARTY_SIGN[l.partyType];
+        const current = balances.get(key) || { AFN: 0, USD: 0, IRT: 0, Total: 0 };
+        current[l.currency] += sign * l.currencyAmount;
+        current.Total += sign * (l.debit - l.credit);
+        balances.set(key, current);
+    }));
+    return balances;
+};
+
+// Entities keep their stored balances until the journal has lines for them
+export const applyLedgerBalances = <T extends { id: string; balance: number; balanceAFN: number; balanceUSD: number; balanceIRT: number }>(entities: T[], partyType: LedgerPartyType, balances: Map<string, PartyBalances>): T[] => {
+    return entities.map(entity => {
+        const derived = balances.get(partyKey(partyType, entity.id));
+        if (!derived) return entity;
+        return { ...entity, balance: derived.Total, balanceAFN: derived.AFN, balanceUSD: derived.USD, balanceIRT: derived.IRT };
+    });
+};
+
+export const computeFinancialPosition = (entries: JournalEntry[]) => {
+    const accounts = deriveAccountBalances(entries);
+    const parties = derivePartyBalances(entries);
+    const account = (id: string) => accounts.get(id) || 0;
+
+    const sumParties = (type: LedgerPartyType, predicate: (total: number) => boolean) =>
+        Array.from(parties.entries()).filter(([key, b]) => key.startsWith(`${type}:`) && predicate(b.Total)).reduce((s, [, b]) => s + Math.abs(b.Total), 0);
+
+    const cashByCurrency = { AFN: account(ACCOUNTS.CASH_AFN), USD: account(ACCOUNTS.CASH_USD), IRT: account(ACCOUNTS.CASH_IRT) };
+    const cashInHand = cashByCurrency.AFN + cashByCurrency.USD + cashByCurrency.IRT + account(ACCOUNTS.CLEARING);
+
+    return {
+        cashInHand,
+        cashByCurrency,
+        inventoryValue: account(ACCOUNTS.INVENTORY),
+        customerReceivables: sumParties('customer', t => t > 0),
+        customerCredits: sumParties('customer', t => t < 0),
+        supplierPayables: sumParties('supplier', t => t > 0),
+        supplierPrepayments: sumParties('supplier', t => t < 0),
+        employeeAdvances: Math.max(0, account(ACCOUNTS.EMPLOYEE_ADVANCES)),
+        netDepositAsset: sumParties('depositHolder', t => t < 0),
+        netDepositLiability: sumParties('depositHolder', t => t > 0),
+        netTaxPayable: -account(ACCOUNTS.TAX_PAYABLE) - account(ACCOUNTS.INPUT_TAX), // Negative when purchase tax exceeds sales tax
+        revenue: -(account(ACCOUNTS.SALES_REVENUE) + account(ACCOUNTS.SALES_RETURNS)),
+        cogs: account(ACCOUNTS.COGS),
+        expenses: account(ACCOUNTS.OPERATING_EXPENSES) + account(ACCOUNTS.SALARY_EXPENSE),
+    };
+};
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { MIGRATIONS, LATEST_VERSION, openMigratedDatabase, migrateBackup } from './migrations';
+import { STORES, MIGRATIONS_STORE, OUTBOX_STORE, SYNC_STATE_STORE, AUDIT_STORE } from './stores';
+
+const DB_NAME = 'fixture';
+const OLD_VERSIONS = MIGRATIONS.map(m => m.version).filter(v => v < LATEST_VERSION);
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+const readAll = (db: IDBDatabase, storeName: string) => request(db.transaction(storeName).objectStore(storeName).getAll());
+
+// What version 5 shipped before migrations existed: every store created in a single onupgradeneeded
+const openReleasedV5 = (factory: IDBFactory) => new Promise<IDBDatabase>((resolve, reject) => {
+    const req = factory.open(DB_NAME, 5);
+    req.onupgradeneeded = () => [
+        'salesMemos', 'products', 'sale_invoices', 'purchase_invoices', 'in_transit_invoices', 'customers', 'suppliers',
+        'employees', 'expenses', 'services', 'customer_transactions', 'supplier_transactions', 'payroll_transactions',
+        'deposit_holders', 'deposit_transactions', 'activity_logs', 'store_settings', 'users', 'roles',
+    ].forEach(name => req.result.createObjectStore(name, { keyPath: 'id', autoIncrement: name === 'salesMemos' }));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+// Records in the shape the given version wrote them
+const fixtureRecords = (version: number): Record<string, unknown[]> => {
+    const batches = [{ id: 'b1', lotNumber: 'L1', stock: 4, purchasePrice: 60, purchaseDate: '2023-05-01T00:00:00.000Z' }, { id: 'b2', lotNumber: 'L2', stock: 1, purchasePrice: 70, purchaseDate: '2023-06-01T00:00:00.000Z' }];
+    const product = { id: 'p1', name: 'کتاب', salePrice: 100, batches, ...(version >= 7 ? { batchIds: ['b1', 'b2'] } : {}) };
+    const balances = (amount: number) => version >= 8 ? { balance: amount, balanceAFN: amount, balanceUSD: 0, balanceIRT: 0 } : { balance: amount };
+    return {
+        [STORES.PRODUCTS]: [product],
+        [STORES.CUSTOMERS]: [{ id: 'c1', name: 'احمد', phone: '', creditLimit: 0, ...balances(250) }],
+        [STORES.SUPPLIERS]: [{ id: 's1', name: 'نشر', contactPerson: '', phone: '', ...balances(-40) }],
+        [STORES.SALE_INVOICES]: [{ id: 'inv-1', type: 'sale', items: [], subtotal: 100, totalAmount: 100, totalDiscount: 0, timestamp: '2023-06-02T10:00:00.000Z', cashier: 'admin' }],
+        [STORES.ROLES]: [{ id: 'admin-role', name: 'Admin', permissions: ['page:dashboard', 'pos:create_invoice'] }, { id: 'cashier', name: 'صندوقدار', permissions: ['page:pos'] }],
+    };
+};
+
+const openFixture = async (factory: IDBFactory, version: number) => {
+    const db = version === 5 ? await openReleasedV5(factory) : await openMigratedDatabase(factory, DB_NAME, MIGRATIONS.filter(m => m.version <= version));
+    const records = fixtureRecords(version);
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(Object.keys(records), 'readwrite');
+        Object.entries(records).forEach(([storeName, items]) => items.forEach(item => tx.objectStore(storeName).put(item)));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+};
+
+const EXPECTED_INDEXES: Record<string, string[]> = {
+    [STORES.PRODUCTS]: ['batchIds'],
+    [STORES.SALE_INVOICES]: ['customerId', 'originalInvoiceId', 'shiftId', 'timestamp'],
+    [STORES.PURCHASE_INVOICES]: ['supplierId', 'timestamp'],
+    [STORES.CUSTOMER_TX]: ['customerId', 'date', 'invoiceId', 'shiftId'],
+    [STORES.EXPENSES]: ['date', 'relatedId', 'shiftId'],
+    [STORES.JOURNAL]: ['date', 'refId'],
+    [STORES.SHIFTS]: ['openedAt'],
+    [AUDIT_STORE]: ['entityId', 'timestamp'],
+};
+
+describe.each(OLD_VERSIONS)('upgrading a version %i database', (version) => {
+    it('reaches the latest schema with every store and index', async () => {
+        const factory = new IDBFactory();
+        await openFixture(factory, version);
+
+        const db = await openMigratedDatabase(factory, DB_NAME);
+
+        expect(db.version).toBe(LATEST_VERSION);
+        const storeNames = [...db.objectStoreNames];
+        [...Object.values(STORES), MIGRATIONS_STORE, OUTBOX_STORE, SYNC_STATE_STORE, AUDIT_STORE].forEach(name => expect(storeNames).toContain(name));
+        const tx = db.transaction(Object.keys(EXPECTED_INDEXES));
+        Object.entries(EXPECTED_INDEXES).forEach(([storeName, indexes]) => expect([...tx.objectStore(storeName).indexNames].sort()).toEqual(indexes));
+        expect(tx.objectStore(STORES.PRODUCTS).index('batchIds').multiEntry).toBe(true);
+        db.close();
+    });
+
+    it('rewrites the records to their current shape and logs the steps it ran', async () => {
+        const factory = new IDBFactory();
+        await openFixture(factory, version);
+
+        const db = await openMigratedDatabase(factory, DB_NAME);
+
+        const [product] = await readAll(db, STORES.PRODUCTS);
+        expect(product).toMatchObject({ id: 'p1', batchIds: ['b1', 'b2'] });
+        expect(await request(db.transaction(STORES.PRODUCTS).objectStore(STORES.PRODUCTS).index('batchIds').get('b2'))).toMatchObject({ id: 'p1' });
+        expect((await readAll(db, STORES.CUSTOMERS))[0]).toMatchObject({ balance: 250, balanceAFN: 250, balanceUSD: 0, balanceIRT: 0 });
+        expect((await readAll(db, STORES.SUPPLIERS))[0]).toMatchObject({ balance: -40, balanceAFN: -40, balanceUSD: 0, balanceIRT: 0 });
+        expect(await request(db.transaction(STORES.SALE_INVOICES).objectStore(STORES.SALE_INVOICES).index('timestamp').getAll())).toHaveLength(1);
+        const [admin, cashier] = await readAll(db, STORES.ROLES) as { permissions: string[] }[];
+        expect(admin.permissions).toEqual(expect.arrayContaining(['page:dashboard', 'pos:create_invoice', 'pos:void_invoice', 'settings:manage_devices', 'reports:view_audit']));
+        expect(cashier.permissions).toEqual(['page:pos']);
+
+        // The log came with version 8; a database that predates it only has the steps of this upgrade
+        const logged = (await readAll(db, MIGRATIONS_STORE) as { version: number }[]).map(m => m.version);
+        expect(logged).toEqual(MIGRATIONS.map(m => m.version).filter(v => version >= 8 || v > version));
+        db.close();
+    });
+});
+
+describe('migrateBackup', () => {
+    const legacyBackup = () => ({
+        products: [{ id: 'p1', name: 'کتاب', salePrice: 100, batches: [{ id: 'b1', lotNumber: 'L1', stock: 2, purchasePrice: 60, purchaseDate: '2023-05-01' }] }],
+        customers: [{ id: 'c1', name: 'احمد', balance: 90 }],
+        depositHolders: [{ id: 'h1', name: 'امین', balance: 15 }],
+        storeSettings: { storeName: 'کتابستان' },
+    });
+
+    it('brings a backup without a schema version up to the latest shapes', () => {
+        const migrated = migrateBackup(legacyBackup());
+
+        expect(migrated.schemaVersion).toBe(LATEST_VERSION);
+        expect(migrated.products[0]).toHaveProperty('batchIds', ['b1']);
+        expect(migrated.customers[0]).toEqual({ id: 'c1', name: 'احمد', balance: 90, balanceAFN: 90, balanceUSD: 0, balanceIRT: 0 });
+        expect(migrated.depositHolders[0]).toMatchObject({ balanceAFN: 15 });
+        expect(migrated.storeSettings).toEqual({ storeName: 'کتابستان' });
+    });
+
+    it('only runs the steps newer than the backup', () => {
+        const backup = { ...legacyBackup(), schemaVersion: 8 };
+
+        const migrated = migrateBackup(backup);
+
+        expect(migrated.customers[0]).toEqual(backup.customers[0]);
+        expect(migrated.products[0]).not.toHaveProperty('batchIds');
+        expect(migrated.schemaVersion).toBe(LATEST_VERSION);
+    });
+
+    it('is idempotent', () => {
+        const once = migrateBackup(legacyBackup());
+        expect(migrateBackup({ ...once, schemaVersion: undefined })).toEqual(once);
+    });
+
+    it('leaves the input untouched', () => {
+        const backup = legacyBackup();
+        migrateBackup(backup);
+        expect(backup).toEqual(legacyBackup());
+    });
+});
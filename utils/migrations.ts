@@ -0,0 +1,271 @@
+import type { Product } from '../types';
+import { STORES, MIGRATIONS_STORE, OUTBOX_STORE, SYNC_STATE_STORE, AUDIT_STORE } from './stores';
+
+export interface MigrationStep {
+  version: number;
+  description: string;
+  // Structural changes (stores, indexes), run inside the versionchange transaction
+  upgrade?: (db: IDBDatabase, tx: IDBTransaction) => void;
+  // Per-record rewrites keyed by store name. Also applied to backup JSON, so they must be idempotent.
+  records?: Record<string, (record: any) => any>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  description: string;
+  appliedAt: string;
+}
+
+const ensureStore = (db: IDBDatabase, storeName: string, options: IDBObjectStoreParameters = { keyPath: 'id' }) => {
+  if (!db.objectStoreNames.contains(storeName)) db.createObjectStore(storeName, options);
+};
+
+const ensureIndexes = (tx: IDBTransaction, storeName: string, indexes: { name: string; keyPath: string; multiEntry?: boolean }[]) => {
+  const store = tx.objectStore(storeName);
+  indexes.forEach(index => {
+    if (!store.indexNames.contains(index.name)) store.createIndex(index.name, index.keyPath, { multiEntry: !!index.multiEntry });
+  });
+};
+
+// Products carry a flat copy of their batch ids so the multiEntry index can map a batch back to its product
+export const withDerivedFields = <T>(storeName: string, item: T): T => {
+  if (storeName !== STORES.PRODUCTS) return item;
+  const product = item as unknown as Product;
+  return { ...product, batchIds: (product.batches || []).map(b => b.id) } as unknown as T;
+};
+
+// Early records only had `balance` (in AFN); per-currency fields came later
+const splitLegacyBalance = (record: any) => {
+  if (record.balanceAFN !== undefined && record.balance !== undefined) return record;
+  return {
+    ...record,
+    balanceAFN: record.balanceAFN ?? record.balance ?? 0,
+    balanceUSD: record.balanceUSD ?? 0,
+    balanceIRT: record.balanceIRT ?? 0,
+    balance: record.balance ?? record.balanceAFN ?? 0,
+  };
+};
+
+// Permissions that came after the admin role was first stored, spelled out as they stood at version 19
+const V19_ADMIN_PERMISSIONS = Object.freeze([
+  'pos:approve_override', 'pos:manage_shift', 'pos:manage_quotations', 'pos:manage_sales_orders', 'pos:void_invoice', 'pos:return_without_invoice',
+  'settings:data_integrity', 'settings:manage_devices', 'settings:manage_price_lists', 'settings:manage_promotions',
+  'reports:view_audit',
+]);
+
+const grantAdminPermissions = (role: any) => {
+  if (role.id !== 'admin-role') return role;
+  const missing = V19_ADMIN_PERMISSIONS.filter(p => !role.permissions?.includes(p));
+  return missing.length > 0 ? { ...role, permissions: [...(role.permissions || []), ...missing] } : role;
+};
+
+// The stores as they were at version 5, spelled out so stores added later never leak into this step
+const V5_STORES = Object.freeze([
+  'salesMemos', 'products', 'sale_invoices', 'purchase_invoices', 'in_transit_invoices', 'customers', 'suppliers',
+  'employees', 'expenses', 'services', 'customer_transactions', 'supplier_transactions', 'payroll_transactions',
+  'deposit_holders', 'deposit_transactions', 'activity_logs', 'store_settings', 'users', 'roles',
+]);
+
+// Ordered by version. Never edit a released step; append a new one instead.
+export const MIGRATIONS: MigrationStep[] = [
+  {
+    version: 5,
+    description: 'Base stores including security deposits',
+    upgrade: (db) => {
+      V5_STORES.forEach(name => ensureStore(db, name, { keyPath: 'id', autoIncrement: name === 'salesMemos' }));
+    },
+  },
+  {
+    version: 6,
+    description: 'General journal store',
+    upgrade: (db) => ensureStore(db, STORES.JOURNAL),
+  },
+  {
+    version: 7,
+    description: 'Lookup indexes and product batch ids',
+    upgrade: (_db, tx) => {
+      ensureIndexes(tx, STORES.PRODUCTS, [{ name: 'batchIds', keyPath: 'batchIds', multiEntry: true }]);
+      ensureIndexes(tx, STORES.SALE_INVOICES, [{ name: 'timestamp', keyPath: 'timestamp' }, { name: 'customerId', keyPath: 'customerId' }]);
+      ensureIndexes(tx, STORES.PURCHASE_INVOICES, [{ name: 'timestamp', keyPath: 'timestamp' }, { name: 'supplierId', keyPath: 'supplierId' }]);
+      ensureIndexes(tx, STORES.IN_TRANSIT_INVOICES, [{ name: 'timestamp', keyPath: 'timestamp' }]);
+      ensureIndexes(tx, STORES.CUSTOMER_TX, [{ name: 'invoiceId', keyPath: 'invoiceId' }, { name: 'customerId', keyPath: 'customerId' }, { name: 'date', keyPath: 'date' }]);
+      ensureIndexes(tx, STORES.SUPPLIER_TX, [{ name: 'invoiceId', keyPath: 'invoiceId' }, { name: 'supplierId', keyPath: 'supplierId' }, { name: 'date', keyPath: 'date' }]);
+      ensureIndexes(tx, STORES.PAYROLL_TX, [{ name: 'employeeId', keyPath: 'employeeId' }, { name: 'date', keyPath: 'date' }]);
+      ensureIndexes(tx, STORES.DEPOSIT_TRANSACTIONS, [{ name: 'holderId', keyPath: 'holderId' }, { name: 'date', keyPath: 'date' }]);
+      ensureIndexes(tx, STORES.EXPENSES, [{ name: 'date', keyPath: 'date' }, { name: 'relatedId', keyPath: 'relatedId' }]);
+      ensureIndexes(tx, STORES.ACTIVITY, [{ name: 'timestamp', keyPath: 'timestamp' }]);
+      ensureIndexes(tx, STORES.JOURNAL, [{ name: 'refId', keyPath: 'refId' }, { name: 'date', keyPath: 'date' }]);
+    },
+    records: {
+      [STORES.PRODUCTS]: (product) => withDerivedFields(STORES.PRODUCTS, product),
+    },
+  },
+  {
+    version: 8,
+    description: 'Migration log and per-currency balances for legacy entities',
+    upgrade: (db) => ensureStore(db, MIGRATIONS_STORE, { keyPath: 'version' }),
+    records: {
+      [STORES.CUSTOMERS]: splitLegacyBalance,
+      [STORES.SUPPLIERS]: splitLegacyBalance,
+      [STORES.EMPLOYEES]: splitLegacyBalance,
+      [STORES.DEPOSIT_HOLDERS]: splitLegacyBalance,
+    },
+  },
+  {
+    version: 9,
+    description: 'Sync outbox and sync state',
+    upgrade: (db) => {
+      ensureStore(db, OUTBOX_STORE, { keyPath: 'localSeq', autoIncrement: true });
+      ensureStore(db, SYNC_STATE_STORE, { keyPath: 'key' });
+    },
+  },
+  {
+    version: 10,
+    description: 'Hash-chained audit log',
+    upgrade: (db, tx) => {
+      ensureStore(db, AUDIT_STORE);
+      ensureIndexes(tx, AUDIT_STORE, [{ name: 'timestamp', keyPath: 'timestamp' }, { name: 'entityId', keyPath: 'entityId' }]);
+    },
+  },
+  {
+    version: 11,
+    description: 'Parked carts',
+    upgrade: (db) => ensureStore(db, STORES.PARKED_CARTS),
+  },
+  {
+    version: 12,
+    description: 'Cashier shifts',
+    upgrade: (db, tx) => {
+      ensureStore(db, STORES.SHIFTS);
+      ensureIndexes(tx, STORES.SHIFTS, [{ name: 'openedAt', keyPath: 'openedAt' }]);
+      [STORES.SALE_INVOICES, STORES.CUSTOMER_TX, STORES.EXPENSES].forEach(name => ensureIndexes(tx, name, [{ name: 'shiftId', keyPath: 'shiftId' }]));
+    },
+  },
+  {
+    version: 13,
+    description: 'Price lists',
+    upgrade: (db) => ensureStore(db, STORES.PRICE_LISTS),
+  },
+  {
+    version: 14,
+    description: 'Promotions',
+    upgrade: (db) => ensureStore(db, STORES.PROMOTIONS),
+  },
+  {
+    version: 15,
+    description: 'Quotations',
+    upgrade: (db) => ensureStore(db, STORES.QUOTATIONS),
+  },
+  {
+    version: 16,
+    description: 'Sales orders',
+    upgrade: (db) => ensureStore(db, STORES.SALES_ORDERS),
+  },
+  {
+    version: 17,
+    description: 'Store credit vouchers',
+    upgrade: (db) => ensureStore(db, STORES.STORE_CREDIT_VOUCHERS),
+  },
+  {
+    version: 18,
+    description: 'Returns indexed by the sale they are against',
+    upgrade: (_db, tx) => ensureIndexes(tx, STORES.SALE_INVOICES, [{ name: 'originalInvoiceId', keyPath: 'originalInvoiceId' }]),
+  },
+  {
+    version: 19,
+    description: 'Admin role granted the permissions added since it was stored',
+    records: {
+      [STORES.ROLES]: grantAdminPermissions,
+    },
+  },
+];
+
+export const LATEST_VERSION = Math.max(...MIGRATIONS.map(m => m.version));
+
+const pendingSteps = (fromVersion: number, steps: MigrationStep[]) =>
+  steps.filter(m => m.version > fromVersion).sort((a, b) => a.version - b.version);
+
+// Chains every pending rewrite per store so each store is walked by a single cursor
+const composeRecordTransforms = (steps: MigrationStep[]): Map<string, (record: any) => any> => {
+  const composed = new Map<string, (record: any) => any>();
+  steps.forEach(step => Object.entries(step.records || {}).forEach(([storeName, transform]) => {
+    const previous = composed.get(storeName);
+    composed.set(storeName, previous ? (record) => transform(previous(record)) : transform);
+  }));
+  return composed;
+};
+
+// Runs inside `onupgradeneeded`. All requests belong to the versionchange transaction, so a failure
+// aborts the upgrade and leaves the database at its old version.
+export const runMigrations = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number, steps: MigrationStep[] = MIGRATIONS): void => {
+  const pending = pendingSteps(oldVersion, steps);
+  pending.forEach(step => step.upgrade?.(db, tx));
+
+  composeRecordTransforms(pending).forEach((transform, storeName) => {
+    if (!db.objectStoreNames.contains(storeName)) return;
+    const cursorRequest = tx.objectStore(storeName).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update(transform(cursor.value));
+      cursor.continue();
+    };
+  });
+
+  if (db.objectStoreNames.contains(MIGRATIONS_STORE)) {
+    const log = tx.objectStore(MIGRATIONS_STORE);
+    const appliedAt = new Date().toISOString();
+    pending.forEach(step => log.put({ version: step.version, description: step.description, appliedAt } as AppliedMigration));
+  }
+};
+
+// The IDBFactory is injectable so the steps can be exercised against a fake IndexedDB with fixture data
+export const openMigratedDatabase = (factory: IDBFactory, name: string, steps: MigrationStep[] = MIGRATIONS): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(name, Math.max(...steps.map(m => m.version)));
+    request.onerror = () => reject('Error opening local database');
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = (event) => runMigrations(request.result, request.transaction!, event.oldVersion, steps);
+  });
+};
+
+// --- Backup JSON ---
+
+// Backup files are AppState snapshots, keyed by state field rather than store name
+const BACKUP_KEYS: Record<string, string> = {
+  [STORES.PRODUCTS]: 'products',
+  [STORES.SALE_INVOICES]: 'saleInvoices',
+  [STORES.PURCHASE_INVOICES]: 'purchaseInvoices',
+  [STORES.IN_TRANSIT_INVOICES]: 'inTransitInvoices',
+  [STORES.CUSTOMERS]: 'customers',
+  [STORES.SUPPLIERS]: 'suppliers',
+  [STORES.EMPLOYEES]: 'employees',
+  [STORES.EXPENSES]: 'expenses',
+  [STORES.SERVICES]: 'services',
+  [STORES.CUSTOMER_TX]: 'customerTransactions',
+  [STORES.SUPPLIER_TX]: 'supplierTransactions',
+  [STORES.PAYROLL_TX]: 'payrollTransactions',
+  [STORES.DEPOSIT_HOLDERS]: 'depositHolders',
+  [STORES.DEPOSIT_TRANSACTIONS]: 'depositTransactions',
+  [STORES.ACTIVITY]: 'activities',
+  [STORES.USERS]: 'users',
+  [STORES.ROLES]: 'roles',
+  [STORES.JOURNAL]: 'journalEntries',
+  [STORES.SHIFTS]: 'shifts',
+  [STORES.PRICE_LISTS]: 'priceLists',
+  [STORES.PROMOTIONS]: 'promotions',
+  [STORES.QUOTATIONS]: 'quotations',
+  [STORES.SALES_ORDERS]: 'salesOrders',
+  [STORES.STORE_CREDIT_VOUCHERS]: 'storeCreditVouchers',
+};
+
+// Backups written before versioning carry no schemaVersion and get every rewrite (they are idempotent)
+export const migrateBackup = <T extends Record<string, any>>(data: T, steps: MigrationStep[] = MIGRATIONS): T & { schemaVersion: number } => {
+  const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  const migrated: Record<string, any> = { ...data };
+  composeRecordTransforms(pendingSteps(fromVersion, steps)).forEach((transform, storeName) => {
+    const key = BACKUP_KEYS[storeName];
+    if (key && Array.isArray(migrated[key])) migrated[key] = migrated[key].map(transform);
+  });
+  return { ...migrated, schemaVersion: Math.max(fromVersion, ...steps.map(m => m.version)) } as T & { schemaVersion: number };
+};
@@ -0,0 +1,87 @@
+// Staff passwords never leave the device in a recoverable form: only salted PBKDF2 hashes are stored,
+// exported in backups or synced. Stored as `pbkdf2-sha256$<iterations>$<salt>$<hash>` (base64 parts)
+// so the work factor can be raised later without invalidating existing hashes.
+
+const ALGORITHM = 'pbkdf2-sha256';
+const ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+    return new Uint8Array(bits);
+};
+
+// Compares every byte so the time taken does not reveal how much of the hash matched
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+    let diff = a.length ^ b.length;
+    for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+    return diff === 0;
+};
+
+export const isPasswordHash = (value: unknown): value is string => typeof value === 'string' && value.startsWith(`${ALGORITHM}$`);
+
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await derive(password, salt, ITERATIONS);
+    return [ALGORITHM, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string | undefined): Promise<boolean> => {
+    if (!isPasswordHash(stored)) return false;
+    const [, iterations, salt, hash] = stored.split('$');
+    try {
+        const candidate = await derive(password, fromBase64(salt), Number(iterations));
+        return constantTimeEqual(candidate, fromBase64(hash));
+    } catch (e) {
+        return false;
+    }
+};
+
+// --- Failed-attempt throttling ---
+// Kept per device and per typed username (known or not), so guessing is slowed without revealing which usernames exist.
+
+const ATTEMPTS_KEY = 'kasebyar_login_attempts';
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 5 * 60 * 1000;
+
+interface AttemptRecord {
+    failures: number;
+    lockedUntil: number | null;
+}
+
+const readAttempts = (): Record<string, AttemptRecord> => {
+    try { return JSON.parse(localStorage.getItem(ATTEMPTS_KEY) || '{}'); } catch (e) { return {}; }
+};
+
+const writeAttempts = (attempts: Record<string, AttemptRecord>) => localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+
+const attemptKey = (username: string) => username.trim().toLowerCase();
+
+// Milliseconds left on the username's lockout, 0 when it may try again
+export const getLockoutRemaining = (username: string, now = Date.now()): number => {
+    const record = readAttempts()[attemptKey(username)];
+    return record?.lockedUntil && record.lockedUntil > now ? record.lockedUntil - now : 0;
+};
+
+// Returns the attempts left before a lockout, 0 once the lockout has started
+export const recordFailedAttempt = (username: string, now = Date.now()): number => {
+    const attempts = readAttempts();
+    const key = attemptKey(username);
+    const previous = attempts[key];
+    const failures = (previous?.lockedUntil && previous.lockedUntil <= now ? 0 : previous?.failures || 0) + 1;
+    const locked = failures >= MAX_FAILED_ATTEMPTS;
+    attempts[key] = { failures: locked ? 0 : failures, lockedUntil: locked ? now + LOCKOUT_MS : null };
+    writeAttempts(attempts);
+    return locked ? 0 : MAX_FAILED_ATTEMPTS - failures;
+};
+
+export const clearFailedAttempts = (username: string) => {
+    const attempts = readAttempts();
+    delete attempts[attemptKey(username)];
+    writeAttempts(attempts);
+};
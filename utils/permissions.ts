@@ -1,3 +1,5 @@
+import type { RoleLimits, StoreSettings } from '../types';
+
 export const ALL_PERMISSIONS = [
     // Pages
     { id: 'page:dashboard', name: 'مشاهده داشبورد', group: 'صفحات' },
@@ -20,6 +22,12 @@ export const ALL_PERMISSIONS = [
     { id: 'pos:edit_invoice', name: 'ویرایش فاکتور فروش', group: 'فروش' },
     { id: 'pos:apply_discount', name: 'اعمال تخفیف', group: 'فروش' },
     { id: 'pos:create_credit_sale', name: 'فروش نسیه', group: 'فروش' },
+    { id: 'pos:approve_override', name: 'تأیید استثنا توسط مدیر شیفت', group: 'فروش' },
+    { id: 'pos:manage_shift', name: 'باز و بسته کردن شیفت صندوق', group: 'فروش' },
+    { id: 'pos:manage_quotations', name: 'صدور و حذف پیش‌فاکتور', group: 'فروش' },
+    { id: 'pos:manage_sales_orders', name: 'مدیریت سفارش‌های فروش و تحویل', group: 'فروش' },
+    { id: 'pos:void_invoice', name: 'ابطال فاکتور فروش', group: 'فروش' },
+    { id: 'pos:return_without_invoice', name: 'ثبت مرجوعی بدون فاکتور', group: 'فروش' },
     
     // Purchases
     { id: 'purchase:create_invoice', name: 'ثبت فاکتور خرید', group: 'خرید' },
@@ -41,8 +49,137 @@ export const ALL_PERMISSIONS = [
     { id: 'settings:manage_backup', name: 'پشتیبان‌گیری و بازیابی', group: 'تنظیمات' },
     { id: 'settings:manage_services', name: 'مدیریت خدمات', group: 'تنظیمات' },
     { id: 'settings:manage_alerts', name: 'مدیریت هشدارها', group: 'تنظیمات' },
+    { id: 'settings:data_integrity', name: 'بررسی و ترمیم سلامت داده‌ها', group: 'تنظیمات' },
+    { id: 'settings:manage_devices', name: 'مدیریت دستگاه‌های فروشگاه', group: 'تنظیمات' },
+    { id: 'settings:manage_price_lists', name: 'مدیریت لیست‌های قیمت', group: 'تنظیمات' },
+    { id: 'settings:manage_promotions', name: 'مدیریت طرح‌های تخفیف', group: 'تنظیمات' },
+
+    // Reports
+    { id: 'reports:view_audit', name: 'مشاهده گزارش ممیزی', group: 'گزارشات' },
 ];
 
+// The permission each AppContext mutation requires; with a list, any one of them is enough.
+// Extra conditions (a discount or a credit sale inside completeSale) are checked in the action itself.
+export const ACTION_PERMISSIONS = {
+    addUser: 'settings:manage_users',
+    updateUser: 'settings:manage_users',
+    deleteUser: 'settings:manage_users',
+    addRole: 'settings:manage_users',
+    updateRole: 'settings:manage_users',
+    deleteRole: 'settings:manage_users',
+    exportData: 'settings:manage_backup',
+    importData: 'settings:manage_backup',
+    syncNow: 'settings:manage_backup',
+    resyncFromCloud: 'settings:manage_backup',
+    restoreLegacyCloudBackup: 'settings:manage_backup',
+    setAutoSyncEnabled: 'settings:manage_backup',
+    checkDataIntegrity: 'settings:data_integrity',
+    repairBalancesFromHistory: 'settings:data_integrity',
+    getShopDevices: 'settings:manage_devices',
+    setDeviceStatus: 'settings:manage_devices',
+    renameDevice: 'settings:manage_devices',
+    getAuditLog: 'reports:view_audit',
+    verifyAuditLog: 'reports:view_audit',
+    // Any permission that covers a settings field lets the action run; each changed field is then checked on its own
+    updateSettings: ['settings:manage_store', 'settings:manage_alerts', 'settings:manage_users', 'accounting:manage_expenses'],
+    addService: 'settings:manage_services',
+    deleteService: 'settings:manage_services',
+    savePriceList: 'settings:manage_price_lists',
+    deletePriceList: 'settings:manage_price_lists',
+    savePromotion: 'settings:manage_promotions',
+    deletePromotion: 'settings:manage_promotions',
+
+    addProduct: 'inventory:add_product',
+    updateProduct: 'inventory:edit_product',
+    deleteProduct: 'inventory:delete_product',
+
+    addToCart: ['pos:create_invoice', 'pos:edit_invoice'],
+    updateCartItemQuantity: ['pos:create_invoice', 'pos:edit_invoice'],
+    updateCartItemFinalPrice: 'pos:apply_discount',
+    removeFromCart: ['pos:create_invoice', 'pos:edit_invoice'],
+    completeSale: ['pos:create_invoice', 'pos:edit_invoice'],
+    beginEditSale: 'pos:edit_invoice',
+    addSaleReturn: 'pos:create_invoice',
+    voidSale: 'pos:void_invoice',
+    addUnreferencedReturn: 'pos:return_without_invoice',
+    beginExchange: 'pos:create_invoice',
+    cancelExchange: 'pos:create_invoice',
+    setInvoiceTransientCustomer: 'pos:edit_invoice',
+    requestSupervisorApproval: ['pos:create_invoice', 'pos:edit_invoice'],
+    parkCart: 'pos:create_invoice',
+    resumeParkedCart: 'pos:create_invoice',
+    discardParkedCart: 'pos:create_invoice',
+    openShift: 'pos:manage_shift',
+    closeShift: 'pos:manage_shift',
+    getShiftSummary: ['pos:manage_shift', 'page:reports'],
+    setCartCustomer: ['pos:create_invoice', 'pos:edit_invoice'],
+    createQuotation: 'pos:manage_quotations',
+    deleteQuotation: 'pos:manage_quotations',
+    loadQuotation: 'pos:create_invoice',
+    detachCartQuotation: 'pos:create_invoice',
+    createSalesOrder: 'pos:manage_sales_orders',
+    addSalesOrderPrepayment: 'pos:manage_sales_orders',
+    deliverSalesOrder: 'pos:manage_sales_orders',
+    closeSalesOrder: 'pos:manage_sales_orders',
+
+    addPurchaseInvoice: 'purchase:create_invoice',
+    beginEditPurchase: 'purchase:edit_invoice',
+    updatePurchaseInvoice: 'purchase:edit_invoice',
+    addPurchaseReturn: 'purchase:create_invoice',
+
+    addInTransitInvoice: 'purchase:create_invoice',
+    updateInTransitInvoice: 'purchase:edit_invoice',
+    deleteInTransitInvoice: 'purchase:edit_invoice',
+    archiveInTransitInvoice: 'in_transit:confirm_receipt',
+    moveInTransitItems: 'in_transit:confirm_receipt',
+    addInTransitPayment: 'accounting:manage_suppliers',
+
+    addSupplier: 'accounting:manage_suppliers',
+    deleteSupplier: 'accounting:manage_suppliers',
+    addSupplierPayment: 'accounting:manage_suppliers',
+    addCustomer: 'accounting:manage_customers',
+    deleteCustomer: 'accounting:manage_customers',
+    addCustomerPayment: 'accounting:manage_customers',
+    addEmployee: 'accounting:manage_payroll',
+    addEmployeeAdvance: 'accounting:manage_payroll',
+    addEmployeeAdvanceToEmployee: 'accounting:manage_payroll',
+    processAndPaySalaries: 'accounting:manage_payroll',
+    addExpense: 'accounting:manage_expenses',
+    updateExpense: 'accounting:manage_expenses',
+    deleteExpense: 'accounting:manage_expenses',
+    addDepositHolder: 'accounting:manage_deposits',
+    deleteDepositHolder: 'accounting:manage_deposits',
+    processDepositTransaction: 'accounting:manage_deposits',
+} as const satisfies Record<string, string | readonly string[]>;
+
+export type GuardedAction = keyof typeof ACTION_PERMISSIONS;
+
+export const permissionsFor = (action: GuardedAction): readonly string[] => {
+    const required = ACTION_PERMISSIONS[action];
+    return typeof required === 'string' ? [required] : required;
+};
+
+// Settings fields saved from other tabs and the permission each needs; every other field needs settings:manage_store
+const SETTINGS_FIELD_PERMISSIONS: Partial<Record<keyof StoreSettings, string>> = {
+    lowStockThreshold: 'settings:manage_alerts',
+    expiryThresholdMonths: 'settings:manage_alerts',
+    idleLockMinutes: 'settings:manage_users',
+    expenseCategories: 'accounting:manage_expenses',
+};
+
+export const settingsFieldPermission = (field: keyof StoreSettings): string => SETTINGS_FIELD_PERMISSIONS[field] || 'settings:manage_store';
+
+// --- Role limits ---
+
+export const discountPercent = (listPrice: number, finalPrice: number) => listPrice > 0 ? ((listPrice - finalPrice) / listPrice) * 100 : 0;
+
+export const canViewCosts = (limits: RoleLimits) => limits.canViewCosts !== false;
+
+export const isWithinEditWindow = (timestamp: string, limits: RoleLimits, now = new Date()) => {
+    if (limits.editWindowDays === undefined) return true;
+    return now.getTime() - new Date(timestamp).getTime() <= limits.editWindowDays * 24 * 60 * 60 * 1000;
+};
+
 export const groupPermissions = (permissions: typeof ALL_PERMISSIONS) => {
     return permissions.reduce((acc, permission) => {
         (acc[permission.group] = acc[permission.group] || []).push(permission);
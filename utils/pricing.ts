@@ -0,0 +1,48 @@
+import type { PriceList, PriceListKind, CartItem, Product, Service } from '../types';
+
+// Special prices win over wholesale, and wholesale over retail
+const KIND_PRIORITY: Record<PriceListKind, number> = { special: 0, wholesale: 1, retail: 2 };
+
+export const PRICE_LIST_KIND_LABELS: Record<PriceListKind, string> = { retail: 'خرده‌فروشی', wholesale: 'عمده‌فروشی', special: 'قیمت ویژه' };
+
+// Validity dates are whole local days
+export const localDay = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const isWithinValidity = (range: { validFrom?: string; validTo?: string }, now = new Date()) => {
+    const today = localDay(now);
+    return (!range.validFrom || range.validFrom <= today) && (!range.validTo || range.validTo >= today);
+};
+
+export const isPriceListActive = (list: PriceList, now = new Date()) => isWithinValidity(list, now);
+
+// The active lists for a customer, most specific first. Within a kind the most recently started list wins.
+export const priceListsFor = (lists: PriceList[], customerId?: string, now = new Date()): PriceList[] =>
+    lists
+        .filter(l => isPriceListActive(l, now) && (l.kind === 'retail' || (!!customerId && l.customerIds.includes(customerId))))
+        .sort((a, b) => KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind] || (b.validFrom || '').localeCompare(a.validFrom || ''));
+
+// Whole packages go at the package price when the list has one; the rest at the unit price
+export const listUnitPrice = (lists: PriceList[], itemId: string, itemType: 'product' | 'service', quantity: number, itemsPerPackage = 1): { unitPrice: number; priceListId: string } | null => {
+    for (const list of lists) {
+        const entry = list.entries.find(e => e.itemId === itemId && e.itemType === itemType);
+        if (!entry) continue;
+        const packages = entry.packagePrice !== undefined && itemsPerPackage > 1 ? Math.floor(quantity / itemsPerPackage) : 0;
+        if (packages === 0) return { unitPrice: entry.unitPrice, priceListId: list.id };
+        const looseUnits = quantity - packages * itemsPerPackage;
+        return { unitPrice: (packages * entry.packagePrice! + looseUnits * entry.unitPrice) / quantity, priceListId: list.id };
+    }
+    return null;
+};
+
+// Sets a cart line's list price (salePrice, or price for services) from the lists, falling back to the item's own price.
+// A price typed in at the till (finalPrice) is left alone.
+export const priceCartLine = (item: CartItem, lists: PriceList[], products: Product[], services: Service[]): CartItem => {
+    if (item.type === 'product') {
+        const product = products.find(p => p.id === item.id);
+        const listed = listUnitPrice(lists, item.id, 'product', item.quantity, product?.itemsPerPackage || item.itemsPerPackage);
+        return { ...item, salePrice: listed ? listed.unitPrice : (product?.salePrice ?? item.salePrice), priceListId: listed?.priceListId };
+    }
+    const service = services.find(s => s.id === item.id);
+    const listed = listUnitPrice(lists, item.id, 'service', item.quantity);
+    return { ...item, price: listed ? listed.unitPrice : (service?.price ?? item.price), priceListId: listed?.priceListId };
+};
@@ -0,0 +1,77 @@
+import type { Promotion, PromotionKind, AppliedPromotion, CartItem, InvoiceItem, Product } from '../types';
+import { isWithinValidity } from './pricing';
+
+type ProductLine = InvoiceItem & { type: 'product' };
+
+export const PROMOTION_KIND_LABELS: Record<PromotionKind, string> = { percent_off: 'تخفیف درصدی', buy_x_get_y: 'بخر و هدیه بگیر', bundle: 'بسته ترکیبی' };
+
+// Bundles first, then free items, then percentages: the narrower rule gets first claim on a line
+const KIND_ORDER: Record<PromotionKind, number> = { bundle: 0, buy_x_get_y: 1, percent_off: 2 };
+
+export const isPromotionActive = (promotion: Promotion, customerId?: string, now = new Date()) =>
+    promotion.active && isWithinValidity(promotion, now) && (promotion.customerIds.length === 0 || (!!customerId && promotion.customerIds.includes(customerId)));
+
+const unitPriceOf = (line: ProductLine) => line.finalPrice ?? line.salePrice;
+
+export const lineTotalBase = (item: CartItem) =>
+    item.type === 'product' ? unitPriceOf(item) * item.quantity - (item.promotionDiscount || 0) : item.price * item.quantity;
+
+const inScope = (promotion: Promotion, line: ProductLine, products: Product[]) => {
+    if (promotion.productIds.length === 0 && promotion.manufacturers.length === 0) return true;
+    const manufacturer = products.find(p => p.id === line.id)?.manufacturer ?? line.manufacturer;
+    return promotion.productIds.includes(line.id) || (!!manufacturer && promotion.manufacturers.includes(manufacturer));
+};
+
+// Works out which promotions the cart qualifies for and spreads each one's discount over the lines it used.
+// A line takes part in one promotion at most, so discounts never stack.
+export const applyPromotions = (cart: CartItem[], promotions: Promotion[], products: Product[], customerId?: string, now = new Date()): { cart: CartItem[]; applied: AppliedPromotion[] } => {
+    const discounts = new Map<string, number>();
+    const claimed = new Set<string>();
+    const applied: AppliedPromotion[] = [];
+    const lines = cart.filter((i): i is ProductLine => i.type === 'product');
+
+    [...promotions]
+        .filter(p => isPromotionActive(p, customerId, now))
+        .sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind])
+        .forEach(promotion => {
+            const open = lines.filter(l => !claimed.has(l.id));
+            const shares: { line: ProductLine; discount: number }[] = [];
+            let times = 0;
+
+            if (promotion.kind === 'bundle') {
+                const items = (promotion.bundleItems || []).filter(b => b.quantity > 0);
+                const members = items.map(b => ({ ...b, line: open.find(l => l.id === b.productId) }));
+                if (items.length === 0 || members.some(m => !m.line)) return;
+                times = Math.min(...members.map(m => Math.floor(m.line!.quantity / m.quantity)));
+                const setValue = members.reduce((sum, m) => sum + unitPriceOf(m.line!) * m.quantity, 0);
+                const perSet = setValue - (promotion.bundlePrice || 0);
+                if (times === 0 || perSet <= 0) return;
+                members.forEach(m => shares.push({ line: m.line!, discount: times * perSet * (unitPriceOf(m.line!) * m.quantity) / setValue }));
+            } else {
+                open.filter(l => inScope(promotion, l, products)).forEach(line => {
+                    if (promotion.kind === 'percent_off') {
+                        const percent = Math.min(Math.max(promotion.percentOff || 0, 0), 100);
+                        if (percent === 0) return;
+                        times += line.quantity;
+                        shares.push({ line, discount: unitPriceOf(line) * line.quantity * percent / 100 });
+                    } else {
+                        const buy = promotion.buyQuantity || 0, get = promotion.freeQuantity || 0;
+                        const rounds = buy > 0 && get > 0 ? Math.floor(line.quantity / (buy + get)) : 0;
+                        if (rounds === 0) return;
+                        times += rounds;
+                        shares.push({ line, discount: rounds * get * unitPriceOf(line) });
+                    }
+                });
+            }
+
+            const discount = shares.reduce((sum, s) => sum + s.discount, 0);
+            if (discount <= 0) return;
+            shares.forEach(s => { claimed.add(s.line.id); discounts.set(s.line.id, s.discount); });
+            applied.push({ promotionId: promotion.id, name: promotion.name, times, discount });
+        });
+
+    return {
+        cart: cart.map(i => i.type === 'product' ? { ...i, promotionDiscount: discounts.get(i.id) } : i),
+        applied,
+    };
+};
@@ -0,0 +1,64 @@
+import type { Shift, SaleInvoice, CustomerTransaction, Expense, CurrencyAmounts, StoreSettings } from '../types';
+import { saleSettlements } from './ledger';
+
+type Currency = 'AFN' | 'USD' | 'IRT';
+
+export const CURRENCIES: Currency[] = ['AFN', 'USD', 'IRT'];
+
+export const emptyAmounts = (): CurrencyAmounts => ({ AFN: 0, USD: 0, IRT: 0 });
+
+const add = (a: CurrencyAmounts, b: CurrencyAmounts, factor = 1): CurrencyAmounts =>
+    ({ AFN: a.AFN + factor * b.AFN, USD: a.USD + factor * b.USD, IRT: a.IRT + factor * b.IRT });
+
+// The records rung up against one shift
+export interface ShiftMovements {
+    saleInvoices: SaleInvoice[];
+    customerTransactions: CustomerTransaction[];
+    expenses: Expense[];
+}
+
+// Cash columns are per currency, as counted in the drawer; the rest are in the base currency
+export interface ShiftSummary {
+    cashSales: CurrencyAmounts;   // Cash tenders less change handed back
+    cashRefunds: CurrencyAmounts; // Returns paid out of the drawer
+    collections: CurrencyAmounts; // Customer payments taken in cash
+    cashExpenses: CurrencyAmounts;
+    expected: CurrencyAmounts;    // Opening float plus everything above
+    salesCount: number;
+    returnsCount: number;
+    grossSales: number;
+    returns: number;
+    creditSales: number;
+    intermediarySales: number;
+}
+
+export const summarizeShift = (shift: Shift, movements: ShiftMovements, settings: StoreSettings): ShiftSummary => {
+    const summary: ShiftSummary = {
+        cashSales: emptyAmounts(), cashRefunds: emptyAmounts(), collections: emptyAmounts(), cashExpenses: emptyAmounts(), expected: emptyAmounts(),
+        salesCount: 0, returnsCount: 0, grossSales: 0, returns: 0, creditSales: 0, intermediarySales: 0,
+    };
+
+    // A voided sale handed back everything it took in, so it counts for nothing
+    movements.saleInvoices.filter(inv => !inv.voided).forEach(inv => {
+        const isSale = inv.type === 'sale';
+        if (isSale) { summary.salesCount++; summary.grossSales += inv.totalAmountAFN; }
+        else { summary.returnsCount++; summary.returns += inv.totalAmountAFN; }
+        saleSettlements(inv).forEach(st => {
+            if (st.kind === 'cash') (isSale ? summary.cashSales : summary.cashRefunds)[st.currency] += st.amount;
+            else if (isSale && st.kind === 'credit') summary.creditSales += st.base;
+            else if (isSale && st.kind === 'intermediary') summary.intermediarySales += st.base;
+        });
+    });
+    movements.customerTransactions.filter(t => t.type === 'payment' && t.isCash !== false).forEach(t => {
+        summary.collections[t.currency || settings.baseCurrency] += t.amount;
+    });
+    movements.expenses.forEach(e => { summary.cashExpenses[e.currency || settings.baseCurrency] += e.amount; });
+
+    summary.expected = add(add(add(add(shift.openingFloat, summary.cashSales), summary.collections), summary.cashRefunds, -1), summary.cashExpenses, -1);
+    return summary;
+};
+
+// Counted less expected: positive is a surplus in the drawer, negative a shortage
+export const shiftVariance = (shift: Shift): CurrencyAmounts | null =>
+    shift.countedCash && shift.expectedCash ? add(shift.countedCash, shift.expectedCash, -1) : null;
+
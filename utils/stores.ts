@@ -0,0 +1,50 @@
+// Object store names of the local database. Kept apart from db.ts so migration steps can refer to them.
+export const STORES = {
+  SALES_MEMOS: 'salesMemos',
+  PRODUCTS: 'products',
+  SALE_INVOICES: 'sale_invoices',
+  PURCHASE_INVOICES: 'purchase_invoices',
+  IN_TRANSIT_INVOICES: 'in_transit_invoices',
+  CUSTOMERS: 'customers',
+  SUPPLIERS: 'suppliers',
+  EMPLOYEES: 'employees',
+  EXPENSES: 'expenses',
+  SERVICES: 'services',
+  CUSTOMER_TX: 'customer_transactions',
+  SUPPLIER_TX: 'supplier_transactions',
+  PAYROLL_TX: 'payroll_transactions',
+  DEPOSIT_HOLDERS: 'deposit_holders',
+  DEPOSIT_TRANSACTIONS: 'deposit_transactions',
+  ACTIVITY: 'activity_logs',
+  SETTINGS: 'store_settings',
+  USERS: 'users',
+  ROLES: 'roles',
+  JOURNAL: 'journal_entries',
+  PARKED_CARTS: 'parked_carts',
+  SHIFTS: 'shifts',
+  PRICE_LISTS: 'price_lists',
+  PROMOTIONS: 'promotions',
+  QUOTATIONS: 'quotations',
+  SALES_ORDERS: 'sales_orders',
+  STORE_CREDIT_VOUCHERS: 'store_credit_vouchers'
+};
+
+// Bookkeeping store for applied migrations; deliberately outside STORES so backup restores never clear it
+export const MIGRATIONS_STORE = '_migrations';
+
+// Local sync bookkeeping: pending writes, and the pull cursor plus last known version of each record
+export const OUTBOX_STORE = '_outbox';
+export const SYNC_STATE_STORE = '_sync_state';
+
+// Tamper-evident change history; also outside STORES, so restoring a backup can never wipe it
+export const AUDIT_STORE = 'audit_log';
+
+// Memo photos stay on the device that took them
+export const SYNCED_STORES: string[] = [...Object.values(STORES).filter(name => name !== STORES.SALES_MEMOS), AUDIT_STORE];
+
+// Fields of synced records that never leave the device; a PIN only unlocks the counter it was set on
+export const DEVICE_LOCAL_FIELDS: Record<string, string[]> = { [STORES.USERS]: ['pinHash'] };
+
+// Stores whose writes land in the audit log. Activity notes only describe audited writes,
+// journal lines are derived from audited documents and parked carts are drafts, so none of them is logged.
+export const AUDITED_STORES: string[] = Object.values(STORES).filter(name => ![STORES.SALES_MEMOS, STORES.ACTIVITY, STORES.JOURNAL, STORES.PARKED_CARTS].includes(name));
@@ -0,0 +1,35 @@
+import type { CartItem, Product, Service, StoreSettings, SaleInvoice, PurchaseInvoice } from '../types';
+import { lineTotalBase } from './promotions';
+
+export const taxRateOf = (item: CartItem, products: Product[], services: Service[], settings: StoreSettings): number => {
+    const classId = item.type === 'product' ? products.find(p => p.id === item.id)?.taxClassId : services.find(s => s.id === item.id)?.taxClassId;
+    return settings.taxClasses?.find(c => c.id === classId)?.rate || 0;
+};
+
+// Tax charged on an amount: carved out of it when prices include tax, added on top otherwise
+export const taxOn = (amount: number, rate: number, inclusive: boolean) =>
+    rate <= 0 ? 0 : (inclusive ? amount * rate / (100 + rate) : amount * rate / 100);
+
+// Taxes each line on what is left of it after promotions
+export const applyTax = (cart: CartItem[], products: Product[], services: Service[], settings: StoreSettings): CartItem[] =>
+    cart.map(item => {
+        const rate = taxRateOf(item, products, services, settings);
+        return { ...item, taxRate: rate > 0 ? rate : undefined, taxAmount: rate > 0 ? taxOn(lineTotalBase(item), rate, !!settings.pricesIncludeTax) : undefined };
+    });
+
+// In the base currency: the lines after promotions, the tax on them and what the customer pays
+export const cartTotals = (cart: CartItem[], pricesIncludeTax?: boolean) => {
+    const lines = cart.reduce((sum, i) => sum + lineTotalBase(i), 0);
+    const tax = cart.reduce((sum, i) => sum + (i.taxAmount || 0), 0);
+    return { lines, tax, total: pricesIncludeTax ? lines : lines + tax };
+};
+
+// A line's value without its tax, in the base currency
+export const taxableBase = (item: CartItem, pricesIncludeTax?: boolean) =>
+    lineTotalBase(item) - (pricesIncludeTax ? item.taxAmount || 0 : 0);
+
+export const invoiceTaxBase = (invoice: SaleInvoice) => invoice.items.reduce((sum, i) => sum + (i.taxAmount || 0), 0);
+
+// Purchase tax is entered in the invoice currency; this is its share of the invoice's base amount
+export const purchaseTaxBase = (invoice: PurchaseInvoice, baseAmount: number) =>
+    invoice.taxAmount && invoice.totalAmount ? baseAmount * invoice.taxAmount / invoice.totalAmount : 0;
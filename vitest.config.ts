@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so tests run without the PWA build plugins.
+// fake-indexeddb stands in for the browser's IndexedDB; each test file opens its own databases.
+export default defineConfig({
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['fake-indexeddb/auto'],
+  },
+});